@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { classifyMexcError, retryActionFor } from './errors.js';
+
+describe('classifyMexcError', () => {
+  it('should classify by MEXC error code before HTTP status', () => {
+    expect(classifyMexcError({ message: 'Oversold', status: 400, code: 30004 })).toMatchObject({
+      kind: 'insufficient_balance',
+      code: 30004,
+      status: 400,
+    });
+    expect(
+      classifyMexcError({ message: 'Outside recvWindow', status: 400, code: 700003 }).kind
+    ).toBe('timestamp_out_of_window');
+  });
+
+  it('should carry the retry-after delay on rate limits', () => {
+    expect(classifyMexcError({ message: 'Too many', status: 429, retryAfterMs: 3000 })).toEqual({
+      kind: 'rate_limited',
+      message: 'Too many',
+      status: 429,
+      retryAfterMs: 3000,
+    });
+  });
+
+  it('should fall back to HTTP status and missing responses', () => {
+    expect(classifyMexcError({ message: 'Bad gateway', status: 502 }).kind).toBe('server');
+    expect(classifyMexcError({ message: 'Forbidden', status: 403 }).kind).toBe('unauthorized');
+    expect(classifyMexcError({ message: 'timeout' }).kind).toBe('network');
+    expect(classifyMexcError({ message: 'Odd', status: 400, code: 1 }).kind).toBe('unknown');
+  });
+});
+
+describe('retryActionFor', () => {
+  it('should retry transient errors, resync clock drift and abort the rest', () => {
+    expect(retryActionFor({ kind: 'network', message: 'timeout' })).toBe('retry');
+    expect(retryActionFor({ kind: 'not_filled', message: 'IOC expired' })).toBe('retry');
+    expect(retryActionFor({ kind: 'rate_limited', message: 'slow', retryAfterMs: 1000 })).toBe(
+      'retry'
+    );
+    expect(retryActionFor({ kind: 'timestamp_out_of_window', message: 'drift' })).toBe('resync');
+    expect(retryActionFor({ kind: 'insufficient_balance', message: 'broke' })).toBe('abort');
+    expect(retryActionFor({ kind: 'symbol_not_trading', message: 'closed' })).toBe('abort');
+  });
+});
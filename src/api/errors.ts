@@ -0,0 +1,149 @@
+/**
+ * Exchange error taxonomy
+ *
+ * Every failed exchange request is classified into one kind so trading code can decide
+ * whether to retry, resync the clock or give up without parsing error messages.
+ */
+
+/**
+ * Fields shared by every exchange error
+ */
+interface ExchangeErrorBase {
+  message: string;
+  code?: number; // Exchange error code from the response body
+  status?: number; // HTTP status
+}
+
+/**
+ * Classified exchange failure (discriminated on `kind`)
+ */
+export type ExchangeError =
+  | (ExchangeErrorBase & { kind: 'rate_limited'; retryAfterMs: number })
+  | (ExchangeErrorBase & {
+      kind:
+        | 'symbol_not_trading' // Unknown symbol, not open yet or trading suspended
+        | 'insufficient_balance'
+        | 'invalid_signature'
+        | 'timestamp_out_of_window' // Local clock drifted outside recvWindow
+        | 'unauthorized' // Bad API key, IP whitelist or missing permission
+        | 'invalid_order' // Quantity, notional, precision or parameter rejected
+        | 'order_not_found'
+        | 'not_filled' // IOC / FOK order expired without a fill (e.g. price above its limit)
+        | 'server' // Exchange-side 5xx
+        | 'network' // Timeout or no response
+        | 'unknown';
+    });
+
+export type ExchangeErrorKind = ExchangeError['kind'];
+
+/**
+ * What to do after a failed request
+ */
+export type RetryAction = 'retry' | 'resync' | 'abort';
+
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+/**
+ * MEXC spot v3 error codes by kind
+ */
+const MEXC_ERROR_CODES: Partial<Record<ExchangeErrorKind, number[]>> = {
+  symbol_not_trading: [10007, 30000, 30010, 30014, 30016, 30018, 30019, 30021, 730001],
+  insufficient_balance: [10101, 30004, 30005],
+  invalid_signature: [602, 700002],
+  timestamp_out_of_window: [700003],
+  unauthorized: [401, 10072, 700001, 700006, 700007, 30020],
+  invalid_order: [
+    30001, 30002, 30003, 30027, 30028, 30029, 30032, 30041, 30087, 30088, 700004, 700005, 700008,
+    730002,
+  ],
+  order_not_found: [-2011, -2013],
+  rate_limited: [429, 510],
+};
+
+/**
+ * Classify a failed MEXC request from its HTTP status and response body
+ */
+export function classifyMexcError(failure: {
+  message: string;
+  status?: number;
+  code?: number;
+  retryAfterMs?: number;
+}): ExchangeError {
+  const { message, status, code } = failure;
+  const base: ExchangeErrorBase = {
+    message,
+    ...(status !== undefined && { status }),
+    ...(code !== undefined && { code }),
+  };
+
+  if (code !== undefined) {
+    for (const [kind, codes] of Object.entries(MEXC_ERROR_CODES) as Array<
+      [ExchangeErrorKind, number[]]
+    >) {
+      if (!codes.includes(code)) continue;
+      if (kind === 'rate_limited') {
+        return { ...base, kind, retryAfterMs: failure.retryAfterMs ?? DEFAULT_RETRY_AFTER_MS };
+      }
+      return { ...base, kind };
+    }
+  }
+
+  if (status === 429 || status === 418) {
+    return {
+      ...base,
+      kind: 'rate_limited',
+      retryAfterMs: failure.retryAfterMs ?? DEFAULT_RETRY_AFTER_MS,
+    };
+  }
+  if (status === 401 || status === 403) return { ...base, kind: 'unauthorized' };
+  if (status !== undefined && status >= 500) return { ...base, kind: 'server' };
+  if (status === undefined) return { ...base, kind: 'network' };
+
+  return { ...base, kind: 'unknown' };
+}
+
+/**
+ * Build an exchange error without a response (local exchanges, client-side checks)
+ */
+export function exchangeError(
+  kind: Exclude<ExchangeErrorKind, 'rate_limited'>,
+  message: string
+): ExchangeError {
+  return { kind, message };
+}
+
+/**
+ * Retry decision for order placement and order queries
+ *
+ * Transient failures are retried, clock drift is fixed by resyncing first, and errors
+ * that would fail again unchanged (balance, auth, invalid order, symbol not trading)
+ * abort so the caller can react.
+ */
+export function retryActionFor(error: ExchangeError): RetryAction {
+  switch (error.kind) {
+    case 'timestamp_out_of_window':
+      return 'resync';
+    case 'rate_limited':
+    case 'server':
+    case 'network':
+    case 'order_not_found': // Order may not be visible yet right after placement
+    case 'not_filled': // The market may come within the limit price later
+    case 'unknown':
+      return 'retry';
+    case 'symbol_not_trading':
+    case 'insufficient_balance':
+    case 'invalid_signature':
+    case 'unauthorized':
+    case 'invalid_order':
+      return 'abort';
+  }
+}
+
+/**
+ * One-line description for logs
+ */
+export function describeExchangeError(error: ExchangeError): string {
+  const code = error.code !== undefined ? ` code=${error.code}` : '';
+  const status = error.status !== undefined ? ` status=${error.status}` : '';
+  return `${error.kind}: ${error.message}${code}${status}`;
+}
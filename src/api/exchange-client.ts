@@ -0,0 +1,124 @@
+import {
+  AccountInfo,
+  AccountTrade,
+  ExchangeInfo,
+  KlineData,
+  OrderRequest,
+  OrderResponse,
+  PriceTicker,
+  Result,
+  SymbolInfo,
+  SymbolRules,
+  TickerResponse,
+} from '../types.js';
+import { ExchangeError } from './errors.js';
+
+/**
+ * Exchange-agnostic spot client used by the trading logic
+ *
+ * Order calls return a Result with a classified ExchangeError so callers can decide
+ * whether to retry; other calls return null when a request fails.
+ * Trading code must depend on this interface rather than a concrete exchange.
+ */
+export interface ExchangeClient {
+  /**
+   * Test connectivity to the exchange
+   */
+  ping(): Promise<boolean>;
+
+  /**
+   * Sync local clock with the exchange server (no-op for local exchanges)
+   */
+  syncTime(): Promise<void>;
+
+  /**
+   * Get server time in milliseconds
+   */
+  getServerTime(): Promise<number | null>;
+
+  /**
+   * Get exchange information (all trading pairs)
+   */
+  getExchangeInfo(): Promise<ExchangeInfo | null>;
+
+  /**
+   * Get exchange information for one symbol (status and filters), refreshing its cached rules
+   * Null when the exchange does not list the symbol (yet) or the request fails
+   */
+  getSymbolInfo(symbol: string): Promise<SymbolInfo | null>;
+
+  /**
+   * Get trading rules (lot step, min/max quantity, min notional, price tick) for a symbol
+   */
+  getSymbolRules(symbol: string): Promise<SymbolRules | null>;
+
+  /**
+   * Get 24-hour ticker for a symbol
+   */
+  getTicker24h(symbol: string): Promise<TickerResponse | null>;
+
+  /**
+   * Get current price for a symbol
+   */
+  getPrice(symbol: string): Promise<string | null>;
+
+  /**
+   * Get current prices for all symbols in one request
+   */
+  getAllPrices(): Promise<PriceTicker[] | null>;
+
+  /**
+   * Get klines (candlestick) data for a symbol
+   */
+  getKlines(
+    symbol: string,
+    interval?: string,
+    limit?: number,
+    startTime?: number,
+    endTime?: number
+  ): Promise<KlineData[] | null>;
+
+  /**
+   * Place a new order
+   */
+  placeOrder(orderRequest: OrderRequest): Promise<Result<OrderResponse, ExchangeError>>;
+
+  /**
+   * Get order details
+   */
+  getOrder(symbol: string, orderId: string): Promise<Result<OrderResponse, ExchangeError>>;
+
+  /**
+   * Get order details by the client order ID it was placed with
+   */
+  getOrderByClientId(
+    symbol: string,
+    clientOrderId: string
+  ): Promise<Result<OrderResponse, ExchangeError>>;
+
+  /**
+   * Cancel an order
+   */
+  cancelOrder(symbol: string, orderId: string): Promise<boolean>;
+
+  /**
+   * Get account information (balances)
+   */
+  getAccount(): Promise<AccountInfo | null>;
+
+  /**
+   * Get free balance for a specific asset, or null if not found
+   */
+  getAccountBalance(asset: string): Promise<string | null>;
+
+  /**
+   * Get trade history (individual fills) for a symbol
+   */
+  getMyTrades(symbol: string, limit?: number): Promise<AccountTrade[] | null>;
+}
+
+/**
+ * Source of current prices used to fill simulated orders
+ * Any ExchangeClient satisfies this, which gives a live passthrough feed
+ */
+export type PriceFeed = Pick<ExchangeClient, 'getPrice'>;
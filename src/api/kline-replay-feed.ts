@@ -0,0 +1,58 @@
+import Decimal from 'decimal.js';
+import { Kline } from '../types.js';
+import { klinePricePath } from '../utils/klines.js';
+import { PriceFeed } from './exchange-client.js';
+
+/**
+ * Price feed that replays historical klines, one price point per getPrice call
+ *
+ * Each candle is expanded into open -> low/high -> close, so a stop placed
+ * inside a candle's range is hit the same way it would be in live trading.
+ */
+export class KlineReplayFeed implements PriceFeed {
+  private paths = new Map<string, Decimal[]>();
+  private cursors = new Map<string, number>();
+
+  constructor(klinesBySymbol: Record<string, Kline[]> = {}) {
+    for (const [symbol, klines] of Object.entries(klinesBySymbol)) {
+      this.load(symbol, klines);
+    }
+  }
+
+  /**
+   * Load (or replace) the klines to replay for a symbol
+   */
+  load(symbol: string, klines: Kline[]): void {
+    const sorted = [...klines].sort((a, b) => a.openTime - b.openTime);
+    this.paths.set(
+      symbol,
+      sorted.flatMap((kline) => klinePricePath(kline))
+    );
+    this.cursors.set(symbol, 0);
+  }
+
+  /**
+   * Return the next replayed price; repeats the last price once exhausted
+   */
+  getPrice(symbol: string): Promise<string | null> {
+    const path = this.paths.get(symbol);
+    if (!path || path.length === 0) {
+      return Promise.resolve(null);
+    }
+
+    const cursor = this.cursors.get(symbol) ?? 0;
+    const price = path[Math.min(cursor, path.length - 1)];
+    this.cursors.set(symbol, cursor + 1);
+
+    return Promise.resolve(price ? price.toString() : null);
+  }
+
+  /**
+   * Whether every price point for the symbol has been replayed
+   */
+  isExhausted(symbol: string): boolean {
+    const path = this.paths.get(symbol);
+    if (!path) return true;
+    return (this.cursors.get(symbol) ?? 0) >= path.length;
+  }
+}
@@ -0,0 +1,149 @@
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { bookTickerChannel, dealsChannel } from './market-stream.js';
+
+/**
+ * Local stand-in for the MEXC market data WebSocket
+ *
+ * Speaks enough of the spot v3 protocol (SUBSCRIPTION / UNSUBSCRIPTION / PING) to
+ * exercise MexcMarketStream in tests or against a local bot (MEXC_WS_URL=ws://...).
+ * Prices are pushed manually with publishDeal / publishBookTicker.
+ */
+export class LocalMarketServer {
+  private server: WebSocketServer | null = null;
+  private clientSubscriptions = new Map<WebSocket, Set<string>>();
+  private pings = 0;
+
+  /**
+   * Reply to PINGs with PONG (disable to simulate a dead connection)
+   */
+  respondToPings = true;
+
+  /**
+   * Start listening on loopback; returns the ws:// URL (port 0 picks a free port)
+   */
+  async start(port: number = 0): Promise<string> {
+    const server = new WebSocketServer({ host: '127.0.0.1', port });
+    this.server = server;
+
+    server.on('connection', (socket) => {
+      this.clientSubscriptions.set(socket, new Set());
+      socket.on('message', (data: WebSocket.RawData) => this.handleMessage(socket, String(data)));
+      socket.on('close', () => this.clientSubscriptions.delete(socket));
+    });
+
+    await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+    return `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stop the server and disconnect all clients
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.dropConnections();
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Abruptly disconnect all clients (simulates a network drop)
+   */
+  dropConnections(): void {
+    for (const socket of this.clientSubscriptions.keys()) {
+      socket.terminate();
+    }
+    this.clientSubscriptions.clear();
+  }
+
+  /**
+   * Number of connected clients
+   */
+  get clientCount(): number {
+    return this.clientSubscriptions.size;
+  }
+
+  /**
+   * PINGs received since start
+   */
+  get pingCount(): number {
+    return this.pings;
+  }
+
+  /**
+   * Channels subscribed across all clients
+   */
+  get subscriptions(): string[] {
+    const channels = new Set<string>();
+    for (const subscribed of this.clientSubscriptions.values()) {
+      subscribed.forEach((channel) => channels.add(channel));
+    }
+    return Array.from(channels);
+  }
+
+  /**
+   * Push a trade to clients subscribed to the symbol's deals channel
+   */
+  publishDeal(symbol: string, price: string, time: number = Date.now()): void {
+    const channel = dealsChannel(symbol);
+    this.publish(channel, {
+      c: channel,
+      d: { deals: [{ S: 1, p: price, t: time, v: '1' }], e: 'spot@public.deals.v3.api' },
+      s: symbol,
+      t: time,
+    });
+  }
+
+  /**
+   * Push a best bid/ask update to clients subscribed to the symbol's bookTicker channel
+   */
+  publishBookTicker(symbol: string, bid: string, ask: string, time: number = Date.now()): void {
+    const channel = bookTickerChannel(symbol);
+    this.publish(channel, {
+      c: channel,
+      d: { A: '1', B: '1', a: ask, b: bid },
+      s: symbol,
+      t: time,
+    });
+  }
+
+  private publish(channel: string, message: object): void {
+    const payload = JSON.stringify(message);
+    for (const [socket, subscribed] of this.clientSubscriptions) {
+      if (subscribed.has(channel) && socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      }
+    }
+  }
+
+  private handleMessage(socket: WebSocket, raw: string): void {
+    let request: { method?: string; params?: string[] };
+    try {
+      request = JSON.parse(raw) as { method?: string; params?: string[] };
+    } catch {
+      return;
+    }
+
+    const subscribed = this.clientSubscriptions.get(socket);
+    if (!subscribed) return;
+
+    switch (request.method) {
+      case 'SUBSCRIPTION':
+        request.params?.forEach((channel) => subscribed.add(channel));
+        socket.send(JSON.stringify({ id: 0, code: 0, msg: request.params?.join(',') ?? '' }));
+        break;
+      case 'UNSUBSCRIPTION':
+        request.params?.forEach((channel) => subscribed.delete(channel));
+        socket.send(JSON.stringify({ id: 0, code: 0, msg: request.params?.join(',') ?? '' }));
+        break;
+      case 'PING':
+        this.pings++;
+        if (this.respondToPings) {
+          socket.send(JSON.stringify({ id: 0, code: 0, msg: 'PONG' }));
+        }
+        break;
+    }
+  }
+}
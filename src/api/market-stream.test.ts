@@ -0,0 +1,99 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { MexcMarketStream, dealsChannel, bookTickerChannel } from './market-stream.js';
+import { LocalMarketServer } from './local-market-server.js';
+import type { PriceTick } from '../types.js';
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+/**
+ * Poll until a condition holds (real sockets, so no fake timers)
+ */
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('MexcMarketStream', () => {
+  let server: LocalMarketServer;
+  let stream: MexcMarketStream;
+  let url: string;
+
+  beforeEach(async () => {
+    server = new LocalMarketServer();
+    url = await server.start();
+    stream = new MexcMarketStream(url, { pingIntervalMs: 100, reconnectDelayMs: 20 });
+  });
+
+  afterEach(async () => {
+    stream.close();
+    await server.stop();
+  });
+
+  it('should subscribe to deals and bookTicker and emit ticks', async () => {
+    const ticks: PriceTick[] = [];
+    stream.subscribe('NEWUSDT', (tick) => ticks.push(tick));
+
+    await waitFor(() => server.subscriptions.length === 2);
+    expect(server.subscriptions).toEqual(
+      expect.arrayContaining([dealsChannel('NEWUSDT'), bookTickerChannel('NEWUSDT')])
+    );
+
+    server.publishDeal('NEWUSDT', '1.25');
+    server.publishBookTicker('NEWUSDT', '1.24', '1.26');
+    server.publishDeal('OTHERUSDT', '9');
+
+    await waitFor(() => ticks.length === 2);
+    expect(ticks.map((tick) => [tick.source, tick.price.toString()])).toEqual([
+      ['deal', '1.25'],
+      ['bookTicker', '1.24'],
+    ]);
+    expect(stream.isConnected()).toBe(true);
+  });
+
+  it('should reconnect and resubscribe after a dropped connection', async () => {
+    const ticks: PriceTick[] = [];
+    stream.subscribe('NEWUSDT', (tick) => ticks.push(tick));
+    await waitFor(() => server.subscriptions.length === 2);
+
+    server.dropConnections();
+    await waitFor(() => !stream.isConnected());
+    await waitFor(() => stream.isConnected() && server.subscriptions.length === 2);
+
+    server.publishDeal('NEWUSDT', '2');
+    await waitFor(() => ticks.length === 1);
+    expect(ticks[0]?.price.toString()).toBe('2');
+  });
+
+  it('should send heartbeats and drop the connection when PONGs stop', async () => {
+    stream.subscribe('NEWUSDT', () => {});
+    await waitFor(() => server.pingCount >= 2);
+    expect(stream.isConnected()).toBe(true);
+
+    server.respondToPings = false;
+    await waitFor(() => !stream.isConnected());
+
+    // Reconnects once the server answers again
+    server.respondToPings = true;
+    await waitFor(() => stream.isConnected());
+  });
+
+  it('should unsubscribe and disconnect when the last listener leaves', async () => {
+    const unsubscribe = stream.subscribe('NEWUSDT', () => {});
+    await waitFor(() => server.clientCount === 1 && server.subscriptions.length === 2);
+
+    unsubscribe();
+    await waitFor(() => server.clientCount === 0);
+    expect(stream.isConnected()).toBe(false);
+  });
+});
@@ -0,0 +1,275 @@
+import Decimal from 'decimal.js';
+import WebSocket from 'ws';
+import { PriceTick } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Callback for streamed price ticks
+ */
+export type TickListener = (tick: PriceTick) => void;
+
+/**
+ * Push-based price source
+ */
+export interface PriceStream {
+  /**
+   * Receive ticks for a symbol; returns a function that removes the listener
+   */
+  subscribe(symbol: string, listener: TickListener): () => void;
+  isConnected(): boolean;
+}
+
+/**
+ * Connection tuning for the market stream
+ */
+export interface MarketStreamOptions {
+  pingIntervalMs?: number; // Heartbeat interval; connection is dropped after two silent intervals
+  reconnectDelayMs?: number; // First reconnect delay, doubled on each failed attempt
+  maxReconnectDelayMs?: number;
+}
+
+/**
+ * Push message from the MEXC spot v3 WebSocket API
+ */
+interface StreamMessage {
+  c?: string; // Channel
+  s?: string; // Symbol
+  t?: number; // Event time
+  d?: {
+    deals?: Array<{ p: string; v: string; S: number; t: number }>;
+    b?: string; // Best bid (bookTicker)
+    a?: string; // Best ask (bookTicker)
+  };
+  msg?: string;
+}
+
+/**
+ * MEXC spot v3 channel for public trades
+ */
+export function dealsChannel(symbol: string): string {
+  return `spot@public.deals.v3.api@${symbol}`;
+}
+
+/**
+ * MEXC spot v3 channel for best bid/ask
+ */
+export function bookTickerChannel(symbol: string): string {
+  return `spot@public.bookTicker.v3.api@${symbol}`;
+}
+
+/**
+ * MEXC market data WebSocket client
+ *
+ * Connects on the first subscription, resubscribes all symbols after a reconnect and
+ * sends PINGs to keep the connection alive (MEXC drops silent connections after 60s).
+ * Each symbol is subscribed to deals (last trade price) and bookTicker (best bid, the
+ * price a market sell would hit). MEXC allows up to 30 channels per connection.
+ */
+export class MexcMarketStream implements PriceStream {
+  private socket: WebSocket | null = null;
+  private listeners = new Map<string, Set<TickListener>>();
+  private connected = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private lastMessageAt = 0;
+  private readonly pingIntervalMs: number;
+  private readonly reconnectDelayMs: number;
+  private readonly maxReconnectDelayMs: number;
+
+  constructor(
+    private readonly url: string,
+    options: MarketStreamOptions = {}
+  ) {
+    this.pingIntervalMs = options.pingIntervalMs ?? 20000;
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30000;
+  }
+
+  /**
+   * Receive ticks for a symbol
+   */
+  subscribe(symbol: string, listener: TickListener): () => void {
+    let symbolListeners = this.listeners.get(symbol);
+    if (!symbolListeners) {
+      symbolListeners = new Set();
+      this.listeners.set(symbol, symbolListeners);
+      this.send('SUBSCRIPTION', this.channelsFor(symbol));
+      logger.debug(`Market stream subscribed to ${symbol}`);
+    }
+    symbolListeners.add(listener);
+
+    if (!this.socket && !this.reconnectTimer) {
+      this.open();
+    }
+
+    return () => {
+      const current = this.listeners.get(symbol);
+      if (!current) return;
+
+      current.delete(listener);
+      if (current.size > 0) return;
+
+      this.listeners.delete(symbol);
+      this.send('UNSUBSCRIPTION', this.channelsFor(symbol));
+      logger.debug(`Market stream unsubscribed from ${symbol}`);
+
+      // Nothing left to stream: close until the next subscription
+      if (this.listeners.size === 0) {
+        this.close();
+      }
+    };
+  }
+
+  /**
+   * Whether the socket is open and ticks are flowing
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  close(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopHeartbeat();
+    this.connected = false;
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.removeAllListeners();
+      socket.on('error', () => {}); // Ignore errors from a socket we are abandoning
+      socket.terminate();
+    }
+  }
+
+  private channelsFor(symbol: string): string[] {
+    return [dealsChannel(symbol), bookTickerChannel(symbol)];
+  }
+
+  private open(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.connected = true;
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      logger.info(`Market stream connected (${this.url})`);
+
+      // Resubscribe everything after a (re)connect
+      const channels = Array.from(this.listeners.keys()).flatMap((symbol) =>
+        this.channelsFor(symbol)
+      );
+      if (channels.length > 0) {
+        this.send('SUBSCRIPTION', channels);
+      }
+
+      this.startHeartbeat();
+    });
+
+    socket.on('message', (data: WebSocket.RawData) => {
+      this.lastMessageAt = Date.now();
+      this.handleMessage(String(data));
+    });
+
+    socket.on('error', (error: Error) => {
+      logger.warn(`Market stream error: ${error.message}`);
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.handleDisconnect();
+    });
+  }
+
+  private handleDisconnect(): void {
+    this.socket = null;
+    this.connected = false;
+    this.stopHeartbeat();
+
+    if (this.listeners.size === 0) return;
+
+    const delay = Math.min(
+      this.reconnectDelayMs * Math.pow(2, this.reconnectAttempts),
+      this.maxReconnectDelayMs
+    );
+    this.reconnectAttempts++;
+    logger.warn(`Market stream disconnected, reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > this.pingIntervalMs * 2) {
+        logger.warn('Market stream heartbeat missed, dropping connection');
+        this.socket?.terminate();
+        return;
+      }
+      this.sendJson({ method: 'PING' });
+    }, this.pingIntervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private send(method: 'SUBSCRIPTION' | 'UNSUBSCRIPTION', params: string[]): void {
+    // Subscriptions made while disconnected are sent on the next open
+    this.sendJson({ method, params });
+  }
+
+  private sendJson(payload: object): void {
+    if (this.socket && this.connected) {
+      this.socket.send(JSON.stringify(payload));
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    let message: StreamMessage;
+    try {
+      message = JSON.parse(raw) as StreamMessage;
+    } catch {
+      logger.debug(`Ignoring non-JSON market stream message: ${raw}`);
+      return;
+    }
+
+    // Subscription acks and PONGs carry no channel
+    if (!message.c || !message.d) return;
+
+    const symbol = message.s ?? message.c.split('@').pop() ?? '';
+    const time = message.t ?? Date.now();
+
+    if (message.c.startsWith('spot@public.deals.v3.api') && message.d.deals) {
+      const deals = [...message.d.deals].sort((a, b) => a.t - b.t);
+      for (const deal of deals) {
+        this.emit({ symbol, price: new Decimal(deal.p), time: deal.t, source: 'deal' });
+      }
+    } else if (message.c.startsWith('spot@public.bookTicker.v3.api') && message.d.b) {
+      this.emit({ symbol, price: new Decimal(message.d.b), time, source: 'bookTicker' });
+    }
+  }
+
+  private emit(tick: PriceTick): void {
+    for (const listener of this.listeners.get(tick.symbol) ?? []) {
+      try {
+        listener(tick);
+      } catch (error) {
+        logger.error(`Market stream listener for ${tick.symbol} failed: ${String(error)}`);
+      }
+    }
+  }
+}
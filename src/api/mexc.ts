@@ -1,8 +1,47 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import crypto from 'crypto';
-import { MexcConfig, ExchangeInfo, TickerResponse, OrderRequest, OrderResponse } from '../types.js';
+import http from 'http';
+import https from 'https';
+import {
+  MexcConfig,
+  ExchangeInfo,
+  TickerResponse,
+  OrderRequest,
+  OrderResponse,
+  PriceTicker,
+  KlineData,
+  AccountInfo,
+  AccountTrade,
+  Result,
+  SymbolInfo,
+  SymbolRules,
+} from '../types.js';
+import { ExchangeClient } from './exchange-client.js';
+import {
+  classifyMexcError,
+  describeExchangeError,
+  exchangeError,
+  ExchangeError,
+} from './errors.js';
+import { parseSymbolRules } from './symbol-rules.js';
 import { logger } from '../utils/logger.js';
 
+/**
+ * MEXC order type for a request
+ * MEXC has no timeInForce parameter: IOC and FOK limit orders are order types of their own
+ */
+function mexcOrderType(request: OrderRequest): string {
+  if (request.type !== 'LIMIT') return request.type;
+  switch (request.timeInForce) {
+    case 'IOC':
+      return 'IMMEDIATE_OR_CANCEL';
+    case 'FOK':
+      return 'FILL_OR_KILL';
+    default:
+      return 'LIMIT';
+  }
+}
+
 /**
  * Rate limiter using sliding window algorithm
  */
@@ -40,20 +79,23 @@ class RateLimiter {
 /**
  * MEXC API client with authentication, rate limiting, and error handling
  */
-export class MexcAPI {
+export class MexcAPI implements ExchangeClient {
   private readonly config: MexcConfig;
   private readonly client: AxiosInstance;
   private readonly rateLimiter: RateLimiter;
-  private symbolPrecisionCache = new Map<string, number>();
+  private symbolRulesCache = new Map<string, SymbolRules>();
   private timeOffset = 0; // Difference: serverTime - localTime
 
   constructor(config: MexcConfig) {
     this.config = config;
     this.rateLimiter = new RateLimiter(config.rateLimit);
 
+    // Keep-alive sockets spare the TCP and TLS handshakes on time-critical orders
     this.client = axios.create({
       baseURL: config.baseUrl,
       timeout: config.timeout,
+      httpAgent: new http.Agent({ keepAlive: true }),
+      httpsAgent: new https.Agent({ keepAlive: true }),
       headers: {
         'Content-Type': 'application/json',
       },
@@ -100,13 +142,14 @@ export class MexcAPI {
 
   /**
    * Make an authenticated API request
+   * Failures are classified into an ExchangeError instead of being swallowed
    */
   private async request<T>(
     method: 'GET' | 'POST' | 'DELETE',
     endpoint: string,
     params: Record<string, string | number | undefined> = {},
     authenticated = false
-  ): Promise<T | null> {
+  ): Promise<Result<T, ExchangeError>> {
     await this.rateLimiter.acquire();
 
     try {
@@ -140,26 +183,57 @@ export class MexcAPI {
         headers,
       });
 
-      return response.data;
+      return { success: true, data: response.data };
     } catch (error) {
       if (error instanceof AxiosError) {
-        logger.error(`MEXC API error: ${error.message}`, {
+        const exchangeErr = this.toExchangeError(error);
+        logger.error(`MEXC API error: ${describeExchangeError(exchangeErr)}`, {
           endpoint,
           status: error.response?.status,
           data: error.response?.data,
         });
-      } else {
-        logger.error(`Unexpected error: ${String(error)}`);
+        return { success: false, error: exchangeErr };
       }
-      return null;
+
+      logger.error(`Unexpected error: ${String(error)}`);
+      return { success: false, error: exchangeError('unknown', String(error)) };
     }
   }
 
+  /**
+   * Make a request where the caller only needs the data (null on any failure)
+   */
+  private async requestOrNull<T>(
+    method: 'GET' | 'POST' | 'DELETE',
+    endpoint: string,
+    params: Record<string, string | number | undefined> = {},
+    authenticated = false
+  ): Promise<T | null> {
+    const result = await this.request<T>(method, endpoint, params, authenticated);
+    return result.success ? result.data : null;
+  }
+
+  /**
+   * Classify an axios failure using the MEXC error body and HTTP status
+   */
+  private toExchangeError(error: AxiosError): ExchangeError {
+    const body = error.response?.data as { code?: number | string; msg?: string } | undefined;
+    const code = body?.code !== undefined ? Number(body.code) : undefined;
+    const retryAfter = Number(error.response?.headers['retry-after']);
+
+    return classifyMexcError({
+      message: body?.msg ?? error.message,
+      ...(error.response && { status: error.response.status }),
+      ...(code !== undefined && !Number.isNaN(code) && { code }),
+      ...(retryAfter > 0 && { retryAfterMs: retryAfter * 1000 }),
+    });
+  }
+
   /**
    * Test connectivity to MEXC API
    */
   async ping(): Promise<boolean> {
-    const response = await this.request<Record<string, never>>('GET', '/api/v3/ping');
+    const response = await this.requestOrNull<Record<string, never>>('GET', '/api/v3/ping');
     return response !== null;
   }
 
@@ -167,7 +241,7 @@ export class MexcAPI {
    * Get server time
    */
   async getServerTime(): Promise<number | null> {
-    const response = await this.request<{ serverTime: number }>('GET', '/api/v3/time');
+    const response = await this.requestOrNull<{ serverTime: number }>('GET', '/api/v3/time');
     return response?.serverTime ?? null;
   }
 
@@ -175,49 +249,54 @@ export class MexcAPI {
    * Get exchange information (all trading pairs)
    */
   async getExchangeInfo(): Promise<ExchangeInfo | null> {
-    return this.request<ExchangeInfo>('GET', '/api/v3/exchangeInfo');
+    return this.requestOrNull<ExchangeInfo>('GET', '/api/v3/exchangeInfo');
   }
 
   /**
-   * Get base asset precision for a symbol (cached)
+   * Get exchange information for one symbol (much smaller than the full exchange info)
    */
-  async getSymbolPrecision(symbol: string): Promise<number | null> {
-    // Check cache first
-    const cached = this.symbolPrecisionCache.get(symbol);
-    if (cached !== undefined) {
-      return cached;
-    }
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo | null> {
+    const exchangeInfo = await this.requestOrNull<ExchangeInfo>('GET', '/api/v3/exchangeInfo', {
+      symbol,
+    });
+    const info = exchangeInfo?.symbols.find((entry) => entry.symbol === symbol);
+    if (!info) return null;
 
-    // Fetch exchange info
-    const exchangeInfo = await this.getExchangeInfo();
-    if (!exchangeInfo) {
-      logger.error(`Failed to fetch exchange info for precision lookup`);
-      return null;
+    this.symbolRulesCache.set(symbol, parseSymbolRules(info));
+    return info;
+  }
+
+  /**
+   * Get trading rules for a symbol (cached)
+   * A miss fetches that symbol's exchange info only, so lookups of symbols that are not listed
+   * yet stay cheap
+   */
+  async getSymbolRules(symbol: string): Promise<SymbolRules | null> {
+    const cached = this.symbolRulesCache.get(symbol);
+    if (cached) {
+      return cached;
     }
 
-    // Find symbol and cache precision
-    const symbolInfo = exchangeInfo.symbols.find((s) => s.symbol === symbol);
-    if (!symbolInfo) {
-      logger.error(`Symbol ${symbol} not found in exchange info`);
+    // getSymbolInfo caches the rules of a symbol it finds
+    if (!(await this.getSymbolInfo(symbol))) {
+      logger.error(`No exchange info for ${symbol}, symbol rules unavailable`);
       return null;
     }
-
-    this.symbolPrecisionCache.set(symbol, symbolInfo.baseAssetPrecision);
-    return symbolInfo.baseAssetPrecision;
+    return this.symbolRulesCache.get(symbol) ?? null;
   }
 
   /**
    * Get 24-hour ticker for a symbol
    */
   async getTicker24h(symbol: string): Promise<TickerResponse | null> {
-    return this.request<TickerResponse>('GET', '/api/v3/ticker/24hr', { symbol });
+    return this.requestOrNull<TickerResponse>('GET', '/api/v3/ticker/24hr', { symbol });
   }
 
   /**
    * Get current price for a symbol
    */
   async getPrice(symbol: string): Promise<string | null> {
-    const response = await this.request<{ symbol: string; price: string }>(
+    const response = await this.requestOrNull<{ symbol: string; price: string }>(
       'GET',
       '/api/v3/ticker/price',
       { symbol }
@@ -225,6 +304,13 @@ export class MexcAPI {
     return response?.price ?? null;
   }
 
+  /**
+   * Get current prices for all symbols (one request, used to batch price polling)
+   */
+  async getAllPrices(): Promise<PriceTicker[] | null> {
+    return this.requestOrNull<PriceTicker[]>('GET', '/api/v3/ticker/price');
+  }
+
   /**
    * Get klines (candlestick) data for a symbol
    * @param symbol - Trading pair symbol
@@ -239,7 +325,7 @@ export class MexcAPI {
     limit: number = 500,
     startTime?: number,
     endTime?: number
-  ): Promise<Array<[number, string, string, string, string, string, number, string]> | null> {
+  ): Promise<KlineData[] | null> {
     const params: Record<string, string | number> = {
       symbol,
       interval,
@@ -252,11 +338,7 @@ export class MexcAPI {
     // DEBUG: Log what we're sending
     console.log(`🔍 getKlines params:`, params);
 
-    const result = await this.request<Array<[number, string, string, string, string, string, number, string]>>(
-      'GET',
-      '/api/v3/klines',
-      params
-    );
+    const result = await this.requestOrNull<KlineData[]>('GET', '/api/v3/klines', params);
 
     // DEBUG: Log what we received
     if (result && result.length > 0) {
@@ -272,14 +354,15 @@ export class MexcAPI {
   /**
    * Place a new order
    */
-  async placeOrder(orderRequest: OrderRequest): Promise<OrderResponse | null> {
+  async placeOrder(orderRequest: OrderRequest): Promise<Result<OrderResponse, ExchangeError>> {
     const params: Record<string, string | number | undefined> = {
       symbol: orderRequest.symbol,
       side: orderRequest.side,
-      type: orderRequest.type,
+      type: mexcOrderType(orderRequest),
       quantity: orderRequest.quantity,
       quoteOrderQty: orderRequest.quoteOrderQty,
       price: orderRequest.price,
+      newClientOrderId: orderRequest.newClientOrderId,
     };
 
     return this.request<OrderResponse>('POST', '/api/v3/order', params, true);
@@ -288,15 +371,30 @@ export class MexcAPI {
   /**
    * Get order details
    */
-  async getOrder(symbol: string, orderId: string): Promise<OrderResponse | null> {
+  async getOrder(symbol: string, orderId: string): Promise<Result<OrderResponse, ExchangeError>> {
     return this.request<OrderResponse>('GET', '/api/v3/order', { symbol, orderId }, true);
   }
 
+  /**
+   * Get order details by client order ID
+   */
+  async getOrderByClientId(
+    symbol: string,
+    clientOrderId: string
+  ): Promise<Result<OrderResponse, ExchangeError>> {
+    return this.request<OrderResponse>(
+      'GET',
+      '/api/v3/order',
+      { symbol, origClientOrderId: clientOrderId },
+      true
+    );
+  }
+
   /**
    * Cancel an order
    */
   async cancelOrder(symbol: string, orderId: string): Promise<boolean> {
-    const response = await this.request<{ symbol: string; orderId: string }>(
+    const response = await this.requestOrNull<{ symbol: string; orderId: string }>(
       'DELETE',
       '/api/v3/order',
       { symbol, orderId },
@@ -308,8 +406,8 @@ export class MexcAPI {
   /**
    * Get account information
    */
-  async getAccount(): Promise<unknown> {
-    return this.request('GET', '/api/v3/account', {}, true);
+  async getAccount(): Promise<AccountInfo | null> {
+    return this.requestOrNull<AccountInfo>('GET', '/api/v3/account', {}, true);
   }
 
   /**
@@ -318,13 +416,7 @@ export class MexcAPI {
    * @returns Available balance as string, or null if not found
    */
   async getAccountBalance(asset: string): Promise<string | null> {
-    const account = await this.request<{
-      balances: Array<{
-        asset: string;
-        free: string;
-        locked: string;
-      }>;
-    }>('GET', '/api/v3/account', {}, true);
+    const account = await this.getAccount();
 
     if (!account) {
       logger.error(`Failed to fetch account info for balance lookup`);
@@ -344,21 +436,8 @@ export class MexcAPI {
   /**
    * Get trade history for a symbol
    */
-  async getMyTrades(symbol: string, limit: number = 500): Promise<Array<{
-    symbol: string;
-    id: string;
-    orderId: string;
-    price: string;
-    qty: string;
-    quoteQty: string;
-    commission: string;
-    commissionAsset: string;
-    time: number;
-    isBuyer: boolean;
-    isMaker: boolean;
-    isBestMatch: boolean;
-  }> | null> {
-    return this.request('GET', '/api/v3/myTrades', { symbol, limit }, true);
+  async getMyTrades(symbol: string, limit: number = 500): Promise<AccountTrade[] | null> {
+    return this.requestOrNull<AccountTrade[]>('GET', '/api/v3/myTrades', { symbol, limit }, true);
   }
 
   /**
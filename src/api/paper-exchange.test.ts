@@ -0,0 +1,359 @@
+import Decimal from 'decimal.js';
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { PaperExchange } from './paper-exchange.js';
+import { KlineReplayFeed } from './kline-replay-feed.js';
+import type { PriceFeed } from './exchange-client.js';
+import type { Kline, PaperConfig } from '../types.js';
+
+// Mock persistence utilities
+jest.mock('../utils/persistence.js', () => ({
+  loadJson: jest.fn<() => Promise<unknown>>().mockResolvedValue({ balances: {} }),
+  saveJson: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+}));
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function kline(openTime: number, open: number, high: number, low: number, close: number): Kline {
+  return {
+    openTime,
+    open: new Decimal(open),
+    high: new Decimal(high),
+    low: new Decimal(low),
+    close: new Decimal(close),
+    volume: new Decimal(0),
+    closeTime: openTime + 59999,
+    quoteVolume: new Decimal(0),
+  };
+}
+
+describe('PaperExchange', () => {
+  let price: string | null;
+  let feed: PriceFeed;
+  let config: PaperConfig;
+  let exchange: PaperExchange;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    price = '100';
+    feed = { getPrice: () => Promise.resolve(price) };
+    config = {
+      mode: 'paper',
+      initialBalance: new Decimal(1000),
+      feePct: new Decimal('0.1'),
+      slippagePct: new Decimal(1),
+    };
+
+    exchange = new PaperExchange(config, 'USDT', feed, undefined, false);
+  });
+
+  describe('Market Buys', () => {
+    it('should fill quoteOrderQty buys with slippage and charge fee in base asset', async () => {
+      const order = await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'BUY',
+        type: 'MARKET',
+        quoteOrderQty: '101',
+        timestamp: Date.now(),
+      });
+
+      expect(order).toMatchObject({
+        success: true,
+        data: {
+          status: 'FILLED',
+          price: '101', // 100 + 1% slippage
+          executedQty: '1',
+          cummulativeQuoteQty: '101',
+        },
+      });
+
+      // Balance is net of the 0.1% fee, like MEXC
+      expect(exchange.getBalance('TEST').toString()).toBe('0.999');
+      expect(exchange.getBalance('USDT').toString()).toBe('899');
+    });
+
+    it('should reject buys exceeding the quote balance', async () => {
+      const order = await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'BUY',
+        type: 'MARKET',
+        quoteOrderQty: '5000',
+        timestamp: Date.now(),
+      });
+
+      expect(order).toMatchObject({ success: false, error: { kind: 'insufficient_balance' } });
+      expect(exchange.getBalance('USDT').toString()).toBe('1000');
+    });
+
+    it('should reject orders when the feed has no price', async () => {
+      price = null;
+
+      const order = await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'BUY',
+        type: 'MARKET',
+        quoteOrderQty: '10',
+        timestamp: Date.now(),
+      });
+
+      expect(order).toMatchObject({ success: false, error: { kind: 'symbol_not_trading' } });
+    });
+
+    it('should reject unsupported order types', async () => {
+      const order = await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'BUY',
+        type: 'LIMIT_MAKER',
+        quantity: '1',
+        price: '90',
+        timestamp: Date.now(),
+      });
+
+      expect(order).toMatchObject({ success: false, error: { kind: 'invalid_order' } });
+    });
+  });
+
+  describe('Limit Orders', () => {
+    it('should fill marketable limit buys at the fill price', async () => {
+      const order = await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'BUY',
+        type: 'LIMIT',
+        timeInForce: 'IOC',
+        quantity: '2',
+        price: '105',
+        timestamp: Date.now(),
+      });
+
+      expect(order).toMatchObject({
+        success: true,
+        data: { status: 'FILLED', price: '101', executedQty: '2', cummulativeQuoteQty: '202' },
+      });
+      expect(exchange.getBalance('USDT').toString()).toBe('798');
+    });
+
+    it('should expire IOC orders priced below the market without filling', async () => {
+      const order = await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'BUY',
+        type: 'LIMIT',
+        timeInForce: 'IOC',
+        quantity: '2',
+        price: '100',
+        newClientOrderId: 'ioc-1',
+        timestamp: Date.now(),
+      });
+
+      expect(order).toMatchObject({
+        success: true,
+        data: { status: 'CANCELED', executedQty: '0', cummulativeQuoteQty: '0' },
+      });
+      expect(exchange.getBalance('USDT').toString()).toBe('1000');
+
+      const found = await exchange.getOrderByClientId('TESTUSDT', 'ioc-1');
+      expect(found).toMatchObject({ success: true, data: { status: 'CANCELED' } });
+    });
+
+    it('should reject GTC limit orders that cannot fill immediately', async () => {
+      const order = await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'SELL',
+        type: 'LIMIT',
+        quantity: '1',
+        price: '100',
+        timestamp: Date.now(),
+      });
+
+      expect(order).toMatchObject({ success: false, error: { kind: 'invalid_order' } });
+    });
+
+    it('should require a quantity for limit orders', async () => {
+      const order = await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'BUY',
+        type: 'LIMIT',
+        quoteOrderQty: '100',
+        price: '105',
+        timestamp: Date.now(),
+      });
+
+      expect(order).toMatchObject({ success: false, error: { kind: 'invalid_order' } });
+    });
+  });
+
+  describe('Market Sells', () => {
+    it('should credit quote proceeds minus fee', async () => {
+      await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'BUY',
+        type: 'MARKET',
+        quoteOrderQty: '101',
+        timestamp: Date.now(),
+      });
+
+      price = '200';
+      const order = await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'SELL',
+        type: 'MARKET',
+        quantity: '0.999',
+        timestamp: Date.now(),
+      });
+
+      expect(order).toMatchObject({
+        success: true,
+        data: { price: '198', cummulativeQuoteQty: '197.802' }, // 200 - 1% slippage
+      });
+
+      // 899 + 197.802 - 0.1% fee (0.197802)
+      expect(exchange.getBalance('USDT').toString()).toBe('1096.604198');
+      expect(exchange.getBalance('TEST').isZero()).toBe(true);
+    });
+
+    it('should reject sells exceeding the base balance', async () => {
+      const order = await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'SELL',
+        type: 'MARKET',
+        quantity: '1',
+        timestamp: Date.now(),
+      });
+
+      expect(order).toMatchObject({ success: false, error: { kind: 'insufficient_balance' } });
+    });
+  });
+
+  describe('Account Queries', () => {
+    it('should return placed orders and their fills', async () => {
+      const order = await exchange.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'BUY',
+        type: 'MARKET',
+        quoteOrderQty: '50.5',
+        timestamp: Date.now(),
+      });
+
+      const orderId = order.success ? order.data.orderId : '';
+      const fetched = await exchange.getOrder('TESTUSDT', orderId);
+      expect(fetched).toMatchObject({ success: true, data: { executedQty: '0.5' } });
+
+      const missing = await exchange.getOrder('TESTUSDT', 'unknown');
+      expect(missing).toMatchObject({ success: false, error: { kind: 'order_not_found' } });
+
+      const fills = await exchange.getMyTrades('TESTUSDT');
+      expect(fills).toHaveLength(1);
+      expect(fills?.[0]?.commission).toBe('0.0005');
+      expect(fills?.[0]?.commissionAsset).toBe('TEST');
+    });
+
+    it('should find orders by client order ID and reject duplicates', async () => {
+      const request = {
+        symbol: 'TESTUSDT',
+        side: 'BUY' as const,
+        type: 'MARKET' as const,
+        quoteOrderQty: '50.5',
+        newClientOrderId: 'lbb-TESTUSDT-1',
+        timestamp: Date.now(),
+      };
+
+      const order = await exchange.placeOrder(request);
+      expect(order).toMatchObject({ success: true, data: { clientOrderId: 'lbb-TESTUSDT-1' } });
+
+      const fetched = await exchange.getOrderByClientId('TESTUSDT', 'lbb-TESTUSDT-1');
+      expect(fetched).toMatchObject({ success: true, data: { executedQty: '0.5' } });
+
+      const missing = await exchange.getOrderByClientId('TESTUSDT', 'lbb-TESTUSDT-2');
+      expect(missing).toMatchObject({ success: false, error: { kind: 'order_not_found' } });
+
+      const duplicate = await exchange.placeOrder(request);
+      expect(duplicate).toMatchObject({ success: false, error: { kind: 'invalid_order' } });
+    });
+
+    it('should restore orders and fills saved before a restart', async () => {
+      const { loadJson, saveJson } = await import('../utils/persistence.js');
+      const saved = new PaperExchange(config, 'USDT', feed);
+      await saved.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'BUY',
+        type: 'MARKET',
+        quoteOrderQty: '50.5',
+        newClientOrderId: 'lbb-TESTUSDT-1',
+        timestamp: Date.now(),
+      });
+      const account = (saveJson as jest.Mock).mock.calls.at(-1)?.[1];
+      (loadJson as jest.Mock).mockResolvedValueOnce(account as never);
+
+      const restarted = new PaperExchange(config, 'USDT', feed);
+      await restarted.initialize();
+
+      const fetched = await restarted.getOrderByClientId('TESTUSDT', 'lbb-TESTUSDT-1');
+      expect(fetched).toMatchObject({ success: true, data: { executedQty: '0.5' } });
+      expect(await restarted.getMyTrades('TESTUSDT')).toEqual([
+        expect.objectContaining({ qty: '0.5', clientOrderId: 'lbb-TESTUSDT-1' }),
+      ]);
+      expect(restarted.getBalance('TEST').toString()).toBe('0.4995');
+
+      const next = await restarted.placeOrder({
+        symbol: 'TESTUSDT',
+        side: 'SELL',
+        type: 'MARKET',
+        quantity: '0.4',
+        timestamp: Date.now(),
+      });
+      expect(next).toMatchObject({ success: true, data: { orderId: 'paper-2' } });
+      expect((await restarted.getMyTrades('TESTUSDT'))?.map((fill) => fill.id)).toEqual(['1', '2']);
+    });
+
+    it('should synthesize exchange info for traded symbols', async () => {
+      await exchange.getPrice('TESTUSDT');
+
+      const info = await exchange.getExchangeInfo();
+      expect(info?.symbols[0]?.baseAsset).toBe('TEST');
+      expect(info?.symbols[0]?.quoteAsset).toBe('USDT');
+    });
+  });
+});
+
+describe('KlineReplayFeed', () => {
+  it('should replay bullish candles as open, low, high, close', async () => {
+    const feed = new KlineReplayFeed({ TESTUSDT: [kline(0, 10, 15, 8, 12)] });
+
+    const prices: Array<string | null> = [];
+    for (let i = 0; i < 4; i++) {
+      prices.push(await feed.getPrice('TESTUSDT'));
+    }
+
+    expect(prices).toEqual(['10', '8', '15', '12']);
+    expect(feed.isExhausted('TESTUSDT')).toBe(true);
+  });
+
+  it('should replay bearish candles as open, high, low, close', async () => {
+    const feed = new KlineReplayFeed({ TESTUSDT: [kline(0, 10, 11, 5, 6)] });
+
+    const prices: Array<string | null> = [];
+    for (let i = 0; i < 4; i++) {
+      prices.push(await feed.getPrice('TESTUSDT'));
+    }
+
+    expect(prices).toEqual(['10', '11', '5', '6']);
+  });
+
+  it('should repeat the last price once exhausted and return null for unknown symbols', async () => {
+    const feed = new KlineReplayFeed({ TESTUSDT: [kline(0, 10, 10, 10, 10)] });
+
+    for (let i = 0; i < 4; i++) {
+      await feed.getPrice('TESTUSDT');
+    }
+
+    expect(await feed.getPrice('TESTUSDT')).toBe('10');
+    expect(await feed.getPrice('OTHERUSDT')).toBeNull();
+  });
+});
@@ -0,0 +1,504 @@
+import Decimal from 'decimal.js';
+import {
+  AccountInfo,
+  AccountTrade,
+  ExchangeInfo,
+  KlineData,
+  OrderRequest,
+  OrderResponse,
+  PaperConfig,
+  PriceTicker,
+  Result,
+  SymbolInfo,
+  SymbolRules,
+  TickerResponse,
+} from '../types.js';
+import { logger } from '../utils/logger.js';
+import { loadJson, saveJson } from '../utils/persistence.js';
+import { ExchangeClient, PriceFeed } from './exchange-client.js';
+import { ExchangeError, exchangeError } from './errors.js';
+import { parseSymbolRules, roundToStep } from './symbol-rules.js';
+
+const PAPER_ACCOUNT_FILE = 'paper_account.json';
+const DEFAULT_BASE_PRECISION = 8;
+const MAX_SAVED_HISTORY = 1000; // Most recent orders and fills kept in the account file
+
+/**
+ * Persisted paper account state
+ * Orders and fills are kept so order lookups and startup reconciliation see the paper history
+ * after a restart (missing in accounts saved before they were recorded)
+ */
+interface PaperAccount {
+  balances: Record<string, string>;
+  orders?: OrderResponse[];
+  fills?: AccountTrade[];
+}
+
+/**
+ * Simulated in-process exchange for paper trading
+ *
+ * Keeps virtual balances and fills MARKET orders immediately against the price feed,
+ * applying slippage against the order side and charging fees in the received asset
+ * (like MEXC spot). Market data calls are passed through to `marketData` when given,
+ * otherwise minimal responses are synthesized from the price feed.
+ */
+export class PaperExchange implements ExchangeClient {
+  private balances = new Map<string, Decimal>();
+  private orders = new Map<string, OrderResponse>();
+  private orderIdsByClientId = new Map<string, string>();
+  private fills: AccountTrade[] = [];
+  private knownSymbols = new Set<string>();
+  private nextOrderId = 1;
+  private nextTradeId = 1;
+
+  constructor(
+    private readonly config: PaperConfig,
+    private readonly quoteCurrency: string,
+    private readonly feed: PriceFeed,
+    private readonly marketData?: ExchangeClient,
+    private readonly persist = true
+  ) {
+    this.balances.set(quoteCurrency, config.initialBalance);
+  }
+
+  /**
+   * Load persisted paper balances, orders and fills (call once at startup)
+   */
+  async initialize(): Promise<void> {
+    if (!this.persist) return;
+
+    const account = await loadJson<PaperAccount>(PAPER_ACCOUNT_FILE, {
+      balances: { [this.quoteCurrency]: this.config.initialBalance.toString() },
+    });
+
+    this.balances.clear();
+    for (const [asset, amount] of Object.entries(account.balances)) {
+      this.balances.set(asset, new Decimal(amount));
+    }
+
+    for (const order of account.orders ?? []) {
+      this.orders.set(order.orderId, order);
+      if (order.clientOrderId) {
+        this.orderIdsByClientId.set(order.clientOrderId, order.orderId);
+      }
+      const sequence = Number(order.orderId.replace('paper-', ''));
+      if (sequence >= this.nextOrderId) this.nextOrderId = sequence + 1;
+    }
+    this.fills = account.fills ?? [];
+    for (const fill of this.fills) {
+      if (Number(fill.id) >= this.nextTradeId) this.nextTradeId = Number(fill.id) + 1;
+    }
+
+    logger.info(
+      `Paper account loaded: ${this.getBalance(this.quoteCurrency).toString()} ${this.quoteCurrency}`
+    );
+  }
+
+  /**
+   * Save paper balances and the recent order history to disk
+   */
+  private async saveAccount(): Promise<void> {
+    if (!this.persist) return;
+
+    const balances: Record<string, string> = {};
+    for (const [asset, amount] of this.balances.entries()) {
+      balances[asset] = amount.toString();
+    }
+    await saveJson<PaperAccount>(PAPER_ACCOUNT_FILE, {
+      balances,
+      orders: Array.from(this.orders.values()).slice(-MAX_SAVED_HISTORY),
+      fills: this.fills.slice(-MAX_SAVED_HISTORY),
+    });
+  }
+
+  /**
+   * Get the virtual balance of an asset (zero if never held)
+   */
+  getBalance(asset: string): Decimal {
+    return this.balances.get(asset) ?? new Decimal(0);
+  }
+
+  /**
+   * Derive the base asset from a symbol (e.g., NPCUSDT -> NPC)
+   */
+  private baseAssetOf(symbol: string): string {
+    return symbol.endsWith(this.quoteCurrency)
+      ? symbol.slice(0, -this.quoteCurrency.length)
+      : symbol;
+  }
+
+  async ping(): Promise<boolean> {
+    return this.marketData ? this.marketData.ping() : true;
+  }
+
+  async syncTime(): Promise<void> {
+    if (this.marketData) {
+      await this.marketData.syncTime();
+    }
+  }
+
+  async getServerTime(): Promise<number | null> {
+    return this.marketData ? this.marketData.getServerTime() : Date.now();
+  }
+
+  async getExchangeInfo(): Promise<ExchangeInfo | null> {
+    if (this.marketData) {
+      return this.marketData.getExchangeInfo();
+    }
+
+    const symbols = Array.from(this.knownSymbols).map((symbol) => this.syntheticSymbolInfo(symbol));
+    return { timezone: 'UTC', serverTime: Date.now(), symbols };
+  }
+
+  /**
+   * Symbol info for a symbol without market data (default precision, no minimums)
+   */
+  private syntheticSymbolInfo(symbol: string): SymbolInfo {
+    return {
+      symbol,
+      status: '1',
+      baseAsset: this.baseAssetOf(symbol),
+      quoteAsset: this.quoteCurrency,
+      baseAssetPrecision: DEFAULT_BASE_PRECISION,
+      quotePrecision: DEFAULT_BASE_PRECISION,
+      quoteAssetPrecision: DEFAULT_BASE_PRECISION,
+      isSpotTradingAllowed: true,
+    };
+  }
+
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo | null> {
+    if (this.marketData) {
+      return this.marketData.getSymbolInfo(symbol);
+    }
+    this.knownSymbols.add(symbol);
+    return this.syntheticSymbolInfo(symbol);
+  }
+
+  async getSymbolRules(symbol: string): Promise<SymbolRules | null> {
+    if (this.marketData) {
+      return this.marketData.getSymbolRules(symbol);
+    }
+    this.knownSymbols.add(symbol);
+    return parseSymbolRules(this.syntheticSymbolInfo(symbol));
+  }
+
+  async getTicker24h(symbol: string): Promise<TickerResponse | null> {
+    if (this.marketData) {
+      return this.marketData.getTicker24h(symbol);
+    }
+
+    const price = await this.getPrice(symbol);
+    if (!price) return null;
+
+    const now = Date.now();
+    return {
+      symbol,
+      priceChange: '0',
+      priceChangePercent: '0',
+      lastPrice: price,
+      volume: '0',
+      quoteVolume: '0',
+      openTime: now - 24 * 60 * 60 * 1000,
+      closeTime: now,
+    };
+  }
+
+  async getPrice(symbol: string): Promise<string | null> {
+    this.knownSymbols.add(symbol);
+    return this.feed.getPrice(symbol);
+  }
+
+  async getAllPrices(): Promise<PriceTicker[] | null> {
+    if (this.marketData) {
+      return this.marketData.getAllPrices();
+    }
+
+    const tickers: PriceTicker[] = [];
+    for (const symbol of this.knownSymbols) {
+      const price = await this.feed.getPrice(symbol);
+      if (price) tickers.push({ symbol, price });
+    }
+    return tickers;
+  }
+
+  async getKlines(
+    symbol: string,
+    interval?: string,
+    limit?: number,
+    startTime?: number,
+    endTime?: number
+  ): Promise<KlineData[] | null> {
+    if (this.marketData) {
+      return this.marketData.getKlines(symbol, interval, limit, startTime, endTime);
+    }
+    logger.debug(`Paper exchange has no kline data for ${symbol}`);
+    return null;
+  }
+
+  /**
+   * Fill an order immediately at the feed price
+   * LIMIT orders fill completely when the fill price is within their limit; otherwise IOC and FOK
+   * orders expire unfilled and GTC orders are rejected (there is no order book to rest them on)
+   */
+  async placeOrder(orderRequest: OrderRequest): Promise<Result<OrderResponse, ExchangeError>> {
+    const { symbol, side, type, newClientOrderId } = orderRequest;
+
+    if (newClientOrderId && this.orderIdsByClientId.has(newClientOrderId)) {
+      return this.reject('invalid_order', `Duplicate client order ID ${newClientOrderId}`);
+    }
+
+    if (type !== 'MARKET' && type !== 'LIMIT') {
+      return this.reject(
+        'invalid_order',
+        `Paper exchange only supports MARKET and LIMIT orders (got ${type} for ${symbol})`
+      );
+    }
+    if (type === 'LIMIT' && (!orderRequest.price || !orderRequest.quantity)) {
+      return this.reject(
+        'invalid_order',
+        `Paper LIMIT order for ${symbol} requires price and quantity`
+      );
+    }
+
+    const priceStr = await this.getPrice(symbol);
+    if (!priceStr) {
+      return this.reject(
+        'symbol_not_trading',
+        `Paper exchange has no price for ${symbol}, rejecting order`
+      );
+    }
+
+    const slippage = this.config.slippagePct.div(100);
+    const feeRate = this.config.feePct.div(100);
+    const fillPrice =
+      side === 'BUY'
+        ? new Decimal(priceStr).mul(new Decimal(1).plus(slippage))
+        : new Decimal(priceStr).mul(new Decimal(1).minus(slippage));
+
+    if (type === 'LIMIT' && orderRequest.price) {
+      const limit = new Decimal(orderRequest.price);
+      const marketable = side === 'BUY' ? fillPrice.lte(limit) : fillPrice.gte(limit);
+      if (!marketable) {
+        if ((orderRequest.timeInForce ?? 'GTC') === 'GTC') {
+          return this.reject(
+            'invalid_order',
+            `Paper exchange cannot rest LIMIT orders: ${side} ${symbol} at ${limit.toString()} is not marketable at ${fillPrice.toString()}`
+          );
+        }
+        const expired = this.expireOrder(orderRequest);
+        await this.saveAccount();
+        return { success: true, data: expired };
+      }
+    }
+
+    const rules =
+      (await this.getSymbolRules(symbol)) ?? parseSymbolRules(this.syntheticSymbolInfo(symbol));
+    const baseAsset = this.baseAssetOf(symbol);
+
+    // Resolve executed quantity from either quantity or quoteOrderQty
+    let executedQty: Decimal;
+    if (orderRequest.quantity) {
+      executedQty = roundToStep(new Decimal(orderRequest.quantity), rules.stepSize);
+    } else if (orderRequest.quoteOrderQty && side === 'BUY') {
+      executedQty = roundToStep(
+        new Decimal(orderRequest.quoteOrderQty).div(fillPrice),
+        rules.stepSize
+      );
+    } else {
+      return this.reject(
+        'invalid_order',
+        `Paper order for ${symbol} requires quantity (or quoteOrderQty for buys)`
+      );
+    }
+
+    if (executedQty.lte(0)) {
+      return this.reject('invalid_order', `Paper order for ${symbol} rounds to zero quantity`);
+    }
+
+    const quoteQty = executedQty.mul(fillPrice);
+    if (executedQty.lt(rules.minQty) || quoteQty.lt(rules.minNotional)) {
+      return this.reject(
+        'invalid_order',
+        `Paper order for ${symbol} is below the minimum quantity or order value`
+      );
+    }
+
+    let commission: Decimal;
+    let commissionAsset: string;
+
+    if (side === 'BUY') {
+      const quoteBalance = this.getBalance(this.quoteCurrency);
+      if (quoteBalance.lt(quoteQty)) {
+        return this.reject(
+          'insufficient_balance',
+          `Paper buy rejected: insufficient ${this.quoteCurrency} balance (${quoteBalance.toString()} < ${quoteQty.toString()})`
+        );
+      }
+
+      // Fee is charged in the received (base) asset
+      commission = executedQty.mul(feeRate);
+      commissionAsset = baseAsset;
+      this.balances.set(this.quoteCurrency, quoteBalance.minus(quoteQty));
+      this.balances.set(baseAsset, this.getBalance(baseAsset).plus(executedQty.minus(commission)));
+    } else {
+      const baseBalance = this.getBalance(baseAsset);
+      if (baseBalance.lt(executedQty)) {
+        return this.reject(
+          'insufficient_balance',
+          `Paper sell rejected: insufficient ${baseAsset} balance (${baseBalance.toString()} < ${executedQty.toString()})`
+        );
+      }
+
+      // Fee is charged in the received (quote) asset
+      commission = quoteQty.mul(feeRate);
+      commissionAsset = this.quoteCurrency;
+      this.balances.set(baseAsset, baseBalance.minus(executedQty));
+      this.balances.set(
+        this.quoteCurrency,
+        this.getBalance(this.quoteCurrency).plus(quoteQty.minus(commission))
+      );
+    }
+
+    const transactTime = Date.now();
+    const orderId = `paper-${this.nextOrderId++}`;
+    const response: OrderResponse = {
+      symbol,
+      orderId,
+      ...(newClientOrderId && { clientOrderId: newClientOrderId }),
+      orderListId: -1,
+      price: fillPrice.toString(),
+      origQty: executedQty.toString(),
+      executedQty: executedQty.toString(),
+      cummulativeQuoteQty: quoteQty.toString(),
+      status: 'FILLED',
+      type,
+      side,
+      transactTime,
+    };
+
+    this.orders.set(orderId, response);
+    if (newClientOrderId) {
+      this.orderIdsByClientId.set(newClientOrderId, orderId);
+    }
+    this.fills.push({
+      symbol,
+      id: String(this.nextTradeId++),
+      orderId,
+      price: fillPrice.toString(),
+      qty: executedQty.toString(),
+      quoteQty: quoteQty.toString(),
+      commission: commission.toString(),
+      commissionAsset,
+      time: transactTime,
+      isBuyer: side === 'BUY',
+      isMaker: false,
+      isBestMatch: true,
+      ...(newClientOrderId && { clientOrderId: newClientOrderId }),
+    });
+
+    await this.saveAccount();
+
+    logger.info(
+      `📝 Paper ${side} filled: ${executedQty.toString()} ${symbol} at ${fillPrice.toString()} (fee: ${commission.toString()} ${commissionAsset})`
+    );
+
+    return { success: true, data: { ...response } };
+  }
+
+  getOrder(symbol: string, orderId: string): Promise<Result<OrderResponse, ExchangeError>> {
+    const order = this.orders.get(orderId);
+    if (!order || order.symbol !== symbol) {
+      return Promise.resolve(
+        this.reject('order_not_found', `Paper order ${orderId} not found for ${symbol}`)
+      );
+    }
+    return Promise.resolve({ success: true, data: { ...order } });
+  }
+
+  /**
+   * Get a paper order by the client order ID it was placed with
+   */
+  getOrderByClientId(
+    symbol: string,
+    clientOrderId: string
+  ): Promise<Result<OrderResponse, ExchangeError>> {
+    const orderId = this.orderIdsByClientId.get(clientOrderId);
+    if (!orderId) {
+      return Promise.resolve(
+        this.reject('order_not_found', `Paper order ${clientOrderId} not found for ${symbol}`)
+      );
+    }
+    return this.getOrder(symbol, orderId);
+  }
+
+  /**
+   * Record an IOC / FOK order that found nothing to fill within its limit
+   */
+  private expireOrder(orderRequest: OrderRequest): OrderResponse {
+    const { symbol, side, type, newClientOrderId } = orderRequest;
+    const orderId = `paper-${this.nextOrderId++}`;
+    const response: OrderResponse = {
+      symbol,
+      orderId,
+      ...(newClientOrderId && { clientOrderId: newClientOrderId }),
+      orderListId: -1,
+      price: orderRequest.price ?? '0',
+      origQty: orderRequest.quantity ?? '0',
+      executedQty: '0',
+      cummulativeQuoteQty: '0',
+      status: 'CANCELED',
+      type,
+      side,
+      transactTime: Date.now(),
+    };
+
+    this.orders.set(orderId, response);
+    if (newClientOrderId) {
+      this.orderIdsByClientId.set(newClientOrderId, orderId);
+    }
+    logger.info(
+      `📝 Paper ${side} ${orderRequest.timeInForce ?? ''} order for ${symbol} at ${response.price} expired unfilled`
+    );
+    return { ...response };
+  }
+
+  /**
+   * Log and return a rejected order result
+   */
+  private reject(
+    kind: Parameters<typeof exchangeError>[0],
+    message: string
+  ): Result<OrderResponse, ExchangeError> {
+    logger.error(message);
+    return { success: false, error: exchangeError(kind, message) };
+  }
+
+  cancelOrder(symbol: string, orderId: string): Promise<boolean> {
+    // Paper orders fill immediately, so there is never anything left to cancel
+    logger.warn(`Cannot cancel paper order ${orderId} for ${symbol}: order already filled`);
+    return Promise.resolve(false);
+  }
+
+  getAccount(): Promise<AccountInfo | null> {
+    return Promise.resolve({
+      balances: Array.from(this.balances.entries()).map(([asset, amount]) => ({
+        asset,
+        free: amount.toString(),
+        locked: '0',
+      })),
+    });
+  }
+
+  getAccountBalance(asset: string): Promise<string | null> {
+    const balance = this.balances.get(asset);
+    if (!balance) {
+      logger.warn(`Asset ${asset} not found in paper balances`);
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(balance.toString());
+  }
+
+  getMyTrades(symbol: string, limit: number = 500): Promise<AccountTrade[] | null> {
+    return Promise.resolve(this.fills.filter((fill) => fill.symbol === symbol).slice(-limit));
+  }
+}
@@ -0,0 +1,109 @@
+import Decimal from 'decimal.js';
+import { describe, it, expect, jest } from '@jest/globals';
+import { normalizeOrder, parseSymbolRules } from './symbol-rules.js';
+import type { OrderRequest, SymbolInfo } from '../types.js';
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mexcInfo: SymbolInfo = {
+  symbol: 'NEWUSDT',
+  status: '1',
+  baseAsset: 'NEW',
+  quoteAsset: 'USDT',
+  baseAssetPrecision: 2,
+  quotePrecision: 4,
+  quoteAssetPrecision: 2,
+  isSpotTradingAllowed: true,
+  baseSizePrecision: '0.1',
+  quoteAmountPrecision: '1',
+  quoteAmountPrecisionMarket: '5',
+  maxQuoteAmount: '2000000',
+  maxQuoteAmountMarket: '100000',
+  filters: [],
+};
+
+function order(fields: Partial<OrderRequest>): OrderRequest {
+  return { symbol: 'NEWUSDT', side: 'SELL', type: 'MARKET', timestamp: 0, ...fields };
+}
+
+describe('parseSymbolRules', () => {
+  it('should derive rules from MEXC precision fields', () => {
+    const rules = parseSymbolRules(mexcInfo);
+
+    expect(rules.stepSize.toString()).toBe('0.01');
+    expect(rules.minQty.toString()).toBe('0.1');
+    expect(rules.tickSize.toString()).toBe('0.0001');
+    expect(rules.quoteStep.toString()).toBe('0.01');
+    expect(rules.minNotional.toString()).toBe('5'); // Stricter of limit and market minimums
+    expect(rules.maxNotional?.toString()).toBe('100000');
+    expect(rules.maxQty).toBeNull();
+  });
+
+  it('should prefer exchange filters when present', () => {
+    const rules = parseSymbolRules({
+      ...mexcInfo,
+      filters: [
+        { filterType: 'LOT_SIZE', minQty: '1', maxQty: '1000', stepSize: '0.5' },
+        { filterType: 'PRICE_FILTER', tickSize: '0.005' },
+        { filterType: 'MIN_NOTIONAL', minNotional: '10' },
+      ],
+    });
+
+    expect(rules.stepSize.toString()).toBe('0.5');
+    expect(rules.minQty.toString()).toBe('1');
+    expect(rules.maxQty?.toString()).toBe('1000');
+    expect(rules.tickSize.toString()).toBe('0.005');
+    expect(rules.minNotional.toString()).toBe('10');
+  });
+});
+
+describe('normalizeOrder', () => {
+  const rules = parseSymbolRules(mexcInfo);
+
+  it('should round quantities down to the lot step', () => {
+    const result = normalizeOrder(order({ quantity: '12.3456' }), rules, new Decimal(1));
+
+    expect(result).toMatchObject({ success: true, data: { quantity: '12.34' } });
+  });
+
+  it('should round prices to the tick in the order side favour', () => {
+    const buy = normalizeOrder(order({ side: 'BUY', quantity: '10', price: '1.23456' }), rules);
+    const sell = normalizeOrder(order({ side: 'SELL', quantity: '10', price: '1.23451' }), rules);
+
+    expect(buy).toMatchObject({ success: true, data: { price: '1.2345' } });
+    expect(sell).toMatchObject({ success: true, data: { price: '1.2346' } });
+  });
+
+  it('should cap market buys at the maximum order value', () => {
+    const result = normalizeOrder(order({ side: 'BUY', quoteOrderQty: '250000.555' }), rules);
+
+    expect(result).toMatchObject({ success: true, data: { quoteOrderQty: '100000' } });
+  });
+
+  it('should reject orders below the minimum quantity or notional', () => {
+    expect(normalizeOrder(order({ quantity: '0.05' }), rules)).toMatchObject({
+      success: false,
+      error: { kind: 'invalid_order' },
+    });
+    expect(normalizeOrder(order({ quantity: '4' }), rules, new Decimal(1))).toMatchObject({
+      success: false,
+      error: { kind: 'invalid_order' },
+    });
+    expect(normalizeOrder(order({ side: 'BUY', quoteOrderQty: '4.99' }), rules)).toMatchObject({
+      success: false,
+      error: { kind: 'invalid_order' },
+    });
+  });
+
+  it('should skip the notional check for quantity orders without a price', () => {
+    expect(normalizeOrder(order({ quantity: '1' }), rules).success).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+import Decimal from 'decimal.js';
+import { OrderRequest, Result, SymbolFilter, SymbolInfo, SymbolRules } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { ExchangeError, exchangeError } from './errors.js';
+
+/**
+ * Parse a positive decimal from an exchange field (missing, zero and garbage → null)
+ */
+function positive(value: string | undefined): Decimal | null {
+  if (value === undefined) return null;
+  try {
+    const parsed = new Decimal(value);
+    return parsed.gt(0) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Smallest increment for a number of decimal places (e.g. 2 → 0.01)
+ */
+function stepFromDecimals(decimals: number): Decimal {
+  return new Decimal(10).pow(-decimals);
+}
+
+/**
+ * Round a value to a multiple of `step`
+ */
+export function roundToStep(
+  value: Decimal,
+  step: Decimal,
+  rounding: Decimal.Rounding = Decimal.ROUND_DOWN
+): Decimal {
+  return value.div(step).toDecimalPlaces(0, rounding).mul(step);
+}
+
+/**
+ * Build trading rules for a symbol
+ *
+ * Binance-style filters win when present; otherwise the rules are derived from MEXC's
+ * own precision fields (MEXC usually sends an empty filter list).
+ */
+export function parseSymbolRules(info: SymbolInfo): SymbolRules {
+  const filter = (type: string): SymbolFilter | undefined =>
+    info.filters?.find((entry) => entry.filterType === type);
+
+  const lotSize = filter('LOT_SIZE');
+  const priceFilter = filter('PRICE_FILTER');
+  const notional = filter('NOTIONAL') ?? filter('MIN_NOTIONAL');
+
+  // MEXC sends separate minimums for limit and market orders; honour the stricter one
+  const mexcMinNotional = [info.quoteAmountPrecision, info.quoteAmountPrecisionMarket]
+    .map(positive)
+    .filter((value): value is Decimal => value !== null);
+
+  return {
+    symbol: info.symbol,
+    baseAsset: info.baseAsset,
+    quoteAsset: info.quoteAsset,
+    stepSize: positive(lotSize?.stepSize) ?? stepFromDecimals(info.baseAssetPrecision),
+    minQty: positive(lotSize?.minQty) ?? positive(info.baseSizePrecision) ?? new Decimal(0),
+    maxQty: positive(lotSize?.maxQty),
+    tickSize: positive(priceFilter?.tickSize) ?? stepFromDecimals(info.quotePrecision),
+    quoteStep: stepFromDecimals(info.quoteAssetPrecision),
+    minNotional:
+      positive(notional?.minNotional) ??
+      (mexcMinNotional.length > 0 ? Decimal.max(...mexcMinNotional) : new Decimal(0)),
+    maxNotional: positive(notional?.maxNotional) ?? positive(info.maxQuoteAmountMarket),
+  };
+}
+
+/**
+ * Adjust an order to the symbol rules so the exchange accepts it
+ *
+ * Quantities and quote amounts are rounded down to their step and capped at the
+ * maximums; prices are rounded to the tick in the order's favour. Orders that would
+ * still fall below the minimum quantity or notional fail with `invalid_order`.
+ * `referencePrice` lets quantity-based market orders be checked against the minimum
+ * notional.
+ */
+export function normalizeOrder(
+  request: OrderRequest,
+  rules: SymbolRules,
+  referencePrice?: Decimal
+): Result<OrderRequest, ExchangeError> {
+  const { symbol, side } = request;
+  const normalized: OrderRequest = { ...request };
+  let price = referencePrice ?? null;
+  let notional: Decimal | null = null;
+
+  if (request.price !== undefined) {
+    // Never pay more on a buy or accept less on a sell than asked
+    const rounding = side === 'BUY' ? Decimal.ROUND_DOWN : Decimal.ROUND_UP;
+    price = roundToStep(new Decimal(request.price), rules.tickSize, rounding);
+    if (price.lte(0)) {
+      return reject(`Price ${request.price} for ${symbol} rounds to zero`);
+    }
+    normalized.price = price.toString();
+  }
+
+  if (request.quantity !== undefined) {
+    let quantity = roundToStep(new Decimal(request.quantity), rules.stepSize);
+    if (rules.maxQty && quantity.gt(rules.maxQty)) {
+      logger.warn(
+        `Capping ${symbol} quantity ${quantity.toString()} at max ${rules.maxQty.toString()}`
+      );
+      quantity = roundToStep(rules.maxQty, rules.stepSize);
+    }
+    if (quantity.lte(0) || quantity.lt(rules.minQty)) {
+      return reject(
+        `Quantity ${request.quantity} for ${symbol} is below the minimum ${rules.minQty.toString()} (step ${rules.stepSize.toString()})`
+      );
+    }
+    normalized.quantity = quantity.toString();
+    notional = price ? quantity.mul(price) : null;
+  }
+
+  if (request.quoteOrderQty !== undefined) {
+    let quote = roundToStep(new Decimal(request.quoteOrderQty), rules.quoteStep);
+    if (rules.maxNotional && quote.gt(rules.maxNotional)) {
+      logger.warn(
+        `Capping ${symbol} order value ${quote.toString()} at max ${rules.maxNotional.toString()}`
+      );
+      quote = roundToStep(rules.maxNotional, rules.quoteStep);
+    }
+    if (quote.lte(0)) {
+      return reject(`Order value ${request.quoteOrderQty} for ${symbol} rounds to zero`);
+    }
+    normalized.quoteOrderQty = quote.toString();
+    notional = quote;
+  }
+
+  if (notional && notional.lt(rules.minNotional)) {
+    return reject(
+      `Order value ${notional.toString()} for ${symbol} is below the minimum ${rules.minNotional.toString()} ${rules.quoteAsset}`
+    );
+  }
+
+  return { success: true, data: normalized };
+}
+
+function reject(message: string): Result<OrderRequest, ExchangeError> {
+  return { success: false, error: exchangeError('invalid_order', message) };
+}
@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ExchangeClient } from '../api/exchange-client.js';
+import { CompletedTrade, Kline, KlineData } from '../types.js';
+import { parseKlines } from '../utils/klines.js';
+import { logger } from '../utils/logger.js';
+import { loadJson } from '../utils/persistence.js';
+import { ListingDataset } from './engine.js';
+
+const KLINE_CACHE_DIR = path.join('data', 'backtest', 'klines');
+const COMPLETED_TRADES_FILE = 'completed_trades.json';
+const MAX_KLINES_PER_REQUEST = 1000;
+
+/**
+ * Listing to backtest, as written in a datasets file
+ */
+export interface DatasetSpec {
+  symbol: string; // Full market symbol (e.g., NEWUSDT)
+  listingTime: string; // ISO timestamp of the first candle to replay
+  csv?: string; // Optional CSV file with klines instead of fetching from the exchange
+}
+
+/**
+ * Load klines from a CSV file
+ * Columns: openTime,open,high,low,close,volume,closeTime,quoteVolume (header optional)
+ */
+export async function loadKlinesCsv(filePath: string): Promise<Kline[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const rows: KlineData[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const cells = line.split(',').map((cell) => cell.trim());
+    if (cells.length < 8 || !/^\d+$/.test(cells[0] ?? '')) {
+      continue; // Header or blank line
+    }
+
+    const [openTime, open, high, low, close, volume, closeTime, quoteVolume] = cells as [
+      string,
+      string,
+      string,
+      string,
+      string,
+      string,
+      string,
+      string,
+    ];
+    rows.push([
+      parseInt(openTime, 10),
+      open,
+      high,
+      low,
+      close,
+      volume,
+      parseInt(closeTime, 10),
+      quoteVolume,
+    ]);
+  }
+
+  return parseKlines(rows);
+}
+
+/**
+ * Fetch 1m klines for a listing from the exchange, cached on disk
+ */
+export async function fetchListingKlines(
+  api: ExchangeClient,
+  symbol: string,
+  startTime: number,
+  limit: number = MAX_KLINES_PER_REQUEST
+): Promise<Kline[]> {
+  const cacheFile = path.join(KLINE_CACHE_DIR, `${symbol}_${startTime}_${limit}.json`);
+
+  try {
+    const cached = await fs.readFile(cacheFile, 'utf-8');
+    return parseKlines(JSON.parse(cached) as KlineData[]);
+  } catch {
+    // Not cached yet
+  }
+
+  const klines = await api.getKlines(symbol, '1m', limit, startTime);
+  if (!klines || klines.length === 0) {
+    logger.warn(`No klines returned for ${symbol} from ${new Date(startTime).toISOString()}`);
+    return [];
+  }
+
+  await fs.mkdir(KLINE_CACHE_DIR, { recursive: true });
+  await fs.writeFile(cacheFile, JSON.stringify(klines), 'utf-8');
+  logger.debug(`Cached ${klines.length} klines for ${symbol} in ${cacheFile}`);
+
+  return parseKlines(klines);
+}
+
+/**
+ * Build dataset specs from the most recent completed trades (one per market)
+ */
+export async function datasetSpecsFromTrades(count: number): Promise<DatasetSpec[]> {
+  const trades = await loadJson<CompletedTrade[]>(COMPLETED_TRADES_FILE, []);
+  const sorted = [...trades].sort(
+    (a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
+  );
+
+  const specs: DatasetSpec[] = [];
+  const seen = new Set<string>();
+  for (const trade of sorted) {
+    if (seen.has(trade.market)) continue;
+    seen.add(trade.market);
+
+    // Start replay at the minute the bot entered the trade
+    const startMinute = Math.floor(new Date(trade.startTime).getTime() / 60000) * 60000;
+    specs.push({ symbol: trade.market, listingTime: new Date(startMinute).toISOString() });
+
+    if (specs.length >= count) break;
+  }
+
+  return specs;
+}
+
+/**
+ * Load kline data for each dataset spec (CSV or exchange with disk cache)
+ * Api may be null when every spec provides a CSV file
+ */
+export async function loadDatasets(
+  specs: DatasetSpec[],
+  api: ExchangeClient | null
+): Promise<ListingDataset[]> {
+  const datasets: ListingDataset[] = [];
+
+  for (const spec of specs) {
+    let klines: Kline[];
+
+    if (spec.csv) {
+      klines = await loadKlinesCsv(spec.csv);
+    } else if (api) {
+      klines = await fetchListingKlines(api, spec.symbol, new Date(spec.listingTime).getTime());
+    } else {
+      throw new Error(`No CSV given for ${spec.symbol} and no exchange client to fetch klines`);
+    }
+
+    datasets.push({ symbol: spec.symbol, klines });
+  }
+
+  return datasets;
+}
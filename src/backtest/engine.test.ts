@@ -0,0 +1,255 @@
+import Decimal from 'decimal.js';
+import { describe, it, expect, jest } from '@jest/globals';
+import { backtestListing, calculateMaxDrawdown, PricePath, runBacktest } from './engine.js';
+import type { BacktestParams, ListingDataset } from './engine.js';
+import type { CompletedTrade, Kline } from '../types.js';
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const MINUTE = 60000;
+
+/**
+ * Build a 1m candle starting `minute` minutes after t=0
+ */
+function candle(minute: number, open: number, high: number, low: number, close: number): Kline {
+  return {
+    openTime: minute * MINUTE,
+    open: new Decimal(open),
+    high: new Decimal(high),
+    low: new Decimal(low),
+    close: new Decimal(close),
+    volume: new Decimal(0),
+    closeTime: minute * MINUTE + MINUTE - 1,
+    quoteVolume: new Decimal(0),
+  };
+}
+
+/**
+ * Record of the exit that closed the trade (after any take-profit exits)
+ */
+function finalExit(dataset: ListingDataset, params: BacktestParams): CompletedTrade | undefined {
+  return backtestListing(dataset, params)?.at(-1);
+}
+
+describe('Backtest Engine', () => {
+  const params: BacktestParams = {
+    stopLossPct: new Decimal(20),
+    trailingPct: new Decimal(10),
+    entryDelaySeconds: 0,
+    checkInterval: 1,
+    tradeAmount: new Decimal(10),
+  };
+
+  describe('PricePath', () => {
+    it('should interpolate between intra-candle points', () => {
+      // Bullish candle: open 100 -> low 90 -> high 130 -> close 120
+      const path = new PricePath([candle(0, 100, 130, 90, 120)]);
+
+      expect(path.at(0)?.toString()).toBe('100');
+      expect(path.at(MINUTE - 1)?.toString()).toBe('120');
+      expect(path.at(MINUTE * 2)).toBeNull();
+    });
+  });
+
+  describe('Exit Logic', () => {
+    it('should exit at stop loss when price falls', () => {
+      const trade = finalExit(
+        { symbol: 'TESTUSDT', klines: [candle(0, 100, 100, 70, 75)] },
+        params
+      );
+
+      expect(trade?.triggerReason).toBe('stop_loss');
+      expect(new Decimal(trade?.sellPrice ?? 0).lt(80)).toBe(true);
+      expect(new Decimal(trade?.profitLossPct ?? 0).lt(-20)).toBe(true);
+    });
+
+    it('should exit at trailing stop after a rise', () => {
+      const trade = finalExit(
+        {
+          symbol: 'TESTUSDT',
+          klines: [candle(0, 100, 150, 100, 150), candle(1, 150, 150, 120, 120)],
+        },
+        params
+      );
+
+      expect(trade?.triggerReason).toBe('trailing_stop');
+      expect(trade?.highestPrice).toBe('150');
+      // Trailing stop at 135, sampled every second so exit lands just below it
+      expect(new Decimal(trade?.sellPrice ?? 0).lt(135)).toBe(true);
+      expect(new Decimal(trade?.sellPrice ?? 0).gt(130)).toBe(true);
+    });
+
+    it('should stop out at break-even once the trigger gain was reached', () => {
+      const listing = {
+        symbol: 'TESTUSDT',
+        klines: [candle(0, 100, 115, 100, 115), candle(1, 115, 115, 70, 70)],
+      };
+      const wideTrail = { ...params, trailingPct: new Decimal(20) };
+
+      const withoutRule = finalExit(listing, wideTrail);
+      expect(new Decimal(withoutRule?.sellPrice ?? 0).lt(80)).toBe(true);
+
+      const trade = finalExit(listing, { ...wideTrail, breakEvenTriggerPct: new Decimal(10) });
+      expect(trade?.triggerReason).toBe('stop_loss');
+      expect(trade?.stopLossPrice).toBe('100'); // No fees in backtests
+      expect(trade?.breakEvenAt).toBeDefined();
+      expect(new Decimal(trade?.sellPrice ?? 0).gt(98)).toBe(true);
+    });
+
+    it('should exit at market once the maximum holding time is reached', () => {
+      const klines = Array.from({ length: 10 }, (_, minute) => candle(minute, 100, 101, 99, 100));
+
+      const trade = finalExit({ symbol: 'TESTUSDT', klines }, { ...params, maxHoldMinutes: 5 });
+
+      expect(trade?.triggerReason).toBe('time_exit');
+      expect(trade?.sellTime).toBe(new Date(5 * MINUTE).toISOString());
+    });
+
+    it('should tighten the trailing stop on schedule without a new high', () => {
+      const listing = {
+        symbol: 'TESTUSDT',
+        klines: [
+          candle(0, 100, 150, 100, 150),
+          ...Array.from({ length: 5 }, (_, i) => candle(i + 1, 140, 140, 140, 140)),
+        ],
+      };
+
+      expect(finalExit(listing, params)?.triggerReason).toBe('end_of_data');
+
+      const trade = finalExit(listing, {
+        ...params,
+        trailingSchedule: [{ afterMinutes: 3, trailingPct: new Decimal(5) }],
+      });
+      expect(trade?.triggerReason).toBe('trailing_stop');
+      expect(trade?.trailingStopPrice).toBe('142.5');
+      expect(trade?.sellTime).toBe(new Date(3 * MINUTE).toISOString());
+    });
+
+    it('should close at the last price when data runs out', () => {
+      const trade = finalExit(
+        { symbol: 'TESTUSDT', klines: [candle(0, 100, 105, 98, 104)] },
+        params
+      );
+
+      expect(trade?.triggerReason).toBe('end_of_data');
+      expect(trade?.sellPrice).toBe('104');
+    });
+
+    it('should miss wicks shorter than the check interval', () => {
+      // Wick to 70 happens between checks when polling once per minute
+      const klines = [candle(0, 100, 100, 70, 100), candle(1, 100, 101, 99, 100)];
+
+      const fast = finalExit({ symbol: 'TESTUSDT', klines }, params);
+      const slow = finalExit({ symbol: 'TESTUSDT', klines }, { ...params, checkInterval: 60 });
+
+      expect(fast?.triggerReason).toBe('stop_loss');
+      expect(slow?.triggerReason).toBe('end_of_data');
+    });
+
+    it('should sell the take-profit ladder and trail the rest', () => {
+      const records = backtestListing(
+        {
+          symbol: 'TESTUSDT',
+          klines: [candle(0, 100, 130, 100, 130), candle(1, 130, 130, 110, 110)],
+        },
+        {
+          ...params,
+          takeProfitLevels: [
+            { gainPct: new Decimal(10), sellPct: new Decimal(50) },
+            { gainPct: new Decimal(20), sellPct: new Decimal(25) },
+          ],
+        }
+      );
+
+      expect(records?.map((record) => record.triggerReason)).toEqual([
+        'take_profit',
+        'take_profit',
+        'trailing_stop',
+      ]);
+      expect(records?.[0]).toMatchObject({ partial: true, takeProfitLevel: 1, quantity: '0.05' });
+      expect(records?.[1]).toMatchObject({ partial: true, takeProfitLevel: 2, quantity: '0.025' });
+      expect(records?.[2]?.quantity).toBe('0.025');
+    });
+
+    it('should close the trade when a level sells everything left', () => {
+      const records = backtestListing(
+        { symbol: 'TESTUSDT', klines: [candle(0, 100, 130, 100, 130)] },
+        { ...params, takeProfitLevels: [{ gainPct: new Decimal(10), sellPct: new Decimal(100) }] }
+      );
+
+      expect(records).toHaveLength(1);
+      expect(records?.[0]?.triggerReason).toBe('take_profit');
+      expect(records?.[0]?.partial).toBeUndefined();
+    });
+
+    it('should size the trail from closed candles in atr mode', () => {
+      // Two closed candles with a 2-point range at 100: 3 ATRs = 6%, then the price rises and falls
+      const klines = [
+        candle(0, 100, 101, 99, 100),
+        candle(1, 100, 101, 99, 100),
+        candle(2, 100, 120, 100, 120),
+        candle(3, 120, 120, 110, 110),
+      ];
+      const atr = {
+        ...params,
+        entryDelaySeconds: 2 * 60,
+        trailingMode: 'atr' as const,
+        atrPeriod: 14,
+        atrMultiplier: new Decimal(3),
+      };
+
+      const trade = finalExit({ symbol: 'TESTUSDT', klines }, atr);
+
+      expect(trade?.triggerReason).toBe('trailing_stop');
+      expect(trade?.volatilityTrailPct).toBe('6');
+      expect(new Decimal(trade?.sellPrice ?? 0).gt(112)).toBe(true);
+      expect(finalExit({ symbol: 'TESTUSDT', klines }, params)?.triggerReason).toBe('end_of_data');
+    });
+
+    it('should skip listings without data at the entry time', () => {
+      const result = runBacktest([{ symbol: 'TESTUSDT', klines: [candle(0, 1, 1, 1, 1)] }], {
+        ...params,
+        entryDelaySeconds: 600,
+      });
+
+      expect(result.trades).toHaveLength(0);
+      expect(result.skipped).toEqual(['TESTUSDT']);
+    });
+  });
+
+  describe('Statistics', () => {
+    it('should summarize trades with calculateStats', () => {
+      const result = runBacktest(
+        [
+          { symbol: 'LOSSUSDT', klines: [candle(0, 100, 100, 70, 75)] },
+          { symbol: 'FLATUSDT', klines: [candle(0, 100, 105, 98, 104)] },
+        ],
+        params
+      );
+
+      expect(result.stats.totalTrades).toBe(2);
+      expect(result.stats.profitableTrades).toBe(1);
+      expect(result.stats.worstTrade?.symbol).toBe('LOSSUSDT');
+      expect(result.stats.exitReasons).toEqual({
+        stop_loss: { trades: 1, profitLossUsdt: expect.any(String) },
+        end_of_data: { trades: 1, profitLossUsdt: '0.4000' },
+      });
+    });
+
+    it('should calculate max drawdown of cumulative P&L', () => {
+      const trades = ['5', '-3', '-4', '10'].map(
+        (profitLossQuote) => ({ profitLossQuote }) as CompletedTrade
+      );
+
+      expect(calculateMaxDrawdown(trades).toString()).toBe('7');
+    });
+  });
+});
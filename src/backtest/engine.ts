@@ -0,0 +1,258 @@
+import Decimal from 'decimal.js';
+import { CompletedTrade, Kline, MarketSymbol, TradingConfig } from '../types.js';
+import { calculateStats, TradingStats } from '../server/stats.js';
+import {
+  applyPriceTick,
+  applyVolatilityTrail,
+  buildCompletedTrade,
+  createTradeState,
+  dueTakeProfit,
+  StopConfig,
+  takePartialExit,
+  takeProfitQuantity,
+} from '../trade/strategy.js';
+import { atrTrailingPct } from '../trade/volatility.js';
+import { klinePricePath } from '../utils/klines.js';
+
+const ATR_REFRESH_MS = 60 * 1000; // As in live monitoring: one new 1m candle per refresh
+
+/**
+ * Volatility trail settings ('atr' trailing mode; off when missing)
+ */
+type AtrConfig = Partial<Pick<TradingConfig, 'atrPeriod' | 'atrMultiplier'>>;
+
+/**
+ * Parameters for a single backtest run
+ */
+export interface BacktestParams extends StopConfig, AtrConfig {
+  entryDelaySeconds: number; // Delay after the first candle opens before buying
+  checkInterval: number; // Price check interval (seconds), as in live monitoring
+  tradeAmount: Decimal; // Quote currency invested per listing
+}
+
+/**
+ * Exit rules besides the stop-loss and trailing percentages, held fixed across backtest runs
+ */
+export type BacktestSettings = Omit<StopConfig, 'stopLossPct' | 'trailingPct'> & AtrConfig;
+
+/**
+ * Take-profit ladder, break-even rule, trailing mode, time exit and trailing schedule from the
+ * trading config, so backtests apply the same exits as the live bot
+ */
+export function backtestSettingsFrom(trading: TradingConfig): BacktestSettings {
+  return {
+    takeProfitLevels: trading.takeProfitLevels,
+    breakEvenTriggerPct: trading.breakEvenTriggerPct,
+    trailingMode: trading.trailingMode,
+    atrPeriod: trading.atrPeriod,
+    atrMultiplier: trading.atrMultiplier,
+    maxHoldMinutes: trading.maxHoldMinutes,
+    trailingSchedule: trading.trailingSchedule,
+  };
+}
+
+/**
+ * Historical kline data for one listing
+ */
+export interface ListingDataset {
+  symbol: string;
+  klines: Kline[];
+}
+
+/**
+ * Result of a backtest over a set of listings
+ */
+export interface BacktestResult {
+  trades: CompletedTrade[];
+  stats: TradingStats;
+  maxDrawdownQuote: string; // Largest peak-to-trough drop of cumulative P&L
+  skipped: string[]; // Symbols without enough data to enter a trade
+}
+
+interface TimedPrice {
+  time: number;
+  price: Decimal;
+}
+
+/**
+ * Continuous price path through a series of klines
+ *
+ * Each candle's open -> low/high -> close points are spread evenly over the
+ * candle and linearly interpolated, so sampling at the live check interval
+ * misses short wicks the same way polling does.
+ */
+export class PricePath {
+  private readonly points: TimedPrice[];
+  private cursor = 0;
+
+  constructor(klines: Kline[]) {
+    const sorted = [...klines].sort((a, b) => a.openTime - b.openTime);
+    this.points = sorted.flatMap((kline) => {
+      const path = klinePricePath(kline);
+      const step = (kline.closeTime - kline.openTime) / (path.length - 1);
+      return path.map((price, i) => ({ time: kline.openTime + Math.round(step * i), price }));
+    });
+  }
+
+  get startTime(): number | null {
+    return this.points[0]?.time ?? null;
+  }
+
+  get endTime(): number | null {
+    return this.points[this.points.length - 1]?.time ?? null;
+  }
+
+  /**
+   * Price at a given time (times must be queried in ascending order)
+   */
+  at(time: number): Decimal | null {
+    while (this.cursor < this.points.length - 1) {
+      const next = this.points[this.cursor + 1];
+      if (!next || next.time > time) break;
+      this.cursor++;
+    }
+
+    const current = this.points[this.cursor];
+    if (!current || time < current.time) return null;
+
+    const next = this.points[this.cursor + 1];
+    if (!next) {
+      return time === current.time ? current.price : null;
+    }
+
+    if (next.time === current.time) return next.price;
+
+    const fraction = (time - current.time) / (next.time - current.time);
+    return current.price.plus(next.price.minus(current.price).mul(fraction));
+  }
+}
+
+/**
+ * Replay one listing through the live exit logic: stops, take-profit ladder, break-even rule,
+ * time exit and, in 'atr' mode, the volatility trail sized from the candles closed so far
+ * Returns the take-profit exits followed by the final exit, or null if there is no data at the
+ * entry time
+ */
+export function backtestListing(
+  dataset: ListingDataset,
+  params: BacktestParams
+): CompletedTrade[] | null {
+  const path = new PricePath(dataset.klines);
+  const startTime = path.startTime;
+  const endTime = path.endTime;
+  if (startTime === null || endTime === null) return null;
+
+  const entryTime = startTime + params.entryDelaySeconds * 1000;
+  const buyPrice = path.at(entryTime);
+  if (!buyPrice || buyPrice.lte(0)) return null;
+
+  const trade = createTradeState(
+    dataset.symbol as MarketSymbol,
+    buyPrice,
+    params.tradeAmount.div(buyPrice),
+    params.tradeAmount,
+    params,
+    new Date(entryTime)
+  );
+
+  const records: CompletedTrade[] = [];
+  const intervalMs = Math.max(params.checkInterval, 1) * 1000;
+  const candles = [...dataset.klines].sort((a, b) => a.openTime - b.openTime);
+  let lastTrailRefresh = -Infinity;
+
+  // First check happens right after the buy, then every checkInterval (as in monitorTrade),
+  // with a final check at the end of the data
+  for (let time = entryTime; ; time += intervalMs) {
+    const sampleTime = Math.min(time, endTime);
+    const price = path.at(sampleTime);
+    if (!price) break;
+
+    if (
+      trade.trailingMode === 'atr' &&
+      params.atrPeriod &&
+      params.atrMultiplier &&
+      sampleTime - lastTrailRefresh >= ATR_REFRESH_MS
+    ) {
+      lastTrailRefresh = sampleTime;
+      const closed = candles.filter((kline) => kline.closeTime <= sampleTime);
+      const pct = atrTrailingPct(
+        closed.slice(-(params.atrPeriod + 1)),
+        params.atrPeriod,
+        params.atrMultiplier
+      );
+      if (pct) applyVolatilityTrail(trade, pct);
+    }
+
+    const now = new Date(sampleTime);
+    const { exit } = applyPriceTick(trade, price, params, now);
+    if (exit) {
+      records.push(buildCompletedTrade(trade, price, exit, now));
+      return records;
+    }
+
+    // One take-profit level per check, as in the live manager
+    const level = dueTakeProfit(trade);
+    if (level !== null) {
+      const quantity = takeProfitQuantity(trade, level);
+      if (!quantity) {
+        records.push(buildCompletedTrade(trade, price, 'take_profit', now));
+        return records;
+      }
+      records.push(
+        takePartialExit(trade, quantity, price, level, { feeQuote: new Decimal(0), fills: [] }, now)
+      );
+    }
+
+    if (sampleTime === endTime) break;
+  }
+
+  // Data ran out while the trade was still open: close at the last price
+  records.push(buildCompletedTrade(trade, trade.currentPrice, 'end_of_data', trade.lastUpdate));
+  return records;
+}
+
+/**
+ * Largest peak-to-trough drop of cumulative P&L, in quote currency
+ */
+export function calculateMaxDrawdown(trades: CompletedTrade[]): Decimal {
+  let equity = new Decimal(0);
+  let peak = new Decimal(0);
+  let maxDrawdown = new Decimal(0);
+
+  for (const trade of trades) {
+    equity = equity.plus(trade.profitLossQuote);
+    peak = Decimal.max(peak, equity);
+    maxDrawdown = Decimal.max(maxDrawdown, peak.minus(equity));
+  }
+
+  return maxDrawdown;
+}
+
+/**
+ * Run a backtest over a set of listings
+ */
+export function runBacktest(datasets: ListingDataset[], params: BacktestParams): BacktestResult {
+  const trades: CompletedTrade[] = [];
+  const skipped: string[] = [];
+
+  for (const dataset of datasets) {
+    const records = backtestListing(dataset, params);
+    if (records) {
+      trades.push(...records);
+    } else {
+      skipped.push(dataset.symbol);
+    }
+  }
+
+  // Drawdown is measured in the order trades were opened
+  const ordered = [...trades].sort(
+    (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+  );
+
+  return {
+    trades,
+    stats: calculateStats(trades),
+    maxDrawdownQuote: calculateMaxDrawdown(ordered).toFixed(4),
+    skipped,
+  };
+}
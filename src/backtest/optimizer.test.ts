@@ -0,0 +1,103 @@
+import Decimal from 'decimal.js';
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  gridCandidates,
+  optimize,
+  parseRange,
+  randomCandidates,
+  validateSearchSpace,
+} from './optimizer.js';
+import type { SearchSpace } from './optimizer.js';
+import type { Kline } from '../types.js';
+
+// Mock logger (loaded via config ranges)
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const MINUTE = 60000;
+
+function candle(minute: number, open: number, high: number, low: number, close: number): Kline {
+  return {
+    openTime: minute * MINUTE,
+    open: new Decimal(open),
+    high: new Decimal(high),
+    low: new Decimal(low),
+    close: new Decimal(close),
+    volume: new Decimal(0),
+    closeTime: minute * MINUTE + MINUTE - 1,
+    quoteVolume: new Decimal(0),
+  };
+}
+
+describe('Parameter Optimizer', () => {
+  const space: SearchSpace = {
+    stopLossPct: parseRange('10:20:5'),
+    trailingPct: parseRange('0.1:0.3:0.1'),
+    entryDelaySeconds: parseRange('0'),
+    checkInterval: parseRange('1'),
+  };
+
+  it('should parse ranges and single values', () => {
+    expect(parseRange('5:30:5')).toEqual({ min: 5, max: 30, step: 5 });
+    expect(parseRange('10')).toEqual({ min: 10, max: 10, step: 1 });
+    expect(() => parseRange('30:5:5')).toThrow();
+    expect(() => parseRange('a:b')).toThrow();
+  });
+
+  it('should reject ranges outside the config limits', () => {
+    expect(() => validateSearchSpace(space)).not.toThrow();
+    expect(() => validateSearchSpace({ ...space, stopLossPct: parseRange('10:60:10') })).toThrow(
+      /stopLossPct/
+    );
+  });
+
+  it('should expand the grid without float drift', () => {
+    const candidates = gridCandidates(space);
+
+    expect(candidates).toHaveLength(9);
+    expect(candidates.map((c) => c.trailingPct.toString()).slice(0, 3)).toEqual([
+      '0.1',
+      '0.2',
+      '0.3',
+    ]);
+  });
+
+  it('should sample unique random candidates capped at the grid size', () => {
+    let seed = 0;
+    const random = (): number => (seed = (seed * 9301 + 49297) % 233280) / 233280;
+
+    const candidates = randomCandidates(space, 20, random);
+    const keys = candidates.map((c) => `${c.stopLossPct.toString()}|${c.trailingPct.toString()}`);
+
+    expect(candidates).toHaveLength(9);
+    expect(new Set(keys).size).toBe(9);
+  });
+
+  it('should rank candidates by total P&L', () => {
+    // Pump then a 20% pullback: a tight trailing stop locks in more profit
+    const datasets = [
+      {
+        symbol: 'TESTUSDT',
+        klines: [candle(0, 100, 200, 100, 200), candle(1, 200, 200, 160, 160)],
+      },
+    ];
+    const candidates = gridCandidates({
+      ...space,
+      stopLossPct: parseRange('10'),
+      trailingPct: parseRange('5:15:5'),
+    });
+
+    const results = optimize(datasets, candidates, new Decimal(100));
+
+    expect(results.map((r) => r.trailingPct)).toEqual(['5', '10', '15']);
+    expect(new Decimal(results[0]?.totalProfitLoss ?? 0).gt(results[2]?.totalProfitLoss ?? 0)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import Decimal from 'decimal.js';
+import { TRADING_CONFIG_RANGES } from '../config.js';
+import { BacktestParams, BacktestSettings, ListingDataset, runBacktest } from './engine.js';
+
+/**
+ * Entry delay bounds (seconds); the scheduler stops trying 180s after listing time
+ */
+export const ENTRY_DELAY_RANGE = { min: 0, max: 180 } as const;
+
+/**
+ * Inclusive range of values to search for one parameter
+ */
+export interface ParameterRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * Search space for the trailing stop strategy
+ */
+export interface SearchSpace {
+  stopLossPct: ParameterRange;
+  trailingPct: ParameterRange;
+  entryDelaySeconds: ParameterRange;
+  checkInterval: ParameterRange;
+}
+
+/**
+ * Strategy parameters under test (trade amount is fixed across a run)
+ */
+export type Candidate = Omit<BacktestParams, 'tradeAmount'>;
+
+/**
+ * Metric used to rank candidates
+ */
+export type RankBy = 'pnl' | 'winrate' | 'drawdown';
+
+/**
+ * Backtest summary for one parameter combination
+ */
+export interface OptimizationResult {
+  stopLossPct: string;
+  trailingPct: string;
+  entryDelaySeconds: number;
+  checkInterval: number;
+  totalTrades: number;
+  winRate: number;
+  totalProfitLoss: string;
+  avgProfitLossPct: string;
+  maxDrawdown: string;
+}
+
+const PARAMETER_BOUNDS: Record<keyof SearchSpace, { min: number; max: number }> = {
+  stopLossPct: TRADING_CONFIG_RANGES.stopLossPct,
+  trailingPct: TRADING_CONFIG_RANGES.trailingPct,
+  entryDelaySeconds: ENTRY_DELAY_RANGE,
+  checkInterval: TRADING_CONFIG_RANGES.checkInterval,
+};
+
+/**
+ * Parse a "min:max:step" (or single value) range string
+ */
+export function parseRange(value: string): ParameterRange {
+  const parts = value.split(':').map((part) => Number(part));
+  if (parts.some((part) => Number.isNaN(part))) {
+    throw new Error(`Invalid range "${value}". Use min:max:step or a single value`);
+  }
+
+  const [min, max = min, step = 1] = parts as [number, number?, number?];
+  if (step <= 0 || max < min) {
+    throw new Error(`Invalid range "${value}": max must be >= min and step > 0`);
+  }
+
+  return { min, max, step };
+}
+
+/**
+ * Ensure every range lies within the validated config bounds
+ */
+export function validateSearchSpace(space: SearchSpace): void {
+  for (const key of Object.keys(PARAMETER_BOUNDS) as Array<keyof SearchSpace>) {
+    const bounds = PARAMETER_BOUNDS[key];
+    const range = space[key];
+    if (range.min < bounds.min || range.max > bounds.max) {
+      throw new Error(
+        `${key} range ${range.min}-${range.max} is outside the allowed ${bounds.min}-${bounds.max}`
+      );
+    }
+  }
+}
+
+/**
+ * Expand a range into its values (Decimal stepping avoids float drift)
+ */
+function rangeValues(range: ParameterRange): Decimal[] {
+  const values: Decimal[] = [];
+  for (let value = new Decimal(range.min); value.lte(range.max); value = value.plus(range.step)) {
+    values.push(value);
+  }
+  return values;
+}
+
+/**
+ * Every combination of the search space
+ */
+export function gridCandidates(space: SearchSpace): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const stopLossPct of rangeValues(space.stopLossPct)) {
+    for (const trailingPct of rangeValues(space.trailingPct)) {
+      for (const entryDelay of rangeValues(space.entryDelaySeconds)) {
+        for (const checkInterval of rangeValues(space.checkInterval)) {
+          candidates.push({
+            stopLossPct,
+            trailingPct,
+            entryDelaySeconds: entryDelay.toNumber(),
+            checkInterval: checkInterval.toNumber(),
+          });
+        }
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Random samples from the search space grid (without duplicates)
+ */
+export function randomCandidates(
+  space: SearchSpace,
+  samples: number,
+  random: () => number = Math.random
+): Candidate[] {
+  const pick = (range: ParameterRange): Decimal => {
+    const values = rangeValues(range);
+    return values[Math.floor(random() * values.length)] ?? new Decimal(range.min);
+  };
+
+  const total = gridCandidates(space).length;
+  const seen = new Set<string>();
+  const candidates: Candidate[] = [];
+
+  while (candidates.length < Math.min(samples, total)) {
+    const candidate: Candidate = {
+      stopLossPct: pick(space.stopLossPct),
+      trailingPct: pick(space.trailingPct),
+      entryDelaySeconds: pick(space.entryDelaySeconds).toNumber(),
+      checkInterval: pick(space.checkInterval).toNumber(),
+    };
+
+    const key = `${candidate.stopLossPct.toString()}|${candidate.trailingPct.toString()}|${candidate.entryDelaySeconds}|${candidate.checkInterval}`;
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    candidates.push(candidate);
+  }
+
+  return candidates;
+}
+
+/**
+ * Sort results best-first by the chosen metric, using the others as tie-breakers
+ */
+export function rankResults(results: OptimizationResult[], rankBy: RankBy): OptimizationResult[] {
+  const byPnl = (a: OptimizationResult, b: OptimizationResult): number =>
+    new Decimal(b.totalProfitLoss).comparedTo(a.totalProfitLoss);
+  const byWinRate = (a: OptimizationResult, b: OptimizationResult): number => b.winRate - a.winRate;
+  const byDrawdown = (a: OptimizationResult, b: OptimizationResult): number =>
+    new Decimal(a.maxDrawdown).comparedTo(b.maxDrawdown);
+
+  const order = {
+    pnl: [byPnl, byWinRate, byDrawdown],
+    winrate: [byWinRate, byPnl, byDrawdown],
+    drawdown: [byDrawdown, byPnl, byWinRate],
+  }[rankBy];
+
+  return [...results].sort((a, b) => {
+    for (const compare of order) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Backtest every candidate across the datasets and rank the results
+ * settings (take-profit ladder, break-even, trailing mode, ...) apply to every candidate
+ */
+export function optimize(
+  datasets: ListingDataset[],
+  candidates: Candidate[],
+  tradeAmount: Decimal,
+  rankBy: RankBy = 'pnl',
+  settings: BacktestSettings = {}
+): OptimizationResult[] {
+  const results = candidates.map((candidate): OptimizationResult => {
+    const { stats, maxDrawdownQuote } = runBacktest(datasets, {
+      ...settings,
+      ...candidate,
+      tradeAmount,
+    });
+
+    return {
+      stopLossPct: candidate.stopLossPct.toString(),
+      trailingPct: candidate.trailingPct.toString(),
+      entryDelaySeconds: candidate.entryDelaySeconds,
+      checkInterval: candidate.checkInterval,
+      totalTrades: stats.totalTrades,
+      winRate: stats.winRate,
+      totalProfitLoss: stats.totalProfitLossUsdt,
+      avgProfitLossPct: stats.avgProfitLossPct,
+      maxDrawdown: maxDrawdownQuote,
+    };
+  });
+
+  return rankResults(results, rankBy);
+}
@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import Decimal from 'decimal.js';
+import { loadConfig, loadTradingConfig } from '../config.js';
+import { MexcAPI } from '../api/mexc.js';
+import { BacktestParams, backtestSettingsFrom, runBacktest } from '../backtest/engine.js';
+import { DatasetSpec, datasetSpecsFromTrades, loadDatasets } from '../backtest/data.js';
+
+/**
+ * CLI tool for backtesting the trailing stop strategy on historical listings
+ */
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      'from-trades': { type: 'string' },
+      'stop-loss': { type: 'string' },
+      trailing: { type: 'string' },
+      'entry-delay': { type: 'string' },
+      'check-interval': { type: 'string' },
+      amount: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+    allowPositionals: true,
+  });
+
+  const datasetsFile = positionals[0];
+  if (values.help || (!datasetsFile && !values['from-trades'])) {
+    showHelp();
+    return;
+  }
+
+  try {
+    // Defaults come from the same .env settings the live bot uses
+    const trading = loadTradingConfig();
+    const params: BacktestParams = {
+      ...backtestSettingsFrom(trading),
+      stopLossPct: new Decimal(values['stop-loss'] ?? trading.stopLossPct),
+      trailingPct: new Decimal(values.trailing ?? trading.trailingPct),
+      entryDelaySeconds: parseInt(values['entry-delay'] ?? '0', 10),
+      checkInterval: parseInt(values['check-interval'] ?? String(trading.checkInterval), 10),
+      tradeAmount: new Decimal(values.amount ?? trading.maxTradeAmount),
+    };
+
+    const specs: DatasetSpec[] = datasetsFile
+      ? (JSON.parse(await fs.readFile(datasetsFile, 'utf-8')) as DatasetSpec[])
+      : await datasetSpecsFromTrades(parseInt(values['from-trades'] ?? '50', 10));
+
+    if (specs.length === 0) {
+      console.log('📭 No listings to backtest');
+      return;
+    }
+
+    // Only connect to MEXC if some listings need klines fetched
+    const needsApi = specs.some((spec) => !spec.csv);
+    const api = needsApi ? new MexcAPI(loadConfig().mexc) : null;
+
+    console.log(`📚 Loading kline data for ${specs.length} listings...`);
+    const datasets = await loadDatasets(specs, api);
+
+    console.log(
+      `🧪 Backtesting: stop loss ${params.stopLossPct.toString()}% | trailing ${params.trailingPct.toString()}% | entry delay ${params.entryDelaySeconds}s | check interval ${params.checkInterval}s`
+    );
+    const result = runBacktest(datasets, params);
+
+    console.log('');
+    console.log(
+      `${'Symbol'.padEnd(16)}${'Entry'.padStart(14)}${'Exit'.padStart(14)}${'P&L %'.padStart(10)}${'Hours'.padStart(8)}  Reason`
+    );
+    for (const trade of result.trades) {
+      console.log(
+        `${trade.market.padEnd(16)}${new Decimal(trade.buyPrice).toSignificantDigits(8).toString().padStart(14)}${new Decimal(trade.sellPrice).toSignificantDigits(8).toString().padStart(14)}${trade.profitLossPct.padStart(10)}${trade.durationHours.padStart(8)}  ${trade.triggerReason}`
+      );
+    }
+
+    const { stats } = result;
+    console.log('');
+    console.log(`📊 Trades: ${stats.totalTrades} | Win rate: ${stats.winRate}%`);
+    console.log(
+      `💰 Total P&L: ${stats.totalProfitLossUsdt} ${trading.quoteCurrency} | Avg: ${stats.avgProfitLossPct}% | Max drawdown: ${result.maxDrawdownQuote} ${trading.quoteCurrency}`
+    );
+    if (result.skipped.length > 0) {
+      console.log(`⚠️  Skipped (no data at entry): ${result.skipped.join(', ')}`);
+    }
+
+    if (values.out) {
+      const report = {
+        params: {
+          stopLossPct: params.stopLossPct.toString(),
+          trailingPct: params.trailingPct.toString(),
+          entryDelaySeconds: params.entryDelaySeconds,
+          checkInterval: params.checkInterval,
+          tradeAmount: params.tradeAmount.toString(),
+        },
+        ...result,
+      };
+      await fs.writeFile(values.out, JSON.stringify(report, null, 2), 'utf-8');
+      console.log(`💾 Report written to ${values.out}`);
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${String(error)}`);
+    process.exit(1);
+  }
+}
+
+function showHelp(): void {
+  console.log('🧪 Trailing Stop Backtester');
+  console.log('');
+  console.log('Usage: npm run backtest -- <DATASETS_JSON | --from-trades N> [options]');
+  console.log('');
+  console.log(
+    'Datasets JSON: [{ "symbol": "NEWUSDT", "listingTime": "ISO", "csv": "optional.csv" }]'
+  );
+  console.log('');
+  console.log('Options:');
+  console.log('  --from-trades N        Backtest the last N markets in completed_trades.json');
+  console.log('  --stop-loss PCT        Stop loss percentage (default: STOP_LOSS_PCT)');
+  console.log('  --trailing PCT         Trailing stop percentage (default: TRAILING_PCT)');
+  console.log('  --entry-delay SEC      Seconds after the first candle before buying (default: 0)');
+  console.log('  --check-interval SEC   Price check interval (default: CHECK_INTERVAL)');
+  console.log('  --amount QUOTE         Quote currency per trade (default: MAX_TRADE_AMOUNT)');
+  console.log('  --out FILE             Write a JSON report');
+  console.log('');
+  console.log('Examples:');
+  console.log('  npm run backtest -- --from-trades 50');
+  console.log('  npm run backtest -- listings.json --stop-loss 15 --trailing 8 --out report.json');
+  console.log('');
+  console.log('💡 Klines are fetched as 1m candles from MEXC and cached in data/backtest/klines');
+}
+
+// Run the CLI
+void main();
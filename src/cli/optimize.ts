@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import Decimal from 'decimal.js';
+import { loadConfig, loadTradingConfig } from '../config.js';
+import { MexcAPI } from '../api/mexc.js';
+import { DatasetSpec, datasetSpecsFromTrades, loadDatasets } from '../backtest/data.js';
+import { backtestSettingsFrom } from '../backtest/engine.js';
+import {
+  gridCandidates,
+  optimize,
+  parseRange,
+  randomCandidates,
+  RankBy,
+  SearchSpace,
+  validateSearchSpace,
+} from '../backtest/optimizer.js';
+
+const RANK_BY_VALUES: RankBy[] = ['pnl', 'winrate', 'drawdown'];
+
+/**
+ * CLI tool for searching trailing stop parameters over historical listings
+ */
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      'from-trades': { type: 'string' },
+      mode: { type: 'string' },
+      samples: { type: 'string' },
+      'stop-loss': { type: 'string' },
+      trailing: { type: 'string' },
+      'entry-delay': { type: 'string' },
+      'check-interval': { type: 'string' },
+      'rank-by': { type: 'string' },
+      top: { type: 'string' },
+      amount: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+    allowPositionals: true,
+  });
+
+  const datasetsFile = positionals[0];
+  if (values.help || (!datasetsFile && !values['from-trades'])) {
+    showHelp();
+    return;
+  }
+
+  try {
+    const trading = loadTradingConfig();
+    const mode = values.mode ?? 'grid';
+    const rankBy = (values['rank-by'] ?? 'pnl') as RankBy;
+    const top = parseInt(values.top ?? '10', 10);
+    const tradeAmount = new Decimal(values.amount ?? trading.maxTradeAmount);
+
+    if (mode !== 'grid' && mode !== 'random') {
+      throw new Error(`Invalid mode "${mode}". Use grid or random`);
+    }
+    if (!RANK_BY_VALUES.includes(rankBy)) {
+      throw new Error(`Invalid rank-by "${rankBy}". Use ${RANK_BY_VALUES.join(', ')}`);
+    }
+
+    const space: SearchSpace = {
+      stopLossPct: parseRange(values['stop-loss'] ?? '5:30:5'),
+      trailingPct: parseRange(values.trailing ?? '2:20:2'),
+      entryDelaySeconds: parseRange(values['entry-delay'] ?? '0'),
+      checkInterval: parseRange(values['check-interval'] ?? String(trading.checkInterval)),
+    };
+    validateSearchSpace(space);
+
+    const candidates =
+      mode === 'grid'
+        ? gridCandidates(space)
+        : randomCandidates(space, parseInt(values.samples ?? '50', 10));
+
+    const specs: DatasetSpec[] = datasetsFile
+      ? (JSON.parse(await fs.readFile(datasetsFile, 'utf-8')) as DatasetSpec[])
+      : await datasetSpecsFromTrades(parseInt(values['from-trades'] ?? '50', 10));
+
+    if (specs.length === 0) {
+      console.log('📭 No listings to backtest');
+      return;
+    }
+
+    // Only connect to MEXC if some listings need klines fetched
+    const needsApi = specs.some((spec) => !spec.csv);
+    const api = needsApi ? new MexcAPI(loadConfig().mexc) : null;
+
+    console.log(`📚 Loading kline data for ${specs.length} listings...`);
+    const datasets = await loadDatasets(specs, api);
+
+    console.log(
+      `🔍 Testing ${candidates.length} parameter combinations (${mode} search, ranked by ${rankBy})...`
+    );
+    const results = optimize(
+      datasets,
+      candidates,
+      tradeAmount,
+      rankBy,
+      backtestSettingsFrom(trading)
+    );
+
+    console.log('');
+    console.log(
+      `${'#'.padStart(4)}${'Stop %'.padStart(9)}${'Trail %'.padStart(9)}${'Delay'.padStart(7)}${'Check'.padStart(7)}${'Trades'.padStart(8)}${'Win %'.padStart(8)}${'P&L'.padStart(14)}${'Avg %'.padStart(9)}${'Max DD'.padStart(12)}`
+    );
+    results.slice(0, top).forEach((result, i) => {
+      console.log(
+        `${String(i + 1).padStart(4)}${result.stopLossPct.padStart(9)}${result.trailingPct.padStart(9)}${`${result.entryDelaySeconds}s`.padStart(7)}${`${result.checkInterval}s`.padStart(7)}${String(result.totalTrades).padStart(8)}${result.winRate.toFixed(1).padStart(8)}${result.totalProfitLoss.padStart(14)}${result.avgProfitLossPct.padStart(9)}${result.maxDrawdown.padStart(12)}`
+      );
+    });
+
+    const best = results[0];
+    if (best) {
+      console.log('');
+      console.log(
+        `🏆 Best: STOP_LOSS_PCT=${best.stopLossPct} TRAILING_PCT=${best.trailingPct} CHECK_INTERVAL=${best.checkInterval} (entry delay ${best.entryDelaySeconds}s) → ${best.totalProfitLoss} ${trading.quoteCurrency}`
+      );
+    }
+
+    const outFile =
+      values.out ??
+      path.join(
+        'data',
+        'backtest',
+        `optimize-${new Date().toISOString().replace(/[:.]/g, '-')}.json`
+      );
+    const report = {
+      generatedAt: new Date().toISOString(),
+      mode,
+      rankBy,
+      tradeAmount: tradeAmount.toString(),
+      listings: datasets.map((dataset) => dataset.symbol),
+      searchSpace: space,
+      results,
+    };
+    await fs.mkdir(path.dirname(outFile), { recursive: true });
+    await fs.writeFile(outFile, JSON.stringify(report, null, 2), 'utf-8');
+    console.log(`💾 Report written to ${outFile}`);
+  } catch (error) {
+    console.error(`❌ Error: ${String(error)}`);
+    process.exit(1);
+  }
+}
+
+function showHelp(): void {
+  console.log('🔍 Trailing Stop Parameter Optimizer');
+  console.log('');
+  console.log('Usage: npm run optimize -- <DATASETS_JSON | --from-trades N> [options]');
+  console.log('');
+  console.log('Ranges are MIN:MAX:STEP or a single value, within the .env validation limits.');
+  console.log('');
+  console.log('Options:');
+  console.log('  --from-trades N        Use the last N markets in completed_trades.json');
+  console.log(
+    '  --mode grid|random     Search every combination or sample randomly (default: grid)'
+  );
+  console.log('  --samples N            Combinations to sample in random mode (default: 50)');
+  console.log('  --stop-loss RANGE      Stop loss percentages (default: 5:30:5)');
+  console.log('  --trailing RANGE       Trailing stop percentages (default: 2:20:2)');
+  console.log('  --entry-delay RANGE    Seconds after the first candle before buying (default: 0)');
+  console.log('  --check-interval RANGE Price check intervals (default: CHECK_INTERVAL)');
+  console.log('  --rank-by METRIC       pnl, winrate or drawdown (default: pnl)');
+  console.log('  --top N                Rows to print (default: 10)');
+  console.log('  --amount QUOTE         Quote currency per trade (default: MAX_TRADE_AMOUNT)');
+  console.log('  --out FILE             JSON report path (default: data/backtest/optimize-*.json)');
+  console.log('');
+  console.log('Examples:');
+  console.log('  npm run optimize -- --from-trades 50');
+  console.log('  npm run optimize -- listings.json --stop-loss 10:25:5 --trailing 5:15:1');
+  console.log(
+    '  npm run optimize -- listings.json --mode random --samples 100 --entry-delay 0:30:5'
+  );
+}
+
+// Run the CLI
+void main();
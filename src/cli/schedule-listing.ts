@@ -1,12 +1,31 @@
 #!/usr/bin/env node
 
+import { parseArgs } from 'util';
 import { ListingScheduler } from '../scheduler/listing-scheduler.js';
+import {
+  describeListingOverrides,
+  ListingOverrides,
+  parseListingOverrides,
+} from '../scheduler/listing-overrides.js';
 
 /**
  * CLI tool for managing scheduled listings
  */
 async function main(): Promise<void> {
-  const args = process.argv.slice(2);
+  const { values, positionals: args } = parseArgs({
+    options: {
+      amount: { type: 'string' },
+      'stop-loss': { type: 'string' },
+      trailing: { type: 'string' },
+      'trailing-mode': { type: 'string' },
+      'take-profit': { type: 'string' },
+      'max-hold': { type: 'string' },
+      'max-price': { type: 'string' },
+      'reference-price': { type: 'string' },
+      'limit-window': { type: 'string' },
+    },
+    allowPositionals: true,
+  });
   const command = args[0];
 
   const scheduler = new ListingScheduler();
@@ -15,7 +34,21 @@ async function main(): Promise<void> {
   try {
     switch (command) {
       case 'add':
-        await handleAdd(scheduler, args.slice(1));
+        await handleAdd(scheduler, args.slice(1), {
+          ...(values.amount !== undefined && { tradeAmount: values.amount }),
+          ...(values['stop-loss'] !== undefined && { stopLossPct: values['stop-loss'] }),
+          ...(values.trailing !== undefined && { trailingPct: values.trailing }),
+          ...(values['trailing-mode'] !== undefined && { trailingMode: values['trailing-mode'] }),
+          ...(values['take-profit'] !== undefined && { takeProfitLevels: values['take-profit'] }),
+          ...(values['max-hold'] !== undefined && { maxHoldMinutes: values['max-hold'] }),
+          ...(values['max-price'] !== undefined && { maxEntryPrice: values['max-price'] }),
+          ...(values['reference-price'] !== undefined && {
+            referencePrice: values['reference-price'],
+          }),
+          ...(values['limit-window'] !== undefined && {
+            limitWindowSeconds: values['limit-window'],
+          }),
+        });
         break;
       case 'list':
         await handleList(scheduler);
@@ -36,9 +69,15 @@ async function main(): Promise<void> {
   }
 }
 
-async function handleAdd(scheduler: ListingScheduler, args: string[]): Promise<void> {
+async function handleAdd(
+  scheduler: ListingScheduler,
+  args: string[],
+  overrides: ListingOverrides
+): Promise<void> {
   if (args.length < 2) {
-    console.error('❌ Usage: npm run schedule add <SYMBOL> <ISO_DATETIME> [QUOTE_CURRENCY] [NOTES]');
+    console.error(
+      '❌ Usage: npm run schedule -- add <SYMBOL> <ISO_DATETIME> [QUOTE_CURRENCY] [NOTES] [OPTIONS]'
+    );
     console.error('Example: npm run schedule add NEWTOKEN "2024-01-15T14:00:00.000Z" USDT "High volume expected"');
     process.exit(1);
   }
@@ -66,9 +105,24 @@ async function handleAdd(scheduler: ListingScheduler, args: string[]): Promise<v
     process.exit(1);
   }
 
+  const parsed = parseListingOverrides(overrides);
+  if (!parsed.success) {
+    console.error(`❌ ${parsed.error}`);
+    process.exit(1);
+  }
+
   const trimmedNotes = notes.trim();
-  await scheduler.addScheduledListing(symbol as string, datetime as string, quoteCurrency as string, trimmedNotes.length > 0 ? trimmedNotes : undefined);
+  await scheduler.addScheduledListing(
+    symbol as string,
+    datetime as string,
+    quoteCurrency as string,
+    trimmedNotes.length > 0 ? trimmedNotes : undefined,
+    overrides
+  );
   console.log(`✅ Added scheduled listing: ${symbol} at ${listingTime.toLocaleString()}`);
+  if (Object.keys(overrides).length > 0) {
+    console.log(`   ⚙️  Overrides: ${describeListingOverrides(overrides)}`);
+  }
 }
 
 async function handleList(scheduler: ListingScheduler): Promise<void> {
@@ -92,9 +146,15 @@ async function handleList(scheduler: ListingScheduler): Promise<void> {
     if (listing.notes) {
       console.log(`   📝 Notes: ${listing.notes}`);
     }
+    if (listing.overrides) {
+      console.log(`   ⚙️  Overrides: ${describeListingOverrides(listing.overrides)}`);
+    }
     if (listing.tradedAt) {
       console.log(`   ✅ Traded: ${new Date(listing.tradedAt).toLocaleString()}`);
     }
+    if (listing.fillDelayMs !== undefined) {
+      console.log(`   ⏱️  First fill: ${listing.fillDelayMs}ms after listing time`);
+    }
     console.log('');
   }
 }
@@ -162,13 +222,38 @@ function showHelp(): void {
   console.log('Usage: npm run schedule <command> [args...]');
   console.log('');
   console.log('Commands:');
-  console.log('  add <SYMBOL> <ISO_DATETIME> [QUOTE] [NOTES]  Add scheduled listing');
+  console.log(
+    '  add <SYMBOL> <ISO_DATETIME> [QUOTE] [NOTES]  Add scheduled listing (options below)'
+  );
   console.log('  list                                          Show all scheduled listings');
   console.log('  remove <SYMBOL> <ISO_DATETIME>               Remove scheduled listing');
   console.log('  upcoming                                      Show upcoming listings (24h)');
   console.log('');
+  console.log('Add options (replace the .env settings for this listing):');
+  console.log('  --amount <QUOTE>              Trade amount (MAX_TRADE_AMOUNT)');
+  console.log('  --stop-loss <PCT>             Stop-loss percentage (STOP_LOSS_PCT)');
+  console.log('  --trailing <PCT>              Trailing percentage (TRAILING_PCT)');
+  console.log('  --trailing-mode <fixed|atr>   Trailing mode (TRAILING_MODE)');
+  console.log(
+    '  --take-profit <GAIN:SELL,...> Take-profit ladder (TAKE_PROFIT_LEVELS, "" disables it)'
+  );
+  console.log(
+    '  --max-hold <MINUTES>          Max holding time (MAX_HOLD_MINUTES, 0 holds indefinitely)'
+  );
+  console.log(
+    '  --max-price <PRICE|Nx>        Enter with IOC limit buys capped at this price (or N x reference)'
+  );
+  console.log('  --reference-price <PRICE>     Expected price a --max-price multiple applies to');
+  console.log(
+    '  --limit-window <SECONDS>      How long a --max-price entry re-prices (LISTING_LIMIT_WINDOW_SECONDS)'
+  );
+  console.log('');
   console.log('Examples:');
   console.log('  npm run schedule add NEWTOKEN "2024-01-15T14:00:00.000Z" USDT "High volume"');
+  console.log('  npm run schedule -- add HYPE "2024-01-15T14:00:00.000Z" --amount 50 --trailing 8');
+  console.log(
+    '  npm run schedule -- add HYPE "2024-01-15T14:00:00.000Z" --max-price 3x --reference-price 0.01'
+  );
   console.log('  npm run schedule list');
   console.log('  npm run schedule upcoming');
   console.log('  npm run schedule remove NEWTOKEN "2024-01-15T14:00:00.000Z"');
@@ -0,0 +1,173 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+import { ControlClient, sendTradeCommand } from '../control/control-client.js';
+import { loadAuditEntries } from '../trade/audit.js';
+import { parseStopEdits, StopEditRequest } from '../trade/stop-edits.js';
+import { loadJson } from '../utils/persistence.js';
+import { SerializedTradeState } from '../types.js';
+
+const ACTIVE_TRADES_FILE = 'active_trades.json';
+const COMMAND_TIMEOUT_MS = 15000;
+
+const control = new ControlClient();
+
+/**
+ * CLI tool for inspecting active trades and editing their stops
+ * Edits are sent to the running bot, which validates and applies them
+ */
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      'stop-loss': { type: 'string' },
+      trailing: { type: 'string' },
+      'take-profit': { type: 'string' },
+      help: { type: 'boolean' },
+    },
+    allowPositionals: true,
+  });
+  const [command, market] = positionals;
+
+  try {
+    switch (values.help ? undefined : command) {
+      case 'list':
+        await handleList();
+        break;
+      case 'edit':
+        await handleEdit(market, {
+          ...(values['stop-loss'] !== undefined && { stopLossPrice: values['stop-loss'] }),
+          ...(values.trailing !== undefined && { trailingPct: values.trailing }),
+          ...(values['take-profit'] !== undefined && { takeProfitLevels: values['take-profit'] }),
+        });
+        break;
+      case 'audit':
+        await handleAudit(market);
+        break;
+      default:
+        showHelp();
+        break;
+    }
+  } catch (error) {
+    console.error(`❌ Error: ${String(error)}`);
+    process.exit(1);
+  }
+}
+
+async function handleList(): Promise<void> {
+  const trades = await loadActiveTrades();
+  if (trades.length === 0) {
+    console.log('📭 No active trades');
+    return;
+  }
+
+  console.log(`📊 Active Trades (${trades.length}):`);
+  console.log('');
+  for (const trade of trades) {
+    const ladder = (trade.takeProfitLevels ?? [])
+      .map((level, index) => {
+        const hit = index < (trade.takeProfitsHit ?? 0) ? ' (hit)' : '';
+        return `${level.gainPct}:${level.sellPct}${hit}`;
+      })
+      .join(', ');
+
+    console.log(`${trade.market} [${trade.status ?? 'open'}${trade.pausedAt ? ', paused' : ''}]`);
+    console.log(
+      `   💵 Entry: ${trade.buyPrice} | Current: ${trade.currentPrice} | High: ${trade.highestPrice}`
+    );
+    console.log(`   🛑 Stop-loss: ${trade.stopLossPrice}`);
+    console.log(
+      `   📉 Trailing stop: ${trade.trailingStopPrice} (${trade.trailingMode === 'atr' ? 'ATR' : `${trade.trailingPct ?? 'default'}%`})`
+    );
+    console.log(`   🎯 Take-profit: ${ladder || 'none'}`);
+    console.log('');
+  }
+}
+
+async function handleEdit(market: string | undefined, request: StopEditRequest): Promise<void> {
+  if (!market) {
+    console.error(
+      '❌ Usage: npm run trade edit <MARKET> [--stop-loss PRICE] [--trailing PCT] [--take-profit GAIN:SELL,...]'
+    );
+    process.exit(1);
+  }
+
+  // Catch typos here; the bot checks the values against the live price
+  const parsed = parseStopEdits(request);
+  if (!parsed.success) {
+    console.error(`❌ ${parsed.error}`);
+    process.exit(1);
+  }
+
+  const trades = await loadActiveTrades();
+  if (!trades.some((trade) => trade.market === market)) {
+    console.error(`❌ No active trade for ${market}`);
+    process.exit(1);
+  }
+
+  console.log(`📨 Sending edit for ${market} to the bot...`);
+  const result = await sendTradeCommand(
+    control,
+    { market, action: 'edit', source: 'cli', stopEdits: request },
+    COMMAND_TIMEOUT_MS
+  );
+  if (!result) {
+    console.log('⏳ The bot has not answered yet. Is it running? The edit expires in 2 minutes.');
+  } else if (result.success) {
+    console.log(`✅ ${result.message}`);
+  } else {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+}
+
+async function handleAudit(market: string | undefined): Promise<void> {
+  const entries = await loadAuditEntries(market);
+  if (entries.length === 0) {
+    console.log('📭 No manual changes recorded');
+    return;
+  }
+
+  for (const entry of entries) {
+    console.log(
+      `${new Date(entry.time).toLocaleString()}  ${entry.market}  ${entry.field}: ${entry.from || '-'} -> ${entry.to || '-'}  (${entry.source})`
+    );
+  }
+}
+
+/**
+ * Active trades, live from the bot or as last saved
+ */
+async function loadActiveTrades(): Promise<SerializedTradeState[]> {
+  const state = await control.getState();
+  if (state.success) return state.data.activeTrades;
+  return loadJson<SerializedTradeState[]>(ACTIVE_TRADES_FILE, []);
+}
+
+function showHelp(): void {
+  console.log('🤖 MEXC Bot Trade Controls');
+  console.log('');
+  console.log('Usage: npm run trade <command> [args...]');
+  console.log('');
+  console.log('Commands:');
+  console.log('  list                    Show active trades and their stops');
+  console.log('  edit <MARKET> [options] Change the stops of an active trade');
+  console.log('  audit [MARKET]          Show manual changes, newest first');
+  console.log('');
+  console.log('Edit options:');
+  console.log('  --stop-loss <PRICE>           New stop-loss price (below the current price)');
+  console.log(
+    '  --trailing <PCT>              New trailing percentage (switches ATR trades to fixed)'
+  );
+  console.log(
+    '  --take-profit <GAIN:SELL,...> Replace the take-profit levels not yet hit ("" removes them)'
+  );
+  console.log('');
+  console.log('Examples:');
+  console.log('  npm run trade list');
+  console.log('  npm run trade -- edit NEWUSDT --stop-loss 0.95 --trailing 5');
+  console.log('  npm run trade -- edit NEWUSDT --take-profit 50:30,100:30');
+  console.log('  npm run trade audit NEWUSDT');
+}
+
+// Run the CLI
+void main();
@@ -1,12 +1,120 @@
 import { config } from 'dotenv';
 import { z } from 'zod';
 import Decimal from 'decimal.js';
-import { TradingConfig, MexcConfig } from './types.js';
+import {
+  TradingConfig,
+  MexcConfig,
+  PaperConfig,
+  ScheduleConfig,
+  EntryFilterConfig,
+  ControlConfig,
+  TakeProfitLevel,
+  TrailingStep,
+} from './types.js';
 import { logger } from './utils/logger.js';
 
 // Load environment variables
 config();
 
+/**
+ * Validation ranges for numeric trading settings
+ * Shared with the parameter optimizer so searches stay within valid configs
+ */
+export const TRADING_CONFIG_RANGES = {
+  stopLossPct: { min: 0.1, max: 50 },
+  trailingPct: { min: 0.1, max: 20 },
+  maxTradeAmount: { min: 1, max: 10000 },
+  checkInterval: { min: 1, max: 300 },
+  maxRetries: { min: 1, max: 10 },
+  retryDelay: { min: 1, max: 60 },
+  breakEvenTriggerPct: { min: 0.1, max: 1000 },
+  atrPeriod: { min: 2, max: 100 },
+  atrMultiplier: { min: 0.5, max: 10 },
+  maxHoldMinutes: { min: 1, max: 10080 },
+} as const;
+
+const ranges = TRADING_CONFIG_RANGES;
+
+/**
+ * Seconds a capped entry may keep re-pricing (LISTING_LIMIT_WINDOW_SECONDS and listing overrides)
+ */
+export const LIMIT_WINDOW_RANGE = { min: 1, max: 120 } as const;
+
+/**
+ * Validation ranges for the entry filter settings
+ */
+const entryRanges = {
+  maxChangeFromOpenPct: { min: 0.1, max: 1000 },
+  minDropFromHighPct: { min: 0.1, max: 99 },
+  maxVolatilityPct: { min: 0.1, max: 10000 },
+  maxVolumeSpike: { min: 1, max: 1000 },
+  maxSpreadPct: { min: 0.01, max: 100 },
+} as const;
+
+/**
+ * Parse a take-profit ladder such as "20:30,50:30" (sell 30% at +20%, 30% at +50%)
+ * An empty string disables the ladder
+ */
+export function parseTakeProfitLevels(value: string): TakeProfitLevel[] {
+  return value
+    .split(',')
+    .map((level) => level.trim())
+    .filter((level) => level.length > 0)
+    .map((level) => {
+      const [gainPct, sellPct, ...rest] = level.split(':');
+      if (!gainPct || !sellPct || rest.length > 0) {
+        throw new Error(`Invalid take-profit level "${level}", expected gain:sell`);
+      }
+      return { gainPct: new Decimal(gainPct), sellPct: new Decimal(sellPct) };
+    });
+}
+
+/**
+ * Levels must have positive, ascending gains and sell at most 100% of the position in total
+ */
+export function isValidLadder(levels: TakeProfitLevel[]): boolean {
+  let totalSellPct = new Decimal(0);
+  for (const [index, level] of levels.entries()) {
+    const previous = levels[index - 1];
+    if (level.gainPct.lte(0) || (previous && level.gainPct.lte(previous.gainPct))) return false;
+    if (level.sellPct.lte(0)) return false;
+    totalSellPct = totalSellPct.plus(level.sellPct);
+  }
+  return totalSellPct.lte(100);
+}
+
+/**
+ * Parse a trailing schedule such as "5:5,60:3" (trail 5% after 5 minutes, 3% after an hour)
+ * An empty string keeps trailingPct for the whole trade
+ */
+export function parseTrailingSchedule(value: string): TrailingStep[] {
+  return value
+    .split(',')
+    .map((step) => step.trim())
+    .filter((step) => step.length > 0)
+    .map((step) => {
+      const [afterMinutes, trailingPct, ...rest] = step.split(':');
+      if (!afterMinutes || !trailingPct || rest.length > 0) {
+        throw new Error(`Invalid trailing step "${step}", expected minutes:pct`);
+      }
+      return { afterMinutes: Number(afterMinutes), trailingPct: new Decimal(trailingPct) };
+    });
+}
+
+/**
+ * Steps must start after ascending whole minutes and trail within the TRAILING_PCT range
+ */
+function isValidSchedule(steps: TrailingStep[]): boolean {
+  return steps.every((step, index) => {
+    const previous = steps[index - 1];
+    if (!Number.isInteger(step.afterMinutes) || step.afterMinutes <= 0) return false;
+    if (previous && step.afterMinutes <= previous.afterMinutes) return false;
+    return (
+      step.trailingPct.gte(ranges.trailingPct.min) && step.trailingPct.lte(ranges.trailingPct.max)
+    );
+  });
+}
+
 /**
  * Zod schema for trading configuration with validation ranges
  */
@@ -14,44 +122,116 @@ const tradingConfigSchema = z.object({
   stopLossPct: z
     .string()
     .transform((val) => new Decimal(val))
-    .refine((val) => val.gte(0.1) && val.lte(50), {
-      message: 'STOP_LOSS_PCT must be between 0.1 and 50',
+    .refine((val) => val.gte(ranges.stopLossPct.min) && val.lte(ranges.stopLossPct.max), {
+      message: `STOP_LOSS_PCT must be between ${ranges.stopLossPct.min} and ${ranges.stopLossPct.max}`,
     }),
   trailingPct: z
     .string()
     .transform((val) => new Decimal(val))
-    .refine((val) => val.gte(0.1) && val.lte(20), {
-      message: 'TRAILING_PCT must be between 0.1 and 20',
+    .refine((val) => val.gte(ranges.trailingPct.min) && val.lte(ranges.trailingPct.max), {
+      message: `TRAILING_PCT must be between ${ranges.trailingPct.min} and ${ranges.trailingPct.max}`,
     }),
   maxTradeAmount: z
     .string()
     .transform((val) => new Decimal(val))
-    .refine((val) => val.gte(1) && val.lte(10000), {
-      message: 'MAX_TRADE_AMOUNT must be between 1 and 10000',
+    .refine((val) => val.gte(ranges.maxTradeAmount.min) && val.lte(ranges.maxTradeAmount.max), {
+      message: `MAX_TRADE_AMOUNT must be between ${ranges.maxTradeAmount.min} and ${ranges.maxTradeAmount.max}`,
     }),
   checkInterval: z
     .string()
     .transform((val) => parseInt(val, 10))
-    .refine((val) => val >= 1 && val <= 300, {
-      message: 'CHECK_INTERVAL must be between 1 and 300 seconds',
+    .refine((val) => val >= ranges.checkInterval.min && val <= ranges.checkInterval.max, {
+      message: `CHECK_INTERVAL must be between ${ranges.checkInterval.min} and ${ranges.checkInterval.max} seconds`,
     }),
   maxRetries: z
     .string()
     .transform((val) => parseInt(val, 10))
-    .refine((val) => val >= 1 && val <= 10, {
-      message: 'MAX_RETRIES must be between 1 and 10',
+    .refine((val) => val >= ranges.maxRetries.min && val <= ranges.maxRetries.max, {
+      message: `MAX_RETRIES must be between ${ranges.maxRetries.min} and ${ranges.maxRetries.max}`,
     }),
   retryDelay: z
     .string()
     .transform((val) => parseInt(val, 10))
-    .refine((val) => val >= 1 && val <= 60, {
-      message: 'RETRY_DELAY must be between 1 and 60 seconds',
+    .refine((val) => val >= ranges.retryDelay.min && val <= ranges.retryDelay.max, {
+      message: `RETRY_DELAY must be between ${ranges.retryDelay.min} and ${ranges.retryDelay.max} seconds`,
     }),
   quoteCurrency: z
     .string()
     .refine((val) => ['USDT', 'USDC', 'BTC', 'BUSD'].includes(val), {
       message: 'QUOTE_CURRENCY must be one of: USDT, USDC, BTC, BUSD',
     }),
+  takeProfitLevels: z
+    .string()
+    .transform((val, ctx) => {
+      try {
+        return parseTakeProfitLevels(val);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `TAKE_PROFIT_LEVELS: ${String(error)}`,
+        });
+        return z.NEVER;
+      }
+    })
+    .refine(isValidLadder, {
+      message:
+        'TAKE_PROFIT_LEVELS gains must be positive and ascending, and sell at most 100% in total',
+    }),
+  breakEvenTriggerPct: z
+    .string()
+    .transform((val) => (val.trim() === '' ? null : new Decimal(val)))
+    .refine(
+      (val) =>
+        val === null ||
+        (val.gte(ranges.breakEvenTriggerPct.min) && val.lte(ranges.breakEvenTriggerPct.max)),
+      {
+        message: `BREAK_EVEN_TRIGGER_PCT must be empty or between ${ranges.breakEvenTriggerPct.min} and ${ranges.breakEvenTriggerPct.max}`,
+      }
+    ),
+  trailingMode: z.enum(['fixed', 'atr'], {
+    errorMap: () => ({ message: 'TRAILING_MODE must be one of: fixed, atr' }),
+  }),
+  atrPeriod: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => val >= ranges.atrPeriod.min && val <= ranges.atrPeriod.max, {
+      message: `ATR_PERIOD must be between ${ranges.atrPeriod.min} and ${ranges.atrPeriod.max} candles`,
+    }),
+  atrMultiplier: z
+    .string()
+    .transform((val) => new Decimal(val))
+    .refine((val) => val.gte(ranges.atrMultiplier.min) && val.lte(ranges.atrMultiplier.max), {
+      message: `ATR_MULTIPLIER must be between ${ranges.atrMultiplier.min} and ${ranges.atrMultiplier.max}`,
+    }),
+  maxHoldMinutes: z
+    .string()
+    .transform((val) => (val.trim() === '' || val.trim() === '0' ? null : Number(val)))
+    .refine(
+      (val) =>
+        val === null ||
+        (Number.isInteger(val) &&
+          val >= ranges.maxHoldMinutes.min &&
+          val <= ranges.maxHoldMinutes.max),
+      {
+        message: `MAX_HOLD_MINUTES must be empty, 0 or a whole number between ${ranges.maxHoldMinutes.min} and ${ranges.maxHoldMinutes.max}`,
+      }
+    ),
+  trailingSchedule: z
+    .string()
+    .transform((val, ctx) => {
+      try {
+        return parseTrailingSchedule(val);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `TRAILING_SCHEDULE: ${String(error)}`,
+        });
+        return z.NEVER;
+      }
+    })
+    .refine(isValidSchedule, {
+      message: `TRAILING_SCHEDULE minutes must be whole, positive and ascending, with trails between ${ranges.trailingPct.min} and ${ranges.trailingPct.max}`,
+    }),
 });
 
 /**
@@ -94,30 +274,195 @@ const mexcConfigSchema = z.object({
     .refine((val) => val >= 1000 && val <= 60000, {
       message: 'RECEIVE_WINDOW must be between 1000 and 60000 milliseconds',
     }),
+  wsUrl: z
+    .string()
+    .url()
+    .refine((val) => val.startsWith('wss://') || val.startsWith('ws://'), {
+      message: 'MEXC_WS_URL must be a ws:// or wss:// URL',
+    }),
+  wsEnabled: z
+    .enum(['true', 'false'], {
+      errorMap: () => ({ message: 'MEXC_WS_ENABLED must be true or false' }),
+    })
+    .transform((val) => val === 'true'),
 });
 
 /**
- * Load and validate configuration from environment variables
+ * Zod schema for paper trading configuration
  */
-export function loadConfig(): { trading: TradingConfig; mexc: MexcConfig } {
-  try {
-    // Support backward compatibility with deprecated MIN_PROFIT_PCT
-    const stopLossPct = process.env.STOP_LOSS_PCT || process.env.MIN_PROFIT_PCT || '5.0';
+const paperConfigSchema = z.object({
+  mode: z.enum(['live', 'paper'], {
+    errorMap: () => ({ message: 'TRADING_MODE must be one of: live, paper' }),
+  }),
+  initialBalance: z
+    .string()
+    .transform((val) => new Decimal(val))
+    .refine((val) => val.gte(0) && val.lte(1000000), {
+      message: 'PAPER_INITIAL_BALANCE must be between 0 and 1000000',
+    }),
+  feePct: z
+    .string()
+    .transform((val) => new Decimal(val))
+    .refine((val) => val.gte(0) && val.lte(5), {
+      message: 'PAPER_FEE_PCT must be between 0 and 5',
+    }),
+  slippagePct: z
+    .string()
+    .transform((val) => new Decimal(val))
+    .refine((val) => val.gte(0) && val.lte(20), {
+      message: 'PAPER_SLIPPAGE_PCT must be between 0 and 20',
+    }),
+});
 
-    if (process.env.MIN_PROFIT_PCT && !process.env.STOP_LOSS_PCT) {
-      logger.warn('MIN_PROFIT_PCT is deprecated. Please use STOP_LOSS_PCT instead.');
-    }
+/**
+ * Zod schema for scheduled listing execution
+ */
+const scheduleConfigSchema = z.object({
+  warmUpSeconds: z
+    .string()
+    .transform((val) => Number(val))
+    .refine((val) => Number.isInteger(val) && val >= 0 && val <= 600, {
+      message: 'LISTING_WARMUP_SECONDS must be a whole number between 0 and 600',
+    }),
+  burstOrders: z
+    .string()
+    .transform((val) => Number(val))
+    .refine((val) => Number.isInteger(val) && val >= 1 && val <= 10, {
+      message: 'LISTING_BURST_ORDERS must be a whole number between 1 and 10',
+    }),
+  burstStaggerMs: z
+    .string()
+    .transform((val) => Number(val))
+    .refine((val) => Number.isInteger(val) && val >= 0 && val <= 1000, {
+      message: 'LISTING_BURST_STAGGER_MS must be a whole number between 0 and 1000',
+    }),
+  limitWindowSeconds: z
+    .string()
+    .transform((val) => Number(val))
+    .refine(
+      (val) =>
+        Number.isInteger(val) && val >= LIMIT_WINDOW_RANGE.min && val <= LIMIT_WINDOW_RANGE.max,
+      {
+        message: `LISTING_LIMIT_WINDOW_SECONDS must be a whole number between ${LIMIT_WINDOW_RANGE.min} and ${LIMIT_WINDOW_RANGE.max}`,
+      }
+    ),
+});
 
-    // Validate trading configuration
-    const tradingConfig = tradingConfigSchema.parse({
-      stopLossPct,
-      trailingPct: process.env.TRAILING_PCT || '3.0',
-      maxTradeAmount: process.env.MAX_TRADE_AMOUNT || '10.0',
-      checkInterval: process.env.CHECK_INTERVAL || '10',
-      maxRetries: process.env.MAX_RETRIES || '3',
-      retryDelay: process.env.RETRY_DELAY || '5',
-      quoteCurrency: process.env.QUOTE_CURRENCY || 'USDT',
+/**
+ * Optional entry filter setting: empty turns the filter off (null), anything else must lie within
+ * its range
+ */
+function entryFilterSetting(
+  envName: string,
+  range: { min: number; max: number }
+): z.ZodEffects<z.ZodEffects<z.ZodString, Decimal | null, string>, Decimal | null, string> {
+  return z
+    .string()
+    .transform((val) => (val.trim() === '' ? null : new Decimal(val)))
+    .refine((val) => val === null || (val.gte(range.min) && val.lte(range.max)), {
+      message: `${envName} must be empty or between ${range.min} and ${range.max}`,
     });
+}
+
+/**
+ * Zod schema for the entry filters of late scheduled listing buys (see ENTRY_ANALYSIS_DELAY_MS
+ * in main.ts)
+ */
+const entryFilterConfigSchema = z.object({
+  maxChangeFromOpenPct: entryFilterSetting(
+    'ENTRY_MAX_CHANGE_FROM_OPEN_PCT',
+    entryRanges.maxChangeFromOpenPct
+  ),
+  minDropFromHighPct: entryFilterSetting(
+    'ENTRY_MIN_DROP_FROM_HIGH_PCT',
+    entryRanges.minDropFromHighPct
+  ),
+  maxVolatilityPct: entryFilterSetting('ENTRY_MAX_VOLATILITY_PCT', entryRanges.maxVolatilityPct),
+  maxVolumeSpike: entryFilterSetting('ENTRY_MAX_VOLUME_SPIKE', entryRanges.maxVolumeSpike),
+  maxSpreadPct: entryFilterSetting('ENTRY_MAX_SPREAD_PCT', entryRanges.maxSpreadPct),
+});
+
+/**
+ * Zod schema for the bot's control channel configuration
+ */
+const controlConfigSchema = z.object({
+  port: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => val >= 1024 && val <= 65535, {
+      message: 'CONTROL_PORT must be between 1024 and 65535',
+    }),
+});
+
+/**
+ * Validate trading configuration from environment variables
+ */
+function parseTradingConfig(): TradingConfig {
+  // Support backward compatibility with deprecated MIN_PROFIT_PCT
+  const stopLossPct = process.env.STOP_LOSS_PCT || process.env.MIN_PROFIT_PCT || '5.0';
+
+  if (process.env.MIN_PROFIT_PCT && !process.env.STOP_LOSS_PCT) {
+    logger.warn('MIN_PROFIT_PCT is deprecated. Please use STOP_LOSS_PCT instead.');
+  }
+
+  return tradingConfigSchema.parse({
+    stopLossPct,
+    trailingPct: process.env.TRAILING_PCT || '3.0',
+    maxTradeAmount: process.env.MAX_TRADE_AMOUNT || '10.0',
+    checkInterval: process.env.CHECK_INTERVAL || '10',
+    maxRetries: process.env.MAX_RETRIES || '3',
+    retryDelay: process.env.RETRY_DELAY || '5',
+    quoteCurrency: process.env.QUOTE_CURRENCY || 'USDT',
+    takeProfitLevels: process.env.TAKE_PROFIT_LEVELS || '',
+    breakEvenTriggerPct: process.env.BREAK_EVEN_TRIGGER_PCT || '',
+    trailingMode: process.env.TRAILING_MODE || 'fixed',
+    atrPeriod: process.env.ATR_PERIOD || '14',
+    atrMultiplier: process.env.ATR_MULTIPLIER || '3',
+    maxHoldMinutes: process.env.MAX_HOLD_MINUTES || '',
+    trailingSchedule: process.env.TRAILING_SCHEDULE || '',
+  });
+}
+
+/**
+ * Log validation errors and rethrow as a configuration error
+ */
+function rethrowConfigError(error: unknown): never {
+  if (error instanceof z.ZodError) {
+    logger.error('Configuration validation failed:');
+    error.errors.forEach((err) => {
+      logger.error(`  - ${err.path.join('.')}: ${err.message}`);
+    });
+    throw new Error('Invalid configuration. Please check your .env file.');
+  }
+  throw error;
+}
+
+/**
+ * Load and validate only the trading configuration (no API credentials required)
+ * Used by offline tools such as backtests
+ */
+export function loadTradingConfig(): TradingConfig {
+  try {
+    return parseTradingConfig();
+  } catch (error) {
+    return rethrowConfigError(error);
+  }
+}
+
+/**
+ * Load and validate configuration from environment variables
+ */
+export function loadConfig(): {
+  trading: TradingConfig;
+  mexc: MexcConfig;
+  paper: PaperConfig;
+  schedule: ScheduleConfig;
+  entry: EntryFilterConfig;
+  control: ControlConfig;
+} {
+  try {
+    // Validate trading configuration
+    const tradingConfig = parseTradingConfig();
 
     // Validate MEXC API configuration
     if (!process.env.MEXC_API_KEY || !process.env.MEXC_API_SECRET) {
@@ -133,6 +478,38 @@ export function loadConfig(): { trading: TradingConfig; mexc: MexcConfig } {
       rateLimit: process.env.MEXC_RATE_LIMIT || '1200',
       timeout: process.env.API_TIMEOUT || '30000',
       receiveWindow: process.env.RECEIVE_WINDOW || '5000',
+      wsUrl: process.env.MEXC_WS_URL || 'wss://wbs.mexc.com/ws',
+      wsEnabled: process.env.MEXC_WS_ENABLED || 'true',
+    });
+
+    // Validate paper trading configuration
+    const paperConfig = paperConfigSchema.parse({
+      mode: process.env.TRADING_MODE || 'live',
+      initialBalance: process.env.PAPER_INITIAL_BALANCE || '1000',
+      feePct: process.env.PAPER_FEE_PCT || '0.1',
+      slippagePct: process.env.PAPER_SLIPPAGE_PCT || '0.5',
+    });
+
+    // Validate scheduled listing configuration
+    const scheduleConfig = scheduleConfigSchema.parse({
+      warmUpSeconds: process.env.LISTING_WARMUP_SECONDS || '60',
+      burstOrders: process.env.LISTING_BURST_ORDERS || '1',
+      burstStaggerMs: process.env.LISTING_BURST_STAGGER_MS || '25',
+      limitWindowSeconds: process.env.LISTING_LIMIT_WINDOW_SECONDS || '10',
+    });
+
+    // Validate entry filter configuration
+    const entryConfig = entryFilterConfigSchema.parse({
+      maxChangeFromOpenPct: process.env.ENTRY_MAX_CHANGE_FROM_OPEN_PCT ?? '10',
+      minDropFromHighPct: process.env.ENTRY_MIN_DROP_FROM_HIGH_PCT ?? '5',
+      maxVolatilityPct: process.env.ENTRY_MAX_VOLATILITY_PCT ?? '50',
+      maxVolumeSpike: process.env.ENTRY_MAX_VOLUME_SPIKE || '',
+      maxSpreadPct: process.env.ENTRY_MAX_SPREAD_PCT || '',
+    });
+
+    // Validate control channel configuration
+    const controlConfig = controlConfigSchema.parse({
+      port: process.env.CONTROL_PORT || '3002',
     });
 
     logger.info('Configuration loaded and validated successfully');
@@ -140,15 +517,12 @@ export function loadConfig(): { trading: TradingConfig; mexc: MexcConfig } {
     return {
       trading: tradingConfig,
       mexc: mexcConfig,
+      paper: paperConfig,
+      schedule: scheduleConfig,
+      entry: entryConfig,
+      control: controlConfig,
     };
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      logger.error('Configuration validation failed:');
-      error.errors.forEach((err) => {
-        logger.error(`  - ${err.path.join('.')}: ${err.message}`);
-      });
-      throw new Error('Invalid configuration. Please check your .env file.');
-    }
-    throw error;
+    return rethrowConfigError(error);
   }
 }
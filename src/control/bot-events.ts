@@ -0,0 +1,80 @@
+import { Writable } from 'stream';
+import winston from 'winston';
+import { CompletedTrade, OrderSide, SerializedTradeState, TriggerReason } from '../types.js';
+
+/**
+ * Scheduler milestones of a scheduled listing
+ */
+export type SchedulerEventKind =
+  'added' | 'removed' | 'timer_set' | 'warm_up' | 'timer_fired' | 'traded' | 'missed';
+
+/**
+ * Something that happened in the bot, pushed live to the dashboard
+ */
+export type BotEvent =
+  | { type: 'trades'; trades: SerializedTradeState[] } // All active trades, after every save
+  | { type: 'trade_update'; trade: SerializedTradeState } // One trade after a price tick
+  | { type: 'new_high'; market: string; price: string; trailingStopPrice: string }
+  | { type: 'stop_triggered'; market: string; reason: TriggerReason; price: string }
+  | {
+      type: 'fill';
+      market: string;
+      side: OrderSide;
+      price: string;
+      quantity: string;
+      quoteQuantity: string;
+    }
+  | { type: 'trade_closed'; trade: CompletedTrade } // Full or partial (take-profit) exit
+  | { type: 'scheduler'; event: SchedulerEventKind; symbol: string; listingTime: string }
+  | { type: 'log'; level: string; message: string };
+
+export type BotEventMessage = BotEvent & { time: string }; // ISO string
+
+export type BotEventListener = (event: BotEventMessage) => void;
+
+/**
+ * In-process fan-out of bot events
+ */
+export class BotEventBus {
+  private listeners = new Set<BotEventListener>();
+
+  publish(event: BotEvent): void {
+    if (this.listeners.size === 0) return;
+
+    const message: BotEventMessage = { ...event, time: new Date().toISOString() };
+    for (const listener of this.listeners) {
+      try {
+        listener(message);
+      } catch {
+        // A failing subscriber must not break trading; not logged, as log lines are events too
+      }
+    }
+  }
+
+  subscribe(listener: BotEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+/**
+ * Events of this process; the bot's control server streams them to the API server
+ */
+export const botEvents = new BotEventBus();
+
+/**
+ * Winston transport publishing log lines as 'log' events (added by the bot process only)
+ */
+export function createLogEventTransport(
+  bus: BotEventBus = botEvents,
+  level: string = 'info'
+): winston.transport {
+  const stream = new Writable({
+    objectMode: true,
+    write(info: winston.Logform.TransformableInfo, _encoding, callback): void {
+      bus.publish({ type: 'log', level: info.level, message: String(info.message) });
+      callback();
+    },
+  });
+  return new winston.transports.Stream({ stream, level });
+}
@@ -0,0 +1,177 @@
+import { Result } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { readEventStream } from '../utils/sse.js';
+import { BotEventListener, BotEventMessage } from './bot-events.js';
+import { BotState, loadControlEndpoint, NewScheduledListing } from './control-server.js';
+import {
+  enqueueTradeCommand,
+  TradeCommandRequest,
+  TradeCommandResult,
+  waitForCommandResult,
+} from './trade-commands.js';
+
+const REQUEST_TIMEOUT_MS = 2000; // State and listing requests are answered from memory
+const EVENTS_RETRY_MS = 2000; // Reconnect delay of the event stream while the bot is offline
+
+/**
+ * Why a control request got no answer
+ * 'offline': the request never reached the bot, so falling back to the data files is safe
+ * 'no_answer': the bot may have acted on it (e.g. a sell that outlasted the timeout)
+ */
+export interface ControlError {
+  kind: 'offline' | 'no_answer';
+  message: string;
+}
+
+/**
+ * Client of the bot's control server (API server and CLI side)
+ */
+export class ControlClient {
+  /**
+   * Live state of the bot
+   */
+  async getState(): Promise<Result<BotState, ControlError>> {
+    return this.request<BotState>('GET', '/state');
+  }
+
+  /**
+   * Execute a trade command in the bot and wait for its answer
+   */
+  async executeCommand(
+    request: TradeCommandRequest,
+    timeoutMs: number
+  ): Promise<Result<TradeCommandResult, ControlError>> {
+    return this.request<TradeCommandResult>('POST', '/commands', request, timeoutMs);
+  }
+
+  async addScheduledListing(listing: NewScheduledListing): Promise<Result<void, ControlError>> {
+    const result = await this.request<unknown>('POST', '/scheduled-listings', listing);
+    return result.success ? { success: true, data: undefined } : result;
+  }
+
+  /**
+   * Remove a scheduled listing; false when the bot has no such listing
+   */
+  async removeScheduledListing(
+    symbol: string,
+    listingTime: string
+  ): Promise<Result<boolean, ControlError>> {
+    const result = await this.request<{ removed: boolean }>('DELETE', '/scheduled-listings', {
+      symbol,
+      listingTime,
+    });
+    return result.success ? { success: true, data: result.data.removed } : result;
+  }
+
+  /**
+   * Follow the bot's event stream, reconnecting whenever the bot (re)starts
+   * onConnection reports each connect and disconnect; returns an unsubscribe function
+   */
+  subscribeEvents(
+    listener: BotEventListener,
+    onConnection: (connected: boolean) => void,
+    retryMs: number = EVENTS_RETRY_MS
+  ): () => void {
+    const abort = new AbortController();
+
+    const run = async (): Promise<void> => {
+      while (!abort.signal.aborted) {
+        await this.streamEvents(listener, onConnection, abort.signal);
+        if (abort.signal.aborted) break;
+        await new Promise((resolve) => setTimeout(resolve, retryMs));
+      }
+    };
+    void run();
+
+    return () => abort.abort();
+  }
+
+  private async streamEvents(
+    listener: BotEventListener,
+    onConnection: (connected: boolean) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    const endpoint = await loadControlEndpoint();
+    if (!endpoint || signal.aborted) return;
+
+    try {
+      const response = await fetch(`${endpoint.url}/events`, {
+        headers: { Authorization: `Bearer ${endpoint.token}` },
+        signal,
+      });
+      if (!response.ok || !response.body) return;
+
+      onConnection(true);
+      try {
+        for await (const event of readEventStream(response.body)) {
+          listener(event as BotEventMessage);
+        }
+      } finally {
+        onConnection(false);
+      }
+    } catch (error) {
+      if (!signal.aborted) logger.debug(`Bot event stream unavailable: ${String(error)}`);
+    }
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    timeoutMs: number = REQUEST_TIMEOUT_MS
+  ): Promise<Result<T, ControlError>> {
+    const endpoint = await loadControlEndpoint();
+    if (!endpoint) {
+      return { success: false, error: { kind: 'offline', message: 'The bot is not running' } };
+    }
+
+    let response: globalThis.Response;
+    try {
+      response = await fetch(`${endpoint.url}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${endpoint.token}`,
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      // Refused connections never reached the bot; anything else may have
+      const code = (error as { cause?: { code?: string } }).cause?.code;
+      const kind = code === 'ECONNREFUSED' ? 'offline' : 'no_answer';
+      logger.debug(`Control request ${method} ${path} failed (${kind}): ${String(error)}`);
+      return { success: false, error: { kind, message: String(error) } };
+    }
+
+    if (response.status === 401) {
+      // Endpoint file of an earlier bot run whose port was taken over
+      return { success: false, error: { kind: 'offline', message: 'Control token rejected' } };
+    }
+    if (!response.ok) {
+      return {
+        success: false,
+        error: { kind: 'no_answer', message: `Control server answered ${response.status}` },
+      };
+    }
+    return { success: true, data: (await response.json()) as T };
+  }
+}
+
+/**
+ * Send a trade command to the bot: over the control server when the bot is running, through
+ * the command file otherwise (it is picked up once the bot runs)
+ * Resolves with null when the bot did not answer within timeoutMs
+ */
+export async function sendTradeCommand(
+  client: ControlClient,
+  request: TradeCommandRequest,
+  timeoutMs: number
+): Promise<TradeCommandResult | null> {
+  const direct = await client.executeCommand(request, timeoutMs);
+  if (direct.success) return direct.data;
+  if (direct.error.kind === 'no_answer') return null;
+
+  const command = await enqueueTradeCommand(request);
+  return waitForCommandResult(command.id, timeoutMs);
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { BotControl, BotState, ControlEndpoint, ControlServer } from './control-server.js';
+import { ControlClient, sendTradeCommand } from './control-client.js';
+import { TradeCommandHandler } from './trade-commands.js';
+import { BotEventBus, BotEventMessage } from './bot-events.js';
+
+// In-memory data files shared by the bot side and the API side
+const files = new Map<string, unknown>();
+
+jest.mock('../utils/persistence.js', () => ({
+  loadJson: jest.fn(async (filename: string, defaultValue: unknown) =>
+    structuredClone(files.get(filename) ?? defaultValue)
+  ),
+  saveJson: jest.fn(async (filename: string, data: unknown) => {
+    files.set(filename, structuredClone(data));
+  }),
+  withFileLock: jest.fn(async (_filename: string, fn: () => Promise<unknown>) => fn()),
+}));
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const state: BotState = {
+  mode: 'paper',
+  startedAt: '2026-01-01T00:00:00.000Z',
+  activeTrades: [],
+  scheduledListings: [],
+};
+
+describe('Control channel', () => {
+  let bot: jest.Mocked<BotControl>;
+  let server: ControlServer;
+  let client: ControlClient;
+  let events: BotEventBus;
+
+  beforeEach(() => {
+    files.clear();
+    bot = {
+      getState: jest.fn(() => state),
+      executeCommand: jest.fn<TradeCommandHandler>(async (command) => ({
+        success: true,
+        data: `${command.action} ${command.market}`,
+      })),
+      addScheduledListing: jest.fn(async () => {}),
+      removeScheduledListing: jest.fn(async () => false),
+    };
+    events = new BotEventBus();
+    server = new ControlServer(bot, 0, events);
+    client = new ControlClient();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should serve the live state and commands of the running bot', async () => {
+    await server.start();
+
+    expect(await client.getState()).toEqual({ success: true, data: state });
+
+    const result = await sendTradeCommand(
+      client,
+      { market: 'AAAUSDT', action: 'sell', source: 'api' },
+      1000
+    );
+    expect(result).toMatchObject({ market: 'AAAUSDT', success: true, message: 'sell AAAUSDT' });
+    expect(bot.executeCommand).toHaveBeenCalledTimes(1);
+    expect(files.get('trade_commands.json')).toBeUndefined();
+  });
+
+  it('should pass scheduled listing changes to the bot', async () => {
+    await server.start();
+    const listing = {
+      symbol: 'NEW',
+      listingTime: '2026-02-01T12:00:00.000Z',
+      quoteCurrency: 'USDT',
+    };
+
+    expect((await client.addScheduledListing(listing)).success).toBe(true);
+    expect(await client.removeScheduledListing('NEW', listing.listingTime)).toEqual({
+      success: true,
+      data: false,
+    });
+    expect(bot.addScheduledListing).toHaveBeenCalledWith(listing);
+  });
+
+  it('should stream bot events until the bot stops', async () => {
+    await server.start();
+    const received: BotEventMessage[] = [];
+    const connections: boolean[] = [];
+    let connected!: () => void;
+    const connecting = new Promise<void>((resolve) => (connected = resolve));
+
+    const unsubscribe = client.subscribeEvents(
+      (event) => received.push(event),
+      (isConnected) => {
+        connections.push(isConnected);
+        if (isConnected) connected();
+      },
+      10
+    );
+    try {
+      await connecting;
+      events.publish({ type: 'scheduler', event: 'timer_set', symbol: 'NEW', listingTime: 'soon' });
+      while (received.length === 0) await new Promise((resolve) => setTimeout(resolve, 5));
+
+      expect(received).toEqual([
+        expect.objectContaining({ type: 'scheduler', event: 'timer_set', symbol: 'NEW' }),
+      ]);
+
+      await server.stop();
+      while (connections.length < 2) await new Promise((resolve) => setTimeout(resolve, 5));
+      expect(connections).toEqual([true, false]);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('should reject requests without the token', async () => {
+    const endpoint = await server.start();
+    files.set('control_endpoint.json', { ...endpoint, token: 'stale' } satisfies ControlEndpoint);
+
+    expect(await client.getState()).toMatchObject({ success: false, error: { kind: 'offline' } });
+    expect(bot.getState).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the command file once the bot stopped', async () => {
+    await server.start();
+    await server.stop();
+
+    expect(files.get('control_endpoint.json')).toBeNull();
+    expect(await client.getState()).toMatchObject({ success: false, error: { kind: 'offline' } });
+
+    const result = await sendTradeCommand(
+      client,
+      { market: 'AAAUSDT', action: 'pause', source: 'cli' },
+      0
+    );
+    expect(result).toBeNull();
+    expect(files.get('trade_commands.json')).toEqual([
+      expect.objectContaining({ market: 'AAAUSDT', action: 'pause', source: 'cli' }),
+    ]);
+    expect(bot.executeCommand).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,179 @@
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import express, { NextFunction, Request, Response } from 'express';
+import { ScheduledListing } from '../scheduler/listing-scheduler.js';
+import { ListingOverrides } from '../scheduler/listing-overrides.js';
+import { SerializedTradeState, TradingMode } from '../types.js';
+import { loadJson, saveJson } from '../utils/persistence.js';
+import { logger } from '../utils/logger.js';
+import { openEventStream } from '../utils/sse.js';
+import { botEvents, BotEventBus } from './bot-events.js';
+import {
+  runTradeCommand,
+  TradeCommand,
+  TradeCommandHandler,
+  TradeCommandRequest,
+} from './trade-commands.js';
+
+/**
+ * Local control channel of the bot process
+ *
+ * The bot serves its live state and event stream and executes commands over HTTP on the
+ * loopback interface. Requests must carry the token the bot writes to control_endpoint.json on every start, so
+ * only processes that can read the data directory (the API server, the CLI) can use it.
+ */
+const ENDPOINT_FILE = 'control_endpoint.json';
+const HOST = '127.0.0.1';
+
+/**
+ * Where the running bot listens, as written to control_endpoint.json (null once it stopped)
+ */
+export interface ControlEndpoint {
+  url: string;
+  token: string;
+  pid: number;
+  startedAt: string; // ISO string
+}
+
+/**
+ * Live state of the bot
+ */
+export interface BotState {
+  mode: TradingMode;
+  startedAt: string; // ISO string
+  activeTrades: SerializedTradeState[];
+  scheduledListings: ScheduledListing[];
+}
+
+export interface NewScheduledListing {
+  symbol: string;
+  listingTime: string; // ISO timestamp
+  quoteCurrency: string;
+  notes?: string;
+  overrides?: ListingOverrides; // Validated by the sender
+}
+
+/**
+ * What the bot exposes over the control channel
+ */
+export interface BotControl {
+  getState(): BotState;
+  executeCommand: TradeCommandHandler;
+  addScheduledListing(listing: NewScheduledListing): Promise<void>;
+  removeScheduledListing(symbol: string, listingTime: string): Promise<boolean>;
+}
+
+/**
+ * Endpoint of the running bot; null when it is not running (or never started)
+ */
+export async function loadControlEndpoint(): Promise<ControlEndpoint | null> {
+  return loadJson<ControlEndpoint | null>(ENDPOINT_FILE, null);
+}
+
+/**
+ * Serves BotControl to the API server and the CLI
+ */
+export class ControlServer {
+  private server: Server | null = null;
+  private readonly token = randomBytes(32).toString('hex');
+
+  constructor(
+    private readonly bot: BotControl,
+    private readonly port: number,
+    private readonly events: BotEventBus = botEvents
+  ) {}
+
+  /**
+   * Listen on the loopback interface and publish the endpoint (port 0 picks a free port)
+   */
+  async start(): Promise<ControlEndpoint> {
+    const server = createServer(this.createApp());
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    const { port } = server.address() as AddressInfo;
+    const endpoint: ControlEndpoint = {
+      url: `http://${HOST}:${port}`,
+      token: this.token,
+      pid: process.pid,
+      startedAt: new Date().toISOString(),
+    };
+    await saveJson(ENDPOINT_FILE, endpoint);
+
+    logger.info(`Control server listening on ${endpoint.url}`);
+    return endpoint;
+  }
+
+  /**
+   * Stop listening and withdraw the endpoint, so clients fall back to the data files
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    await saveJson(ENDPOINT_FILE, null);
+    const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+    server.closeAllConnections(); // Event streams never end on their own
+    await closed;
+  }
+
+  private createApp(): express.Express {
+    const app = express();
+    app.use(express.json());
+    app.use((req, res, next) => this.authorize(req, res, next));
+
+    app.get('/state', (_req, res) => {
+      res.json(this.bot.getState());
+    });
+
+    // Server-Sent Events stream of BotEventMessage
+    app.get('/events', (req, res) => {
+      const unsubscribe = this.events.subscribe(openEventStream(req, res));
+      req.on('close', unsubscribe);
+    });
+
+    app.post('/commands', async (req, res) => {
+      const command: TradeCommand = {
+        ...(req.body as TradeCommandRequest),
+        id: randomUUID(),
+        requestedAt: new Date().toISOString(),
+      };
+      res.json(await runTradeCommand(this.bot.executeCommand, command));
+    });
+
+    app.post('/scheduled-listings', async (req, res) => {
+      await this.bot.addScheduledListing(req.body as NewScheduledListing);
+      res.json({ success: true });
+    });
+
+    app.delete('/scheduled-listings', async (req, res) => {
+      const { symbol, listingTime } = req.body as { symbol: string; listingTime: string };
+      res.json({ removed: await this.bot.removeScheduledListing(symbol, listingTime) });
+    });
+
+    app.use((error: unknown, req: Request, res: Response, _next: NextFunction) => {
+      logger.error(`Control request ${req.method} ${req.path} failed: ${String(error)}`);
+      res.status(500).json({ error: String(error) });
+    });
+
+    return app;
+  }
+
+  private authorize(req: Request, res: Response, next: NextFunction): void {
+    const expected = Buffer.from(`Bearer ${this.token}`);
+    const given = Buffer.from(req.headers.authorization ?? '');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      res.status(401).json({ error: 'Invalid control token' });
+      return;
+    }
+    next();
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import {
+  enqueueTradeCommand,
+  TradeCommandHandler,
+  TradeAction,
+  TradeCommandProcessor,
+  TradeCommandRequest,
+  waitForCommandResult,
+} from './trade-commands.js';
+
+// In-memory data files shared by the API side and the bot side
+const files = new Map<string, unknown>();
+
+jest.mock('../utils/persistence.js', () => ({
+  loadJson: jest.fn(async (filename: string, defaultValue: unknown) =>
+    structuredClone(files.get(filename) ?? defaultValue)
+  ),
+  saveJson: jest.fn(async (filename: string, data: unknown) => {
+    files.set(filename, structuredClone(data));
+  }),
+  withFileLock: jest.fn(async (_filename: string, fn: () => Promise<unknown>) => fn()),
+}));
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function request(market: string, action: TradeAction): TradeCommandRequest {
+  return { market, action, source: 'api' };
+}
+
+describe('Trade commands', () => {
+  let handler: jest.Mock<TradeCommandHandler>;
+  let processor: TradeCommandProcessor;
+
+  beforeEach(() => {
+    files.clear();
+    handler = jest.fn<TradeCommandHandler>(async (command) => ({
+      success: true,
+      data: `${command.action} ${command.market}`,
+    }));
+    processor = new TradeCommandProcessor(handler);
+  });
+
+  it('should execute each queued command once and answer it', async () => {
+    const sell = await enqueueTradeCommand(request('AAAUSDT', 'sell'));
+    const pause = await enqueueTradeCommand(request('BBBUSDT', 'pause'));
+
+    expect(await processor.poll()).toBe(2);
+    expect(await processor.poll()).toBe(0);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(await waitForCommandResult(sell.id, 0)).toMatchObject({
+      market: 'AAAUSDT',
+      action: 'sell',
+      success: true,
+      message: 'sell AAAUSDT',
+    });
+    expect((await waitForCommandResult(pause.id, 0))?.success).toBe(true);
+  });
+
+  it('should pass handler failures back to the caller', async () => {
+    handler.mockResolvedValueOnce({ success: false, error: 'No active trade for AAAUSDT' });
+    const command = await enqueueTradeCommand(request('AAAUSDT', 'resume'));
+
+    await processor.poll();
+
+    expect(await waitForCommandResult(command.id, 0)).toMatchObject({
+      success: false,
+      message: 'No active trade for AAAUSDT',
+    });
+  });
+
+  it('should reject commands that waited too long instead of executing them', async () => {
+    const command = await enqueueTradeCommand(
+      request('AAAUSDT', 'sell'),
+      new Date('2026-01-01T00:00:00Z')
+    );
+
+    await processor.poll(new Date('2026-01-01T00:05:00Z'));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect((await waitForCommandResult(command.id, 0))?.success).toBe(false);
+  });
+
+  it('should drop answered commands from the queue', async () => {
+    await enqueueTradeCommand(request('AAAUSDT', 'pause'));
+    await processor.poll();
+    const next = await enqueueTradeCommand(request('AAAUSDT', 'resume'));
+
+    expect(files.get('trade_commands.json')).toEqual([next]);
+  });
+
+  it('should give up waiting when the bot does not answer', async () => {
+    const command = await enqueueTradeCommand(request('AAAUSDT', 'sell'));
+
+    expect(await waitForCommandResult(command.id, 20, 5)).toBeNull();
+  });
+});
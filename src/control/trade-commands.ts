@@ -0,0 +1,175 @@
+import { randomUUID } from 'crypto';
+import { Result } from '../types.js';
+import { StopEditRequest } from '../trade/stop-edits.js';
+import { loadJson, saveJson, withFileLock } from '../utils/persistence.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * File-based control channel between the API server and the bot process
+ *
+ * The API server and the CLI append commands to trade_commands.json and the bot answers them
+ * in trade_command_results.json. Appends hold a lock file, so commands queued by both at once
+ * are not lost; the results file is only written by the bot. This is the fallback for when
+ * the bot's control server (control-server.ts) cannot be reached, e.g. while it is starting.
+ */
+const COMMANDS_FILE = 'trade_commands.json';
+const RESULTS_FILE = 'trade_command_results.json';
+const MAX_RESULTS = 100; // Answered commands kept for the API to pick up
+const COMMAND_TTL_MS = 2 * 60 * 1000; // Older commands are rejected instead of executed late
+
+export type TradeAction = 'sell' | 'pause' | 'resume' | 'edit';
+
+// Actions that take no parameters
+export const TRADE_ACTIONS: readonly TradeAction[] = ['sell', 'pause', 'resume'];
+
+export type CommandSource = 'api' | 'cli';
+
+export interface TradeCommand {
+  id: string;
+  market: string;
+  action: TradeAction;
+  source: CommandSource;
+  stopEdits?: StopEditRequest; // 'edit' only
+  requestedAt: string; // ISO string
+}
+
+export type TradeCommandRequest = Omit<TradeCommand, 'id' | 'requestedAt'>;
+
+export interface TradeCommandResult {
+  id: string;
+  market: string;
+  action: TradeAction;
+  success: boolean;
+  message: string;
+  processedAt: string; // ISO string
+}
+
+/**
+ * Executes a command in the bot; resolves with a message for the caller either way
+ */
+export type TradeCommandHandler = (command: TradeCommand) => Promise<Result<string, string>>;
+
+/**
+ * Queue a command for the bot (API server and CLI side)
+ * Commands the bot has already answered are dropped from the queue
+ */
+export async function enqueueTradeCommand(
+  request: TradeCommandRequest,
+  now: Date = new Date()
+): Promise<TradeCommand> {
+  const command: TradeCommand = { ...request, id: randomUUID(), requestedAt: now.toISOString() };
+
+  await withFileLock(COMMANDS_FILE, async () => {
+    const [commands, results] = await Promise.all([
+      loadJson<TradeCommand[]>(COMMANDS_FILE, []),
+      loadJson<TradeCommandResult[]>(RESULTS_FILE, []),
+    ]);
+    const answered = new Set(results.map((result) => result.id));
+    await saveJson(COMMANDS_FILE, [...commands.filter((c) => !answered.has(c.id)), command]);
+  });
+
+  return command;
+}
+
+/**
+ * Wait for the bot to answer a command; null when it did not answer within timeoutMs
+ * (the bot is not running or still busy with it)
+ */
+export async function waitForCommandResult(
+  id: string,
+  timeoutMs: number,
+  pollMs: number = 250
+): Promise<TradeCommandResult | null> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const results = await loadJson<TradeCommandResult[]>(RESULTS_FILE, []);
+    const result = results.find((r) => r.id === id);
+    if (result) return result;
+    if (Date.now() >= deadline) return null;
+    await new Promise((resolve) => setTimeout(resolve, pollMs));
+  }
+}
+
+/**
+ * Executes queued commands in the bot process, one at a time in request order
+ */
+export class TradeCommandProcessor {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  constructor(
+    private readonly handler: TradeCommandHandler,
+    private readonly pollMs: number = 1000
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.poll(), this.pollMs);
+    logger.info('Listening for trade commands');
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Execute every unanswered command; returns the number of commands answered
+   */
+  async poll(now: Date = new Date()): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    try {
+      const [commands, results] = await Promise.all([
+        loadJson<TradeCommand[]>(COMMANDS_FILE, []),
+        loadJson<TradeCommandResult[]>(RESULTS_FILE, []),
+      ]);
+      const answered = new Set(results.map((result) => result.id));
+      const pending = commands.filter((command) => !answered.has(command.id));
+
+      for (const command of pending) {
+        results.push(await runTradeCommand(this.handler, command, now));
+        await saveJson(RESULTS_FILE, results.slice(-MAX_RESULTS));
+      }
+      return pending.length;
+    } catch (error) {
+      logger.error(`Error processing trade commands: ${String(error)}`);
+      return 0;
+    } finally {
+      this.processing = false;
+    }
+  }
+}
+
+/**
+ * Execute one command and describe the outcome; commands older than COMMAND_TTL_MS are rejected
+ */
+export async function runTradeCommand(
+  handler: TradeCommandHandler,
+  command: TradeCommand,
+  now: Date = new Date()
+): Promise<TradeCommandResult> {
+  const answer = (success: boolean, message: string): TradeCommandResult => ({
+    id: command.id,
+    market: command.market,
+    action: command.action,
+    success,
+    message,
+    processedAt: new Date().toISOString(),
+  });
+
+  if (now.getTime() - new Date(command.requestedAt).getTime() > COMMAND_TTL_MS) {
+    logger.warn(`Ignoring expired ${command.action} command for ${command.market}`);
+    return answer(false, 'Command expired before the bot picked it up');
+  }
+
+  logger.info(`Received ${command.action} command for ${command.market}`);
+  try {
+    const result = await handler(command);
+    return result.success ? answer(true, result.data) : answer(false, result.error);
+  } catch (error) {
+    logger.error(`${command.action} command for ${command.market} failed: ${String(error)}`);
+    return answer(false, String(error));
+  }
+}
@@ -1,13 +1,26 @@
 import { loadConfig } from './config.js';
 import { MexcAPI } from './api/mexc.js';
+import { ExchangeClient } from './api/exchange-client.js';
+import { PaperExchange } from './api/paper-exchange.js';
+import { MexcMarketStream } from './api/market-stream.js';
+import { describeExchangeError, ExchangeError } from './api/errors.js';
 import { MarketTracker } from './market/tracker.js';
-import { TradeManager } from './trade/manager.js';
+import { PriceHub } from './market/price-hub.js';
+import { BuyFill, TradeManager } from './trade/manager.js';
 import { ListingScheduler } from './scheduler/listing-scheduler.js';
+import { warmUpListing } from './scheduler/warm-up.js';
+import { TradeCommand, TradeCommandProcessor } from './control/trade-commands.js';
+import { BotState, ControlServer } from './control/control-server.js';
+import { createLogEventTransport } from './control/bot-events.js';
 import { logger } from './utils/logger.js';
 import { PriceAnalyzer } from './utils/price-analyzer.js';
-import { MarketSymbol } from './types.js';
+import { BurstPlan, MarketSymbol, Result, TradeOverrides } from './types.js';
 import Decimal from 'decimal.js';
 
+// Scheduled buys this long after the listing time run the entry filters: the market has formed
+// a full 1m candle by then, and the buy is no longer racing the open
+const ENTRY_ANALYSIS_DELAY_MS = 60 * 1000;
+
 /**
  * Main trading bot orchestrator
  */
@@ -16,19 +29,34 @@ class TradingBot {
   private previousMarkets: string[] = [];
   private scheduler: ListingScheduler;
   private priceAnalyzer: PriceAnalyzer;
+  private commands: TradeCommandProcessor;
+  private control: ControlServer;
+  private readonly startedAt = new Date();
 
   constructor(
-    private readonly api: MexcAPI,
+    private readonly api: ExchangeClient,
     private readonly marketTracker: MarketTracker,
     private readonly tradeManager: TradeManager,
     private readonly config: ReturnType<typeof loadConfig>
   ) {
-    this.scheduler = new ListingScheduler();
-    this.priceAnalyzer = new PriceAnalyzer({
-      maxPriceChangeFromOpen: 10, // Don't buy if price is >10% above open
-      minDropFromHigh: 5, // Confirm downtrend if dropped >5% from peak
-      maxVolatility: 50, // Skip if volatility >50%
+    this.scheduler = new ListingScheduler({
+      warmUpSeconds: config.schedule.warmUpSeconds,
+      burstOrders: config.schedule.burstOrders,
+      burstStaggerMs: config.schedule.burstStaggerMs,
     });
+    this.priceAnalyzer = PriceAnalyzer.fromConfig(config.entry);
+    this.commands = new TradeCommandProcessor((command) => this.handleTradeCommand(command));
+    this.control = new ControlServer(
+      {
+        getState: () => this.getState(),
+        executeCommand: (command) => this.handleTradeCommand(command),
+        addScheduledListing: ({ symbol, listingTime, quoteCurrency, notes, overrides }) =>
+          this.scheduler.addScheduledListing(symbol, listingTime, quoteCurrency, notes, overrides),
+        removeScheduledListing: (symbol, listingTime) =>
+          this.scheduler.removeScheduledListing(symbol, listingTime),
+      },
+      config.control.port
+    );
     this.setupSignalHandlers();
   }
 
@@ -56,6 +84,8 @@ class TradingBot {
     console.log('🔄 Preparing for graceful shutdown...');
     logger.info('Shutting down bot');
 
+    this.commands.stop();
+    await this.control.stop();
     await this.tradeManager.shutdown();
     this.scheduler.cleanup();
 
@@ -83,21 +113,58 @@ class TradingBot {
     console.log('📅 Add listings to data/scheduled_listings.json to trade');
     console.log('-'.repeat(60));
 
-    // Initialize scheduler once on startup
-    await this.scheduler.initialize();
+    // Register trade executor for scheduled listings (before initializing, so timers are armed)
+    this.scheduler.setTradeExecutor(async (symbol, quoteCurrency, overrides, burst, intentTime) => {
+      const fullSymbol = `${symbol}${quoteCurrency}` as MarketSymbol;
 
-    // Register trade executor for scheduled listings
-    this.scheduler.setTradeExecutor(async (symbol: string, quoteCurrency: string) => {
+      // Execute at the scheduled time without the volume check; the entry filters only judge
+      // late attempts (a retry well after the open, or a bot started within the grace period)
+      // A failed buy hands its error back so the scheduler can decide whether to retry
+      const skipPriceAnalysis = Date.now() - intentTime.getTime() < ENTRY_ANALYSIS_DELAY_MS;
+      const result = await this.handleNewListing(
+        fullSymbol,
+        true,
+        skipPriceAnalysis,
+        overrides,
+        burst,
+        intentTime
+      );
+      if (!result.success) return result.error;
+      return result.data ? { filledAt: result.data.filledAt } : 'skipped';
+    });
+    this.scheduler.setTimeSync(() => this.api.syncTime());
+    this.scheduler.setTradeCleanup((symbol, quoteCurrency) =>
+      this.tradeManager.abandonPendingBuy(`${symbol}${quoteCurrency}` as MarketSymbol)
+    );
+    this.scheduler.setWarmUp(async (symbol, quoteCurrency, overrides, signal) => {
       const fullSymbol = `${symbol}${quoteCurrency}` as MarketSymbol;
+      const tradeAmount = overrides.maxTradeAmount ?? this.config.trading.maxTradeAmount;
+      const result = await warmUpListing(this.api, fullSymbol, quoteCurrency, tradeAmount, signal);
 
-      // Execute immediately at scheduled time without any pre-checks
-      // Skip volume check and price analysis for scheduled listings (time-critical)
-      await this.handleNewListing(fullSymbol, true, true);
-      return true; // Always return true - no retries on failure
+      const balance = result.balanceOk === null ? 'unknown' : result.balanceOk ? 'ok' : 'TOO LOW';
+      console.log(
+        `🔥 ${fullSymbol} warmed up | clock offset: ${result.clockOffsetMs ?? '?'}ms | ` +
+          `status: ${result.status ?? 'not listed yet'} | balance: ${balance}`
+      );
+      return result.clockOffsetMs;
     });
 
+    // Initialize scheduler once on startup
+    await this.scheduler.initialize();
+
     await this.tradeManager.restoreMonitoring();
 
+    // Manual commands and live state for the API server and the CLI; the command file
+    // covers commands sent while the control server was unreachable
+    this.commands.start();
+    logger.add(createLogEventTransport()); // Log lines reach the dashboard as events
+    try {
+      await this.control.start();
+    } catch (error) {
+      console.log(`⚠️  Control server unavailable, the dashboard falls back to data files`);
+      logger.error(`Failed to start control server: ${String(error)}`);
+    }
+
     // Show next scheduled listing if any
     const nextListing = this.scheduler.getNextListing();
     if (nextListing) {
@@ -193,19 +260,33 @@ class TradingBot {
 
   /**
    * Handle a new listing detection
+   * overrides replace the configured trade amount, stops and holding time for this trade and may
+   * cap the entry price (IOC limit buys); otherwise a burst plan buys with staggered parallel
+   * orders. A market buy with an intentTime keeps its client order ID across retries.
+   * Returns the buy, or null when the listing was skipped
    */
-  private async handleNewListing(market: MarketSymbol, skipVolumeCheck: boolean = false, skipPriceAnalysis: boolean = false): Promise<void> {
+  private async handleNewListing(
+    market: MarketSymbol,
+    skipVolumeCheck: boolean = false,
+    skipPriceAnalysis: boolean = false,
+    overrides: TradeOverrides = {},
+    burst: BurstPlan | null = null,
+    intentTime?: Date
+  ): Promise<Result<BuyFill | null, ExchangeError>> {
+    const maxTradeAmount = overrides.maxTradeAmount ?? this.config.trading.maxTradeAmount;
+
     console.log(`\n🚨 NEW LISTING DETECTED: ${market}`);
     logger.info(`Attempting to trade new listing: ${market}`);
 
     console.log(`🔍 Analyzing ${market}...`);
 
     // Try to get ticker data with retries
-    let ticker = await this.api.getTicker24h(market);
+    // Scheduled listings start with no ticker and were warmed up already, so they buy right away
+    let ticker = skipVolumeCheck ? null : await this.api.getTicker24h(market);
     let retries = 0;
     const maxTickerRetries = 3;
 
-    while (!ticker && retries < maxTickerRetries) {
+    while (!skipVolumeCheck && !ticker && retries < maxTickerRetries) {
       retries++;
       console.log(
         `⏳ Ticker data not available, retrying in 2 seconds... (attempt ${retries}/${maxTickerRetries})`
@@ -215,15 +296,18 @@ class TradingBot {
     }
 
     // Determine trade amount
-    let tradeAmount = this.config.trading.maxTradeAmount;
+    let tradeAmount = maxTradeAmount;
 
-    if (!ticker) {
+    if (skipVolumeCheck) {
+      console.log(`⏰ Scheduled listing - skipping ticker and volume checks`);
+      logger.info(`Scheduled listing ${market} - buying without ticker, using full trade amount`);
+    } else if (!ticker) {
       console.log(`⚠️  No ticker data available for ${market} after ${maxTickerRetries} attempts`);
       console.log(`🎲 New listing might be too fresh - attempting trade without volume validation`);
       logger.warn(`Proceeding with ${market} trade without ticker validation`);
 
       // Use 50% of max for safety, capped at 5 USDT
-      tradeAmount = Decimal.min(this.config.trading.maxTradeAmount.mul(0.5), new Decimal(5));
+      tradeAmount = Decimal.min(maxTradeAmount.mul(0.5), new Decimal(5));
       console.log(`🛡️  Using reduced amount ${tradeAmount.toString()} USDT for safety`);
     } else {
       // Show ticker data
@@ -232,20 +316,15 @@ class TradingBot {
         `📊 ${market} | Price: ${ticker.lastPrice} | Volume: ${volume.toString()} USDT`
       );
 
-      // Validate volume (skip for scheduled listings as they start with 0 volume)
-      if (!skipVolumeCheck) {
-        const minVolumeThreshold = this.config.trading.maxTradeAmount.mul(10);
+      // Validate volume
+      const minVolumeThreshold = maxTradeAmount.mul(10);
 
-        if (volume.lt(minVolumeThreshold)) {
-          console.log(
-            `⚠️  Volume too low (${volume.toString()} < ${minVolumeThreshold.toString()} USDT), skipping...`
-          );
-          logger.warn(`Skipping ${market} due to insufficient volume: ${volume.toString()}`);
-          return;
-        }
-      } else {
-        console.log(`⏰ Scheduled listing - skipping volume check (listings start with 0 volume)`);
-        logger.info(`Scheduled listing ${market} - bypassing volume validation, using full trade amount`);
+      if (volume.lt(minVolumeThreshold)) {
+        console.log(
+          `⚠️  Volume too low (${volume.toString()} < ${minVolumeThreshold.toString()} USDT), skipping...`
+        );
+        logger.warn(`Skipping ${market} due to insufficient volume: ${volume.toString()}`);
+        return { success: true, data: null };
       }
     }
 
@@ -257,7 +336,9 @@ class TradingBot {
       const klines = await this.api.getKlines(market, '1m', 5);
 
       if (klines && klines.length > 0) {
-        const analysis = this.priceAnalyzer.analyzeEntry(klines);
+        // The spread filter judges the ticker's bid/ask prices
+        const book = this.priceAnalyzer.needsBook ? await this.api.getTicker24h(market) : null;
+        const analysis = this.priceAnalyzer.analyzeEntry(klines, book);
 
         if (analysis) {
           console.log(
@@ -270,7 +351,7 @@ class TradingBot {
           if (!analysis.shouldTrade) {
             console.log(`⚠️  TRADE SKIPPED: ${analysis.reason}`);
             logger.warn(`Skipping ${market} trade: ${analysis.reason}`);
-            return;
+            return { success: true, data: null };
           }
 
           console.log(`✅ Price analysis passed: ${analysis.reason}`);
@@ -283,17 +364,39 @@ class TradingBot {
       }
     }
 
-    // Execute buy order
-    console.log(`💸 EXECUTING BUY ORDER: ${tradeAmount.toString()} USDT of ${market}`);
-    const buyResult = await this.tradeManager.placeMarketBuy(market, tradeAmount);
-
-    if (buyResult) {
-      console.log(`✅ BUY SUCCESS: ${market} at ${buyResult.avgPrice.toString()} USDT (qty: ${buyResult.quantity.toString()})`);
+    // Execute buy order (a capped entry replaces the market buy and any burst)
+    const { maxEntryPrice } = overrides;
+    if (maxEntryPrice && burst) {
+      logger.info(
+        `${market} has a max entry price, buying with capped IOC orders instead of a burst`
+      );
+    }
+    console.log(
+      maxEntryPrice
+        ? `💸 EXECUTING CAPPED BUY: ${tradeAmount.toString()} USDT of ${market} at most ${maxEntryPrice.toString()}`
+        : `💸 EXECUTING BUY ORDER: ${tradeAmount.toString()} USDT of ${market}`
+    );
+    const buyResult = maxEntryPrice
+      ? await this.tradeManager.placeLimitBuy(
+          market,
+          tradeAmount,
+          maxEntryPrice,
+          (overrides.limitWindowSeconds ?? this.config.schedule.limitWindowSeconds) * 1000
+        )
+      : burst
+        ? await this.tradeManager.placeBurstBuy(market, tradeAmount, burst)
+        : await this.tradeManager.placeMarketBuy(market, tradeAmount, undefined, intentTime);
+
+    if (buyResult.success) {
+      const buy = buyResult.data;
+      console.log(
+        `✅ BUY SUCCESS: ${market} at ${buy.avgPrice.toString()} USDT (qty: ${buy.quantity.toString()})`
+      );
 
       // Check for slippage if ticker data is available
       if (ticker) {
         const tickerPrice = new Decimal(ticker.lastPrice);
-        const executionPrice = buyResult.avgPrice;
+        const executionPrice = buy.avgPrice;
         const slippage = executionPrice.minus(tickerPrice).div(tickerPrice).mul(100);
 
         if (slippage.abs().gt(5)) {
@@ -308,10 +411,51 @@ class TradingBot {
       }
 
       console.log(`🎯 Starting monitoring with trailing stop-loss...`);
-      await this.tradeManager.startMonitoring(market, buyResult.avgPrice, buyResult.quantity, buyResult.investedQuote);
-    } else {
-      console.log(`❌ BUY FAILED: Could not execute order for ${market}`);
+      await this.tradeManager.startMonitoring(
+        market,
+        buy.avgPrice,
+        buy.quantity,
+        buy.investedQuote,
+        buy,
+        overrides
+      );
+      return buyResult;
     }
+
+    console.log(
+      `❌ BUY FAILED: Could not execute order for ${market} (${describeExchangeError(buyResult.error)})`
+    );
+    return buyResult;
+  }
+
+  /**
+   * Execute a manual command sent through the API server
+   */
+  private async handleTradeCommand(command: TradeCommand): Promise<Result<string, string>> {
+    const market = command.market as MarketSymbol;
+    switch (command.action) {
+      case 'sell':
+        console.log(`🛑 MANUAL SELL requested for ${market}`);
+        return this.tradeManager.sellManually(market);
+      case 'pause':
+        return this.tradeManager.pauseTrade(market);
+      case 'resume':
+        return this.tradeManager.resumeTrade(market);
+      case 'edit':
+        return this.tradeManager.editStops(market, command.stopEdits ?? {}, command.source);
+    }
+  }
+
+  /**
+   * Live state served to the API server
+   */
+  private getState(): BotState {
+    return {
+      mode: this.config.paper.mode,
+      startedAt: this.startedAt.toISOString(),
+      activeTrades: this.tradeManager.getActiveTrades(),
+      scheduledListings: this.scheduler.getScheduledListings(),
+    };
   }
 
   /**
@@ -345,10 +489,10 @@ async function main(): Promise<void> {
     const config = loadConfig();
 
     // Initialize API client
-    const api = new MexcAPI(config.mexc);
+    const mexc = new MexcAPI(config.mexc);
 
     // Test connectivity
-    const pingSuccess = await api.ping();
+    const pingSuccess = await mexc.ping();
     if (!pingSuccess) {
       throw new Error('Failed to connect to MEXC API');
     }
@@ -356,29 +500,54 @@ async function main(): Promise<void> {
     console.log('✅ Connected to MEXC API');
 
     // Sync time with MEXC server to prevent timestamp errors
-    await api.syncTime();
-
-    // Validate API credentials by attempting an authenticated request
-    console.log('🔐 Validating API credentials...');
-    const accountInfo = await api.getAccount();
-    if (!accountInfo) {
-      throw new Error(
-        'Failed to authenticate with MEXC API.\n' +
-        'Please check your MEXC_API_KEY and MEXC_API_SECRET in .env file.\n' +
-        'Make sure the API key has spot trading permissions enabled.'
-      );
+    await mexc.syncTime();
+
+    let api: ExchangeClient = mexc;
+
+    if (config.paper.mode === 'paper') {
+      // Paper trading: simulated fills against live MEXC prices, no real orders
+      const paper = new PaperExchange(config.paper, config.trading.quoteCurrency, mexc, mexc);
+      await paper.initialize();
+      api = paper;
+      console.log('🧪 PAPER TRADING MODE - orders are simulated, no real funds are used');
+      logger.warn('Running in paper trading mode');
+    } else {
+      // Validate API credentials by attempting an authenticated request
+      console.log('🔐 Validating API credentials...');
+      const accountInfo = await mexc.getAccount();
+      if (!accountInfo) {
+        throw new Error(
+          'Failed to authenticate with MEXC API.\n' +
+            'Please check your MEXC_API_KEY and MEXC_API_SECRET in .env file.\n' +
+            'Make sure the API key has spot trading permissions enabled.'
+        );
+      }
+      console.log('✅ API credentials validated successfully');
+    }
+
+    // Stream prices over WebSocket while monitoring (connects on first subscription)
+    const stream = config.mexc.wsEnabled ? new MexcMarketStream(config.mexc.wsUrl) : undefined;
+    if (!stream) {
+      logger.info('Market stream disabled, monitoring trades with REST polling');
     }
-    console.log('✅ API credentials validated successfully');
+
+    // One shared price feed for all monitored trades (stream first, batched REST fallback)
+    const priceHub = new PriceHub(api, {
+      pollIntervalMs: config.trading.checkInterval * 1000,
+      ...(stream ? { upstream: stream } : {}),
+    });
 
     // Initialize components
     const marketTracker = new MarketTracker(api, config.trading.quoteCurrency);
-    const tradeManager = new TradeManager(api, config.trading);
+    const tradeManager = new TradeManager(api, config.trading, priceHub);
 
     // Create and run bot
     const bot = new TradingBot(api, marketTracker, tradeManager, config);
     console.log('✅ Bot initialized successfully\n');
 
     await bot.run();
+    priceHub.close();
+    stream?.close();
   } catch (error) {
     console.error(`\n🚨 Fatal error: ${String(error)}`);
     logger.error(`Fatal error: ${String(error)}`);
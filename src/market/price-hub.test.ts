@@ -0,0 +1,117 @@
+import Decimal from 'decimal.js';
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { PriceHub } from './price-hub.js';
+import type { PricePoller } from './price-hub.js';
+import type { PriceStream, TickListener } from '../api/market-stream.js';
+import type { PriceTick, PriceTicker } from '../types.js';
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('PriceHub', () => {
+  let api: jest.Mocked<PricePoller>;
+  let hub: PriceHub;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    api = {
+      getPrice: jest.fn<PricePoller['getPrice']>().mockResolvedValue('1'),
+      getAllPrices: jest.fn<PricePoller['getAllPrices']>().mockResolvedValue([
+        { symbol: 'AUSDT', price: '1' },
+        { symbol: 'BUSDT', price: '2' },
+        { symbol: 'CUSDT', price: '3' },
+        { symbol: 'DUSDT', price: '4' },
+      ] as PriceTicker[]),
+    };
+  });
+
+  afterEach(() => {
+    hub.close();
+    jest.useRealTimers();
+  });
+
+  it('should share one poll per symbol between subscribers', async () => {
+    hub = new PriceHub(api, { pollIntervalMs: 1000 });
+    const first: PriceTick[] = [];
+    const second: PriceTick[] = [];
+
+    hub.subscribe('AUSDT', (tick) => first.push(tick));
+    hub.subscribe('AUSDT', (tick) => second.push(tick));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(api.getPrice).toHaveBeenCalledTimes(1);
+    expect(first).toHaveLength(1);
+    expect(second).toHaveLength(1);
+    expect(hub.getLatest('AUSDT')?.price.toString()).toBe('1');
+  });
+
+  it('should batch REST polling with the all-symbols endpoint', async () => {
+    hub = new PriceHub(api, { pollIntervalMs: 1000, batchThreshold: 3 });
+    const ticks: PriceTick[] = [];
+    hub.subscribeAll((tick) => ticks.push(tick));
+
+    for (const symbol of ['AUSDT', 'BUSDT', 'CUSDT']) {
+      hub.subscribe(symbol, () => {});
+    }
+    await jest.advanceTimersByTimeAsync(0);
+    api.getPrice.mockClear();
+    ticks.length = 0;
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(api.getAllPrices).toHaveBeenCalledTimes(1);
+    expect(api.getPrice).not.toHaveBeenCalled();
+    expect(ticks.map((tick) => tick.symbol).sort()).toEqual(['AUSDT', 'BUSDT', 'CUSDT']);
+  });
+
+  it('should only poll symbols without fresh streamed ticks', async () => {
+    const upstreamListeners = new Map<string, TickListener>();
+    const upstream: PriceStream = {
+      subscribe: (symbol, listener) => {
+        upstreamListeners.set(symbol, listener);
+        return () => upstreamListeners.delete(symbol);
+      },
+      isConnected: () => true,
+    };
+    hub = new PriceHub(api, { pollIntervalMs: 1000, upstream });
+
+    hub.subscribe('AUSDT', () => {});
+    hub.subscribe('BUSDT', () => {});
+    await jest.advanceTimersByTimeAsync(0);
+    api.getPrice.mockClear();
+
+    // AUSDT keeps streaming, BUSDT goes quiet
+    await jest.advanceTimersByTimeAsync(500);
+    upstreamListeners.get('AUSDT')?.({
+      symbol: 'AUSDT',
+      price: new Decimal(5),
+      time: Date.now(),
+      source: 'deal',
+    });
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(api.getPrice).toHaveBeenCalledTimes(1);
+    expect(api.getPrice).toHaveBeenCalledWith('BUSDT');
+    expect(hub.getLatest('AUSDT')?.source).toBe('deal');
+  });
+
+  it('should stop polling and unsubscribe upstream when the last subscriber leaves', async () => {
+    hub = new PriceHub(api, { pollIntervalMs: 1000 });
+    const unsubscribe = hub.subscribe('AUSDT', () => {});
+    await jest.advanceTimersByTimeAsync(0);
+
+    unsubscribe();
+    api.getPrice.mockClear();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(api.getPrice).not.toHaveBeenCalled();
+    expect(hub.getSymbols()).toEqual([]);
+  });
+});
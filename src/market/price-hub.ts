@@ -0,0 +1,215 @@
+import Decimal from 'decimal.js';
+import { ExchangeClient } from '../api/exchange-client.js';
+import { PriceStream, TickListener } from '../api/market-stream.js';
+import { PriceTick } from '../types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * REST price endpoints the hub polls
+ */
+export type PricePoller = Pick<ExchangeClient, 'getPrice' | 'getAllPrices'>;
+
+/**
+ * Price hub settings
+ */
+export interface PriceHubOptions {
+  pollIntervalMs: number; // REST poll interval for symbols without fresh streamed ticks
+  batchThreshold?: number; // Poll the all-symbols endpoint once this many symbols are due
+  upstream?: PriceStream; // Optional push source (e.g., the MEXC WebSocket stream)
+}
+
+/**
+ * Shared price feed for all monitored symbols
+ *
+ * Multiplexes subscriptions so each symbol is streamed and polled once no matter how
+ * many subscribers it has. Symbols without a streamed tick for a full poll interval are
+ * polled over REST; when several are due at once a single all-symbols ticker request
+ * replaces the per-symbol calls.
+ */
+export class PriceHub implements PriceStream {
+  private listeners = new Map<string, Set<TickListener>>();
+  private allListeners = new Set<TickListener>();
+  private upstreamSubscriptions = new Map<string, () => void>();
+  private latest = new Map<string, PriceTick>();
+  private lastReceivedAt = new Map<string, number>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private readonly batchThreshold: number;
+
+  constructor(
+    private readonly api: PricePoller,
+    private readonly options: PriceHubOptions
+  ) {
+    this.batchThreshold = options.batchThreshold ?? 3;
+  }
+
+  /**
+   * Receive ticks for a symbol
+   */
+  subscribe(symbol: string, listener: TickListener): () => void {
+    let symbolListeners = this.listeners.get(symbol);
+    if (!symbolListeners) {
+      symbolListeners = new Set();
+      this.listeners.set(symbol, symbolListeners);
+
+      if (this.options.upstream) {
+        this.upstreamSubscriptions.set(
+          symbol,
+          this.options.upstream.subscribe(symbol, (tick) => this.publish(tick))
+        );
+      }
+
+      // Fetch an initial price right away rather than waiting for the next poll
+      void this.poll([symbol]);
+      this.startPolling();
+    }
+    symbolListeners.add(listener);
+
+    return () => {
+      const current = this.listeners.get(symbol);
+      if (!current) return;
+
+      current.delete(listener);
+      if (current.size > 0) return;
+
+      this.listeners.delete(symbol);
+      this.upstreamSubscriptions.get(symbol)?.();
+      this.upstreamSubscriptions.delete(symbol);
+      this.latest.delete(symbol);
+      this.lastReceivedAt.delete(symbol);
+
+      if (this.listeners.size === 0) {
+        this.stopPolling();
+      }
+    };
+  }
+
+  /**
+   * Receive ticks for every subscribed symbol (dashboards, API server)
+   */
+  subscribeAll(listener: TickListener): () => void {
+    this.allListeners.add(listener);
+    return () => this.allListeners.delete(listener);
+  }
+
+  /**
+   * Most recent tick for a symbol, or null if none received yet
+   */
+  getLatest(symbol: string): PriceTick | null {
+    return this.latest.get(symbol) ?? null;
+  }
+
+  /**
+   * Symbols with at least one subscriber
+   */
+  getSymbols(): string[] {
+    return Array.from(this.listeners.keys());
+  }
+
+  /**
+   * Whether the upstream push source is connected (REST polling works regardless)
+   */
+  isConnected(): boolean {
+    return this.options.upstream?.isConnected() ?? false;
+  }
+
+  /**
+   * Stop polling and drop all subscriptions
+   */
+  close(): void {
+    this.stopPolling();
+    for (const unsubscribe of this.upstreamSubscriptions.values()) {
+      unsubscribe();
+    }
+    this.upstreamSubscriptions.clear();
+    this.listeners.clear();
+    this.allListeners.clear();
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) return;
+    this.pollTimer = setInterval(() => void this.pollDue(), this.options.pollIntervalMs);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Poll symbols that have not received a tick within the poll interval
+   */
+  private async pollDue(): Promise<void> {
+    if (this.polling) return;
+
+    const now = Date.now();
+    const due = this.getSymbols().filter(
+      (symbol) => now - (this.lastReceivedAt.get(symbol) ?? 0) >= this.options.pollIntervalMs
+    );
+    if (due.length === 0) return;
+
+    this.polling = true;
+    try {
+      await this.poll(due);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async poll(symbols: string[]): Promise<void> {
+    try {
+      if (symbols.length >= this.batchThreshold) {
+        const tickers = await this.api.getAllPrices();
+        if (!tickers) {
+          logger.warn(`Failed to get prices for ${symbols.length} symbols, retrying...`);
+          return;
+        }
+
+        const wanted = new Set(symbols);
+        for (const ticker of tickers) {
+          if (wanted.has(ticker.symbol)) {
+            this.publishRest(ticker.symbol, ticker.price);
+            wanted.delete(ticker.symbol);
+          }
+        }
+        if (wanted.size > 0) {
+          logger.warn(`No price returned for ${Array.from(wanted).join(', ')}`);
+        }
+        return;
+      }
+
+      for (const symbol of symbols) {
+        const price = await this.api.getPrice(symbol);
+        if (price) {
+          this.publishRest(symbol, price);
+        } else {
+          logger.warn(`Failed to get price for ${symbol}, retrying...`);
+        }
+      }
+    } catch (error) {
+      logger.error(`Price poll failed: ${String(error)}`);
+    }
+  }
+
+  private publishRest(symbol: string, price: string): void {
+    this.publish({ symbol, price: new Decimal(price), time: Date.now(), source: 'rest' });
+  }
+
+  private publish(tick: PriceTick): void {
+    const symbolListeners = this.listeners.get(tick.symbol);
+    if (!symbolListeners) return; // Unsubscribed while a poll was in flight
+
+    this.latest.set(tick.symbol, tick);
+    this.lastReceivedAt.set(tick.symbol, Date.now());
+
+    for (const listener of [...symbolListeners, ...this.allListeners]) {
+      try {
+        listener(tick);
+      } catch (error) {
+        logger.error(`Price listener for ${tick.symbol} failed: ${String(error)}`);
+      }
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { MexcAPI } from '../api/mexc.js';
+import { ExchangeClient } from '../api/exchange-client.js';
 import { MarketSymbol } from '../types.js';
 import { logger } from '../utils/logger.js';
 import { loadJson, saveJson } from '../utils/persistence.js';
@@ -18,7 +18,7 @@ interface MarketBaseline {
  */
 export class MarketTracker {
   constructor(
-    private readonly api: MexcAPI,
+    private readonly api: ExchangeClient,
     private readonly quoteCurrency: string
   ) {}
 
@@ -0,0 +1,131 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import Decimal from 'decimal.js';
+import {
+  describeListingOverrides,
+  parseListingOverrides,
+  readListingOverrides,
+} from './listing-overrides.js';
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('Listing overrides', () => {
+  it('should parse every override', () => {
+    const result = parseListingOverrides({
+      tradeAmount: '50',
+      stopLossPct: '8',
+      trailingPct: '4.5',
+      trailingMode: 'atr',
+      takeProfitLevels: '20:50,50:50',
+      maxHoldMinutes: '120',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        maxTradeAmount: new Decimal(50),
+        stopLossPct: new Decimal(8),
+        trailingPct: new Decimal(4.5),
+        trailingMode: 'atr',
+        takeProfitLevels: [
+          { gainPct: new Decimal(20), sellPct: new Decimal(50) },
+          { gainPct: new Decimal(50), sellPct: new Decimal(50) },
+        ],
+        maxHoldMinutes: 120,
+      },
+    });
+  });
+
+  it('should keep the config for missing fields', () => {
+    expect(parseListingOverrides({})).toEqual({ success: true, data: {} });
+  });
+
+  it('should turn off the ladder and the holding time limit', () => {
+    const result = parseListingOverrides({ takeProfitLevels: '', maxHoldMinutes: '0' });
+
+    expect(result).toEqual({ success: true, data: { takeProfitLevels: [], maxHoldMinutes: null } });
+  });
+
+  it('should reject values outside the configured limits', () => {
+    expect(parseListingOverrides({ tradeAmount: '0.5' }).success).toBe(false);
+    expect(parseListingOverrides({ stopLossPct: '60' }).success).toBe(false);
+    expect(parseListingOverrides({ trailingPct: '25' }).success).toBe(false);
+    expect(parseListingOverrides({ takeProfitLevels: '50:60,20:60' }).success).toBe(false);
+    expect(parseListingOverrides({ maxHoldMinutes: '1.5' }).success).toBe(false);
+    expect(parseListingOverrides({ maxHoldMinutes: '' }).success).toBe(false);
+  });
+
+  it('should reject malformed values', () => {
+    const result = parseListingOverrides({ trailingPct: 'wide' });
+
+    expect(result.success).toBe(false);
+    expect(parseListingOverrides({ trailingMode: 'wide' })).toEqual({
+      success: false,
+      error: 'Trailing mode must be one of: fixed, atr',
+    });
+  });
+
+  it('should resolve the max entry price', () => {
+    expect(parseListingOverrides({ maxEntryPrice: '0.05' })).toEqual({
+      success: true,
+      data: { maxEntryPrice: new Decimal('0.05') },
+    });
+    expect(parseListingOverrides({ maxEntryPrice: '3x', referencePrice: '0.01' })).toEqual({
+      success: true,
+      data: { maxEntryPrice: new Decimal('0.03') },
+    });
+  });
+
+  it('should reject invalid max entry prices', () => {
+    expect(parseListingOverrides({ maxEntryPrice: '0' }).success).toBe(false);
+    expect(parseListingOverrides({ maxEntryPrice: 'cheap' }).success).toBe(false);
+    expect(parseListingOverrides({ maxEntryPrice: '3x' }).success).toBe(false);
+    expect(parseListingOverrides({ maxEntryPrice: '-2x', referencePrice: '0.01' }).success).toBe(
+      false
+    );
+    expect(parseListingOverrides({ maxEntryPrice: '0.05', referencePrice: '0.01' }).success).toBe(
+      false
+    );
+    expect(parseListingOverrides({ referencePrice: '0.01' }).success).toBe(false);
+  });
+
+  it('should parse the limit window of a capped entry', () => {
+    expect(parseListingOverrides({ maxEntryPrice: '0.05', limitWindowSeconds: '30' })).toEqual({
+      success: true,
+      data: { maxEntryPrice: new Decimal('0.05'), limitWindowSeconds: 30 },
+    });
+    expect(parseListingOverrides({ maxEntryPrice: '0.05', limitWindowSeconds: '0' }).success).toBe(
+      false
+    );
+    expect(
+      parseListingOverrides({ maxEntryPrice: '0.05', limitWindowSeconds: '2.5' }).success
+    ).toBe(false);
+    expect(parseListingOverrides({ limitWindowSeconds: '30' })).toEqual({
+      success: false,
+      error: 'Limit window requires a max entry price',
+    });
+  });
+
+  it('should read overrides from a request body', () => {
+    const body = { tradeAmount: 50, trailingPct: '4', stopLossPct: null, extra: 'ignored' };
+
+    expect(readListingOverrides(body)).toEqual({ tradeAmount: '50', trailingPct: '4' });
+    expect(readListingOverrides(undefined)).toEqual({});
+  });
+
+  it('should describe the overrides', () => {
+    expect(
+      describeListingOverrides({ tradeAmount: '50', takeProfitLevels: '', maxHoldMinutes: '0' })
+    ).toBe('amount 50, take-profit off, no max hold');
+    expect(describeListingOverrides({ maxEntryPrice: '3x', referencePrice: '0.01' })).toBe(
+      'max entry 3x of 0.01'
+    );
+  });
+});
@@ -0,0 +1,227 @@
+import Decimal from 'decimal.js';
+import {
+  isValidLadder,
+  LIMIT_WINDOW_RANGE,
+  parseTakeProfitLevels,
+  TRADING_CONFIG_RANGES,
+} from '../config.js';
+import { Result, TradeOverrides } from '../types.js';
+
+/**
+ * Trade parameters of one scheduled listing that replace the configured ones, as stored in
+ * scheduled_listings.json and sent by the API server and the CLI (missing fields keep the config)
+ */
+export interface ListingOverrides {
+  tradeAmount?: string; // Quote currency to buy with (MAX_TRADE_AMOUNT)
+  stopLossPct?: string;
+  trailingPct?: string;
+  trailingMode?: string; // 'fixed' or 'atr' (TRAILING_MODE)
+  takeProfitLevels?: string; // gain:sell pairs as in TAKE_PROFIT_LEVELS ("" disables the ladder)
+  maxHoldMinutes?: string; // Whole minutes, "0" holds indefinitely
+  maxEntryPrice?: string; // Absolute price ("0.05") or a multiple of referencePrice ("3x")
+  referencePrice?: string; // Expected price a multiple cap is relative to
+  limitWindowSeconds?: string; // Whole seconds a capped entry keeps re-pricing (LISTING_LIMIT_WINDOW_SECONDS)
+}
+
+const OVERRIDE_FIELDS = [
+  'tradeAmount',
+  'stopLossPct',
+  'trailingPct',
+  'trailingMode',
+  'takeProfitLevels',
+  'maxHoldMinutes',
+  'maxEntryPrice',
+  'referencePrice',
+  'limitWindowSeconds',
+] as const;
+
+/**
+ * Pick the override fields of a request body as strings (numbers are accepted too)
+ */
+export function readListingOverrides(value: unknown): ListingOverrides {
+  const overrides: ListingOverrides = {};
+  if (typeof value !== 'object' || value === null) return overrides;
+
+  for (const field of OVERRIDE_FIELDS) {
+    const given = (value as Record<string, unknown>)[field];
+    if (typeof given === 'string' || typeof given === 'number') overrides[field] = String(given);
+  }
+  return overrides;
+}
+
+/**
+ * Parse and validate listing overrides within the limits enforced on the .env settings
+ */
+export function parseListingOverrides(overrides: ListingOverrides): Result<TradeOverrides, string> {
+  const ranges = TRADING_CONFIG_RANGES;
+  const parsed: TradeOverrides = {};
+
+  try {
+    if (overrides.tradeAmount !== undefined) {
+      parsed.maxTradeAmount = new Decimal(overrides.tradeAmount);
+    }
+    if (overrides.stopLossPct !== undefined) {
+      parsed.stopLossPct = new Decimal(overrides.stopLossPct);
+    }
+    if (overrides.trailingPct !== undefined) {
+      parsed.trailingPct = new Decimal(overrides.trailingPct);
+    }
+    if (overrides.takeProfitLevels !== undefined) {
+      parsed.takeProfitLevels = parseTakeProfitLevels(overrides.takeProfitLevels);
+    }
+  } catch (error) {
+    return { success: false, error: `Invalid listing overrides: ${String(error)}` };
+  }
+
+  const outOf = (value: Decimal | undefined, range: { min: number; max: number }): boolean =>
+    value !== undefined && (value.lt(range.min) || value.gt(range.max));
+
+  if (outOf(parsed.maxTradeAmount, ranges.maxTradeAmount)) {
+    return {
+      success: false,
+      error: `Trade amount must be between ${ranges.maxTradeAmount.min} and ${ranges.maxTradeAmount.max}`,
+    };
+  }
+  if (outOf(parsed.stopLossPct, ranges.stopLossPct)) {
+    return {
+      success: false,
+      error: `Stop-loss percentage must be between ${ranges.stopLossPct.min} and ${ranges.stopLossPct.max}`,
+    };
+  }
+  if (outOf(parsed.trailingPct, ranges.trailingPct)) {
+    return {
+      success: false,
+      error: `Trailing percentage must be between ${ranges.trailingPct.min} and ${ranges.trailingPct.max}`,
+    };
+  }
+  if (overrides.trailingMode !== undefined) {
+    if (overrides.trailingMode !== 'fixed' && overrides.trailingMode !== 'atr') {
+      return { success: false, error: 'Trailing mode must be one of: fixed, atr' };
+    }
+    parsed.trailingMode = overrides.trailingMode;
+  }
+  if (parsed.takeProfitLevels && !isValidLadder(parsed.takeProfitLevels)) {
+    return {
+      success: false,
+      error: 'Take-profit gains must be positive and ascending, and sell at most 100% in total',
+    };
+  }
+
+  if (overrides.maxHoldMinutes !== undefined) {
+    const minutes = Number(overrides.maxHoldMinutes);
+    const { min, max } = ranges.maxHoldMinutes;
+    const whole = /^\d+$/.test(String(overrides.maxHoldMinutes));
+    if (!whole || (minutes !== 0 && (minutes < min || minutes > max))) {
+      return {
+        success: false,
+        error: `Max hold time must be 0 or a whole number of minutes between ${min} and ${max}`,
+      };
+    }
+    parsed.maxHoldMinutes = minutes === 0 ? null : minutes;
+  }
+
+  if (overrides.maxEntryPrice !== undefined) {
+    const maxEntryPrice = parseMaxEntryPrice(overrides.maxEntryPrice, overrides.referencePrice);
+    if (!maxEntryPrice.success) return maxEntryPrice;
+    parsed.maxEntryPrice = maxEntryPrice.data;
+  } else if (overrides.referencePrice !== undefined) {
+    return { success: false, error: 'Reference price requires a max entry price multiple' };
+  }
+
+  if (overrides.limitWindowSeconds !== undefined) {
+    const seconds = Number(overrides.limitWindowSeconds);
+    const { min, max } = LIMIT_WINDOW_RANGE;
+    if (!/^\d+$/.test(String(overrides.limitWindowSeconds)) || seconds < min || seconds > max) {
+      return {
+        success: false,
+        error: `Limit window must be a whole number of seconds between ${min} and ${max}`,
+      };
+    }
+    if (parsed.maxEntryPrice === undefined) {
+      return { success: false, error: 'Limit window requires a max entry price' };
+    }
+    parsed.limitWindowSeconds = seconds;
+  }
+
+  return { success: true, data: parsed };
+}
+
+/**
+ * Resolve the max entry price to an absolute price, multiplying "Nx" by the reference price
+ */
+function parseMaxEntryPrice(
+  maxEntryPrice: string,
+  referencePrice: string | undefined
+): Result<Decimal, string> {
+  const positive = (value: string): Decimal | null => {
+    try {
+      const parsed = new Decimal(value);
+      return parsed.isFinite() && parsed.gt(0) ? parsed : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const multiple = /^(.+)x$/i.exec(maxEntryPrice.trim());
+  if (!multiple) {
+    const price = positive(maxEntryPrice);
+    if (!price) {
+      return {
+        success: false,
+        error: 'Max entry price must be a positive price or a multiple like 3x',
+      };
+    }
+    if (referencePrice !== undefined) {
+      return {
+        success: false,
+        error: 'Reference price only applies to a max entry price multiple',
+      };
+    }
+    return { success: true, data: price };
+  }
+
+  const factor = positive(multiple[1] ?? '');
+  if (!factor) {
+    return { success: false, error: 'Max entry price multiple must be positive, e.g. 3x' };
+  }
+  const reference = referencePrice === undefined ? null : positive(referencePrice);
+  if (!reference) {
+    return {
+      success: false,
+      error: 'A max entry price multiple requires a positive reference price',
+    };
+  }
+  return { success: true, data: reference.mul(factor) };
+}
+
+/**
+ * Short description of the overrides for logs and listings, e.g. "amount 50, trailing 4%"
+ */
+export function describeListingOverrides(overrides: ListingOverrides): string {
+  const parts: string[] = [];
+  if (overrides.tradeAmount !== undefined) parts.push(`amount ${overrides.tradeAmount}`);
+  if (overrides.stopLossPct !== undefined) parts.push(`stop-loss ${overrides.stopLossPct}%`);
+  if (overrides.trailingPct !== undefined) parts.push(`trailing ${overrides.trailingPct}%`);
+  if (overrides.trailingMode !== undefined) parts.push(`${overrides.trailingMode} trail`);
+  if (overrides.takeProfitLevels !== undefined) {
+    parts.push(`take-profit ${overrides.takeProfitLevels || 'off'}`);
+  }
+  if (overrides.maxHoldMinutes !== undefined) {
+    parts.push(
+      Number(overrides.maxHoldMinutes) === 0
+        ? 'no max hold'
+        : `max hold ${overrides.maxHoldMinutes}m`
+    );
+  }
+  if (overrides.maxEntryPrice !== undefined) {
+    parts.push(
+      overrides.referencePrice !== undefined
+        ? `max entry ${overrides.maxEntryPrice} of ${overrides.referencePrice}`
+        : `max entry ${overrides.maxEntryPrice}`
+    );
+  }
+  if (overrides.limitWindowSeconds !== undefined) {
+    parts.push(`limit window ${overrides.limitWindowSeconds}s`);
+  }
+  return parts.join(', ');
+}
@@ -1,6 +1,12 @@
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
-import { ListingScheduler, type TradeExecutor } from './listing-scheduler.js';
+import {
+  ListingScheduler,
+  type ListingWarmUp,
+  type TradeCleanup,
+  type TradeExecutor,
+} from './listing-scheduler.js';
 import fs from 'fs/promises';
+import Decimal from 'decimal.js';
 
 // Mock persistence utilities
 jest.mock('../utils/persistence.js', () => ({
@@ -76,7 +82,7 @@ describe('ListingScheduler', () => {
       // Allow promises to resolve
       await Promise.resolve();
 
-      expect(mockTradeExecutor).toHaveBeenCalledWith('TEST', 'USDT');
+      expect(mockTradeExecutor).toHaveBeenCalledWith('TEST', 'USDT', {}, null, expect.any(Date));
     });
 
     it('should not create duplicate timers on reinitialization', async () => {
@@ -125,15 +131,15 @@ describe('ListingScheduler', () => {
       // Advance to each time
       jest.advanceTimersByTime(1000);
       await Promise.resolve();
-      expect(mockTradeExecutor).toHaveBeenCalledWith('TEST1', 'USDT');
+      expect(mockTradeExecutor).toHaveBeenCalledWith('TEST1', 'USDT', {}, null, expect.any(Date));
 
       jest.advanceTimersByTime(1000);
       await Promise.resolve();
-      expect(mockTradeExecutor).toHaveBeenCalledWith('TEST2', 'USDT');
+      expect(mockTradeExecutor).toHaveBeenCalledWith('TEST2', 'USDT', {}, null, expect.any(Date));
 
       jest.advanceTimersByTime(1000);
       await Promise.resolve();
-      expect(mockTradeExecutor).toHaveBeenCalledWith('TEST3', 'USDT');
+      expect(mockTradeExecutor).toHaveBeenCalledWith('TEST3', 'USDT', {}, null, expect.any(Date));
 
       expect(mockTradeExecutor).toHaveBeenCalledTimes(3);
     });
@@ -160,7 +166,7 @@ describe('ListingScheduler', () => {
 
       // Should execute immediately (no timer needed)
       await Promise.resolve();
-      expect(mockTradeExecutor).toHaveBeenCalledWith('TEST', 'USDT');
+      expect(mockTradeExecutor).toHaveBeenCalledWith('TEST', 'USDT', {}, null, expect.any(Date));
     });
 
     it('should mark as missed if outside 180s window', async () => {
@@ -331,7 +337,7 @@ describe('ListingScheduler', () => {
       await Promise.resolve();
 
       // Only PENDING should execute
-      expect(mockTradeExecutor).toHaveBeenCalledWith('PENDING', 'USDT');
+      expect(mockTradeExecutor).toHaveBeenCalledWith('PENDING', 'USDT', {}, null, expect.any(Date));
       expect(mockTradeExecutor).toHaveBeenCalledTimes(1);
     });
 
@@ -385,7 +391,38 @@ describe('ListingScheduler', () => {
       jest.advanceTimersByTime(1000);
       await Promise.resolve();
 
-      expect(mockTradeExecutor).toHaveBeenCalledWith('BTC', 'USDT');
+      expect(mockTradeExecutor).toHaveBeenCalledWith('BTC', 'USDT', {}, null, expect.any(Date));
+    });
+
+    it('should pass the listing overrides to the trade executor', async () => {
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('HYPE', futureTime.toISOString(), 'USDT', undefined, {
+        tradeAmount: '50',
+        trailingPct: '8',
+        maxHoldMinutes: '0',
+      });
+
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+
+      expect(mockTradeExecutor).toHaveBeenCalledWith('HYPE', 'USDT', {
+        maxTradeAmount: new Decimal(50),
+        trailingPct: new Decimal(8),
+        maxHoldMinutes: null,
+      }, null, expect.any(Date));
+    });
+
+    it('should not trade listings with invalid overrides', async () => {
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('BAD', futureTime.toISOString(), 'USDT', undefined, {
+        stopLossPct: '90',
+      });
+
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+
+      expect(mockTradeExecutor).not.toHaveBeenCalled();
+      expect(scheduler.getScheduledListings()[0]?.status).toBe('missed');
     });
 
     it('should handle trade executor errors gracefully', async () => {
@@ -422,6 +459,270 @@ describe('ListingScheduler', () => {
 
       expect(mockTradeExecutor).toHaveBeenCalledTimes(2);
     });
+
+    it('should keep retrying while the symbol is not trading yet', async () => {
+      mockTradeExecutor.mockResolvedValueOnce({ kind: 'symbol_not_trading', message: 'Symbol not open' });
+      mockTradeExecutor.mockResolvedValueOnce(true);
+
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(2);
+      expect(scheduler.getScheduledListings()[0]?.status).toBe('completed');
+    });
+
+    it('should retry with the listing time as the intent time', async () => {
+      mockTradeExecutor.mockResolvedValueOnce({ kind: 'network', message: 'socket hang up' });
+      mockTradeExecutor.mockResolvedValueOnce(true);
+
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(100);
+
+      const intentTimes = mockTradeExecutor.mock.calls.map((call) => call[4].getTime());
+      expect(intentTimes).toEqual([futureTime.getTime(), futureTime.getTime()]);
+    });
+
+    it('should mark listings skipped by the entry filters as missed', async () => {
+      mockTradeExecutor.mockResolvedValue('skipped');
+
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(1);
+      expect(scheduler.getScheduledListings()[0]?.status).toBe('missed');
+    });
+
+    it('should not retry a capped entry that did not fill in its window', async () => {
+      mockTradeExecutor.mockResolvedValue({ kind: 'not_filled', message: 'IOC expired' });
+
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT', undefined, {
+        maxEntryPrice: '0.05',
+      });
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(1);
+      expect(scheduler.getScheduledListings()[0]?.status).toBe('missed');
+    });
+
+    it('should retry a market buy that came back without a fill', async () => {
+      mockTradeExecutor.mockResolvedValueOnce({ kind: 'not_filled', message: 'Order not filled' });
+      mockTradeExecutor.mockResolvedValueOnce(true);
+
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(2);
+      expect(scheduler.getScheduledListings()[0]?.status).toBe('completed');
+    });
+
+    it('should abort and mark as missed on errors that would fail again', async () => {
+      mockTradeExecutor.mockResolvedValue({ kind: 'insufficient_balance', message: 'Insufficient balance' });
+
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(1);
+      expect(scheduler.getScheduledListings()[0]?.status).toBe('missed');
+    });
+
+    it('should clean up the pending buy once when it gives up on a listing', async () => {
+      const tradeCleanup = jest.fn<TradeCleanup>();
+      scheduler.setTradeCleanup(tradeCleanup);
+      mockTradeExecutor.mockResolvedValueOnce(false);
+      mockTradeExecutor.mockResolvedValueOnce({ kind: 'insufficient_balance', message: 'Insufficient balance' });
+
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(tradeCleanup).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(2);
+      expect(tradeCleanup).toHaveBeenCalledTimes(1);
+      expect(tradeCleanup).toHaveBeenCalledWith('TEST', 'USDT');
+    });
+
+    it('should resync time before retrying clock drift rejections', async () => {
+      const timeSync = jest.fn<() => Promise<void>>().mockResolvedValue(undefined);
+      scheduler.setTimeSync(timeSync);
+      mockTradeExecutor.mockResolvedValueOnce({ kind: 'timestamp_out_of_window', message: 'Outside recvWindow' });
+      mockTradeExecutor.mockResolvedValueOnce(true);
+
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(timeSync).toHaveBeenCalledTimes(1);
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(2);
+    });
+
+    it('should back off for the requested time when rate limited', async () => {
+      mockTradeExecutor.mockResolvedValueOnce({
+        kind: 'rate_limited',
+        message: 'Too many requests',
+        retryAfterMs: 2000,
+      });
+      mockTradeExecutor.mockResolvedValueOnce(true);
+
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Warm-up', () => {
+    let warmUp: jest.MockedFunction<ListingWarmUp>;
+
+    beforeEach(() => {
+      warmUp = jest.fn<ListingWarmUp>().mockResolvedValue(0);
+      scheduler.setWarmUp(warmUp);
+    });
+
+    it('should warm up 60 seconds before listing time', async () => {
+      const futureTime = new Date(Date.now() + 120000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT', undefined, {
+        tradeAmount: '50',
+      });
+
+      await jest.advanceTimersByTimeAsync(59999);
+      expect(warmUp).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(warmUp).toHaveBeenCalledWith(
+        'TEST',
+        'USDT',
+        { maxTradeAmount: new Decimal(50) },
+        expect.any(AbortSignal)
+      );
+      expect(mockTradeExecutor).not.toHaveBeenCalled();
+    });
+
+    it('should warm up right away when the listing is closer than the window', async () => {
+      const futureTime = new Date(Date.now() + 10000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(warmUp).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fire the trade timer on the exchange clock', async () => {
+      warmUp.mockResolvedValue(500); // Exchange clock 500ms ahead
+      const futureTime = new Date(Date.now() + 120000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(119499);
+      expect(mockTradeExecutor).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop the warm-up when the trade timer fires', async () => {
+      const futureTime = new Date(Date.now() + 120000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(60000);
+      const signal = warmUp.mock.calls[0]?.[3];
+      expect(signal?.aborted).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(signal?.aborted).toBe(true);
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel the warm-up when the listing is removed', async () => {
+      const futureTime = new Date(Date.now() + 120000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await scheduler.removeScheduledListing('TEST', futureTime.toISOString());
+      await jest.advanceTimersByTimeAsync(120000);
+
+      expect(warmUp).not.toHaveBeenCalled();
+      expect(mockTradeExecutor).not.toHaveBeenCalled();
+    });
+
+    it('should still trade on time when the warm-up fails', async () => {
+      warmUp.mockRejectedValue(new Error('Network down'));
+      const futureTime = new Date(Date.now() + 120000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(120000);
+
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Burst Mode', () => {
+    beforeEach(() => {
+      scheduler.cleanup();
+      scheduler = new ListingScheduler({ burstOrders: 5, burstStaggerMs: 20 });
+      scheduler.setTradeExecutor(mockTradeExecutor);
+    });
+
+    it('should start the burst early so it is centered on listing time', async () => {
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(959);
+      expect(mockTradeExecutor).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockTradeExecutor).toHaveBeenCalledWith('TEST', 'USDT', {}, { orders: 5, staggerMs: 20 }, expect.any(Date));
+    });
+
+    it('should only burst on the first attempt', async () => {
+      mockTradeExecutor.mockResolvedValueOnce({ kind: 'symbol_not_trading', message: 'Not open' });
+      mockTradeExecutor.mockResolvedValueOnce(true);
+
+      const futureTime = new Date(Date.now() + 1000);
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(1100);
+
+      expect(mockTradeExecutor).toHaveBeenCalledTimes(2);
+      expect(mockTradeExecutor).toHaveBeenLastCalledWith('TEST', 'USDT', {}, null, expect.any(Date));
+    });
+
+    it('should record the time to first fill', async () => {
+      const futureTime = new Date(Date.now() + 1000);
+      mockTradeExecutor.mockResolvedValue({ filledAt: new Date(futureTime.getTime() + 150) });
+      await scheduler.addScheduledListing('TEST', futureTime.toISOString(), 'USDT');
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      const [listing] = scheduler.getScheduledListings();
+      expect(listing?.status).toBe('completed');
+      expect(listing?.fillDelayMs).toBe(150);
+      expect(listing?.filledAt).toBe(new Date(futureTime.getTime() + 150).toISOString());
+    });
   });
 
   describe('Edge Cases', () => {
@@ -498,11 +799,10 @@ describe('ListingScheduler', () => {
       jest.advanceTimersByTime(1000);
       await Promise.resolve();
 
-      // Should be marked as missed due to no executor
-      const { logger } = await import('../utils/logger.js');
-      expect((logger.error as jest.Mock).mock.calls.some((call: unknown[]) =>
-        typeof call[0] === 'string' && call[0].includes('no trade executor')
-      )).toBe(true);
+      // No timer is armed (e.g. the API server's scheduler), so the listing stays pending
+      // for the bot instead of being marked missed
+      expect(jest.getTimerCount()).toBe(0);
+      expect(newScheduler.getScheduledListings()[0]?.status).toBe('pending');
     });
   });
 
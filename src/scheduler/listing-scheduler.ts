@@ -1,5 +1,18 @@
 import { logger } from '../utils/logger.js';
+import {
+  describeExchangeError,
+  ExchangeError,
+  retryActionFor,
+  RetryAction,
+} from '../api/errors.js';
 import { loadJson, saveJson } from '../utils/persistence.js';
+import { botEvents, SchedulerEventKind } from '../control/bot-events.js';
+import { BurstPlan, TradeOverrides } from '../types.js';
+import {
+  describeListingOverrides,
+  ListingOverrides,
+  parseListingOverrides,
+} from './listing-overrides.js';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -14,9 +27,12 @@ export interface ScheduledListing {
   listingTime: string; // ISO timestamp
   quoteCurrency: string;
   notes?: string;
+  overrides?: ListingOverrides; // Trade parameters replacing the configured ones
   status: 'pending' | 'active' | 'completed' | 'missed';
   createdAt: string;
   tradedAt?: string;
+  filledAt?: string; // Exchange time of the first buy fill
+  fillDelayMs?: number; // First fill relative to listingTime (negative when it filled earlier)
 }
 
 /**
@@ -25,13 +41,71 @@ export interface ScheduledListing {
 export interface SchedulerConfig {
   maxWaitAfterListing: number; // Stop trying after X seconds past listing time
   retryInterval: number; // Retry interval in milliseconds if trade fails
+  warmUpSeconds: number; // Start warming up X seconds before listing time (0 disables)
+  burstOrders: number; // Parallel buy attempts of the first try, centered on listing time (1 disables)
+  burstStaggerMs: number; // Delay between consecutive burst attempts
+}
+
+const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  maxWaitAfterListing: 180, // Stop trying after 3 minutes (extended from 60s)
+  retryInterval: 100, // Retry every 100ms
+  warmUpSeconds: 60,
+  burstOrders: 1,
+  burstStaggerMs: 25,
+};
+
+/**
+ * A buy placed by the trade executor
+ */
+export interface ExecutedTrade {
+  filledAt: Date; // Exchange time of the first fill
 }
 
 /**
  * Callback function type for executing trades
- * Returns true if trade was successful, false if should retry
+ * Returns the executed trade (or true when there is no fill to report) if trade was successful,
+ * false if should retry, 'skipped' when the entry filters decided against buying, or the exchange
+ * error that made it fail so the scheduler can decide whether to retry, resync or abort
+ * overrides holds the listing's own trade parameters (empty when it uses the config); burst is
+ * set on the first attempt when burst mode is on, and asks for staggered parallel buys.
+ * intentTime is the listing time on every attempt, so a retried buy keeps its client order ID
+ * and an order that already reached the exchange is found instead of placed again
+ */
+export type TradeExecutor = (
+  symbol: string,
+  quoteCurrency: string,
+  overrides: TradeOverrides,
+  burst: BurstPlan | null,
+  intentTime: Date
+) => Promise<boolean | 'skipped' | ExecutedTrade | ExchangeError>;
+
+/**
+ * Callback that resyncs the local clock with the exchange
+ */
+export type TimeSync = () => Promise<void>;
+
+/**
+ * Callback that drops what the trade executor kept between attempts (the pending buy) once the
+ * scheduler gives up on a listing
  */
-export type TradeExecutor = (symbol: string, quoteCurrency: string) => Promise<boolean>;
+export type TradeCleanup = (symbol: string, quoteCurrency: string) => void;
+
+/**
+ * Callback that prepares the exchange client shortly before a listing
+ * Resolves with the exchange clock offset in milliseconds (null when unknown) once prepared,
+ * and may keep working in the background until the signal aborts at listing time
+ */
+export type ListingWarmUp = (
+  symbol: string,
+  quoteCurrency: string,
+  overrides: TradeOverrides,
+  signal: AbortSignal
+) => Promise<number | null>;
+
+interface ActiveWarmUp {
+  timer: NodeJS.Timeout;
+  abort: AbortController;
+}
 
 /**
  * Manages scheduled listings and precise timing for trading at listing moments
@@ -39,24 +113,50 @@ export type TradeExecutor = (symbol: string, quoteCurrency: string) => Promise<b
 export class ListingScheduler {
   private scheduledListings: ScheduledListing[] = [];
   private activeTimers = new Map<string, NodeJS.Timeout>();
+  private warmUps = new Map<string, ActiveWarmUp>(); // Same keys as activeTimers
   private lastLoggedCount = -1; // Track last logged count to prevent spam
   private tradeExecutor?: TradeExecutor; // Callback for executing trades
+  private timeSync?: TimeSync; // Callback for fixing clock drift before a retry
+  private tradeCleanup?: TradeCleanup; // Callback for dropping a failed listing's pending buy
+  private warmUp?: ListingWarmUp; // Callback for preparing the exchange before a listing
   private lastFileModTime: number = 0; // Track file modification time
 
-  constructor(
-    private readonly config: SchedulerConfig = {
-      maxWaitAfterListing: 180, // Stop trying after 3 minutes (extended from 60s)
-      retryInterval: 100, // Retry every 100ms
-    }
-  ) {}
+  private readonly config: SchedulerConfig;
+
+  constructor(config: Partial<SchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+  }
 
   /**
    * Register a callback function to execute trades when listing time arrives
+   * Only a scheduler with an executor (the bot's) arms timers; others just read and write the file
    */
   setTradeExecutor(executor: TradeExecutor): void {
     this.tradeExecutor = executor;
   }
 
+  /**
+   * Register a callback used to resync time when an order is rejected for clock drift
+   */
+  setTimeSync(timeSync: TimeSync): void {
+    this.timeSync = timeSync;
+  }
+
+  /**
+   * Register a callback run once a listing's trade finally failed (aborted, skipped or timed out)
+   */
+  setTradeCleanup(tradeCleanup: TradeCleanup): void {
+    this.tradeCleanup = tradeCleanup;
+  }
+
+  /**
+   * Register a callback run warmUpSeconds before each listing
+   * Once it reports the exchange clock offset, the trade timer is re-armed on exchange time
+   */
+  setWarmUp(warmUp: ListingWarmUp): void {
+    this.warmUp = warmUp;
+  }
+
   /**
    * Load scheduled listings from disk
    */
@@ -88,12 +188,14 @@ export class ListingScheduler {
 
   /**
    * Add a new scheduled listing
+   * Overrides are expected to be validated with parseListingOverrides by the caller
    */
   async addScheduledListing(
     symbol: string,
     listingTimeISO: string,
     quoteCurrency: string,
-    notes?: string
+    notes?: string,
+    overrides?: ListingOverrides
   ): Promise<void> {
     const listing: ScheduledListing = {
       symbol,
@@ -102,6 +204,7 @@ export class ListingScheduler {
       status: 'pending',
       createdAt: new Date().toISOString(),
       ...(notes && { notes }),
+      ...(overrides && Object.keys(overrides).length > 0 && { overrides }),
     };
 
     // Check if listing already exists
@@ -118,6 +221,7 @@ export class ListingScheduler {
     await this.saveScheduledListings();
     
     logger.info(`Scheduled listing: ${symbol} at ${listingTimeISO}`);
+    this.publish('added', listing);
     console.log(`📅 Scheduled: ${symbol} listing at ${new Date(listingTimeISO).toLocaleString()}`);
     
     // Set up timer for this listing
@@ -136,7 +240,7 @@ export class ListingScheduler {
       return false;
     }
 
-    this.scheduledListings.splice(index, 1);
+    const [removed] = this.scheduledListings.splice(index, 1);
     
     // Clear any active timer
     const timerId = `${symbol}-${listingTime}`;
@@ -145,9 +249,11 @@ export class ListingScheduler {
       clearTimeout(timer);
       this.activeTimers.delete(timerId);
     }
+    this.stopWarmUp(timerId);
 
     await this.saveScheduledListings();
     logger.info(`Removed scheduled listing: ${symbol}`);
+    if (removed) this.publish('removed', removed);
     return true;
   }
 
@@ -162,21 +268,15 @@ export class ListingScheduler {
    * Get upcoming listings (next 24 hours)
    */
   getUpcomingListings(): ScheduledListing[] {
-    const now = new Date();
-    const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-    
-    return this.scheduledListings.filter(
-      listing => listing.status === 'pending' && 
-                new Date(listing.listingTime) > now &&
-                new Date(listing.listingTime) <= tomorrow
-    );
+    return upcomingListings(this.scheduledListings);
   }
 
 
   /**
    * Mark a listing as traded
+   * filledAt records how long after listing time the first buy filled
    */
-  async markListingTraded(symbol: string, listingTime: string): Promise<void> {
+  async markListingTraded(symbol: string, listingTime: string, filledAt?: Date): Promise<void> {
     const listing = this.scheduledListings.find(
       l => l.symbol === symbol && l.listingTime === listingTime
     );
@@ -184,9 +284,18 @@ export class ListingScheduler {
     if (listing) {
       listing.status = 'completed';
       listing.tradedAt = new Date().toISOString();
+      if (filledAt) {
+        listing.filledAt = filledAt.toISOString();
+        listing.fillDelayMs = filledAt.getTime() - new Date(listingTime).getTime();
+      }
       await this.saveScheduledListings();
       
-      logger.info(`Marked ${symbol} as successfully traded`);
+      const delay =
+        listing.fillDelayMs !== undefined
+          ? ` (first fill ${listing.fillDelayMs}ms after listing)`
+          : '';
+      logger.info(`Marked ${symbol} as successfully traded${delay}`);
+      this.publish('traded', listing);
       console.log(`✅ Completed scheduled trade: ${symbol}`);
     }
   }
@@ -204,6 +313,7 @@ export class ListingScheduler {
       await this.saveScheduledListings();
       
       logger.warn(`Marked ${symbol} as missed - could not complete trade`);
+      this.publish('missed', listing);
       console.log(`⚠️ Missed scheduled trade: ${symbol}`);
     }
   }
@@ -212,6 +322,11 @@ export class ListingScheduler {
    * Setup timer for a specific listing
    */
   private setupListingTimer(listing: ScheduledListing): void {
+    // Without an executor a fired timer could only mark the listing missed
+    if (!this.tradeExecutor) {
+      return;
+    }
+
     const now = new Date();
     const listingTime = new Date(listing.listingTime);
     const timerId = `${listing.symbol}-${listing.listingTime}`;
@@ -244,22 +359,113 @@ export class ListingScheduler {
     const minutesUntil = Math.floor((timeUntilListing % 3600000) / 60000);
 
     // Set timer to execute trade at exact listing time
+    this.armListingTimer(listing, timerId, timeUntilListing);
+    this.setupWarmUpTimer(listing, timerId);
+    this.publish('timer_set', listing);
+
+    const listingTimeStr = listingTime.toLocaleString();
+    const timeUntilStr = hoursUntil > 0 ? `${hoursUntil}h ${minutesUntil}m` : `${minutesUntil}m`;
+
+    logger.info(
+      `✅ Timer SET for ${listing.symbol} - will execute at ${listingTimeStr} (in ${timeUntilStr})`
+    );
+    console.log(`⏰ Timer set for ${listing.symbol} at ${listingTimeStr} (in ${timeUntilStr})`);
+  }
+
+  /**
+   * How long before listing time the first burst attempt goes out
+   */
+  private burstLeadMs(): number {
+    const { burstOrders, burstStaggerMs } = this.config;
+    return burstOrders > 1 ? Math.floor((burstOrders - 1) / 2) * burstStaggerMs : 0;
+  }
+
+  /**
+   * Arm (or re-arm) the timer that executes the trade after delayMs
+   */
+  private armListingTimer(listing: ScheduledListing, timerId: string, delayMs: number): void {
+    clearTimeout(this.activeTimers.get(timerId));
+
+    // A burst starts early so its attempts are centered on the listing time
+    const delay = Math.max(0, delayMs - this.burstLeadMs());
     const timer = setTimeout(() => {
       logger.info(`⏰ Timer FIRED for ${listing.symbol} - executing scheduled trade now`);
       console.log(`⏰ ${listing.symbol} listing time reached - executing trade!`);
       this.activeTimers.delete(timerId);
+      this.stopWarmUp(timerId);
+      this.publish('timer_fired', listing);
       void this.executeScheduledTrade(listing);
-    }, timeUntilListing);
+    }, delay);
 
     this.activeTimers.set(timerId, timer);
+  }
 
-    const listingTimeStr = listingTime.toLocaleString();
-    const timeUntilStr = hoursUntil > 0
-      ? `${hoursUntil}h ${minutesUntil}m`
-      : `${minutesUntil}m`;
+  /**
+   * Schedule the warm-up warmUpSeconds before listing time (right away when already that close)
+   */
+  private setupWarmUpTimer(listing: ScheduledListing, timerId: string): void {
+    if (!this.warmUp || this.config.warmUpSeconds <= 0 || this.warmUps.has(timerId)) {
+      return;
+    }
 
-    logger.info(`✅ Timer SET for ${listing.symbol} - will execute at ${listingTimeStr} (in ${timeUntilStr})`);
-    console.log(`⏰ Timer set for ${listing.symbol} at ${listingTimeStr} (in ${timeUntilStr})`);
+    const warmUpAt = new Date(listing.listingTime).getTime() - this.config.warmUpSeconds * 1000;
+    const delay = Math.max(0, warmUpAt - Date.now());
+    const abort = new AbortController();
+    const timer = setTimeout(() => void this.runWarmUp(listing, timerId, abort.signal), delay);
+
+    this.warmUps.set(timerId, { timer, abort });
+  }
+
+  /**
+   * Run the warm-up and re-arm the trade timer on the exchange clock
+   */
+  private async runWarmUp(
+    listing: ScheduledListing,
+    timerId: string,
+    signal: AbortSignal
+  ): Promise<void> {
+    if (!this.warmUp) return;
+
+    logger.info(`🔥 Warming up for ${listing.symbol}${listing.quoteCurrency} listing`);
+    console.log(`🔥 Warming up for ${listing.symbol} listing`);
+    this.publish('warm_up', listing);
+
+    // Invalid overrides make the trade itself fail; warm up with the config meanwhile
+    const overrides = parseListingOverrides(listing.overrides ?? {});
+    let clockOffsetMs: number | null;
+    try {
+      clockOffsetMs = await this.warmUp(
+        listing.symbol,
+        listing.quoteCurrency,
+        overrides.success ? overrides.data : {},
+        signal
+      );
+    } catch (error) {
+      logger.error(`Warm-up failed for ${listing.symbol}: ${String(error)}`);
+      return;
+    }
+
+    // Re-arm only while the trade timer is still pending (not fired or removed meanwhile)
+    if (signal.aborted || clockOffsetMs === null || !this.activeTimers.has(timerId)) {
+      return;
+    }
+    const delayMs = new Date(listing.listingTime).getTime() - clockOffsetMs - Date.now();
+    this.armListingTimer(listing, timerId, delayMs);
+    logger.info(
+      `Timer for ${listing.symbol} re-armed on exchange time (offset ${clockOffsetMs}ms, fires in ${Math.max(0, delayMs)}ms)`
+    );
+  }
+
+  /**
+   * Cancel a pending warm-up, or stop a running one from polling the exchange
+   */
+  private stopWarmUp(timerId: string): void {
+    const warmUp = this.warmUps.get(timerId);
+    if (!warmUp) return;
+
+    clearTimeout(warmUp.timer);
+    warmUp.abort.abort();
+    this.warmUps.delete(timerId);
   }
 
   /**
@@ -272,6 +478,17 @@ export class ListingScheduler {
       return;
     }
 
+    // Checked when the listing was added; a hand-edited file may still hold invalid values
+    const overrides = parseListingOverrides(listing.overrides ?? {});
+    if (!overrides.success) {
+      logger.error(`Not trading ${listing.symbol}: ${overrides.error}`);
+      await this.markListingMissed(listing.symbol, listing.listingTime);
+      return;
+    }
+    if (listing.overrides) {
+      logger.info(`${listing.symbol} trades with ${describeListingOverrides(listing.overrides)}`);
+    }
+
     listing.status = 'active';
     const startTime = Date.now();
     const maxDuration = this.config.maxWaitAfterListing * 1000;
@@ -284,15 +501,62 @@ export class ListingScheduler {
       attempts++;
 
       try {
-        const success = await this.tradeExecutor(listing.symbol, listing.quoteCurrency);
-
-        if (success) {
+        const burst: BurstPlan | null =
+          attempts === 1 && this.config.burstOrders > 1
+            ? { orders: this.config.burstOrders, staggerMs: this.config.burstStaggerMs }
+            : null;
+        const outcome = await this.tradeExecutor(
+          listing.symbol,
+          listing.quoteCurrency,
+          overrides.data,
+          burst,
+          new Date(listing.listingTime)
+        );
+
+        if (outcome === true || (typeof outcome === 'object' && 'filledAt' in outcome)) {
           const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-          await this.markListingTraded(listing.symbol, listing.listingTime);
+          const filledAt = outcome === true ? undefined : outcome.filledAt;
+          await this.markListingTraded(listing.symbol, listing.listingTime, filledAt);
           logger.info(`✅ Successfully executed scheduled trade for ${listing.symbol} after ${attempts} attempts in ${duration}s`);
           return;
         }
 
+        if (outcome === 'skipped') {
+          logger.info(`Scheduled trade for ${listing.symbol} skipped by the entry filters`);
+          this.tradeCleanup?.(listing.symbol, listing.quoteCurrency);
+          await this.markListingMissed(listing.symbol, listing.listingTime);
+          return;
+        }
+
+        if (outcome !== false) {
+          const action = this.retryActionFor(outcome, overrides.data.maxEntryPrice !== undefined);
+
+          if (action === 'abort') {
+            logger.error(
+              `Aborting scheduled trade for ${listing.symbol}: ${describeExchangeError(outcome)}`
+            );
+            console.log(`❌ Scheduled trade aborted: ${outcome.message}`);
+            this.tradeCleanup?.(listing.symbol, listing.quoteCurrency);
+            await this.markListingMissed(listing.symbol, listing.listingTime);
+            return;
+          }
+
+          if (action === 'resync' && this.timeSync) {
+            logger.warn(
+              `Clock drift rejected ${listing.symbol} order, resyncing time before retry`
+            );
+            await this.timeSync();
+          }
+
+          if (outcome.kind === 'rate_limited') {
+            logger.warn(
+              `Rate limited while trading ${listing.symbol}, backing off ${outcome.retryAfterMs}ms`
+            );
+            await this.sleep(outcome.retryAfterMs);
+            continue;
+          }
+        }
+
         // Trade failed, retry after interval
         if (attempts === 1) {
           logger.info(`Market not yet available, retrying every ${this.config.retryInterval}ms...`);
@@ -308,10 +572,41 @@ export class ListingScheduler {
 
     // Exceeded max wait time
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+    this.tradeCleanup?.(listing.symbol, listing.quoteCurrency);
     await this.markListingMissed(listing.symbol, listing.listingTime);
     logger.warn(`❌ Failed to execute ${listing.symbol} after ${attempts} attempts over ${duration}s (max: ${this.config.maxWaitAfterListing}s)`);
   }
 
+  /**
+   * Retry decision for a scheduled trade
+   * Unlike single orders, "symbol not trading" is expected right at listing time,
+   * so it keeps retrying until the wait window closes. A capped entry that did not fill has
+   * already re-priced for its whole limit window, so it is final; a market buy that came back
+   * without a fill is tried again
+   */
+  private retryActionFor(error: ExchangeError, capped: boolean): RetryAction {
+    switch (error.kind) {
+      case 'symbol_not_trading':
+        return 'retry';
+      case 'not_filled':
+        return capped ? 'abort' : 'retry';
+      default:
+        return retryActionFor(error);
+    }
+  }
+
+  /**
+   * Push a listing milestone to the dashboard
+   */
+  private publish(event: SchedulerEventKind, listing: ScheduledListing): void {
+    botEvents.publish({
+      type: 'scheduler',
+      event,
+      symbol: listing.symbol,
+      listingTime: listing.listingTime,
+    });
+  }
+
   /**
    * Sleep helper
    */
@@ -361,6 +656,10 @@ export class ListingScheduler {
       logger.debug(`Cleared timer: ${timerId}`);
     }
     this.activeTimers.clear();
+
+    for (const timerId of [...this.warmUps.keys()]) {
+      this.stopWarmUp(timerId);
+    }
   }
 
   /**
@@ -402,4 +701,21 @@ export class ListingScheduler {
       return false;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Pending listings in the next 24 hours
+ */
+export function upcomingListings(
+  listings: ScheduledListing[],
+  now: Date = new Date()
+): ScheduledListing[] {
+  const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+
+  return listings.filter(
+    (listing) =>
+      listing.status === 'pending' &&
+      new Date(listing.listingTime) > now &&
+      new Date(listing.listingTime) <= tomorrow
+  );
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import Decimal from 'decimal.js';
+import { ExchangeClient } from '../api/exchange-client.js';
+import { SymbolInfo } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { warmUpListing } from './warm-up.js';
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('warmUpListing', () => {
+  let api: {
+    syncTime: jest.Mock<ExchangeClient['syncTime']>;
+    getServerTime: jest.Mock<ExchangeClient['getServerTime']>;
+    getAccountBalance: jest.Mock<ExchangeClient['getAccountBalance']>;
+    getSymbolInfo: jest.Mock<ExchangeClient['getSymbolInfo']>;
+  };
+  let abort: AbortController;
+
+  const symbolInfo = { symbol: 'NEWUSDT', status: '1' } as SymbolInfo;
+
+  const warmUp = (amount = 50) =>
+    warmUpListing(
+      api as unknown as ExchangeClient,
+      'NEWUSDT',
+      'USDT',
+      new Decimal(amount),
+      abort.signal,
+      10
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    abort = new AbortController();
+    api = {
+      syncTime: jest.fn<ExchangeClient['syncTime']>().mockResolvedValue(undefined),
+      getServerTime: jest
+        .fn<ExchangeClient['getServerTime']>()
+        .mockImplementation(() => Promise.resolve(Date.now() + 750)),
+      getAccountBalance: jest.fn<ExchangeClient['getAccountBalance']>().mockResolvedValue('100'),
+      getSymbolInfo: jest.fn<ExchangeClient['getSymbolInfo']>().mockResolvedValue(null),
+    };
+  });
+
+  afterEach(() => {
+    abort.abort();
+  });
+
+  it('should resync time and report the exchange clock offset', async () => {
+    const result = await warmUp();
+
+    expect(api.syncTime).toHaveBeenCalledTimes(1);
+    expect(result.clockOffsetMs).toBeGreaterThanOrEqual(740);
+    expect(result.clockOffsetMs).toBeLessThanOrEqual(760);
+  });
+
+  it('should check the quote balance against the trade amount', async () => {
+    expect((await warmUp(50)).balanceOk).toBe(true);
+
+    const low = await warmUp(500);
+    expect(low.balanceOk).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('below the trade amount'));
+
+    api.getAccountBalance.mockResolvedValue(null);
+    expect((await warmUp()).balanceOk).toBeNull();
+  });
+
+  it('should report an unknown offset when the server time is unavailable', async () => {
+    api.getServerTime.mockResolvedValue(null);
+
+    expect((await warmUp()).clockOffsetMs).toBeNull();
+  });
+
+  it('should poll the symbol until the signal aborts', async () => {
+    const result = await warmUp();
+    expect(result.status).toBeNull();
+
+    api.getSymbolInfo.mockResolvedValue(symbolInfo);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('listed with status 1'));
+
+    abort.abort();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const calls = api.getSymbolInfo.mock.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(api.getSymbolInfo).toHaveBeenCalledTimes(calls);
+  });
+
+  it('should return the status of an already listed symbol', async () => {
+    api.getSymbolInfo.mockResolvedValue(symbolInfo);
+
+    expect((await warmUp()).status).toBe('1');
+  });
+});
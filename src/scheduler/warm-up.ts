@@ -0,0 +1,98 @@
+import Decimal from 'decimal.js';
+import { ExchangeClient } from '../api/exchange-client.js';
+import { logger } from '../utils/logger.js';
+
+const STATUS_POLL_MS = 1000;
+
+/**
+ * What the warm-up found out before a listing
+ */
+export interface WarmUpResult {
+  clockOffsetMs: number | null; // Exchange clock minus local clock (null when unknown)
+  status: string | null; // Symbol status on the exchange (null while not listed)
+  balanceOk: boolean | null; // Quote balance covers the trade amount (null when unknown)
+}
+
+/**
+ * Prepare the exchange client for the first order of a listing
+ *
+ * Resyncs the clock, checks the quote balance and fetches the symbol, whose rules get cached
+ * once the exchange lists it. Resolves as soon as that is done; the symbol is then polled until
+ * the signal aborts, which keeps the connections open and catches the rules when they appear.
+ * Problems are logged, never fatal: the order is still attempted on time.
+ */
+export async function warmUpListing(
+  api: ExchangeClient,
+  market: string,
+  quoteAsset: string,
+  tradeAmount: Decimal,
+  signal: AbortSignal,
+  pollIntervalMs: number = STATUS_POLL_MS
+): Promise<WarmUpResult> {
+  await api.syncTime();
+  const clockOffsetMs = await measureClockOffset(api);
+
+  const balance = await api.getAccountBalance(quoteAsset);
+  const balanceOk = balance === null ? null : new Decimal(balance).gte(tradeAmount);
+  if (balanceOk === false) {
+    logger.warn(
+      `Warm-up ${market}: ${quoteAsset} balance ${balance} is below the trade amount ${tradeAmount.toString()}`
+    );
+  }
+
+  const info = await api.getSymbolInfo(market);
+  const status = info?.status ?? null;
+  if (status) {
+    logger.info(`Warm-up ${market}: listed with status ${status}, symbol rules cached`);
+  }
+
+  void pollSymbol(api, market, status, signal, pollIntervalMs);
+  return { clockOffsetMs, status, balanceOk };
+}
+
+/**
+ * Poll the symbol until the signal aborts, logging status changes
+ */
+async function pollSymbol(
+  api: ExchangeClient,
+  market: string,
+  status: string | null,
+  signal: AbortSignal,
+  pollIntervalMs: number
+): Promise<void> {
+  while (await sleepUnlessAborted(pollIntervalMs, signal)) {
+    const info = await api.getSymbolInfo(market);
+    if (info && info.status !== status) {
+      logger.info(`Warm-up ${market}: listed with status ${info.status}, symbol rules cached`);
+      status = info.status;
+    }
+  }
+}
+
+/**
+ * Exchange clock minus local clock, halving the round trip of the server time request
+ */
+async function measureClockOffset(api: ExchangeClient): Promise<number | null> {
+  const before = Date.now();
+  const serverTime = await api.getServerTime();
+  const after = Date.now();
+  return serverTime === null ? null : Math.round(serverTime - (before + after) / 2);
+}
+
+/**
+ * Resolves true after ms, or false as soon as the signal aborts
+ */
+function sleepUnlessAborted(ms: number, signal: AbortSignal): Promise<boolean> {
+  if (signal.aborted) return Promise.resolve(false);
+  return new Promise((resolve) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
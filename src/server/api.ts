@@ -1,22 +1,87 @@
-import express from 'express';
+import express, { Response } from 'express';
 import cors from 'cors';
+import { z } from 'zod';
 import { loadJson } from '../utils/persistence.js';
 import { SerializedTradeState, CompletedTrade } from '../types.js';
 import { calculateStats } from './stats.js';
-import { ListingScheduler } from '../scheduler/listing-scheduler.js';
+import { ReconciliationReport } from '../trade/reconciler.js';
+import {
+  ListingScheduler,
+  ScheduledListing,
+  upcomingListings,
+} from '../scheduler/listing-scheduler.js';
+import { TRADE_ACTIONS, TradeAction, TradeCommandRequest } from '../control/trade-commands.js';
+import { ControlClient, sendTradeCommand } from '../control/control-client.js';
+import { NewScheduledListing } from '../control/control-server.js';
+import { loadAuditEntries } from '../trade/audit.js';
+import { parseStopEdits, StopEditRequest } from '../trade/stop-edits.js';
+import { EventRelay } from './event-relay.js';
+import { parseListingOverrides, readListingOverrides } from '../scheduler/listing-overrides.js';
 import { logger } from '../utils/logger.js';
 
 const ACTIVE_TRADES_FILE = 'active_trades.json';
 const COMPLETED_TRADES_FILE = 'completed_trades.json';
+const RECONCILIATION_FILE = 'reconciliation_report.json';
+const COMMAND_TIMEOUT_MS = 15000; // Covers a market sell and its fill reconciliation
 
 const app = express();
 const PORT = parseInt(process.env.API_PORT || '3001', 10);
 
-// Initialize scheduler for API endpoints
+// Live state and commands go through the bot's control server; the data files are the
+// fallback while the bot is not running
+const control = new ControlClient();
+const events = new EventRelay(control);
+
+// Reads and writes scheduled_listings.json while the bot is offline (arms no timers)
 const scheduler = new ListingScheduler();
-scheduler.initialize().catch(error => {
-  logger.error(`Failed to initialize scheduler: ${String(error)}`);
-});
+
+/**
+ * Active trades, live from the bot or as last saved
+ */
+async function loadActiveTrades(): Promise<SerializedTradeState[]> {
+  const state = await control.getState();
+  if (state.success) return state.data.activeTrades;
+  return loadJson<SerializedTradeState[]>(ACTIVE_TRADES_FILE, []);
+}
+
+/**
+ * Scheduled listings, live from the bot or from the listings file
+ */
+async function loadScheduledListings(): Promise<ScheduledListing[]> {
+  const state = await control.getState();
+  if (state.success) return state.data.scheduledListings;
+  await scheduler.loadScheduledListings();
+  return scheduler.getScheduledListings();
+}
+
+/**
+ * Add a scheduled listing through the bot, or to the listings file while it is offline
+ */
+async function addScheduledListing(listing: NewScheduledListing): Promise<void> {
+  const added = await control.addScheduledListing(listing);
+  if (added.success) return;
+  if (added.error.kind === 'no_answer') {
+    throw new Error(`The bot did not confirm the listing: ${added.error.message}`);
+  }
+
+  await scheduler.loadScheduledListings();
+  const { symbol, listingTime, quoteCurrency, notes, overrides } = listing;
+  await scheduler.addScheduledListing(symbol, listingTime, quoteCurrency, notes, overrides);
+}
+
+/**
+ * Remove a scheduled listing through the bot, or from the listings file while it is offline
+ */
+async function removeScheduledListing(symbol: string, listingTime: string): Promise<boolean> {
+  const removed = await control.removeScheduledListing(symbol, listingTime);
+  if (removed.success) return removed.data;
+  if (removed.error.kind === 'no_answer') {
+    throw new Error(`The bot did not confirm the removal: ${removed.error.message}`);
+  }
+
+  await scheduler.loadScheduledListings();
+  return scheduler.removeScheduledListing(symbol, listingTime);
+}
 
 // Middleware
 app.use(cors({
@@ -27,15 +92,19 @@ app.use(express.json());
 
 /**
  * GET /api/trades/active
- * Returns all active trades
+ * Returns all active trades with their lifecycle status (filter with ?status=sell_failed)
  */
-app.get('/api/trades/active', async (_req, res) => {
+app.get('/api/trades/active', async (req, res) => {
   try {
-    const activeTrades = await loadJson<SerializedTradeState[]>(ACTIVE_TRADES_FILE, []);
+    const stored = await loadActiveTrades();
+    // Trades saved before lifecycle tracking are open
+    const activeTrades = stored.map((trade) => ({ ...trade, status: trade.status ?? 'open' }));
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    const trades = status ? activeTrades.filter((trade) => trade.status === status) : activeTrades;
     res.json({
       success: true,
-      data: activeTrades,
-      count: activeTrades.length,
+      data: trades,
+      count: trades.length,
     });
   } catch (error) {
     logger.error(`Error fetching active trades: ${String(error)}`);
@@ -46,6 +115,120 @@ app.get('/api/trades/active', async (_req, res) => {
   }
 });
 
+/**
+ * Forward a command to the bot process and answer with its result
+ * Answers 202 when the bot has not answered in time (e.g. it is not running)
+ */
+async function forwardTradeCommand(res: Response, request: TradeCommandRequest): Promise<Response> {
+  const { market, action } = request;
+  const activeTrades = await loadActiveTrades();
+  if (!activeTrades.some((trade) => trade.market === market)) {
+    return res.status(404).json({
+      success: false,
+      error: `No active trade for ${market}`,
+    });
+  }
+
+  const result = await sendTradeCommand(control, request, COMMAND_TIMEOUT_MS);
+  if (!result) {
+    return res.status(202).json({
+      success: true,
+      message: `${action} command for ${market} sent, but the bot has not answered yet. Is it running?`,
+      data: request,
+    });
+  }
+
+  return res.status(result.success ? 200 : 409).json({
+    success: result.success,
+    ...(result.success ? { message: result.message } : { error: result.message }),
+    data: result,
+  });
+}
+
+/**
+ * POST /api/trades/:market/sell | pause | resume
+ * Sell a trade at market now, or pause / resume its automatic exits
+ */
+app.post('/api/trades/:market/:action', async (req, res) => {
+  try {
+    const { market } = req.params;
+    const action = req.params.action as TradeAction;
+    if (!TRADE_ACTIONS.includes(action)) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown action: ${action}. Use one of: ${TRADE_ACTIONS.join(', ')}`,
+      });
+    }
+
+    return await forwardTradeCommand(res, { market, action, source: 'api' });
+  } catch (error) {
+    logger.error(`Error sending trade command: ${String(error)}`);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to send trade command',
+    });
+  }
+});
+
+/**
+ * PATCH /api/trades/:market/stops
+ * Change stopLossPrice, trailingPct and/or the remaining takeProfitLevels ("gain:sell,...")
+ * of an active trade; the bot validates the change against the current price
+ */
+app.patch('/api/trades/:market/stops', async (req, res) => {
+  try {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const stopEdits: StopEditRequest = {};
+    for (const field of ['stopLossPrice', 'trailingPct', 'takeProfitLevels'] as const) {
+      const value = body[field];
+      if (typeof value === 'string' || typeof value === 'number') stopEdits[field] = String(value);
+    }
+
+    const parsed = parseStopEdits(stopEdits);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: parsed.error,
+      });
+    }
+
+    return await forwardTradeCommand(res, {
+      market: req.params.market,
+      action: 'edit',
+      source: 'api',
+      stopEdits,
+    });
+  } catch (error) {
+    logger.error(`Error editing trade stops: ${String(error)}`);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to edit trade stops',
+    });
+  }
+});
+
+/**
+ * GET /api/trades/audit
+ * Returns manual changes to live trades, newest first (filter with ?market=)
+ */
+app.get('/api/trades/audit', async (req, res) => {
+  try {
+    const market = typeof req.query.market === 'string' ? req.query.market : undefined;
+    const entries = await loadAuditEntries(market);
+    res.json({
+      success: true,
+      data: entries,
+      count: entries.length,
+    });
+  } catch (error) {
+    logger.error(`Error fetching trade audit: ${String(error)}`);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch trade audit',
+    });
+  }
+});
+
 /**
  * GET /api/trades/completed
  * Returns all completed trades
@@ -80,7 +263,7 @@ app.get('/api/trades/completed', async (_req, res) => {
 app.get('/api/stats', async (_req, res) => {
   try {
     const completedTrades = await loadJson<CompletedTrade[]>(COMPLETED_TRADES_FILE, []);
-    const activeTrades = await loadJson<SerializedTradeState[]>(ACTIVE_TRADES_FILE, []);
+    const activeTrades = await loadActiveTrades();
 
     const stats = calculateStats(completedTrades);
 
@@ -100,13 +283,33 @@ app.get('/api/stats', async (_req, res) => {
   }
 });
 
+/**
+ * GET /api/reconciliation
+ * Returns the startup reconciliation report of the bot (null until the bot has started once)
+ */
+app.get('/api/reconciliation', async (_req, res) => {
+  try {
+    const report = await loadJson<ReconciliationReport | null>(RECONCILIATION_FILE, null);
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    logger.error(`Error fetching reconciliation report: ${String(error)}`);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch reconciliation report',
+    });
+  }
+});
+
 /**
  * GET /api/schedule/listings
  * Returns all scheduled listings
  */
 app.get('/api/schedule/listings', async (_req, res) => {
   try {
-    const listings = scheduler.getScheduledListings();
+    const listings = await loadScheduledListings();
     return res.json({
       success: true,
       data: listings,
@@ -127,7 +330,7 @@ app.get('/api/schedule/listings', async (_req, res) => {
  */
 app.get('/api/schedule/upcoming', async (_req, res) => {
   try {
-    const upcoming = scheduler.getUpcomingListings();
+    const upcoming = upcomingListings(await loadScheduledListings());
     return res.json({
       success: true,
       data: upcoming,
@@ -142,21 +345,38 @@ app.get('/api/schedule/upcoming', async (_req, res) => {
   }
 });
 
+const requiredField = z
+  .string({ required_error: 'Symbol and listingTime are required' })
+  .min(1, 'Symbol and listingTime are required');
+
+/**
+ * Body of POST /api/schedule/listings; override values are kept as strings and validated
+ * by parseListingOverrides
+ */
+const newListingSchema = z.object({
+  symbol: requiredField,
+  listingTime: requiredField,
+  quoteCurrency: z.string().min(1).default('USDT'),
+  notes: z.string().optional(),
+  overrides: z.unknown().transform(readListingOverrides),
+});
+
 /**
  * POST /api/schedule/listings
- * Add a new scheduled listing
+ * Add a new scheduled listing, optionally with its own trade parameters in `overrides`
+ * (tradeAmount, stopLossPct, trailingPct, trailingMode, takeProfitLevels as gain:sell pairs,
+ * maxHoldMinutes, maxEntryPrice, referencePrice, limitWindowSeconds)
  */
 app.post('/api/schedule/listings', async (req, res) => {
   try {
-    const { symbol, listingTime, quoteCurrency = 'USDT', notes } = req.body;
-
-    // Validation
-    if (!symbol || !listingTime) {
+    const body = newListingSchema.safeParse(req.body ?? {});
+    if (!body.success) {
       return res.status(400).json({
         success: false,
-        error: 'Symbol and listingTime are required',
+        error: body.error.errors[0]?.message ?? 'Invalid scheduled listing',
       });
     }
+    const { symbol, listingTime, quoteCurrency, notes, overrides } = body.data;
 
     // Validate datetime format
     const listingDate = new Date(listingTime);
@@ -175,8 +395,20 @@ app.post('/api/schedule/listings', async (req, res) => {
       });
     }
 
-    await scheduler.addScheduledListing(symbol, listingTime, quoteCurrency, notes);
-    
+    const parsed = parseListingOverrides(overrides);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+    const hasOverrides = Object.keys(overrides).length > 0;
+
+    await addScheduledListing({
+      symbol,
+      listingTime,
+      quoteCurrency,
+      ...(notes && { notes }),
+      ...(hasOverrides && { overrides }),
+    });
+
     return res.json({
       success: true,
       message: `Scheduled listing added: ${symbol}`,
@@ -185,6 +417,7 @@ app.post('/api/schedule/listings', async (req, res) => {
         listingTime,
         quoteCurrency,
         notes,
+        ...(hasOverrides && { overrides }),
       },
     });
   } catch (error) {
@@ -211,8 +444,8 @@ app.delete('/api/schedule/listings', async (req, res) => {
       });
     }
 
-    const removed = await scheduler.removeScheduledListing(symbol, listingTime);
-    
+    const removed = await removeScheduledListing(symbol, listingTime);
+
     if (removed) {
       return res.json({
         success: true,
@@ -233,14 +466,27 @@ app.delete('/api/schedule/listings', async (req, res) => {
   }
 });
 
+/**
+ * Server-Sent Events stream of the bot's events, plus 'status' events on connect and whenever
+ * the bot goes on- or offline (clients poll the endpoints above while it is offline)
+ */
+app.get('/api/events', (req, res) => {
+  events.addClient(req, res);
+});
+
 /**
  * Health check endpoint
+ * Also reports whether the bot's control server is reachable
  */
-app.get('/api/health', (_req, res) => {
+app.get('/api/health', async (_req, res) => {
+  const state = await control.getState();
   res.json({
     success: true,
     message: 'API server is running',
     timestamp: new Date().toISOString(),
+    bot: state.success
+      ? { online: true, mode: state.data.mode, startedAt: state.data.startedAt }
+      : { online: false },
   });
 });
 
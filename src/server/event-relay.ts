@@ -0,0 +1,64 @@
+import { Request, Response } from 'express';
+import { BotEventMessage } from '../control/bot-events.js';
+import { ControlClient } from '../control/control-client.js';
+import { openEventStream } from '../utils/sse.js';
+
+/**
+ * Sent to dashboard clients on connect and whenever the bot goes on- or offline
+ * While the bot is offline no events arrive, so clients poll the REST endpoints instead
+ */
+export interface RelayStatusEvent {
+  type: 'status';
+  botOnline: boolean;
+  time: string; // ISO string
+}
+
+export type RelayEvent = BotEventMessage | RelayStatusEvent;
+
+/**
+ * Relays the bot's event stream to dashboard clients (Server-Sent Events)
+ * A single upstream connection to the bot is held while at least one client listens
+ */
+export class EventRelay {
+  private clients = new Set<(event: RelayEvent) => void>();
+  private botOnline = false;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private readonly control: ControlClient) {}
+
+  addClient(req: Request, res: Response): void {
+    const send = openEventStream(req, res);
+    send(this.status());
+    this.clients.add(send);
+
+    this.unsubscribe ??= this.control.subscribeEvents(
+      (event) => this.broadcast(event),
+      (connected) => {
+        this.botOnline = connected;
+        this.broadcast(this.status());
+      }
+    );
+
+    req.on('close', () => {
+      this.clients.delete(send);
+      if (this.clients.size === 0) this.close();
+    });
+  }
+
+  /**
+   * Drop the upstream connection (reopened by the next client)
+   */
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.botOnline = false;
+  }
+
+  private status(): RelayStatusEvent {
+    return { type: 'status', botOnline: this.botOnline, time: new Date().toISOString() };
+  }
+
+  private broadcast(event: RelayEvent): void {
+    for (const send of this.clients) send(event);
+  }
+}
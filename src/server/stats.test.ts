@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateStats } from './stats.js';
+import type { CompletedTrade, TriggerReason } from '../types.js';
+
+function record(
+  tradeId: string | undefined,
+  market: string,
+  investedQuote: string,
+  profitLossQuote: string,
+  triggerReason: TriggerReason,
+  partial = false
+): CompletedTrade {
+  return {
+    ...(tradeId && { tradeId }),
+    market,
+    investedQuote,
+    profitLossQuote,
+    profitLossPct: '0',
+    triggerReason,
+    durationHours: partial ? '0.5' : '2.0',
+    ...(partial && { partial: true }),
+  } as CompletedTrade;
+}
+
+describe('calculateStats', () => {
+  it('should count a trade with take-profit exits once, with their P&L folded in', () => {
+    const stats = calculateStats([
+      // 50 USDT sold at +20%, the other 50 stopped out at -4%: +8 on 100 invested
+      record('WINUSDT-1', 'WINUSDT', '50', '10', 'take_profit', true),
+      record('WINUSDT-1', 'WINUSDT', '50', '-2', 'trailing_stop'),
+      record('LOSSUSDT-1', 'LOSSUSDT', '100', '-5', 'stop_loss'),
+    ]);
+
+    expect(stats.totalTrades).toBe(2);
+    expect(stats.profitableTrades).toBe(1);
+    expect(stats.winRate).toBe(50);
+    expect(stats.totalProfitLossUsdt).toBe('3.0000');
+    expect(stats.totalProfitLossPct).toBe('3.00');
+    expect(stats.bestTrade).toEqual({ symbol: 'WINUSDT', profitPct: '8.00' });
+    expect(stats.worstTrade).toEqual({ symbol: 'LOSSUSDT', lossPct: '-5.00' });
+    expect(stats.avgDurationHours).toBe('2.0');
+    expect(stats.exitReasons).toEqual({
+      take_profit: { trades: 1, profitLossUsdt: '10.0000' },
+      trailing_stop: { trades: 1, profitLossUsdt: '-2.0000' },
+      stop_loss: { trades: 1, profitLossUsdt: '-5.0000' },
+    });
+  });
+
+  it('should treat records without a tradeId as separate trades', () => {
+    const stats = calculateStats([
+      record(undefined, 'OLDUSDT', '10', '1', 'trailing_stop'),
+      record(undefined, 'OLDUSDT', '10', '-1', 'stop_loss'),
+    ]);
+
+    expect(stats.totalTrades).toBe(2);
+    expect(stats.profitableTrades).toBe(1);
+  });
+});
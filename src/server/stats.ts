@@ -1,12 +1,13 @@
 import Decimal from 'decimal.js';
-import { CompletedTrade } from '../types.js';
+import { CompletedTrade, TriggerReason } from '../types.js';
 
 export interface TradingStats {
   totalTrades: number;
   profitableTrades: number;
   losingTrades: number;
   winRate: number; // Percentage
-  totalProfitLossUsdt: string;
+  totalProfitLossUsdt: string; // Net of fees
+  totalFeesUsdt: string; // Commissions paid, valued in quote currency
   totalProfitLossPct: string;
   avgProfitLossPct: string;
   avgDurationHours: string;
@@ -18,10 +19,50 @@ export interface TradingStats {
     symbol: string;
     lossPct: string;
   } | null;
+  exitReasons: Partial<Record<TriggerReason, ExitReasonStats>>; // Breakdown by triggerReason
+}
+
+export interface ExitReasonStats {
+  trades: number;
+  profitLossUsdt: string;
+}
+
+/**
+ * Completed records of one position: its take-profit exits and the final exit
+ */
+interface PositionSummary {
+  market: string;
+  profitLossQuote: Decimal;
+  investedQuote: Decimal;
+  durationHours: Decimal;
+}
+
+/**
+ * Fold completed records into positions: take-profit exits share their trade's tradeId
+ * Records without a tradeId (older trades) are positions of their own
+ */
+function summarizePositions(completedTrades: CompletedTrade[]): PositionSummary[] {
+  const positions = new Map<string, PositionSummary>();
+  for (const [index, trade] of completedTrades.entries()) {
+    const key = trade.tradeId ?? `record-${index}`;
+    const position = positions.get(key) ?? {
+      market: trade.market,
+      profitLossQuote: new Decimal(0),
+      investedQuote: new Decimal(0),
+      durationHours: new Decimal(0),
+    };
+    position.profitLossQuote = position.profitLossQuote.plus(trade.profitLossQuote);
+    position.investedQuote = position.investedQuote.plus(trade.investedQuote);
+    position.durationHours = Decimal.max(position.durationHours, trade.durationHours);
+    positions.set(key, position);
+  }
+  return [...positions.values()];
 }
 
 /**
  * Calculate statistics from completed trades
+ * Trade counts, win rate, best/worst and percentages are per position (a trade with take-profit
+ * exits counts once, with their P&L folded in); exitReasons counts every exit
  */
 export function calculateStats(completedTrades: CompletedTrade[]): TradingStats {
   if (completedTrades.length === 0) {
@@ -31,15 +72,18 @@ export function calculateStats(completedTrades: CompletedTrade[]): TradingStats
       losingTrades: 0,
       winRate: 0,
       totalProfitLossUsdt: '0.00',
+      totalFeesUsdt: '0.00',
       totalProfitLossPct: '0.00',
       avgProfitLossPct: '0.00',
       avgDurationHours: '0.0',
       bestTrade: null,
       worstTrade: null,
+      exitReasons: {},
     };
   }
 
   let totalProfitLossUsdt = new Decimal(0);
+  let totalFeesUsdt = new Decimal(0);
   let totalProfitLossPct = new Decimal(0);
   let totalDurationHours = new Decimal(0);
   let profitableCount = 0;
@@ -47,15 +91,31 @@ export function calculateStats(completedTrades: CompletedTrade[]): TradingStats
 
   let bestTrade: { symbol: string; profitPct: Decimal } | null = null;
   let worstTrade: { symbol: string; lossPct: Decimal } | null = null;
+  const exitReasons = new Map<TriggerReason, { trades: number; profitLossUsdt: Decimal }>();
 
   for (const trade of completedTrades) {
     const profitLossQuote = new Decimal(trade.profitLossQuote);
-    const profitLossPct = new Decimal(trade.profitLossPct);
-    const duration = new Decimal(trade.durationHours);
 
     totalProfitLossUsdt = totalProfitLossUsdt.plus(profitLossQuote);
+    totalFeesUsdt = totalFeesUsdt.plus(trade.fees?.total ?? 0); // Older trades have no fee data
+
+    const reason = exitReasons.get(trade.triggerReason) ?? {
+      trades: 0,
+      profitLossUsdt: new Decimal(0),
+    };
+    reason.trades++;
+    reason.profitLossUsdt = reason.profitLossUsdt.plus(profitLossQuote);
+    exitReasons.set(trade.triggerReason, reason);
+  }
+
+  const positions = summarizePositions(completedTrades);
+  for (const position of positions) {
+    const profitLossPct = position.investedQuote.gt(0)
+      ? position.profitLossQuote.div(position.investedQuote).mul(100)
+      : new Decimal(0);
+
     totalProfitLossPct = totalProfitLossPct.plus(profitLossPct);
-    totalDurationHours = totalDurationHours.plus(duration);
+    totalDurationHours = totalDurationHours.plus(position.durationHours);
 
     if (profitLossPct.gt(0)) {
       profitableCount++;
@@ -65,16 +125,16 @@ export function calculateStats(completedTrades: CompletedTrade[]): TradingStats
 
     // Track best trade
     if (!bestTrade || profitLossPct.gt(bestTrade.profitPct)) {
-      bestTrade = { symbol: trade.market, profitPct: profitLossPct };
+      bestTrade = { symbol: position.market, profitPct: profitLossPct };
     }
 
     // Track worst trade
     if (!worstTrade || profitLossPct.lt(worstTrade.lossPct)) {
-      worstTrade = { symbol: trade.market, lossPct: profitLossPct };
+      worstTrade = { symbol: position.market, lossPct: profitLossPct };
     }
   }
 
-  const totalTrades = completedTrades.length;
+  const totalTrades = positions.length;
   const winRate = totalTrades > 0 ? (profitableCount / totalTrades) * 100 : 0;
   const avgProfitLossPct = totalProfitLossPct.div(totalTrades);
   const avgDurationHours = totalDurationHours.div(totalTrades);
@@ -85,6 +145,7 @@ export function calculateStats(completedTrades: CompletedTrade[]): TradingStats
     losingTrades: losingCount,
     winRate: parseFloat(winRate.toFixed(2)),
     totalProfitLossUsdt: totalProfitLossUsdt.toFixed(4),
+    totalFeesUsdt: totalFeesUsdt.toFixed(4),
     totalProfitLossPct: totalProfitLossPct.toFixed(2),
     avgProfitLossPct: avgProfitLossPct.toFixed(2),
     avgDurationHours: avgDurationHours.toFixed(1),
@@ -100,5 +161,11 @@ export function calculateStats(completedTrades: CompletedTrade[]): TradingStats
           lossPct: worstTrade.lossPct.toFixed(2),
         }
       : null,
+    exitReasons: Object.fromEntries(
+      [...exitReasons].map(([reason, { trades, profitLossUsdt }]) => [
+        reason,
+        { trades, profitLossUsdt: profitLossUsdt.toFixed(4) },
+      ])
+    ),
   };
 }
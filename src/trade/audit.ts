@@ -0,0 +1,32 @@
+import { loadJson, saveJson } from '../utils/persistence.js';
+import { StopChange } from './stop-edits.js';
+
+const AUDIT_FILE = 'trade_audit.json';
+const MAX_AUDIT_ENTRIES = 1000;
+
+/**
+ * One manual change to a live trade
+ */
+export interface TradeAuditEntry extends StopChange {
+  time: string; // ISO string
+  market: string;
+  tradeId: string;
+  source: string; // Where the change came from (api, cli)
+}
+
+/**
+ * Append audit entries, keeping the most recent MAX_AUDIT_ENTRIES
+ */
+export async function appendAuditEntries(entries: TradeAuditEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const audit = await loadJson<TradeAuditEntry[]>(AUDIT_FILE, []);
+  await saveJson(AUDIT_FILE, [...audit, ...entries].slice(-MAX_AUDIT_ENTRIES));
+}
+
+/**
+ * Audit entries, newest first, optionally for one market only
+ */
+export async function loadAuditEntries(market?: string): Promise<TradeAuditEntry[]> {
+  const audit = await loadJson<TradeAuditEntry[]>(AUDIT_FILE, []);
+  return audit.filter((entry) => !market || entry.market === market).reverse();
+}
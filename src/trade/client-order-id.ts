@@ -0,0 +1,36 @@
+import { OrderSide } from '../types.js';
+
+const CLIENT_ORDER_PREFIX = 'lb';
+const CLIENT_ORDER_PATTERN = new RegExp(`^${CLIENT_ORDER_PREFIX}[bs]-`);
+const MAX_SYMBOL_LENGTH = 16; // Keeps IDs within the exchange's 32 character limit
+
+/**
+ * Deterministic client order ID for one trade intent
+ *
+ * The same side, symbol and intent time always give the same ID. Callers that keep the intent
+ * time across attempts (order retries, scheduler retries of a listing buy, sells derived from
+ * the trade start) look the ID up before sending again after a send without a definite answer,
+ * so an order that already reached the exchange is found instead of placed twice. `leg` tells
+ * apart several orders of one intent.
+ */
+export function clientOrderIdFor(
+  side: OrderSide,
+  symbol: string,
+  intentTime: Date,
+  leg: number = 0
+): string {
+  const parts = [
+    `${CLIENT_ORDER_PREFIX}${side === 'BUY' ? 'b' : 's'}`,
+    symbol.slice(0, MAX_SYMBOL_LENGTH),
+    intentTime.getTime().toString(36),
+  ];
+  if (leg > 0) parts.push(String(leg));
+  return parts.join('-');
+}
+
+/**
+ * Whether a client order ID was made by clientOrderIdFor (an order the bot placed)
+ */
+export function isBotClientOrderId(clientOrderId: string): boolean {
+  return CLIENT_ORDER_PATTERN.test(clientOrderId);
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { commissionInQuote, summarizeFills } from './fills.js';
+import type { TradeFill } from '../types.js';
+
+function fill(fields: Partial<TradeFill>): TradeFill {
+  return {
+    orderId: '1',
+    price: '2',
+    qty: '5',
+    quoteQty: '10',
+    commission: '0',
+    commissionAsset: 'USDT',
+    time: 0,
+    ...fields,
+  };
+}
+
+describe('commissionInQuote', () => {
+  it('should value commissions by asset', () => {
+    expect(commissionInQuote(fill({ commission: '0.01' }), 'NEW', 'USDT').toString()).toBe('0.01');
+    expect(
+      commissionInQuote(
+        fill({ commission: '0.005', commissionAsset: 'NEW' }),
+        'NEW',
+        'USDT'
+      ).toString()
+    ).toBe('0.01');
+    expect(
+      commissionInQuote(fill({ commission: '3', commissionAsset: 'MX' }), 'NEW', 'USDT').isZero()
+    ).toBe(true);
+  });
+});
+
+describe('summarizeFills', () => {
+  it('should sum quantities, quote amounts and fees', () => {
+    const summary = summarizeFills(
+      [
+        fill({ price: '2', qty: '5', quoteQty: '10', commission: '0.01' }),
+        fill({ price: '4', qty: '5', quoteQty: '20', commission: '0.02' }),
+      ],
+      'NEW',
+      'USDT'
+    );
+
+    expect(summary.quantity.toString()).toBe('10');
+    expect(summary.quoteQty.toString()).toBe('30');
+    expect(summary.avgPrice.toString()).toBe('3');
+    expect(summary.feeQuote.toString()).toBe('0.03');
+  });
+});
@@ -0,0 +1,60 @@
+import Decimal from 'decimal.js';
+import { AccountTrade, TradeFill } from '../types.js';
+
+/**
+ * Totals over the fills of one order
+ */
+export interface FillSummary {
+  quantity: Decimal; // Executed base quantity (before base-asset commission)
+  quoteQty: Decimal; // Quote amount paid or received (before quote-asset commission)
+  avgPrice: Decimal;
+  feeQuote: Decimal; // All commissions valued in quote currency
+}
+
+/**
+ * Keep the fields of an account trade that matter for fee accounting
+ */
+export function toTradeFill(trade: AccountTrade): TradeFill {
+  return {
+    orderId: trade.orderId,
+    price: trade.price,
+    qty: trade.qty,
+    quoteQty: trade.quoteQty,
+    commission: trade.commission,
+    commissionAsset: trade.commissionAsset,
+    time: trade.time,
+  };
+}
+
+/**
+ * Value a fill's commission in quote currency
+ * Base-asset commissions are valued at the fill price; commissions in any other asset
+ * (e.g. MX fee discounts) cannot be valued without another price and count as zero
+ */
+export function commissionInQuote(fill: TradeFill, baseAsset: string, quoteAsset: string): Decimal {
+  const commission = new Decimal(fill.commission);
+  if (fill.commissionAsset === quoteAsset) return commission;
+  if (fill.commissionAsset === baseAsset) return commission.mul(fill.price);
+  return new Decimal(0);
+}
+
+/**
+ * Sum the fills of one order (fills must not be empty)
+ */
+export function summarizeFills(
+  fills: TradeFill[],
+  baseAsset: string,
+  quoteAsset: string
+): FillSummary {
+  let quantity = new Decimal(0);
+  let quoteQty = new Decimal(0);
+  let feeQuote = new Decimal(0);
+
+  for (const fill of fills) {
+    quantity = quantity.plus(fill.qty);
+    quoteQty = quoteQty.plus(fill.quoteQty);
+    feeQuote = feeQuote.plus(commissionInQuote(fill, baseAsset, quoteAsset));
+  }
+
+  return { quantity, quoteQty, avgPrice: quoteQty.div(quantity), feeQuote };
+}
@@ -0,0 +1,50 @@
+import Decimal from 'decimal.js';
+import { describe, it, expect } from '@jest/globals';
+import { canTransition, transitionTrade } from './lifecycle.js';
+import { createTradeState } from './strategy.js';
+import type { MarketSymbol } from '../types.js';
+
+describe('trade lifecycle', () => {
+  const trade = () =>
+    createTradeState('AAAUSDT' as MarketSymbol, new Decimal(1), new Decimal(10), new Decimal(10), {
+      stopLossPct: new Decimal(20),
+      trailingPct: new Decimal(10),
+    });
+
+  it('should allow selling, failing and retrying a sell', () => {
+    expect(canTransition('open', 'pending_sell')).toBe(true);
+    expect(canTransition('pending_sell', 'sell_failed')).toBe(true);
+    expect(canTransition('sell_failed', 'pending_sell')).toBe(true);
+    expect(canTransition('pending_sell', 'closed')).toBe(true);
+    expect(canTransition('pending_sell', 'open')).toBe(true); // Partial take-profit exit
+  });
+
+  it('should reject transitions that skip a step or leave closed', () => {
+    expect(canTransition('open', 'closed')).toBe(false);
+    expect(canTransition('pending_buy', 'pending_sell')).toBe(false);
+    expect(canTransition('orphaned', 'pending_sell')).toBe(false);
+    expect(canTransition('closed', 'open')).toBe(false);
+  });
+
+  it('should record the error of a failed sell and clear it on retry', () => {
+    const state = trade();
+    const failedAt = new Date('2026-01-02T10:00:00Z');
+
+    expect(transitionTrade(state, 'pending_sell')).toBe(true);
+    expect(transitionTrade(state, 'sell_failed', 'Oversold', failedAt)).toBe(true);
+    expect(state).toMatchObject({ status: 'sell_failed', lastError: 'Oversold' });
+    expect(state.statusChangedAt).toEqual(failedAt);
+
+    expect(transitionTrade(state, 'pending_sell')).toBe(true);
+    expect(state.lastError).toBeUndefined();
+  });
+
+  it('should leave the trade untouched on a rejected transition', () => {
+    const state = trade();
+    const changedAt = state.statusChangedAt;
+
+    expect(transitionTrade(state, 'closed')).toBe(false);
+    expect(state.status).toBe('open');
+    expect(state.statusChangedAt).toBe(changedAt);
+  });
+});
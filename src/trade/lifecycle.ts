@@ -0,0 +1,40 @@
+import { TradeState, TradeStatus } from '../types.js';
+
+/**
+ * Statuses each status may move to ('closed' is terminal)
+ */
+const TRANSITIONS: Record<TradeStatus, readonly TradeStatus[]> = {
+  pending_buy: ['open', 'orphaned'],
+  open: ['pending_sell', 'orphaned'],
+  pending_sell: ['open', 'closed', 'sell_failed'], // Back to open after a partial exit
+  sell_failed: ['pending_sell', 'closed', 'orphaned'],
+  orphaned: ['closed'],
+  closed: [],
+};
+
+export function canTransition(from: TradeStatus, to: TradeStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Move a trade to another status
+ * Returns false and leaves the trade untouched when the transition is not allowed. The error
+ * is kept for sell_failed and orphaned and cleared otherwise
+ */
+export function transitionTrade(
+  trade: TradeState,
+  to: TradeStatus,
+  error?: string,
+  now: Date = new Date()
+): boolean {
+  if (!canTransition(trade.status, to)) return false;
+
+  trade.status = to;
+  trade.statusChangedAt = now;
+  if (error && (to === 'sell_failed' || to === 'orphaned')) {
+    trade.lastError = error;
+  } else {
+    delete trade.lastError;
+  }
+  return true;
+}
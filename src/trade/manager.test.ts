@@ -1,11 +1,15 @@
 import Decimal from 'decimal.js';
 import { describe, it, expect, jest, beforeEach } from '@jest/globals';
 import { TradeManager } from './manager.js';
-import { MexcAPI } from '../api/mexc.js';
-import type { TradingConfig, MarketSymbol } from '../types.js';
-
-// Mock the API
-jest.mock('../api/mexc.js');
+import { createTradeState, serializeTrade } from './strategy.js';
+import type { ExchangeClient } from '../api/exchange-client.js';
+import type { PriceStream, TickListener } from '../api/market-stream.js';
+import type {
+  TradingConfig,
+  MarketSymbol,
+  SerializedTradeState,
+  SymbolRules,
+} from '../types.js';
 
 // Mock persistence utilities
 jest.mock('../utils/persistence.js', () => ({
@@ -23,8 +27,19 @@ jest.mock('../utils/logger.js', () => ({
   },
 }));
 
+/**
+ * Trades written by the most recent save of active_trades.json
+ */
+async function lastSavedTrades(): Promise<SerializedTradeState[]> {
+  const { saveJson } = await import('../utils/persistence.js');
+  const saves = (saveJson as jest.Mock).mock.calls.filter(
+    (call) => call[0] === 'active_trades.json'
+  );
+  return (saves[saves.length - 1]?.[1] ?? []) as SerializedTradeState[];
+}
+
 describe('TradeManager - Critical Path Tests', () => {
-  let mockApi: jest.Mocked<MexcAPI>;
+  let mockApi: jest.Mocked<ExchangeClient>;
   let config: TradingConfig;
   let tradeManager: TradeManager;
 
@@ -36,9 +51,20 @@ describe('TradeManager - Critical Path Tests', () => {
     mockApi = {
       placeOrder: jest.fn(),
       getOrder: jest.fn(),
+      getOrderByClientId: jest.fn<ExchangeClient['getOrderByClientId']>().mockResolvedValue({
+        success: false,
+        error: { kind: 'order_not_found', message: 'Order does not exist', code: -2013 },
+      }),
+      cancelOrder: jest.fn<ExchangeClient['cancelOrder']>().mockResolvedValue(false),
       getPrice: jest.fn(),
-      getSymbolPrecision: jest.fn(),
-    } as unknown as jest.Mocked<MexcAPI>;
+      getSymbolInfo: jest.fn(),
+      getSymbolRules: jest.fn(),
+      getExchangeInfo: jest.fn(),
+      getKlines: jest.fn(),
+      getMyTrades: jest.fn(),
+      getAccount: jest.fn(),
+      syncTime: jest.fn(),
+    } as unknown as jest.Mocked<ExchangeClient>;
 
     // Create test config
     config = {
@@ -49,6 +75,13 @@ describe('TradeManager - Critical Path Tests', () => {
       maxRetries: 3,
       retryDelay: 1,
       quoteCurrency: 'USDT',
+      takeProfitLevels: [],
+      breakEvenTriggerPct: null,
+      trailingMode: 'fixed',
+      atrPeriod: 14,
+      atrMultiplier: new Decimal(3),
+      maxHoldMinutes: null,
+      trailingSchedule: [],
     };
 
     tradeManager = new TradeManager(mockApi, config);
@@ -61,17 +94,20 @@ describe('TradeManager - Critical Path Tests', () => {
 
       // Mock successful buy order
       mockApi.placeOrder.mockResolvedValueOnce({
-        symbol: 'TESTUSDT',
-        orderId: '123',
-        executedQty: '10',
-        cummulativeQuoteQty: '1000',
-        status: 'FILLED',
-        price: '100',
-        origQty: '10',
-        orderListId: 0,
-        type: 'MARKET',
-        side: 'BUY',
-        transactTime: Date.now(),
+        success: true,
+        data: {
+          symbol: 'TESTUSDT',
+          orderId: '123',
+          executedQty: '10',
+          cummulativeQuoteQty: '1000',
+          status: 'FILLED',
+          price: '100',
+          origQty: '10',
+          orderListId: 0,
+          type: 'MARKET',
+          side: 'BUY',
+          transactTime: Date.now(),
+        },
       });
 
       const result = await tradeManager.placeMarketBuy(
@@ -79,9 +115,9 @@ describe('TradeManager - Critical Path Tests', () => {
         new Decimal(10)
       );
 
-      expect(result).not.toBeNull();
-      if (result) {
-        expect(result.avgPrice.toString()).toBe('100');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.avgPrice.toString()).toBe('100');
 
         // The stop-loss would be set in startMonitoring
         // We verify the calculation directly
@@ -193,11 +229,131 @@ describe('TradeManager - Critical Path Tests', () => {
   });
 
   describe('Order Retry Logic', () => {
-    it('should retry buy order on null response', async () => {
+    it('should retry buy order on transient errors', async () => {
       // First attempt fails, second succeeds
       mockApi.placeOrder
-        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ success: false, error: { kind: 'network', message: 'timeout' } })
         .mockResolvedValueOnce({
+          success: true,
+          data: {
+            symbol: 'TESTUSDT',
+            orderId: '123',
+            executedQty: '10',
+            cummulativeQuoteQty: '100',
+            status: 'FILLED',
+            price: '10',
+            origQty: '10',
+            orderListId: 0,
+            type: 'MARKET',
+            side: 'BUY',
+            transactTime: Date.now(),
+          },
+        });
+
+      const result = await tradeManager.placeMarketBuy(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(10)
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockApi.placeOrder).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after max retries', async () => {
+      // All attempts fail
+      mockApi.placeOrder.mockResolvedValue({
+        success: false,
+        error: { kind: 'server', message: 'Internal error', status: 500 },
+      });
+
+      const result = await tradeManager.placeMarketBuy(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(10),
+        3 // maxAttempts
+      );
+
+      expect(result.success).toBe(false);
+      expect(mockApi.placeOrder).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry errors that would fail again', async () => {
+      mockApi.placeOrder.mockResolvedValue({
+        success: false,
+        error: { kind: 'insufficient_balance', message: 'Insufficient balance', code: 30004 },
+      });
+
+      const result = await tradeManager.placeMarketBuy(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(10),
+        3
+      );
+
+      expect(result).toMatchObject({ success: false, error: { kind: 'insufficient_balance' } });
+      expect(mockApi.placeOrder).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resync time before retrying clock drift rejections', async () => {
+      mockApi.placeOrder.mockResolvedValue({
+        success: false,
+        error: { kind: 'timestamp_out_of_window', message: 'Timestamp outside recvWindow' },
+      });
+
+      await tradeManager.placeMarketBuy('TESTUSDT' as MarketSymbol, new Decimal(10), 2);
+
+      expect(mockApi.syncTime).toHaveBeenCalledTimes(1);
+      expect(mockApi.placeOrder).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not place an order again when a failed attempt reached the exchange', async () => {
+      const placedOrder = {
+        symbol: 'TESTUSDT',
+        orderId: '123',
+        executedQty: '10',
+        cummulativeQuoteQty: '100',
+        status: 'FILLED',
+        price: '10',
+        origQty: '10',
+        orderListId: 0,
+        type: 'MARKET' as const,
+        side: 'BUY' as const,
+        transactTime: Date.now(),
+      };
+      mockApi.placeOrder.mockResolvedValue({
+        success: false,
+        error: { kind: 'network', message: 'socket hang up' },
+      });
+      mockApi.getOrderByClientId.mockResolvedValue({ success: true, data: placedOrder });
+
+      const result = await tradeManager.placeMarketBuy('TESTUSDT' as MarketSymbol, new Decimal(10));
+
+      expect(result).toMatchObject({ success: true, data: { orderId: '123' } });
+      expect(mockApi.placeOrder).toHaveBeenCalledTimes(1);
+
+      const clientOrderId = mockApi.placeOrder.mock.calls[0]?.[0].newClientOrderId;
+      expect(clientOrderId).toMatch(/^lbb-TESTUSDT-/);
+      expect(mockApi.getOrderByClientId).toHaveBeenCalledWith('TESTUSDT', clientOrderId);
+    });
+
+    it('should look up a buy that timed out on an earlier call with the same intent time', async () => {
+      const intentTime = new Date('2026-01-01T12:00:00Z');
+      const clientOrderId = `lbb-TESTUSDT-${intentTime.getTime().toString(36)}`;
+      mockApi.placeOrder.mockResolvedValueOnce({
+        success: false,
+        error: { kind: 'network', message: 'socket hang up' },
+      });
+
+      const first = await tradeManager.placeMarketBuy(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(10),
+        1,
+        intentTime
+      );
+      expect(first.success).toBe(false);
+      expect(mockApi.getOrderByClientId).not.toHaveBeenCalled();
+
+      mockApi.getOrderByClientId.mockResolvedValue({
+        success: true,
+        data: {
           symbol: 'TESTUSDT',
           orderId: '123',
           executedQty: '10',
@@ -209,33 +365,188 @@ describe('TradeManager - Critical Path Tests', () => {
           type: 'MARKET',
           side: 'BUY',
           transactTime: Date.now(),
+        },
+      });
+
+      const second = await tradeManager.placeMarketBuy(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(10),
+        1,
+        intentTime
+      );
+
+      expect(second).toMatchObject({ success: true, data: { orderId: '123' } });
+      expect(mockApi.getOrderByClientId).toHaveBeenCalledWith('TESTUSDT', clientOrderId);
+      expect(mockApi.placeOrder).toHaveBeenCalledTimes(1);
+    });
+
+    it('should save the pending buy of a retried intent once and keep it until abandoned', async () => {
+      const { saveJson } = await import('../utils/persistence.js');
+      const intentTime = new Date('2026-01-01T12:00:00Z');
+      mockApi.placeOrder.mockResolvedValue({
+        success: false,
+        error: { kind: 'symbol_not_trading', message: 'Symbol is not trading yet' },
+      });
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await tradeManager.placeMarketBuy('TESTUSDT' as MarketSymbol, new Decimal(10), 1, intentTime);
+      }
+
+      const saves = () =>
+        (saveJson as jest.Mock).mock.calls.filter((call) => call[0] === 'active_trades.json');
+      expect(saves()).toHaveLength(1);
+      expect(await lastSavedTrades()).toEqual([
+        expect.objectContaining({ market: 'TESTUSDT', status: 'pending_buy' }),
+      ]);
+
+      tradeManager.abandonPendingBuy('TESTUSDT' as MarketSymbol);
+
+      expect(saves()).toHaveLength(2);
+      expect(await lastSavedTrades()).toEqual([]);
+    });
+
+    it('should send a buy whose lookup did not confirm an existing order', async () => {
+      const intentTime = new Date('2026-01-01T12:00:00Z');
+      mockApi.placeOrder
+        .mockResolvedValueOnce({ success: false, error: { kind: 'network', message: 'timeout' } })
+        .mockResolvedValueOnce({
+          success: true,
+          data: {
+            symbol: 'TESTUSDT',
+            orderId: '123',
+            executedQty: '10',
+            cummulativeQuoteQty: '100',
+            status: 'FILLED',
+            price: '10',
+            origQty: '10',
+            orderListId: 0,
+            type: 'MARKET',
+            side: 'BUY',
+            transactTime: Date.now(),
+          },
         });
+      mockApi.getOrderByClientId.mockResolvedValue({
+        success: false,
+        error: { kind: 'symbol_not_trading', message: 'Symbol is not trading yet' },
+      });
 
       const result = await tradeManager.placeMarketBuy(
         'TESTUSDT' as MarketSymbol,
-        new Decimal(10)
+        new Decimal(10),
+        2,
+        intentTime
       );
 
-      expect(result).not.toBeNull();
+      expect(result.success).toBe(true);
+      expect(mockApi.getOrderByClientId).toHaveBeenCalledTimes(1);
       expect(mockApi.placeOrder).toHaveBeenCalledTimes(2);
     });
 
-    it('should give up after max retries', async () => {
-      // All attempts fail
-      mockApi.placeOrder.mockResolvedValue(null);
+    it('should fail as not filled when the order ends without a fill', async () => {
+      const unfilled = {
+        symbol: 'TESTUSDT',
+        orderId: '123',
+        executedQty: '0',
+        cummulativeQuoteQty: '0',
+        status: 'NEW',
+        price: '0',
+        origQty: '0',
+        orderListId: 0,
+        type: 'MARKET' as const,
+        side: 'BUY' as const,
+        transactTime: Date.now(),
+      };
+      mockApi.placeOrder.mockResolvedValue({ success: true, data: unfilled });
+      mockApi.getOrder.mockResolvedValue({
+        success: true,
+        data: { ...unfilled, status: 'CANCELED' },
+      });
+
+      const result = await tradeManager.placeMarketBuy('TESTUSDT' as MarketSymbol, new Decimal(10));
+
+      expect(result).toMatchObject({ success: false, error: { kind: 'not_filled' } });
+      expect(mockApi.getOrder).toHaveBeenCalledWith('TESTUSDT', '123');
+      expect(tradeManager.getActiveTradesCount()).toBe(0);
+    });
+
+    it('should reuse the client order ID when retrying', async () => {
+      mockApi.placeOrder.mockResolvedValue({
+        success: false,
+        error: { kind: 'server', message: 'Internal error', status: 500 },
+      });
+
+      await tradeManager.placeMarketBuy('TESTUSDT' as MarketSymbol, new Decimal(10), 2);
+
+      const [first, second] = mockApi.placeOrder.mock.calls;
+      expect(first?.[0].newClientOrderId).toBeDefined();
+      expect(second?.[0].newClientOrderId).toBe(first?.[0].newClientOrderId);
+    });
+  });
+
+  describe('Fee Reconciliation', () => {
+    it('should take price, quantity and fee from the order fills', async () => {
+      mockApi.placeOrder.mockResolvedValueOnce({
+        success: true,
+        data: {
+          symbol: 'TESTUSDT',
+          orderId: '123',
+          executedQty: '10',
+          cummulativeQuoteQty: '100',
+          status: 'FILLED',
+          price: '10',
+          origQty: '10',
+          orderListId: 0,
+          type: 'MARKET',
+          side: 'BUY',
+          transactTime: Date.now(),
+        },
+      });
+      const fill = {
+        symbol: 'TESTUSDT',
+        orderId: '123',
+        commissionAsset: 'TEST',
+        time: Date.now(),
+        isBuyer: true,
+        isMaker: false,
+        isBestMatch: true,
+      };
+      mockApi.getMyTrades.mockResolvedValueOnce([
+        { ...fill, id: '1', price: '9', qty: '4', quoteQty: '36', commission: '0.004' },
+        { ...fill, id: '2', price: '10.5', qty: '6', quoteQty: '63', commission: '0.006' },
+        { ...fill, id: '3', orderId: '999', price: '1', qty: '1', quoteQty: '1', commission: '1' },
+      ]);
 
       const result = await tradeManager.placeMarketBuy(
         'TESTUSDT' as MarketSymbol,
-        new Decimal(10),
-        3 // maxAttempts
+        new Decimal(100)
       );
 
-      expect(result).toBeNull();
-      expect(mockApi.placeOrder).toHaveBeenCalledTimes(3);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.quantity.toString()).toBe('10');
+        expect(result.data.investedQuote.toString()).toBe('99');
+        expect(result.data.avgPrice.toString()).toBe('9.9');
+        // Base-asset commission valued at each fill price: 0.004 * 9 + 0.006 * 10.5
+        expect(result.data.feeQuote.toString()).toBe('0.099');
+        expect(result.data.fills).toHaveLength(2);
+      }
     });
   });
 
   describe('Quantity Precision', () => {
+    const rules: SymbolRules = {
+      symbol: 'TESTUSDT',
+      baseAsset: 'TEST',
+      quoteAsset: 'USDT',
+      stepSize: new Decimal('0.01'),
+      minQty: new Decimal('0.01'),
+      maxQty: null,
+      tickSize: new Decimal('0.0001'),
+      quoteStep: new Decimal('0.01'),
+      minNotional: new Decimal(5),
+      maxNotional: null,
+    };
+
     it('should round quantity to correct precision for sell orders', () => {
       const quantity = new Decimal('10.123456789');
       const precision = 2;
@@ -253,6 +564,29 @@ describe('TradeManager - Critical Path Tests', () => {
 
       expect(rounded.toString()).toBe('10');
     });
+
+    it('should normalise orders to the symbol rules before placing them', async () => {
+      mockApi.getSymbolRules.mockResolvedValue(rules);
+      mockApi.placeOrder.mockResolvedValue({
+        success: false,
+        error: { kind: 'server', message: 'unavailable' },
+      });
+
+      await tradeManager.placeMarketBuy('TESTUSDT' as MarketSymbol, new Decimal('10.129'), 1);
+
+      expect(mockApi.placeOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ quoteOrderQty: '10.12' })
+      );
+    });
+
+    it('should reject orders below the minimum notional without calling the exchange', async () => {
+      mockApi.getSymbolRules.mockResolvedValue(rules);
+
+      const result = await tradeManager.placeMarketBuy('TESTUSDT' as MarketSymbol, new Decimal(4));
+
+      expect(result).toMatchObject({ success: false, error: { kind: 'invalid_order' } });
+      expect(mockApi.placeOrder).not.toHaveBeenCalled();
+    });
   });
 
   describe('Edge Cases', () => {
@@ -293,4 +627,800 @@ describe('TradeManager - Critical Path Tests', () => {
       expect(profitUsdt.toFixed(4)).toBe('1.0000');
     });
   });
+
+  describe('Streamed Monitoring', () => {
+    it('should react to streamed ticks without waiting for the next poll', async () => {
+      const listeners = new Map<string, TickListener>();
+      const stream: PriceStream = {
+        subscribe: (symbol, listener) => {
+          listeners.set(symbol, listener);
+          return () => listeners.delete(symbol);
+        },
+        isConnected: () => true,
+      };
+      const manager = new TradeManager(mockApi, config, stream);
+
+      mockApi.getSymbolRules.mockResolvedValue(null); // Sell aborts after the stop triggers
+
+      await manager.startMonitoring(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(100),
+        new Decimal(1),
+        new Decimal(100)
+      );
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      // Tick arrives well within the 5s check interval
+      listeners.get('TESTUSDT')?.({
+        symbol: 'TESTUSDT',
+        price: new Decimal(75),
+        time: Date.now(),
+        source: 'deal',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(mockApi.getSymbolRules).toHaveBeenCalledTimes(1);
+      expect(mockApi.getPrice).not.toHaveBeenCalled();
+
+      await manager.shutdown();
+    });
+  });
+
+  describe('Take-Profit Ladder', () => {
+    it('should sell part of the position at each level and keep the rest open', async () => {
+      const listeners = new Map<string, TickListener>();
+      const stream: PriceStream = {
+        subscribe: (symbol, listener) => {
+          listeners.set(symbol, listener);
+          return () => listeners.delete(symbol);
+        },
+        isConnected: () => true,
+      };
+      config.takeProfitLevels = [
+        { gainPct: new Decimal(20), sellPct: new Decimal(30) },
+        { gainPct: new Decimal(50), sellPct: new Decimal(30) },
+      ];
+      const manager = new TradeManager(mockApi, config, stream);
+
+      mockApi.getSymbolRules.mockResolvedValue(null);
+      mockApi.placeOrder.mockImplementation(async (request) => ({
+        success: true,
+        data: {
+          symbol: request.symbol,
+          orderId: '1',
+          executedQty: request.quantity ?? '0',
+          cummulativeQuoteQty: new Decimal(request.quantity ?? 0).mul(12).toString(),
+          status: 'FILLED',
+          price: '12',
+          origQty: request.quantity ?? '0',
+          orderListId: -1,
+          type: 'MARKET',
+          side: 'SELL',
+          transactTime: Date.now(),
+        },
+      }));
+      mockApi.getMyTrades.mockResolvedValue([
+        {
+          symbol: 'TESTUSDT',
+          id: '1',
+          orderId: '1',
+          price: '12',
+          qty: '3',
+          quoteQty: '36',
+          commission: '0.036',
+          commissionAsset: 'USDT',
+          time: Date.now(),
+          isBuyer: false,
+          isMaker: false,
+          isBestMatch: true,
+        },
+      ]);
+
+      await manager.startMonitoring(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(10),
+        new Decimal(10),
+        new Decimal(100)
+      );
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      listeners.get('TESTUSDT')?.({
+        symbol: 'TESTUSDT',
+        price: new Decimal(12),
+        time: Date.now(),
+        source: 'deal',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(mockApi.placeOrder).toHaveBeenCalledTimes(1);
+      expect(mockApi.placeOrder.mock.calls[0]?.[0]).toMatchObject({
+        side: 'SELL',
+        quantity: '3',
+        newClientOrderId: expect.stringMatching(/-1$/),
+      });
+
+      const [active] = await lastSavedTrades();
+      expect(active).toMatchObject({
+        status: 'open',
+        quantity: '7',
+        initialQuantity: '10',
+        investedQuote: '70',
+        takeProfitsHit: 1,
+        realizedProfitLossQuote: '5.964',
+      });
+
+      const { saveJson } = await import('../utils/persistence.js');
+      const completedSave = (saveJson as jest.Mock).mock.calls.find(
+        (call) => call[0] === 'completed_trades.json'
+      );
+      expect(completedSave?.[1]).toMatchObject([
+        {
+          tradeId: active?.tradeId,
+          partial: true,
+          takeProfitLevel: 1,
+          triggerReason: 'take_profit',
+          quantity: '3',
+          profitLossQuote: '5.9640',
+        },
+      ]);
+      expect(listeners.has('TESTUSDT')).toBe(true);
+
+      await manager.shutdown();
+    });
+  });
+
+  describe('Break-Even Stop', () => {
+    it('should move the stop-loss to entry plus fees and persist it', async () => {
+      const listeners = new Map<string, TickListener>();
+      const stream: PriceStream = {
+        subscribe: (symbol, listener) => {
+          listeners.set(symbol, listener);
+          return () => listeners.delete(symbol);
+        },
+        isConnected: () => true,
+      };
+      config.breakEvenTriggerPct = new Decimal(10);
+      const manager = new TradeManager(mockApi, config, stream);
+
+      await manager.startMonitoring(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(100),
+        new Decimal(1),
+        new Decimal(100),
+        { feeQuote: new Decimal('0.1'), fills: [], orderId: '1' }
+      );
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect((await lastSavedTrades())[0]?.stopLossPrice).toBe('80');
+
+      listeners.get('TESTUSDT')?.({
+        symbol: 'TESTUSDT',
+        price: new Decimal(111),
+        time: Date.now(),
+        source: 'deal',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      // 0.1% buy fee, and the same again for the sell
+      const [saved] = await lastSavedTrades();
+      expect(saved?.stopLossPrice).toBe('100.2');
+      expect(saved?.breakEvenAt).toBeDefined();
+
+      await manager.shutdown();
+    });
+  });
+
+  describe('Time Exit', () => {
+    it('should sell at market once the maximum holding time has passed', async () => {
+      const listeners = new Map<string, TickListener>();
+      const stream: PriceStream = {
+        subscribe: (symbol, listener) => {
+          listeners.set(symbol, listener);
+          return () => listeners.delete(symbol);
+        },
+        isConnected: () => true,
+      };
+      config.maxHoldMinutes = 60;
+      const manager = new TradeManager(mockApi, config, stream);
+
+      const { loadJson, saveJson } = await import('../utils/persistence.js');
+      const held = createTradeState(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(100),
+        new Decimal(1),
+        new Decimal(100),
+        config,
+        new Date(Date.now() - 2 * 3600 * 1000)
+      );
+      (loadJson as jest.Mock).mockResolvedValueOnce([serializeTrade(held)] as never);
+      mockApi.getAccount.mockResolvedValue(null);
+      mockApi.getSymbolRules.mockResolvedValue({
+        symbol: 'TESTUSDT',
+        baseAsset: 'TEST',
+        quoteAsset: 'USDT',
+        stepSize: new Decimal('0.01'),
+        minQty: new Decimal('0.01'),
+        maxQty: null,
+        tickSize: new Decimal('0.0001'),
+        quoteStep: new Decimal('0.01'),
+        minNotional: new Decimal(1),
+        maxNotional: null,
+      });
+      mockApi.getAccountBalance = jest
+        .fn<ExchangeClient['getAccountBalance']>()
+        .mockResolvedValue('1');
+      mockApi.getMyTrades.mockResolvedValue([
+        {
+          symbol: 'TESTUSDT',
+          id: '2',
+          orderId: '2',
+          price: '101',
+          qty: '1',
+          quoteQty: '101',
+          commission: '0.101',
+          commissionAsset: 'USDT',
+          time: Date.now(),
+          isBuyer: false,
+          isMaker: false,
+          isBestMatch: true,
+        },
+      ]);
+      mockApi.placeOrder.mockResolvedValue({
+        success: true,
+        data: {
+          symbol: 'TESTUSDT',
+          orderId: '2',
+          executedQty: '1',
+          cummulativeQuoteQty: '101',
+          status: 'FILLED',
+          price: '101',
+          origQty: '1',
+          orderListId: -1,
+          type: 'MARKET',
+          side: 'SELL',
+          transactTime: Date.now(),
+        },
+      });
+
+      await manager.restoreMonitoring();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      listeners.get('TESTUSDT')?.({
+        symbol: 'TESTUSDT',
+        price: new Decimal(101),
+        time: Date.now(),
+        source: 'deal',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(mockApi.placeOrder).toHaveBeenCalledWith(expect.objectContaining({ side: 'SELL' }));
+      // The sell ID comes from the trade start, so a sell sent before a restart is looked up first
+      expect(mockApi.getOrderByClientId).toHaveBeenCalledWith(
+        'TESTUSDT',
+        `lbs-TESTUSDT-${held.startTime.getTime().toString(36)}`
+      );
+      const completedSave = (saveJson as jest.Mock).mock.calls.find(
+        (call) => call[0] === 'completed_trades.json'
+      );
+      expect((completedSave?.[1] as unknown[]).at(-1)).toMatchObject({
+        market: 'TESTUSDT',
+        triggerReason: 'time_exit',
+      });
+      expect(await lastSavedTrades()).toEqual([]);
+
+      await manager.shutdown();
+    });
+  });
+
+  describe('Manual Controls', () => {
+    it('should suspend automatic exits while paused', async () => {
+      const listeners = new Map<string, TickListener>();
+      const stream: PriceStream = {
+        subscribe: (symbol, listener) => {
+          listeners.set(symbol, listener);
+          return () => listeners.delete(symbol);
+        },
+        isConnected: () => true,
+      };
+      const manager = new TradeManager(mockApi, config, stream);
+      const symbol = 'TESTUSDT' as MarketSymbol;
+
+      await manager.startMonitoring(symbol, new Decimal(100), new Decimal(1), new Decimal(100));
+      expect(await manager.pauseTrade(symbol)).toEqual({ success: true, data: 'Paused TESTUSDT' });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      // Far below the 80 stop-loss
+      listeners.get('TESTUSDT')?.({
+        symbol: 'TESTUSDT',
+        price: new Decimal(50),
+        time: Date.now(),
+        source: 'deal',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(mockApi.placeOrder).not.toHaveBeenCalled();
+      await manager.saveActiveTrades();
+      expect((await lastSavedTrades())[0]).toMatchObject({
+        status: 'open',
+        currentPrice: '50',
+        pausedAt: expect.any(String),
+      });
+
+      await manager.resumeTrade(symbol);
+      expect((await lastSavedTrades())[0]?.pausedAt).toBeUndefined();
+
+      await manager.shutdown();
+    });
+
+    it('should refuse manual sells of unknown trades', async () => {
+      const result = await tradeManager.sellManually('NOPEUSDT' as MarketSymbol);
+
+      expect(result).toEqual({ success: false, error: 'No active trade for NOPEUSDT' });
+      expect(mockApi.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should save stop edits and record them in the audit log', async () => {
+      const stream: PriceStream = { subscribe: () => () => {}, isConnected: () => true };
+      const manager = new TradeManager(mockApi, config, stream);
+      const symbol = 'TESTUSDT' as MarketSymbol;
+      await manager.startMonitoring(symbol, new Decimal(100), new Decimal(1), new Decimal(100));
+
+      const result = await manager.editStops(symbol, { stopLossPrice: '90' }, 'cli');
+
+      expect(result).toEqual({ success: true, data: 'Updated TESTUSDT: stopLossPrice 80 -> 90' });
+      expect((await lastSavedTrades())[0]?.stopLossPrice).toBe('90');
+
+      const { saveJson } = await import('../utils/persistence.js');
+      const auditSave = (saveJson as jest.Mock).mock.calls.find(
+        (call) => call[0] === 'trade_audit.json'
+      );
+      expect((auditSave?.[1] as unknown[]).at(-1)).toMatchObject({
+        market: 'TESTUSDT',
+        field: 'stopLossPrice',
+        from: '80',
+        to: '90',
+        source: 'cli',
+      });
+
+      await manager.shutdown();
+    });
+
+    it('should reject stop edits above the current price without saving', async () => {
+      const stream: PriceStream = { subscribe: () => () => {}, isConnected: () => true };
+      const manager = new TradeManager(mockApi, config, stream);
+      const symbol = 'TESTUSDT' as MarketSymbol;
+      await manager.startMonitoring(symbol, new Decimal(100), new Decimal(1), new Decimal(100));
+      const { saveJson } = await import('../utils/persistence.js');
+      (saveJson as jest.Mock).mockClear();
+
+      const result = await manager.editStops(symbol, { stopLossPrice: '120' }, 'api');
+
+      expect(result.success).toBe(false);
+      expect(saveJson).not.toHaveBeenCalled();
+
+      await manager.shutdown();
+    });
+  });
+
+  describe('Volatility Trailing', () => {
+    it('should size the trail from the ATR of recent candles in atr mode', async () => {
+      const stream: PriceStream = { subscribe: () => () => {}, isConnected: () => true };
+      config.trailingMode = 'atr';
+      const manager = new TradeManager(mockApi, config, stream);
+
+      // Every candle spans 4 around a close of 100: ATR 4% x 3 = 12% trail
+      mockApi.getKlines.mockResolvedValue(
+        Array.from({ length: 15 }, (_, i) => [
+          i * 60000,
+          '100',
+          '102',
+          '98',
+          '100',
+          '0',
+          i * 60000 + 59999,
+          '0',
+        ])
+      );
+
+      await manager.startMonitoring(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(100),
+        new Decimal(1),
+        new Decimal(100)
+      );
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await manager.shutdown();
+
+      expect(mockApi.getKlines).toHaveBeenCalledWith('TESTUSDT', '1m', 15);
+      expect((await lastSavedTrades())[0]).toMatchObject({
+        trailingMode: 'atr',
+        volatilityTrailPct: '12',
+        trailingStopPrice: '88',
+      });
+    });
+  });
+
+  describe('Trade Lifecycle', () => {
+    it('should keep monitoring a trade whose sell failed', async () => {
+      const listeners = new Map<string, TickListener>();
+      const stream: PriceStream = {
+        subscribe: (symbol, listener) => {
+          listeners.set(symbol, listener);
+          return () => listeners.delete(symbol);
+        },
+        isConnected: () => true,
+      };
+      const manager = new TradeManager(mockApi, config, stream);
+      mockApi.getSymbolRules.mockResolvedValue(null);
+
+      await manager.startMonitoring(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(100),
+        new Decimal(1),
+        new Decimal(100)
+      );
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect((await lastSavedTrades())[0]?.status).toBe('open');
+
+      listeners.get('TESTUSDT')?.({
+        symbol: 'TESTUSDT',
+        price: new Decimal(75),
+        time: Date.now(),
+        source: 'deal',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect((await lastSavedTrades())[0]).toMatchObject({
+        status: 'sell_failed',
+        lastError: 'Symbol rules unavailable',
+      });
+      expect(listeners.has('TESTUSDT')).toBe(true);
+
+      await manager.shutdown();
+    });
+
+    it('should track a buy as pending until it fails or monitoring starts', async () => {
+      mockApi.placeOrder.mockResolvedValue({
+        success: false,
+        error: { kind: 'insufficient_balance', message: 'Insufficient balance' },
+      });
+
+      await tradeManager.placeMarketBuy('TESTUSDT' as MarketSymbol, new Decimal(10));
+
+      const { saveJson } = await import('../utils/persistence.js');
+      const [pendingSave] = (saveJson as jest.Mock).mock.calls;
+      expect(pendingSave?.[1]).toMatchObject([{ market: 'TESTUSDT', status: 'pending_buy' }]);
+      expect(await lastSavedTrades()).toEqual([]);
+    });
+
+    it('should mark buys interrupted by a restart as orphaned', async () => {
+      const { loadJson } = await import('../utils/persistence.js');
+      const pending = serializeTrade({
+        ...createTradeState(
+          'TESTUSDT' as MarketSymbol,
+          new Decimal(0),
+          new Decimal(0),
+          new Decimal(10),
+          config
+        ),
+        status: 'pending_buy',
+        buyClientOrderId: 'lbb-TESTUSDT-1',
+      });
+      (loadJson as jest.Mock).mockResolvedValueOnce([pending] as never);
+      mockApi.getAccount.mockResolvedValue(null);
+
+      await tradeManager.restoreMonitoring();
+
+      expect((await lastSavedTrades())[0]).toMatchObject({
+        market: 'TESTUSDT',
+        status: 'orphaned',
+      });
+      expect(mockApi.getPrice).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Burst Buys', () => {
+    const filledOrder = (orderId: string, side: 'BUY' | 'SELL' = 'BUY') => ({
+      symbol: 'TESTUSDT',
+      orderId,
+      executedQty: '10',
+      cummulativeQuoteQty: '100',
+      status: 'FILLED',
+      price: '10',
+      origQty: '10',
+      orderListId: 0,
+      type: 'MARKET',
+      side,
+      transactTime: 1760000000000,
+    });
+    const notTrading = {
+      success: false as const,
+      error: { kind: 'symbol_not_trading' as const, message: 'Symbol not open yet' },
+    };
+
+    it('should stop sending legs once one has filled', async () => {
+      mockApi.placeOrder
+        .mockResolvedValueOnce(notTrading)
+        .mockResolvedValueOnce({ success: true, data: filledOrder('2') });
+
+      const result = await tradeManager.placeBurstBuy('TESTUSDT' as MarketSymbol, new Decimal(10), {
+        orders: 4,
+        staggerMs: 5,
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        data: { orderId: '2', filledAt: new Date(1760000000000) },
+      });
+      expect(mockApi.placeOrder).toHaveBeenCalledTimes(2);
+      const [first, second] = mockApi.placeOrder.mock.calls;
+      expect(first?.[0].newClientOrderId).toMatch(/^lbb-TESTUSDT-\w+-1$/);
+      expect(second?.[0].newClientOrderId).toMatch(/^lbb-TESTUSDT-\w+-2$/);
+    });
+
+    it('should sell back a leg that filled after the position was opened', async () => {
+      const delayed = (orderId: string) =>
+        new Promise<{ success: true; data: ReturnType<typeof filledOrder> }>((resolve) =>
+          setTimeout(() => resolve({ success: true, data: filledOrder(orderId) }), 20)
+        );
+      mockApi.placeOrder
+        .mockImplementationOnce(() => delayed('1'))
+        .mockImplementationOnce(() => delayed('2'))
+        .mockResolvedValueOnce({ success: true, data: filledOrder('3', 'SELL') });
+
+      const result = await tradeManager.placeBurstBuy('TESTUSDT' as MarketSymbol, new Decimal(10), {
+        orders: 2,
+        staggerMs: 0,
+      });
+
+      expect(result).toMatchObject({ success: true, data: { orderId: '1' } });
+      expect(mockApi.placeOrder).toHaveBeenCalledTimes(3);
+      expect(mockApi.placeOrder.mock.calls[2]?.[0]).toMatchObject({
+        side: 'SELL',
+        quantity: '10',
+        newClientOrderId: expect.stringMatching(/^lbs-TESTUSDT-\w+-1$/),
+      });
+    });
+
+    it('should cancel legs accepted after the first and sell back only what they filled', async () => {
+      const accepted = (orderId: string, status: string, delayMs: number) =>
+        new Promise<{ success: true; data: ReturnType<typeof filledOrder> }>((resolve) =>
+          setTimeout(
+            () =>
+              resolve({
+                success: true,
+                data:
+                  status === 'FILLED'
+                    ? filledOrder(orderId)
+                    : { ...filledOrder(orderId), status, executedQty: '', cummulativeQuoteQty: '' },
+              }),
+            delayMs
+          )
+        );
+      mockApi.placeOrder
+        .mockImplementationOnce(() => accepted('1', 'FILLED', 10))
+        .mockImplementationOnce(() => accepted('2', 'NEW', 20))
+        .mockImplementationOnce(() => accepted('3', 'NEW', 30))
+        .mockResolvedValueOnce({ success: true, data: filledOrder('4', 'SELL') });
+      mockApi.cancelOrder.mockResolvedValue(true);
+      mockApi.getMyTrades.mockResolvedValue(
+        ['1', '3', '4'].map((orderId) => ({
+          symbol: 'TESTUSDT',
+          id: orderId,
+          orderId,
+          price: '10',
+          qty: '10',
+          quoteQty: '100',
+          commission: '0.1',
+          commissionAsset: 'USDT',
+          time: 1760000000000,
+          isBuyer: orderId !== '4',
+          isMaker: false,
+          isBestMatch: true,
+        }))
+      );
+      // Leg 2 was cancelled before filling, leg 3 had filled in full
+      mockApi.getOrder.mockImplementation(async (_symbol, orderId) => ({
+        success: true,
+        data:
+          orderId === '2'
+            ? { ...filledOrder('2'), status: 'CANCELED', executedQty: '0', cummulativeQuoteQty: '0' }
+            : filledOrder(orderId),
+      }));
+
+      const result = await tradeManager.placeBurstBuy('TESTUSDT' as MarketSymbol, new Decimal(10), {
+        orders: 3,
+        staggerMs: 0,
+      });
+
+      expect(result).toMatchObject({ success: true, data: { orderId: '1' } });
+      expect(mockApi.cancelOrder.mock.calls).toEqual([
+        ['TESTUSDT', '2'],
+        ['TESTUSDT', '3'],
+      ]);
+      const sells = mockApi.placeOrder.mock.calls.filter(([request]) => request.side === 'SELL');
+      expect(sells).toHaveLength(1);
+      expect(sells[0]?.[0]).toMatchObject({ quantity: '10' });
+      expect(tradeManager.getActiveTrades()).toHaveLength(1);
+    });
+
+    it('should find legs that reached the exchange despite an error', async () => {
+      mockApi.placeOrder.mockResolvedValue({
+        success: false,
+        error: { kind: 'network', message: 'socket hang up' },
+      });
+      mockApi.getOrderByClientId.mockResolvedValueOnce({ success: true, data: filledOrder('7') });
+
+      const result = await tradeManager.placeBurstBuy('TESTUSDT' as MarketSymbol, new Decimal(10), {
+        orders: 2,
+        staggerMs: 1,
+      });
+
+      expect(result).toMatchObject({ success: true, data: { orderId: '7' } });
+      expect(mockApi.getOrderByClientId).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return the latest error and drop the pending trade when no leg fills', async () => {
+      mockApi.placeOrder
+        .mockResolvedValueOnce({
+          success: false,
+          error: { kind: 'rate_limited', message: 'Too many requests', retryAfterMs: 1000 },
+        })
+        .mockResolvedValueOnce(notTrading);
+
+      const result = await tradeManager.placeBurstBuy('TESTUSDT' as MarketSymbol, new Decimal(10), {
+        orders: 2,
+        staggerMs: 1,
+      });
+
+      expect(result).toMatchObject({ success: false, error: { kind: 'symbol_not_trading' } });
+      expect(mockApi.getOrderByClientId).not.toHaveBeenCalled();
+      expect(tradeManager.getActiveTrades()).toEqual([]);
+    });
+  });
+
+  describe('Limit Entry', () => {
+    const iocOrder = (orderId: string, status: string, executedQty: string, quoteQty: string) => ({
+      success: true as const,
+      data: {
+        symbol: 'TESTUSDT',
+        orderId,
+        executedQty,
+        cummulativeQuoteQty: quoteQty,
+        status,
+        price: '10',
+        origQty: '10',
+        orderListId: 0,
+        type: 'LIMIT',
+        side: 'BUY',
+        transactTime: 1760000000000,
+      },
+    });
+    const fill = (orderId: string, qty: string, time: number) => ({
+      symbol: 'TESTUSDT',
+      id: orderId,
+      orderId,
+      price: '10',
+      qty,
+      quoteQty: new Decimal(qty).mul(10).toString(),
+      commission: '0',
+      commissionAsset: 'TEST',
+      time,
+      isBuyer: true,
+      isMaker: false,
+      isBestMatch: true,
+    });
+
+    it('should price IOC buys above the last trade but never above the cap', async () => {
+      mockApi.getPrice.mockResolvedValueOnce('10').mockResolvedValueOnce('20');
+      mockApi.placeOrder
+        .mockResolvedValueOnce(iocOrder('1', 'CANCELED', '0', '0'))
+        .mockResolvedValueOnce(iocOrder('2', 'FILLED', '8.5', '102'));
+      mockApi.getMyTrades.mockResolvedValue([fill('2', '8.5', 1760000000000)]);
+
+      const result = await tradeManager.placeLimitBuy(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(102),
+        new Decimal(12)
+      );
+
+      expect(result).toMatchObject({ success: true, data: { orderId: '2' } });
+      const [first, second] = mockApi.placeOrder.mock.calls;
+      expect(first?.[0]).toMatchObject({
+        type: 'LIMIT',
+        timeInForce: 'IOC',
+        price: '10.2',
+        quantity: '10',
+        newClientOrderId: expect.stringMatching(/^lbb-TESTUSDT-\w+-1$/),
+      });
+      expect(second?.[0]).toMatchObject({
+        price: '12',
+        quantity: '8.5',
+        newClientOrderId: expect.stringMatching(/^lbb-TESTUSDT-\w+-2$/),
+      });
+    });
+
+    it('should combine partial fills into one position', async () => {
+      mockApi.getPrice.mockResolvedValue('10');
+      mockApi.placeOrder
+        .mockResolvedValueOnce(iocOrder('1', 'PARTIALLY_CANCELED', '4', '40'))
+        .mockResolvedValueOnce(iocOrder('2', 'FILLED', '6', '60'));
+      mockApi.getMyTrades.mockResolvedValue([
+        fill('1', '4', 1760000000500),
+        fill('2', '6', 1760000001000),
+      ]);
+
+      const result = await tradeManager.placeLimitBuy(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(100),
+        new Decimal(10)
+      );
+
+      expect(mockApi.placeOrder.mock.calls[1]?.[0]).toMatchObject({ quantity: '6' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.quantity.toString()).toBe('10');
+        expect(result.data.investedQuote.toString()).toBe('100');
+        expect(result.data.avgPrice.toString()).toBe('10');
+        expect(result.data.fills).toHaveLength(2);
+        expect(result.data.orderId).toBe('1');
+        expect(result.data.filledAt).toEqual(new Date(1760000000500));
+      }
+    });
+
+    it('should fail as not filled when the market stays above the cap', async () => {
+      mockApi.getPrice.mockResolvedValue('20');
+      mockApi.placeOrder.mockResolvedValue(iocOrder('1', 'CANCELED', '0', '0'));
+
+      const result = await tradeManager.placeLimitBuy(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(100),
+        new Decimal(10),
+        400
+      );
+
+      expect(result).toMatchObject({ success: false, error: { kind: 'not_filled' } });
+      expect(mockApi.placeOrder.mock.calls.length).toBeGreaterThan(1);
+      expect(tradeManager.getActiveTrades()).toEqual([]);
+    });
+
+    it('should stop re-pricing on other errors', async () => {
+      mockApi.placeOrder.mockResolvedValue({
+        success: false,
+        error: { kind: 'insufficient_balance', message: 'Insufficient balance' },
+      });
+
+      const result = await tradeManager.placeLimitBuy(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(100),
+        new Decimal(10)
+      );
+
+      expect(result).toMatchObject({ success: false, error: { kind: 'insufficient_balance' } });
+      expect(mockApi.placeOrder).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Listing Overrides', () => {
+    it('should open trades with the overridden stops and holding time', async () => {
+      const stream: PriceStream = { subscribe: () => () => {}, isConnected: () => true };
+      const manager = new TradeManager(mockApi, config, stream);
+
+      await manager.startMonitoring(
+        'TESTUSDT' as MarketSymbol,
+        new Decimal(100),
+        new Decimal(1),
+        new Decimal(100),
+        undefined,
+        { stopLossPct: new Decimal(5), trailingPct: new Decimal(4), maxHoldMinutes: 30 }
+      );
+
+      expect((await lastSavedTrades())[0]).toMatchObject({
+        stopLossPrice: '95',
+        trailingStopPrice: '96',
+        trailingPct: '4',
+        maxHoldMinutes: 30,
+      });
+
+      await manager.shutdown();
+    });
+  });
 });
@@ -1,17 +1,96 @@
 import Decimal from 'decimal.js';
-import { MexcAPI } from '../api/mexc.js';
+import { ExchangeClient } from '../api/exchange-client.js';
+import { PriceStream } from '../api/market-stream.js';
 import {
+  describeExchangeError,
+  exchangeError,
+  ExchangeError,
+  ExchangeErrorKind,
+  retryActionFor,
+} from '../api/errors.js';
+import { normalizeOrder } from '../api/symbol-rules.js';
+import { PriceHub } from '../market/price-hub.js';
+import { botEvents } from '../control/bot-events.js';
+import {
+  BurstPlan,
   TradingConfig,
   TradeState,
   SerializedTradeState,
   CompletedTrade,
   MarketSymbol,
+  OrderRequest,
+  OrderResponse,
+  OrderSide,
+  Result,
+  TradeFill,
+  TradeOverrides,
+  TradeStatus,
+  TriggerReason,
 } from '../types.js';
 import { logger } from '../utils/logger.js';
+import { parseKlines } from '../utils/klines.js';
 import { loadJson, saveJson } from '../utils/persistence.js';
+import {
+  applyPriceTick,
+  applyVolatilityTrail,
+  buildCompletedTrade,
+  createTradeState,
+  deserializeTrade,
+  dueTakeProfit,
+  FillCosts,
+  maxHoldMinutesFor,
+  serializeTrade,
+  takePartialExit,
+  takeProfitQuantity,
+  trailingPctFor,
+} from './strategy.js';
+import { clientOrderIdFor } from './client-order-id.js';
+import { FillSummary, summarizeFills, toTradeFill } from './fills.js';
+import { canTransition, transitionTrade } from './lifecycle.js';
+import { atrTrailingPct } from './volatility.js';
+import { appendAuditEntries } from './audit.js';
+import { applyStopEdits, parseStopEdits, StopEditRequest } from './stop-edits.js';
+import { logReconciliationReport, reconcileTrades } from './reconciler.js';
 
 const ACTIVE_TRADES_FILE = 'active_trades.json';
 const COMPLETED_TRADES_FILE = 'completed_trades.json';
+const RECONCILIATION_FILE = 'reconciliation_report.json';
+const ATR_REFRESH_MS = 60 * 1000; // One new 1m candle per refresh
+// Failures after which an order may still have been placed
+const UNCERTAIN_ERROR_KINDS: ExchangeErrorKind[] = ['network', 'server', 'unknown'];
+const LIMIT_ENTRY_WINDOW_MS = 10 * 1000; // Default re-pricing window (LISTING_LIMIT_WINDOW_SECONDS)
+const LIMIT_REPRICE_MS = 250; // Pause between IOC buys of a capped entry
+const LIMIT_PRICE_BUFFER = new Decimal('0.02'); // IOC buys are priced 2% above the last trade
+
+/**
+ * Executed market buy with its reconciled fills and the order that produced them
+ */
+export interface BuyFill extends FillCosts {
+  avgPrice: Decimal;
+  quantity: Decimal;
+  investedQuote: Decimal;
+  orderId: string;
+  clientOrderId?: string;
+  filledAt: Date; // Exchange time of the first fill
+}
+
+/**
+ * Buy details stored on a monitored trade
+ */
+export type BuyRecord = Omit<BuyFill, 'avgPrice' | 'quantity' | 'investedQuote' | 'filledAt'>;
+
+/**
+ * Executed market sell with its reconciled fills
+ */
+interface SellFill extends FillCosts {
+  avgPrice: Decimal;
+  quantity: Decimal;
+}
+
+/**
+ * Reconciled execution of one order
+ */
+type SettledOrder = FillSummary & Pick<FillCosts, 'fills'>;
 
 /**
  * Manages trade execution and monitoring with trailing stop-loss
@@ -20,319 +99,803 @@ export class TradeManager {
   private activeTrades = new Map<string, TradeState>();
   private monitoringTasks = new Map<string, AbortController>();
   private shuttingDown = false;
+  // Client order IDs whose last send failed without a definite answer (see submitOrder)
+  private uncertainOrderIds = new Set<string>();
 
   constructor(
-    private readonly api: MexcAPI,
-    private readonly config: TradingConfig
+    private readonly api: ExchangeClient,
+    private readonly config: TradingConfig,
+    private readonly prices: PriceStream = new PriceHub(api, {
+      pollIntervalMs: config.checkInterval * 1000,
+    })
   ) {}
 
   /**
-   * Serialize TradeState for JSON storage
+   * Save active trades to disk
    */
-  private serializeTrade(trade: TradeState): SerializedTradeState {
-    return {
-      market: trade.market,
-      buyPrice: trade.buyPrice.toString(),
-      quantity: trade.quantity.toString(),
-      investedQuote: trade.investedQuote.toString(),
-      currentPrice: trade.currentPrice.toString(),
-      highestPrice: trade.highestPrice.toString(),
-      trailingStopPrice: trade.trailingStopPrice.toString(),
-      stopLossPrice: trade.stopLossPrice.toString(),
-      startTime: trade.startTime.toISOString(),
-      lastUpdate: trade.lastUpdate.toISOString(),
-    };
+  async saveActiveTrades(): Promise<void> {
+    const trades = this.getActiveTrades();
+    botEvents.publish({ type: 'trades', trades });
+    await saveJson(ACTIVE_TRADES_FILE, trades);
   }
 
   /**
-   * Deserialize TradeState from JSON
+   * Restore monitoring for previously active trades
+   * Restored trades are reconciled with exchange balances first; the report is logged and
+   * saved for the API server
    */
-  private deserializeTrade(data: SerializedTradeState): TradeState {
-    // For backward compatibility: if investedQuote is missing, calculate from buyPrice * quantity
-    const investedQuote = data.investedQuote
-      ? new Decimal(data.investedQuote)
-      : new Decimal(data.buyPrice).mul(new Decimal(data.quantity));
+  async restoreMonitoring(): Promise<void> {
+    const serializedTrades = await loadJson<SerializedTradeState[]>(ACTIVE_TRADES_FILE, []);
 
-    return {
-      market: data.market as MarketSymbol,
-      buyPrice: new Decimal(data.buyPrice),
-      quantity: new Decimal(data.quantity),
-      investedQuote,
-      currentPrice: new Decimal(data.currentPrice),
-      highestPrice: new Decimal(data.highestPrice),
-      trailingStopPrice: new Decimal(data.trailingStopPrice),
-      stopLossPrice: new Decimal(data.stopLossPrice),
-      startTime: new Date(data.startTime),
-      lastUpdate: new Date(data.lastUpdate),
-    };
+    const trades: TradeState[] = [];
+    for (const serialized of serializedTrades) {
+      try {
+        trades.push(deserializeTrade(serialized, this.config));
+      } catch (error) {
+        logger.error(`Failed to restore trade for ${serialized.market}: ${String(error)}`);
+      }
+    }
+
+    // Buys interrupted by the restart cannot be resumed: keep them visible but unmonitored
+    const unresolved = trades.filter(
+      (trade) => trade.status === 'pending_buy' || trade.status === 'orphaned'
+    );
+    for (const trade of unresolved) {
+      this.activeTrades.set(trade.market, trade);
+      if (trade.status === 'pending_buy') {
+        this.setStatus(
+          trade,
+          'orphaned',
+          `Buy ${trade.buyClientOrderId ?? ''} interrupted by a restart; check the exchange and remove or re-add the trade`
+        );
+      }
+      logger.warn(`${trade.market} is orphaned and will not be monitored: ${trade.lastError}`);
+    }
+
+    // Runs even without trades: a crash right after a buy leaves an untracked balance
+    const reconciliation = await reconcileTrades(
+      this.api,
+      trades.filter((trade) => !unresolved.includes(trade)),
+      this.config.quoteCurrency
+    );
+    logReconciliationReport(reconciliation.report);
+    await saveJson(RECONCILIATION_FILE, reconciliation.report);
+
+    if (reconciliation.completed.length > 0) {
+      const completedTrades = await loadJson<CompletedTrade[]>(COMPLETED_TRADES_FILE, []);
+      completedTrades.push(...reconciliation.completed);
+      await saveJson(COMPLETED_TRADES_FILE, completedTrades);
+    }
+
+    if (reconciliation.trades.length === 0) {
+      logger.info('No active trades to restore');
+      if (serializedTrades.length > 0) await this.saveActiveTrades();
+      return;
+    }
+
+    logger.info(`Restoring ${reconciliation.trades.length} active trades`);
+
+    for (const trade of reconciliation.trades) {
+      // A sell still marked in flight was cut off by the restart; retry it on the next trigger
+      if (trade.status === 'pending_sell') {
+        this.setStatus(trade, 'sell_failed', 'Sell interrupted by a restart');
+      }
+      this.activeTrades.set(trade.market, trade);
+      this.startMonitoringForRestoredTrade(trade);
+      logger.info(`Restored monitoring for ${trade.market}`);
+    }
+
+    // Persist quantity fixes and removals from reconciliation
+    await this.saveActiveTrades();
   }
 
   /**
-   * Save active trades to disk
+   * Place a market buy order with retry logic
+   * A pending_buy trade is persisted while the order is in flight, so a restart mid-buy leaves a
+   * visible (orphaned) trade instead of nothing; startMonitoring opens it
+   * A caller that retries the buy itself passes the same intentTime each time: the client order
+   * ID then stays the same, so a send that timed out on an earlier call is looked up before the
+   * order is placed again. Its pending_buy trade is kept across those calls until the caller
+   * gives up and calls abandonPendingBuy.
    */
-  async saveActiveTrades(): Promise<void> {
-    const serialized = Array.from(this.activeTrades.values()).map((trade) =>
-      this.serializeTrade(trade)
+  async placeMarketBuy(
+    symbol: MarketSymbol,
+    amountUsdt: Decimal,
+    maxAttempts: number = 3,
+    intentTime?: Date
+  ): Promise<Result<BuyFill, ExchangeError>> {
+    logger.info(`Placing market buy order: ${symbol} for ${amountUsdt.toString()} USDT`);
+
+    const clientOrderId = clientOrderIdFor('BUY', symbol, intentTime ?? new Date());
+    const pending = this.markBuyPending(symbol, amountUsdt, clientOrderId);
+
+    const result = await this.placeMarketOrder(
+      symbol,
+      'BUY',
+      {
+        quoteOrderQty: amountUsdt.toString(), // Buy with USDT amount
+        newClientOrderId: clientOrderId,
+      },
+      maxAttempts
     );
-    await saveJson(ACTIVE_TRADES_FILE, serialized);
+    if (!result.success) {
+      if (!intentTime) this.clearPendingBuy(symbol, pending);
+      return result;
+    }
+
+    return { success: true, data: await this.settleBuy(symbol, [result.data]) };
   }
 
   /**
-   * Restore monitoring for previously active trades
+   * Fire staggered market buys in parallel at a listing open, opening at most one position
+   *
+   * Each leg is placed once under its own client order ID (legs 1..n of one intent). The first
+   * accepted leg closes a shared latch so legs not sent yet are dropped; a leg that was already in
+   * flight is cancelled as soon as the exchange accepts it, and whatever it filled before the
+   * cancel is sold straight back. Legs that failed without a definite answer may still have
+   * reached the exchange and are looked up by client order ID before the outcome is decided.
+   * Without a fill, the error of the latest leg (the one closest to the open) is returned.
    */
-  async restoreMonitoring(): Promise<void> {
-    const trades = await loadJson<SerializedTradeState[]>(ACTIVE_TRADES_FILE, []);
+  async placeBurstBuy(
+    symbol: MarketSymbol,
+    amountUsdt: Decimal,
+    burst: BurstPlan
+  ): Promise<Result<BuyFill, ExchangeError>> {
+    logger.info(
+      `Placing ${burst.orders} market buys ${burst.staggerMs}ms apart: ${symbol} for ${amountUsdt.toString()} USDT`
+    );
 
-    if (trades.length === 0) {
-      logger.info('No active trades to restore');
-      return;
+    const intentTime = new Date();
+    const pending = this.markBuyPending(
+      symbol,
+      amountUsdt,
+      clientOrderIdFor('BUY', symbol, intentTime, 1)
+    );
+
+    const normalized = await this.normalizeOrder({
+      symbol,
+      side: 'BUY',
+      type: 'MARKET',
+      quoteOrderQty: amountUsdt.toString(),
+      timestamp: Date.now(),
+    });
+    if (!normalized.success) {
+      logger.error(`Burst buy for ${symbol} rejected: ${describeExchangeError(normalized.error)}`);
+      this.clearPendingBuy(symbol, pending);
+      return normalized;
     }
 
-    logger.info(`Restoring ${trades.length} active trades`);
+    const filled: OrderResponse[] = []; // The latch: the first entry is the position
+    const legs = await Promise.all(
+      Array.from({ length: burst.orders }, async (_, index) => {
+        const clientOrderId = clientOrderIdFor('BUY', symbol, intentTime, index + 1);
+        await new Promise((resolve) => setTimeout(resolve, index * burst.staggerMs));
+        if (filled.length > 0) return { clientOrderId, placed: null };
+
+        const request = { ...normalized.data, newClientOrderId: clientOrderId };
+        const placed = await this.submitOrder(request, false);
+        if (placed.success) {
+          if (filled.length > 0) await this.cancelSurplusLeg(symbol, placed.data);
+          filled.push(placed.data);
+        }
+        return { clientOrderId, placed };
+      })
+    );
 
-    for (const serialized of trades) {
-      try {
-        const trade = this.deserializeTrade(serialized);
-        this.activeTrades.set(trade.market, trade);
-        await this.startMonitoringForRestoredTrade(trade);
-        logger.info(`Restored monitoring for ${trade.market}`);
-      } catch (error) {
-        logger.error(`Failed to restore trade for ${serialized.market}: ${String(error)}`);
+    // A timeout or server error may hide an order that was placed anyway
+    let lastError: ExchangeError | null = null;
+    for (const { clientOrderId, placed } of legs) {
+      if (!placed || placed.success) continue;
+      lastError = placed.error;
+      if (!UNCERTAIN_ERROR_KINDS.includes(placed.error.kind)) continue;
+
+      const existing = await this.api.getOrderByClientId(symbol, clientOrderId);
+      if (existing.success) {
+        logger.warn(
+          `Burst leg ${clientOrderId} for ${symbol} was placed despite ${placed.error.kind}`
+        );
+        if (filled.length > 0) await this.cancelSurplusLeg(symbol, existing.data);
+        filled.push(existing.data);
       }
     }
+
+    const [first, ...surplus] = filled;
+    await this.unwindSurplusBuys(symbol, surplus, intentTime);
+    if (!first) {
+      this.clearPendingBuy(symbol, pending);
+      return {
+        success: false,
+        error: lastError ?? exchangeError('unknown', 'No burst leg was placed'),
+      };
+    }
+
+    const result = await this.waitForFill(symbol, first, 3);
+    if (!result.success) {
+      this.clearPendingBuy(symbol, pending);
+      return result;
+    }
+    const sent = legs.filter((leg) => leg.placed).length;
+    logger.info(
+      `Burst buy for ${symbol} filled by ${first.clientOrderId ?? first.orderId} (${sent}/${burst.orders} legs sent)`
+    );
+    // The placement response carries the fill time; an order query may not
+    const order = { ...result.data, transactTime: first.transactTime };
+    return { success: true, data: await this.settleBuy(symbol, [order]) };
   }
 
   /**
-   * Place a market buy order with retry logic
+   * Buy with IOC limit orders capped at maxPrice, re-pricing until filled or the window closes
+   *
+   * Each round is priced a little above the last trade but never above the cap, so it crosses the
+   * book without chasing it. An order that expires unfilled or fills partly is followed by a new
+   * one for the remaining quote amount (legs 1..n of one intent); the fills of all rounds make up
+   * the position. Any other error ends the entry, and without a fill by the deadline the entry
+   * fails as not_filled.
    */
-  async placeMarketBuy(
+  async placeLimitBuy(
     symbol: MarketSymbol,
     amountUsdt: Decimal,
-    maxAttempts: number = 3
-  ): Promise<{ avgPrice: Decimal; quantity: Decimal; investedQuote: Decimal } | null> {
-    let lastError: string = 'Unknown error';
+    maxPrice: Decimal,
+    windowMs: number = LIMIT_ENTRY_WINDOW_MS
+  ): Promise<Result<BuyFill, ExchangeError>> {
+    logger.info(
+      `Placing IOC limit buys capped at ${maxPrice.toString()}: ${symbol} for ${amountUsdt.toString()} USDT`
+    );
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
-        logger.info(
-          `Placing market buy order: ${symbol} for ${amountUsdt.toString()} USDT (attempt ${attempt}/${maxAttempts})`
+    const intentTime = new Date();
+    const deadline = Date.now() + windowMs;
+    const pending = this.markBuyPending(
+      symbol,
+      amountUsdt,
+      clientOrderIdFor('BUY', symbol, intentTime, 1)
+    );
+
+    const filled: OrderResponse[] = [];
+    let remaining = amountUsdt;
+    let lastError: ExchangeError | null = null;
+    for (let leg = 1; Date.now() < deadline; leg++) {
+      if (leg > 1) await new Promise((resolve) => setTimeout(resolve, LIMIT_REPRICE_MS));
+
+      const lastPrice = await this.api.getPrice(symbol);
+      const price = lastPrice
+        ? Decimal.min(maxPrice, new Decimal(lastPrice).mul(LIMIT_PRICE_BUFFER.plus(1)))
+        : maxPrice;
+      const normalized = await this.normalizeOrder({
+        symbol,
+        side: 'BUY',
+        type: 'LIMIT',
+        timeInForce: 'IOC',
+        price: price.toString(),
+        quantity: remaining.div(price).toString(),
+        newClientOrderId: clientOrderIdFor('BUY', symbol, intentTime, leg),
+        timestamp: Date.now(),
+      });
+      if (!normalized.success) {
+        // After a partial fill, the remainder may simply be below the minimum order
+        if (filled.length === 0) lastError = normalized.error;
+        break;
+      }
+
+      let placed = await this.submitOrder(normalized.data, false);
+      if (!placed.success && UNCERTAIN_ERROR_KINDS.includes(placed.error.kind)) {
+        // Looks the order up first and places it again unless the exchange confirms it
+        placed = await this.submitOrder(normalized.data, false);
+      }
+      const order = placed.success ? await this.waitForFill(symbol, placed.data, 3) : placed;
+      if (!order.success && order.error.kind !== 'not_filled') {
+        lastError = order.error;
+        break;
+      }
+
+      // An IOC order that expired without a fill just moves on to the next round
+      const executedQty = new Decimal(order.success ? order.data.executedQty : 0);
+      if (order.success) {
+        filled.push(order.data);
+        remaining = remaining.minus(order.data.cummulativeQuoteQty);
+        if (order.data.status === 'FILLED') break;
+      }
+      logger.info(
+        `IOC buy ${leg} for ${symbol} at ${normalized.data.price ?? ''} filled ${executedQty.toString()}, re-pricing`
+      );
+    }
+
+    const [first, ...rest] = filled;
+    if (!first) {
+      this.clearPendingBuy(symbol, pending);
+      const error =
+        lastError ??
+        exchangeError(
+          'not_filled',
+          `No IOC buy for ${symbol} filled at or below ${maxPrice.toString()} within ${windowMs}ms`
         );
+      logger.warn(`Capped entry for ${symbol} failed: ${describeExchangeError(error)}`);
+      return { success: false, error };
+    }
+    return { success: true, data: await this.settleBuy(symbol, [first, ...rest]) };
+  }
 
-        let orderResponse = await this.api.placeOrder({
-          symbol,
-          side: 'BUY',
-          type: 'MARKET',
-          quoteOrderQty: amountUsdt.toString(), // Buy with USDT amount
-          timestamp: Date.now(),
-        });
-
-        if (!orderResponse) {
-          lastError = 'Order response was null';
-          if (attempt < maxAttempts) {
-            const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-            logger.warn(
-              `Buy order attempt ${attempt} failed (null response), retrying in ${delay}ms...`
-            );
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            continue;
-          }
-          logger.error(`Failed to place buy order for ${symbol} after ${maxAttempts} attempts`);
-          return null;
-        }
+  /**
+   * Drop the pending_buy trade a caller kept across its own buy retries, once it gives up
+   */
+  abandonPendingBuy(symbol: MarketSymbol): void {
+    this.clearPendingBuy(symbol, this.activeTrades.get(symbol)?.status === 'pending_buy');
+  }
 
-        // If execution details are missing, query the order to get fill information
-        if (!orderResponse.executedQty || !orderResponse.cummulativeQuoteQty) {
-          logger.info(
-            `Initial response missing execution details, querying order ${orderResponse.orderId}`
-          );
+  /**
+   * Record a pending_buy trade while the buy is in flight (unless the symbol already has one)
+   * It is written once per client order ID, in the background so the order goes out at once.
+   * Returns whether the entry belongs to this buy, so a failed buy only removes its own entry
+   */
+  private markBuyPending(
+    symbol: MarketSymbol,
+    amountUsdt: Decimal,
+    clientOrderId: string
+  ): boolean {
+    const existing = this.activeTrades.get(symbol);
+    if (existing) {
+      return existing.status === 'pending_buy' && existing.buyClientOrderId === clientOrderId;
+    }
 
-          // Wait a moment for order to fill
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-
-          const orderDetails = await this.api.getOrder(symbol, orderResponse.orderId);
-          if (!orderDetails) {
-            lastError = 'Failed to query order details';
-            if (attempt < maxAttempts) {
-              const delay = 2000;
-              logger.warn(`Failed to query order details, retrying in ${delay}ms...`);
-              await new Promise((resolve) => setTimeout(resolve, delay));
-              continue;
-            }
-            logger.error(`Failed to query order details for ${symbol} after ${maxAttempts} attempts`);
-            return null;
-          }
+    this.activeTrades.set(symbol, {
+      ...createTradeState(symbol, new Decimal(0), new Decimal(0), amountUsdt, this.config),
+      status: 'pending_buy',
+      buyClientOrderId: clientOrderId,
+    });
+    this.saveActiveTradesInBackground();
+    return true;
+  }
 
-          if (!orderDetails.executedQty || !orderDetails.cummulativeQuoteQty) {
-            lastError = `Order not filled: status=${orderDetails.status}`;
-            logger.error(
-              `Order ${orderResponse.orderId} not filled: status=${orderDetails.status}`,
-              { orderDetails }
-            );
-            return null;
-          }
+  /**
+   * Drop the pending_buy trade of a failed buy
+   */
+  private clearPendingBuy(symbol: MarketSymbol, pending: boolean): void {
+    if (!pending) return;
+    this.activeTrades.delete(symbol);
+    this.saveActiveTradesInBackground();
+  }
 
-          orderResponse = orderDetails;
-        }
+  /**
+   * Save without holding up the caller (writes to the file stay in order)
+   */
+  private saveActiveTradesInBackground(): void {
+    this.saveActiveTrades().catch((error) => {
+      logger.error(`Error saving active trades: ${String(error)}`);
+    });
+  }
 
-        // Calculate average buy price and quantity
-        const executedQty = new Decimal(orderResponse.executedQty);
-        const cumulativeQuoteQty = new Decimal(orderResponse.cummulativeQuoteQty);
-        const avgPrice = cumulativeQuoteQty.div(executedQty);
+  /**
+   * Reconcile the executed buy orders of one position into the fill handed to startMonitoring
+   * The position keeps the order ID of the first order
+   */
+  private async settleBuy(
+    symbol: MarketSymbol,
+    [first, ...rest]: [OrderResponse, ...OrderResponse[]]
+  ): Promise<BuyFill> {
+    // Average price, quantity and fee from the individual fills of every order
+    const parts: SettledOrder[] = [];
+    for (const order of [first, ...rest]) {
+      const part = await this.settleOrder(symbol, order);
+      this.publishFill(symbol, 'BUY', part);
+      parts.push(part);
+    }
+    const quantity = Decimal.sum(...parts.map((part) => part.quantity));
+    const quoteQty = Decimal.sum(...parts.map((part) => part.quoteQty));
+    const feeQuote = Decimal.sum(...parts.map((part) => part.feeQuote));
+    const fills = parts.flatMap((part) => part.fills);
+    const avgPrice = quoteQty.div(quantity);
 
-        logger.info(
-          `Buy order executed: ${symbol} at avg price ${avgPrice.toString()} (qty: ${executedQty.toString()}, invested: ${cumulativeQuoteQty.toString()} ${this.config.quoteCurrency})`
-        );
+    logger.info(
+      `Buy order executed: ${symbol} at avg price ${avgPrice.toString()} (qty: ${quantity.toString()}, invested: ${quoteQty.toString()} ${this.config.quoteCurrency}, fee: ${feeQuote.toString()})`
+    );
 
-        return { avgPrice, quantity: executedQty, investedQuote: cumulativeQuoteQty };
-      } catch (error) {
-        lastError = String(error);
-        if (attempt < maxAttempts) {
-          const delay = Math.min(2000 * attempt, 5000);
-          logger.warn(
-            `Error on buy attempt ${attempt}/${maxAttempts}: ${String(error)}, retrying in ${delay}ms...`
-          );
-          await new Promise((resolve) => setTimeout(resolve, delay));
-          continue;
-        }
+    // Order queries carry no transactTime; the fills do
+    const fillTimes = fills.map((fill) => fill.time);
+    const filledAt = fillTimes.length > 0 ? Math.min(...fillTimes) : first.transactTime;
+
+    return {
+      avgPrice,
+      quantity,
+      investedQuote: quoteQty,
+      feeQuote,
+      fills,
+      orderId: first.orderId,
+      ...(first.clientOrderId && { clientOrderId: first.clientOrderId }),
+      filledAt: new Date(filledAt || Date.now()),
+    };
+  }
+
+  /**
+   * Cancel a burst leg accepted after the position was opened
+   * A market order usually fills before the cancel arrives; the cancel only stops the rest of a
+   * leg still working through a thin book
+   */
+  private async cancelSurplusLeg(symbol: MarketSymbol, order: OrderResponse): Promise<void> {
+    if (order.status === 'FILLED') return;
+
+    const label = order.clientOrderId ?? order.orderId;
+    if (await this.api.cancelOrder(symbol, order.orderId)) {
+      logger.info(`Cancelled burst leg ${label} for ${symbol}, the position is already open`);
+    }
+  }
+
+  /**
+   * Sell back what burst legs accepted after the position was opened have filled
+   */
+  private async unwindSurplusBuys(
+    symbol: MarketSymbol,
+    orders: OrderResponse[],
+    intentTime: Date
+  ): Promise<void> {
+    for (const [index, order] of orders.entries()) {
+      const label = order.clientOrderId ?? order.orderId;
+      const filled = await this.waitForFill(symbol, order, 3);
+      if (!filled.success) {
+        logger.error(`Surplus burst buy ${label} for ${symbol} not confirmed, check the exchange`);
+        continue;
+      }
+      if (new Decimal(filled.data.executedQty).lte(0)) {
+        logger.info(`Surplus burst buy ${label} for ${symbol} was cancelled before it filled`);
+        continue;
+      }
+
+      const settled = await this.settleOrder(symbol, filled.data);
+      this.publishFill(symbol, 'BUY', settled);
+      logger.warn(
+        `Burst leg ${label} for ${symbol} filled after the position was opened, selling ${settled.quantity.toString()} back`
+      );
+
+      const sold = await this.placeMarketSell(
+        symbol,
+        settled.quantity,
+        clientOrderIdFor('SELL', symbol, intentTime, index + 1)
+      );
+      if (!sold.success) {
         logger.error(
-          `Failed to place market buy for ${symbol} after ${maxAttempts} attempts. Last error: ${lastError}`
+          `Could not sell back surplus ${symbol} burst buy ${label}: ${describeExchangeError(sold.error)}`
         );
-        return null;
       }
     }
-
-    // Should never reach here, but just in case
-    logger.error(`Buy order failed after all retry attempts for ${symbol}. Last error: ${lastError}`);
-    return null;
   }
 
   /**
    * Place a market sell order with retry logic
+   * lookUpFirst is set when clientOrderId is derived from the trade, so an earlier run may have
+   * sent it already (e.g. the bot restarted mid-sell)
+   * Returns the average sell price and the sell fee
    */
   private async placeMarketSell(
     symbol: MarketSymbol,
     quantity: Decimal,
+    clientOrderId: string,
+    lastPrice?: Decimal,
+    lookUpFirst: boolean = false,
     maxAttempts: number = 3
-  ): Promise<Decimal | null> {
-    let lastError: string = 'Unknown error';
+  ): Promise<Result<SellFill, ExchangeError>> {
+    logger.info(`Placing market sell order: ${symbol} for ${quantity.toString()} units`);
+
+    const result = await this.placeMarketOrder(
+      symbol,
+      'SELL',
+      { quantity: quantity.toString(), newClientOrderId: clientOrderId },
+      maxAttempts,
+      lastPrice,
+      lookUpFirst
+    );
+    if (!result.success) return result;
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
-        logger.info(
-          `Placing market sell order: ${symbol} for ${quantity.toString()} units (attempt ${attempt}/${maxAttempts})`
-        );
+    const settled = await this.settleOrder(symbol, result.data);
 
-        let orderResponse = await this.api.placeOrder({
-          symbol,
-          side: 'SELL',
-          type: 'MARKET',
-          quantity: quantity.toString(),
-          timestamp: Date.now(),
-        });
-
-        if (!orderResponse) {
-          lastError = 'Order response was null';
-          if (attempt < maxAttempts) {
-            const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-            logger.warn(
-              `Sell order attempt ${attempt} failed (null response), retrying in ${delay}ms...`
-            );
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            continue;
-          }
-          logger.error(`Failed to place sell order for ${symbol} after ${maxAttempts} attempts`);
-          return null;
-        }
+    logger.info(
+      `Sell order executed: ${symbol} at avg price ${settled.avgPrice.toString()} (fee: ${settled.feeQuote.toString()})`
+    );
+    this.publishFill(symbol, 'SELL', settled);
 
-        // If execution details are missing, query the order to get fill information
-        if (!orderResponse.executedQty || !orderResponse.cummulativeQuoteQty) {
-          logger.info(
-            `Initial response missing execution details, querying order ${orderResponse.orderId}`
-          );
+    return {
+      success: true,
+      data: {
+        avgPrice: settled.avgPrice,
+        quantity: settled.quantity,
+        feeQuote: settled.feeQuote,
+        fills: settled.fills,
+      },
+    };
+  }
 
-          // Wait a moment for order to fill
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-
-          const orderDetails = await this.api.getOrder(symbol, orderResponse.orderId);
-          if (!orderDetails) {
-            lastError = 'Failed to query order details';
-            if (attempt < maxAttempts) {
-              const delay = 2000;
-              logger.warn(`Failed to query order details, retrying in ${delay}ms...`);
-              await new Promise((resolve) => setTimeout(resolve, delay));
-              continue;
-            }
-            logger.error(`Failed to query order details for ${symbol} after ${maxAttempts} attempts`);
-            return null;
-          }
+  private publishFill(symbol: MarketSymbol, side: OrderSide, settled: SettledOrder): void {
+    botEvents.publish({
+      type: 'fill',
+      market: symbol,
+      side,
+      price: settled.avgPrice.toString(),
+      quantity: settled.quantity.toString(),
+      quoteQuantity: settled.quoteQty.toString(),
+    });
+  }
 
-          if (!orderDetails.executedQty || !orderDetails.cummulativeQuoteQty) {
-            lastError = `Order not filled: status=${orderDetails.status}`;
-            logger.error(
-              `Order ${orderResponse.orderId} not filled: status=${orderDetails.status}`,
-              { orderDetails }
-            );
-            return null;
-          }
+  /**
+   * Reconcile a filled order against the account trade history to capture its fees
+   * Falls back to the order totals (fee unknown, recorded as zero) when no fills are found
+   */
+  private async settleOrder(symbol: MarketSymbol, order: OrderResponse): Promise<SettledOrder> {
+    const fills = await this.fetchOrderFills(symbol, order.orderId);
+    if (fills.length > 0) {
+      const { baseAsset, quoteAsset } = await this.assetsOf(symbol);
+      return { ...summarizeFills(fills, baseAsset, quoteAsset), fills };
+    }
 
-          orderResponse = orderDetails;
-        }
+    logger.warn(`No fills found for ${symbol} order ${order.orderId}, fee not recorded`);
+    const quantity = new Decimal(order.executedQty);
+    const quoteQty = new Decimal(order.cummulativeQuoteQty);
+    return {
+      quantity,
+      quoteQty,
+      avgPrice: quoteQty.div(quantity),
+      feeQuote: new Decimal(0),
+      fills: [],
+    };
+  }
 
-        const executedQty = new Decimal(orderResponse.executedQty);
-        const cumulativeQuoteQty = new Decimal(orderResponse.cummulativeQuoteQty);
-        const avgPrice = cumulativeQuoteQty.div(executedQty);
+  /**
+   * Fetch the fills of an order (trade history can lag the order response briefly)
+   */
+  private async fetchOrderFills(
+    symbol: MarketSymbol,
+    orderId: string,
+    maxAttempts: number = 3
+  ): Promise<TradeFill[]> {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const trades = await this.api.getMyTrades(symbol);
+      const fills = (trades ?? [])
+        .filter((trade) => trade.orderId === orderId)
+        .map((trade) => toTradeFill(trade));
+      if (fills.length > 0) return fills;
+
+      if (attempt < maxAttempts) {
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      }
+    }
+    return [];
+  }
 
-        logger.info(`Sell order executed: ${symbol} at avg price ${avgPrice.toString()}`);
+  /**
+   * Base and quote asset of a symbol (from symbol rules, else derived from the quote currency)
+   */
+  private async assetsOf(symbol: MarketSymbol): Promise<{ baseAsset: string; quoteAsset: string }> {
+    const rules = await this.api.getSymbolRules(symbol);
+    if (rules) {
+      return { baseAsset: rules.baseAsset, quoteAsset: rules.quoteAsset };
+    }
 
-        return avgPrice;
-      } catch (error) {
-        lastError = String(error);
-        if (attempt < maxAttempts) {
-          const delay = Math.min(2000 * attempt, 5000);
+    const quoteAsset = this.config.quoteCurrency;
+    const baseAsset = symbol.endsWith(quoteAsset) ? symbol.slice(0, -quoteAsset.length) : symbol;
+    return { baseAsset, quoteAsset };
+  }
+
+  /**
+   * Place a market order and wait for its fill details
+   * The order is normalised to the symbol rules first (lastPrice enables the minimum notional
+   * check for quantity orders). Failed attempts are retried, preceded by a time resync, or
+   * aborted depending on the error kind. A retry after a failure without a definite answer looks
+   * the client order ID up first (see submitOrder), and so does the first send with lookUpFirst
+   */
+  private async placeMarketOrder(
+    symbol: MarketSymbol,
+    side: OrderSide,
+    order: Pick<OrderRequest, 'quantity' | 'quoteOrderQty' | 'newClientOrderId'>,
+    maxAttempts: number,
+    lastPrice?: Decimal,
+    lookUpFirst: boolean = false
+  ): Promise<Result<OrderResponse, ExchangeError>> {
+    const operation = `${side === 'BUY' ? 'Buy' : 'Sell'} order for ${symbol}`;
+
+    const normalized = await this.normalizeOrder(
+      { symbol, side, type: 'MARKET', ...order, timestamp: Date.now() },
+      lastPrice
+    );
+    if (!normalized.success) {
+      logger.error(`${operation} rejected: ${describeExchangeError(normalized.error)}`);
+      return normalized;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      logger.debug(`${operation}: attempt ${attempt}/${maxAttempts}`);
+      const placed = await this.submitOrder(normalized.data, lookUpFirst);
+
+      if (placed.success) {
+        return await this.waitForFill(symbol, placed.data, maxAttempts);
+      }
+      if (!(await this.prepareRetry(operation, placed.error, attempt, maxAttempts))) {
+        return placed;
+      }
+    }
+  }
+
+  /**
+   * Place an order once
+   * When an earlier send of the same client order ID failed without a definite answer (e.g. a
+   * timeout), or with lookUp, the ID is looked up first: that send may still have reached the
+   * exchange, and placing it again would buy or sell twice. Anything short of a confirmed
+   * existing order is sent.
+   */
+  private async submitOrder(
+    request: OrderRequest,
+    lookUp: boolean
+  ): Promise<Result<OrderResponse, ExchangeError>> {
+    const clientOrderId = request.newClientOrderId;
+    try {
+      if (clientOrderId && (lookUp || this.uncertainOrderIds.has(clientOrderId))) {
+        const existing = await this.api.getOrderByClientId(request.symbol, clientOrderId);
+        if (existing.success) {
           logger.warn(
-            `Error on sell attempt ${attempt}/${maxAttempts}: ${String(error)}, retrying in ${delay}ms...`
+            `Order ${clientOrderId} for ${request.symbol} reached the exchange on an earlier attempt, not placing it again`
           );
-          await new Promise((resolve) => setTimeout(resolve, delay));
-          continue;
+          this.uncertainOrderIds.delete(clientOrderId);
+          return existing;
         }
-        logger.error(
-          `Failed to place market sell for ${symbol} after ${maxAttempts} attempts. Last error: ${lastError}`
-        );
-        return null;
       }
+
+      const placed = await this.api.placeOrder({ ...request, timestamp: Date.now() });
+      this.trackUncertainSend(clientOrderId, placed.success ? null : placed.error);
+      return placed;
+    } catch (thrown) {
+      const error = exchangeError('unknown', String(thrown));
+      this.trackUncertainSend(clientOrderId, error);
+      return { success: false, error };
+    }
+  }
+
+  /**
+   * Remember whether the latest send of a client order ID may have reached the exchange unseen
+   * A definite rejection keeps the mark: an earlier uncertain send may still exist
+   */
+  private trackUncertainSend(clientOrderId: string | undefined, error: ExchangeError | null): void {
+    if (!clientOrderId) return;
+    if (!error) {
+      this.uncertainOrderIds.delete(clientOrderId);
+    } else if (UNCERTAIN_ERROR_KINDS.includes(error.kind)) {
+      this.uncertainOrderIds.add(clientOrderId);
     }
+  }
 
-    // Should never reach here, but just in case
-    logger.error(`Sell order failed after all retry attempts for ${symbol}. Last error: ${lastError}`);
-    return null;
+  /**
+   * Round an order to the symbol's lot step, tick and limits before it is placed
+   * Without symbol rules the order is passed through unchanged and the exchange decides
+   */
+  private async normalizeOrder(
+    request: OrderRequest,
+    lastPrice?: Decimal
+  ): Promise<Result<OrderRequest, ExchangeError>> {
+    const rules = await this.api.getSymbolRules(request.symbol);
+    if (!rules) {
+      logger.warn(`No symbol rules for ${request.symbol}, placing order without normalisation`);
+      return { success: true, data: request };
+    }
+    return normalizeOrder(request, rules, lastPrice);
+  }
+
+  /**
+   * Query an order until execution details are available (the order is never re-placed)
+   * An order that ended without a fill (e.g. cancelled or expired) fails as not_filled
+   */
+  private async waitForFill(
+    symbol: MarketSymbol,
+    order: OrderResponse,
+    maxAttempts: number
+  ): Promise<Result<OrderResponse, ExchangeError>> {
+    // A market order can be acknowledged as NEW before it fills; query it for the outcome
+    if (order.executedQty && order.cummulativeQuoteQty && order.status !== 'NEW') {
+      return this.requireFill(order);
+    }
+
+    logger.info(`Initial response missing execution details, querying order ${order.orderId}`);
+
+    for (let attempt = 1; ; attempt++) {
+      // Wait a moment for order to fill
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      const details = await this.api.getOrder(symbol, order.orderId);
+      if (details.success) return this.requireFill(details.data);
+
+      const operation = `Order query for ${symbol} (${order.orderId})`;
+      if (!(await this.prepareRetry(operation, details.error, attempt, maxAttempts))) {
+        return details;
+      }
+    }
+  }
+
+  /**
+   * Pass an order on only when it filled something: zero (or missing) execution details would
+   * turn into a position without quantity and a NaN average price
+   */
+  private requireFill(order: OrderResponse): Result<OrderResponse, ExchangeError> {
+    if (
+      new Decimal(order.executedQty || 0).gt(0) &&
+      new Decimal(order.cummulativeQuoteQty || 0).gt(0)
+    ) {
+      return { success: true, data: order };
+    }
+
+    logger.error(`Order ${order.orderId} not filled: status=${order.status}`, {
+      orderDetails: order,
+    });
+    return {
+      success: false,
+      error: exchangeError('not_filled', `Order not filled: status=${order.status}`),
+    };
+  }
+
+  /**
+   * Decide whether a failed order call is retried; waits (and resyncs time) before returning true
+   */
+  private async prepareRetry(
+    operation: string,
+    error: ExchangeError,
+    attempt: number,
+    maxAttempts: number
+  ): Promise<boolean> {
+    const action = retryActionFor(error);
+
+    if (action === 'abort' || attempt >= maxAttempts) {
+      logger.error(
+        `${operation} failed after ${attempt} attempt(s): ${describeExchangeError(error)}`
+      );
+      return false;
+    }
+
+    if (action === 'resync') {
+      logger.warn(`${operation} rejected for clock drift, resyncing time with exchange`);
+      await this.api.syncTime();
+    }
+
+    const delay =
+      error.kind === 'rate_limited'
+        ? error.retryAfterMs
+        : Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+    logger.warn(
+      `${operation} attempt ${attempt}/${maxAttempts} failed (${describeExchangeError(error)}), retrying in ${delay}ms...`
+    );
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return true;
   }
 
   /**
    * Start monitoring a trade with trailing stop-loss
+   * buyCosts carries the reconciled buy fee and fills so the exit P&L is net of fees; overrides
+   * replace the configured stops, trailing mode, take-profit ladder and holding time for this trade
    */
-  async startMonitoring(symbol: MarketSymbol, buyPrice: Decimal, quantity: Decimal, investedQuote: Decimal): Promise<void> {
+  async startMonitoring(
+    symbol: MarketSymbol,
+    buyPrice: Decimal,
+    quantity: Decimal,
+    investedQuote: Decimal,
+    buy?: BuyRecord,
+    overrides: TradeOverrides = {}
+  ): Promise<void> {
     // Prevent duplicate monitoring tasks
     if (this.monitoringTasks.has(symbol)) {
       logger.warn(`Already monitoring ${symbol}, skipping duplicate startMonitoring call`);
       return;
     }
 
-    // Initialize trade state
-    const stopLossPrice = buyPrice.mul(new Decimal(1).minus(this.config.stopLossPct.div(100)));
-    const trailingStopPrice = buyPrice.mul(new Decimal(1).minus(this.config.trailingPct.div(100)));
+    // Only a pending buy may be opened; never replace a trade in another state
+    const existing = this.activeTrades.get(symbol);
+    if (existing && !canTransition(existing.status, 'open')) {
+      logger.error(`Cannot start monitoring ${symbol}: trade is ${existing.status}`);
+      return;
+    }
 
-    const trade: TradeState = {
-      market: symbol,
-      buyPrice,
-      quantity,
-      investedQuote,
-      currentPrice: buyPrice,
-      highestPrice: buyPrice,
-      trailingStopPrice,
-      stopLossPrice,
-      startTime: new Date(),
-      lastUpdate: new Date(),
-    };
+    // Initialize trade state
+    const trade = createTradeState(symbol, buyPrice, quantity, investedQuote, {
+      ...this.config,
+      ...overrides,
+    });
+    if (overrides.maxHoldMinutes !== undefined) trade.maxHoldMinutes = overrides.maxHoldMinutes;
+    if (buy) {
+      trade.buyFeeQuote = buy.feeQuote;
+      trade.buyFills = buy.fills;
+      trade.buyOrderId = buy.orderId;
+      if (buy.clientOrderId) trade.buyClientOrderId = buy.clientOrderId;
+    }
 
     this.activeTrades.set(symbol, trade);
     await this.saveActiveTrades();
@@ -348,7 +911,7 @@ export class TradeManager {
   /**
    * Start monitoring for a restored trade (preserves original startTime)
    */
-  private async startMonitoringForRestoredTrade(trade: TradeState): Promise<void> {
+  private startMonitoringForRestoredTrade(trade: TradeState): void {
     // Prevent duplicate monitoring tasks
     if (this.monitoringTasks.has(trade.market)) {
       logger.warn(`Already monitoring ${trade.market}, skipping duplicate startMonitoring call`);
@@ -366,10 +929,42 @@ export class TradeManager {
 
   /**
    * Monitor trade with trailing stop-loss logic
+   *
+   * Every tick from the price feed is evaluated as it arrives. The feed (a shared PriceHub
+   * by default) falls back to REST polling when no streamed ticks arrive.
    */
   private async monitorTrade(symbol: MarketSymbol, signal: AbortSignal): Promise<void> {
     logger.info(`Started monitoring ${symbol}`);
 
+    const ticks: Decimal[] = [];
+    let wake: (() => void) | null = null;
+    const unsubscribe = this.prices.subscribe(symbol, (tick) => {
+      ticks.push(tick.price);
+      wake?.();
+    });
+
+    // Resolve on the next streamed tick, the timeout or abort
+    const waitForTick = (ms: number): Promise<void> =>
+      new Promise((resolve) => {
+        if (ticks.length > 0 || signal.aborted) {
+          resolve();
+          return;
+        }
+        const done = (): void => {
+          clearTimeout(timeout);
+          signal.removeEventListener('abort', done);
+          wake = null;
+          resolve();
+        };
+        const timeout = setTimeout(done, ms);
+        signal.addEventListener('abort', done);
+        wake = done;
+      });
+
+    let lastSave = 0;
+    let lastTrailRefresh = 0;
+    let dirty = false;
+
     while (!signal.aborted && !this.shuttingDown) {
       try {
         const trade = this.activeTrades.get(symbol);
@@ -378,92 +973,258 @@ export class TradeManager {
           break;
         }
 
-        // Get current price
-        const priceStr = await this.api.getPrice(symbol);
-        if (!priceStr) {
-          logger.warn(`Failed to get price for ${symbol}, retrying...`);
-          await this.sleep(this.config.checkInterval * 1000, signal);
-          continue;
+        // Re-size the volatility trail as new candles close (left alone while paused)
+        if (
+          trade.trailingMode === 'atr' &&
+          !trade.pausedAt &&
+          Date.now() - lastTrailRefresh >= ATR_REFRESH_MS
+        ) {
+          lastTrailRefresh = Date.now();
+          if (await this.refreshVolatilityTrail(trade)) dirty = true;
         }
 
-        const currentPrice = new Decimal(priceStr);
-        trade.currentPrice = currentPrice;
-        trade.lastUpdate = new Date();
-
-        // Update highest price and trailing stop
-        if (currentPrice.gt(trade.highestPrice)) {
-          trade.highestPrice = currentPrice;
-          trade.trailingStopPrice = currentPrice.mul(
-            new Decimal(1).minus(this.config.trailingPct.div(100))
-          );
-          logger.info(
-            `${symbol} new high: ${currentPrice.toString()}, trailing stop: ${trade.trailingStopPrice.toString()}`
-          );
+        if (ticks.length > 0) {
+          let exited = false;
+          for (const currentPrice of ticks.splice(0)) {
+            exited = await this.handlePrice(symbol, trade, currentPrice);
+            if (exited) break;
+          }
+          if (exited) break;
+          dirty = true;
         }
 
-        // Check stop conditions
-        const profitPct = trade.currentPrice.minus(trade.buyPrice).div(trade.buyPrice).mul(100);
-
-        // Triggered trailing stop (profit protection)
-        if (currentPrice.lt(trade.trailingStopPrice) && currentPrice.gt(trade.buyPrice)) {
-          logger.info(
-            `${symbol} triggered trailing stop at ${currentPrice.toString()} (profit: ${profitPct.toFixed(2)}%)`
-          );
-          await this.executeSell(symbol, 'trailing_stop');
-          break;
+        // Save state periodically (at most once per check interval)
+        if (dirty && Date.now() - lastSave >= this.config.checkInterval * 1000) {
+          await this.saveActiveTrades();
+          lastSave = Date.now();
+          dirty = false;
         }
 
-        // Triggered stop loss (loss protection)
-        if (currentPrice.lt(trade.stopLossPrice)) {
-          logger.warn(
-            `${symbol} triggered stop loss at ${currentPrice.toString()} (loss: ${profitPct.toFixed(2)}%)`
-          );
-          await this.executeSell(symbol, 'stop_loss');
-          break;
-        }
-
-        // Save state periodically
-        await this.saveActiveTrades();
-
-        // Wait before next check
-        await this.sleep(this.config.checkInterval * 1000, signal);
+        await waitForTick(this.config.checkInterval * 1000);
       } catch (error) {
         logger.error(`Error monitoring ${symbol}: ${String(error)}`);
         await this.sleep(this.config.retryDelay * 1000, signal);
       }
     }
 
+    unsubscribe();
     logger.info(`Stopped monitoring ${symbol}`);
   }
 
   /**
-   * Execute sell order and record completed trade
+   * Size the trail of an 'atr' mode trade from recent 1m candles
+   * Returns true if the trail changed; without candles the current trail is kept
+   */
+  private async refreshVolatilityTrail(trade: TradeState): Promise<boolean> {
+    const { atrPeriod, atrMultiplier } = this.config;
+    const data = await this.api.getKlines(trade.market, '1m', atrPeriod + 1);
+    const pct = data ? atrTrailingPct(parseKlines(data), atrPeriod, atrMultiplier) : null;
+    if (!pct) {
+      logger.debug(`No klines for ${trade.market}, keeping the current trail`);
+      return false;
+    }
+
+    const previous = trailingPctFor(trade, this.config);
+    const previousStop = trade.trailingStopPrice;
+    applyVolatilityTrail(trade, pct);
+    if (trade.trailingStopPrice.eq(previousStop)) return false;
+
+    logger.info(
+      `${trade.market} ATR trail ${previous.toFixed(2)}% -> ${trailingPctFor(trade, this.config).toFixed(2)}%, trailing stop: ${trade.trailingStopPrice.toString()}`
+    );
+    return true;
+  }
+
+  /**
+   * Apply one price to a trade; returns true if a stop was triggered and the trade closed
    */
-  private async executeSell(
+  private async handlePrice(
     symbol: MarketSymbol,
-    reason: 'stop_loss' | 'trailing_stop' | 'manual'
-  ): Promise<void> {
+    trade: TradeState,
+    currentPrice: Decimal
+  ): Promise<boolean> {
+    // A paused trade only follows the price; its stops resume from the next tick after resuming
+    if (trade.pausedAt) {
+      trade.currentPrice = currentPrice;
+      trade.lastUpdate = new Date();
+      botEvents.publish({ type: 'trade_update', trade: serializeTrade(trade) });
+      return false;
+    }
+
+    // Update highest price / trailing stop and check stop conditions
+    const { newHigh, tightened, exit, profitPct, breakEven } = applyPriceTick(
+      trade,
+      currentPrice,
+      this.config
+    );
+    const takeProfit = exit ? null : dueTakeProfit(trade);
+    botEvents.publish({ type: 'trade_update', trade: serializeTrade(trade) });
+
+    // Back off between attempts after a failed sell
+    if (
+      (exit || takeProfit !== null) &&
+      trade.status === 'sell_failed' &&
+      Date.now() - trade.statusChangedAt.getTime() < this.config.retryDelay * 1000
+    ) {
+      return false;
+    }
+
+    if (newHigh) {
+      logger.info(
+        `${symbol} new high: ${currentPrice.toString()}, trailing stop: ${trade.trailingStopPrice.toString()}`
+      );
+      botEvents.publish({
+        type: 'new_high',
+        market: symbol,
+        price: currentPrice.toString(),
+        trailingStopPrice: trade.trailingStopPrice.toString(),
+      });
+    }
+
+    if (tightened) {
+      logger.info(
+        `${symbol} trail tightened to ${trailingPctFor(trade, this.config).toFixed(2)}%, trailing stop: ${trade.trailingStopPrice.toString()}`
+      );
+      await this.saveActiveTrades();
+    }
+
+    if (breakEven) {
+      logger.info(
+        `${symbol} up ${this.config.breakEvenTriggerPct?.toString()}% from entry, stop-loss moved to break-even at ${trade.stopLossPrice.toString()}`
+      );
+      await this.saveActiveTrades();
+    }
+
+    if (exit || takeProfit !== null) {
+      botEvents.publish({
+        type: 'stop_triggered',
+        market: symbol,
+        reason: exit ?? 'take_profit',
+        price: currentPrice.toString(),
+      });
+    }
+
+    // Triggered trailing stop (profit protection)
+    if (exit === 'trailing_stop') {
+      logger.info(
+        `${symbol} triggered trailing stop at ${currentPrice.toString()} (profit: ${profitPct.toFixed(2)}%)`
+      );
+      return await this.executeSell(symbol, 'trailing_stop');
+    }
+
+    // Triggered stop loss (loss protection)
+    if (exit === 'stop_loss') {
+      logger.warn(
+        `${symbol} triggered stop loss at ${currentPrice.toString()} (loss: ${profitPct.toFixed(2)}%)`
+      );
+      return await this.executeSell(symbol, 'stop_loss');
+    }
+
+    // Held for the maximum holding time
+    if (exit === 'time_exit') {
+      logger.info(
+        `${symbol} held for ${maxHoldMinutesFor(trade, this.config)} minutes, exiting at ${currentPrice.toString()} (profit: ${profitPct.toFixed(2)}%)`
+      );
+      return await this.executeSell(symbol, 'time_exit');
+    }
+
+    // Reached the next take-profit level (partial exit)
+    if (takeProfit !== null) {
+      return await this.executeTakeProfit(symbol, trade, takeProfit);
+    }
+
+    return false;
+  }
+
+  /**
+   * Sell the share of the position set by take-profit level `levelIndex`
+   * The rest stays open under the trailing stop; a level covering everything left closes the
+   * trade. Returns true once the trade is closed
+   */
+  private async executeTakeProfit(
+    symbol: MarketSymbol,
+    trade: TradeState,
+    levelIndex: number
+  ): Promise<boolean> {
+    const level = trade.takeProfitLevels[levelIndex];
+    if (!level) return false;
+
+    logger.info(
+      `${symbol} reached take-profit ${levelIndex + 1} at ${trade.currentPrice.toString()} (+${level.gainPct.toString()}%), selling ${level.sellPct.toString()}% of the position`
+    );
+
+    const quantity = takeProfitQuantity(trade, levelIndex);
+    if (!quantity) {
+      return await this.executeSell(symbol, 'take_profit');
+    }
+
+    if (!this.setStatus(trade, 'pending_sell')) return false;
+    await this.saveActiveTrades();
+
+    const clientOrderId = clientOrderIdFor('SELL', symbol, trade.startTime, levelIndex + 1);
+    const sellResult = await this.placeMarketSell(
+      symbol,
+      quantity,
+      clientOrderId,
+      trade.currentPrice,
+      true
+    );
+
+    if (!sellResult.success) {
+      const error = describeExchangeError(sellResult.error);
+      if (sellResult.error.kind === 'invalid_order') {
+        // Slice below the exchange minimums: later levels and the stops handle the rest
+        logger.warn(`Skipping take-profit ${levelIndex + 1} for ${symbol}: ${error}`);
+        trade.takeProfitsHit = levelIndex + 1;
+        this.setStatus(trade, 'open');
+        await this.saveActiveTrades();
+      } else {
+        logger.error(`Failed to execute take-profit sell for ${symbol}: ${error}`);
+        await this.failSell(trade, error);
+      }
+      return false;
+    }
+
+    const record = takePartialExit(
+      trade,
+      sellResult.data.quantity,
+      sellResult.data.avgPrice,
+      levelIndex,
+      sellResult.data
+    );
+    await this.appendCompletedTrade(record);
+    logger.info(
+      `Recorded partial exit: ${symbol} ${record.quantity} sold at ${record.profitLossPct}% net, ${trade.quantity.toString()} left (realised ${trade.realizedProfitLossQuote.toFixed(4)} ${this.config.quoteCurrency})`
+    );
+
+    this.setStatus(trade, 'open');
+    await this.saveActiveTrades();
+    return false;
+  }
+
+  /**
+   * Execute sell order and record completed trade
+   * Returns true once the trade is closed; a failed sell leaves it active as sell_failed
+   */
+  private async executeSell(symbol: MarketSymbol, reason: TriggerReason): Promise<boolean> {
     const trade = this.activeTrades.get(symbol);
     if (!trade) {
       logger.error(`Cannot sell ${symbol}: trade not found`);
-      return;
+      return false;
     }
 
-    // Extract base asset from symbol (e.g., NPCUSDC -> NPC)
-    // Need to get the symbol info to know the actual base asset
-    const exchangeInfo = await this.api.getExchangeInfo();
-    if (!exchangeInfo) {
-      logger.error(`Cannot fetch exchange info for ${symbol}`);
-      return;
-    }
+    if (!this.setStatus(trade, 'pending_sell')) return false;
+    await this.saveActiveTrades();
 
-    const symbolInfo = exchangeInfo.symbols.find((s) => s.symbol === symbol);
-    if (!symbolInfo) {
-      logger.error(`Symbol ${symbol} not found in exchange info`);
-      return;
+    // Symbol rules carry the base asset (e.g., NPCUSDC -> NPC) and the lot step
+    const rules = await this.api.getSymbolRules(symbol);
+    if (!rules) {
+      logger.error(`Cannot fetch symbol rules for ${symbol}`);
+      await this.failSell(trade, 'Symbol rules unavailable');
+      return false;
     }
 
-    const baseAsset = symbolInfo.baseAsset;
+    const baseAsset = rules.baseAsset;
 
     // Fetch actual account balance to avoid "Oversold" errors
     const actualBalanceStr = await this.api.getAccountBalance(baseAsset);
@@ -474,105 +1235,108 @@ export class TradeManager {
 
       // If balance is zero/not found, assume trade already sold and clean up
       logger.info(`Removing ${symbol} from active trades (no balance to sell)`);
-      this.activeTrades.delete(symbol);
-      this.monitoringTasks.get(symbol)?.abort();
-      this.monitoringTasks.delete(symbol);
-      await this.saveActiveTrades();
-      return;
+      await this.closeTrade(trade);
+      return true;
     }
 
     const actualBalance = new Decimal(actualBalanceStr);
 
     // Check if balance is essentially zero (dust)
     if (actualBalance.lessThan('0.00000001')) {
-      logger.info(`Balance for ${baseAsset} is dust (${actualBalance.toString()}), cleaning up trade`);
-      this.activeTrades.delete(symbol);
-      this.monitoringTasks.get(symbol)?.abort();
-      this.monitoringTasks.delete(symbol);
-      await this.saveActiveTrades();
-      return;
-    }
-
-    // Apply aggressive safety margin (98% of actual balance) to account for fees, dust, and rounding
-    // MEXC charges maker/taker fees which reduce the actual balance below what we think we bought
-    const safetyMargin = new Decimal('0.98');
-    const safeQuantity = actualBalance.mul(safetyMargin);
-
-    // Get symbol precision and round quantity
-    const precision = await this.api.getSymbolPrecision(symbol);
-    let roundedQuantity: Decimal;
-
-    if (precision === null) {
-      logger.warn(
-        `Cannot get precision for ${symbol}, attempting sell with full quantity (exchange may reject)`
-      );
-      roundedQuantity = safeQuantity;
-    } else {
-      // Round quantity DOWN to the correct decimal places
-      roundedQuantity = safeQuantity.toDecimalPlaces(precision, Decimal.ROUND_DOWN);
-
-      // If the balance is very small, we might round down to zero
-      if (roundedQuantity.isZero()) {
-        logger.error(`Rounded quantity is zero for ${symbol}, balance too small to sell`);
-        return;
-      }
-
       logger.info(
-        `Selling ${symbol}: stored=${trade.quantity.toString()}, actual=${actualBalance.toString()}, safe=${roundedQuantity.toString()} (precision: ${precision}, margin: 98%)`
+        `Balance for ${baseAsset} is dust (${actualBalance.toString()}), cleaning up trade`
       );
+      await this.closeTrade(trade);
+      return true;
     }
 
-    const sellPrice = await this.placeMarketSell(symbol, roundedQuantity);
-    if (!sellPrice) {
-      logger.error(`Failed to execute sell for ${symbol}`);
-      return;
+    // Sell the full free balance (net of the buy fee); normalisation rounds it down to the lot step
+    logger.info(
+      `Selling ${symbol}: stored=${trade.quantity.toString()}, actual=${actualBalance.toString()} (step: ${rules.stepSize.toString()})`
+    );
+
+    // Derived from the trade start so a restarted bot finds a sell it sent before stopping
+    const clientOrderId = clientOrderIdFor('SELL', symbol, trade.startTime);
+    const sellResult = await this.placeMarketSell(
+      symbol,
+      actualBalance,
+      clientOrderId,
+      trade.currentPrice,
+      true
+    );
+    if (!sellResult.success) {
+      const error = describeExchangeError(sellResult.error);
+      logger.error(`Failed to execute sell for ${symbol}: ${error}`);
+      await this.failSell(trade, error);
+      return false;
     }
 
     // Record completed trade
-    await this.recordCompletedTrade(symbol, sellPrice, reason);
+    await this.recordCompletedTrade(symbol, sellResult.data, reason);
 
-    // Remove from active trades
-    this.activeTrades.delete(symbol);
-    this.monitoringTasks.get(symbol)?.abort();
-    this.monitoringTasks.delete(symbol);
+    await this.closeTrade(trade);
+    return true;
+  }
+
+  /**
+   * Mark a sell attempt as failed; the trade stays monitored and the sell is retried on the
+   * next stop trigger after retryDelay
+   */
+  private async failSell(trade: TradeState, error: string): Promise<void> {
+    this.setStatus(trade, 'sell_failed', error);
+    await this.saveActiveTrades();
+  }
 
+  /**
+   * Close a sold trade: remove it from active trades and stop its monitoring
+   */
+  private async closeTrade(trade: TradeState): Promise<void> {
+    this.setStatus(trade, 'closed');
+    this.activeTrades.delete(trade.market);
+    this.monitoringTasks.get(trade.market)?.abort();
+    this.monitoringTasks.delete(trade.market);
     await this.saveActiveTrades();
   }
 
+  /**
+   * Apply a lifecycle transition, refusing (and logging) transitions that are not allowed
+   */
+  private setStatus(trade: TradeState, status: TradeStatus, error?: string): boolean {
+    const from = trade.status;
+    if (!transitionTrade(trade, status, error)) {
+      logger.error(`${trade.market}: invalid status change ${from} -> ${status}`);
+      return false;
+    }
+    logger.debug(`${trade.market}: ${from} -> ${status}`);
+    return true;
+  }
+
   /**
    * Record a completed trade
    */
   private async recordCompletedTrade(
     symbol: MarketSymbol,
-    sellPrice: Decimal,
-    reason: 'stop_loss' | 'trailing_stop' | 'manual'
+    sell: SellFill,
+    reason: TriggerReason
   ): Promise<void> {
     const trade = this.activeTrades.get(symbol);
     if (!trade) return;
 
-    const profitPct = sellPrice.minus(trade.buyPrice).div(trade.buyPrice).mul(100);
-    const profitQuote = profitPct.div(100).mul(trade.investedQuote);
-    const duration = (Date.now() - trade.startTime.getTime()) / 3600000; // hours
-
-    const completedTrade: CompletedTrade = {
-      ...this.serializeTrade(trade),
-      sellPrice: sellPrice.toString(),
-      sellTime: new Date().toISOString(),
-      profitLossPct: profitPct.toFixed(2),
-      profitLossQuote: profitQuote.toFixed(4),
-      triggerReason: reason,
-      durationHours: duration.toFixed(1),
-    };
-
-    const completedTrades = await loadJson<CompletedTrade[]>(COMPLETED_TRADES_FILE, []);
-    completedTrades.push(completedTrade);
-    await saveJson(COMPLETED_TRADES_FILE, completedTrades);
+    const completedTrade = buildCompletedTrade(trade, sell.avgPrice, reason, new Date(), sell);
+    await this.appendCompletedTrade(completedTrade);
 
     logger.info(
-      `Recorded completed trade: ${symbol} ${profitPct.toFixed(2)}% (${reason})`
+      `Recorded completed trade: ${symbol} ${completedTrade.profitLossPct}% net, fees ${completedTrade.fees?.total} (${reason})`
     );
   }
 
+  private async appendCompletedTrade(record: CompletedTrade): Promise<void> {
+    const completedTrades = await loadJson<CompletedTrade[]>(COMPLETED_TRADES_FILE, []);
+    completedTrades.push(record);
+    await saveJson(COMPLETED_TRADES_FILE, completedTrades);
+    botEvents.publish({ type: 'trade_closed', trade: record });
+  }
+
   /**
    * Stop monitoring a specific trade
    */
@@ -582,6 +1346,89 @@ export class TradeManager {
     logger.info(`Stopped monitoring ${symbol}`);
   }
 
+  /**
+   * Sell a trade at market now, whatever its stops say (also when paused)
+   */
+  async sellManually(symbol: MarketSymbol): Promise<Result<string, string>> {
+    const trade = this.activeTrades.get(symbol);
+    if (!trade) return { success: false, error: `No active trade for ${symbol}` };
+    if (!canTransition(trade.status, 'pending_sell')) {
+      return { success: false, error: `Cannot sell ${symbol} while it is ${trade.status}` };
+    }
+
+    logger.warn(`${symbol} manual sell requested at ${trade.currentPrice.toString()}`);
+    if (await this.executeSell(symbol, 'manual')) {
+      return { success: true, data: `Sold ${symbol}` };
+    }
+    return { success: false, error: trade.lastError ?? `Failed to sell ${symbol}` };
+  }
+
+  /**
+   * Suspend the automatic exits (stops, take-profits, time exit) of a trade
+   */
+  async pauseTrade(symbol: MarketSymbol): Promise<Result<string, string>> {
+    const trade = this.activeTrades.get(symbol);
+    if (!trade) return { success: false, error: `No active trade for ${symbol}` };
+    if (trade.pausedAt) return { success: true, data: `${symbol} is already paused` };
+
+    trade.pausedAt = new Date();
+    await this.saveActiveTrades();
+    logger.warn(`${symbol} paused: automatic exits suspended`);
+    return { success: true, data: `Paused ${symbol}` };
+  }
+
+  /**
+   * Re-enable the automatic exits of a paused trade
+   */
+  async resumeTrade(symbol: MarketSymbol): Promise<Result<string, string>> {
+    const trade = this.activeTrades.get(symbol);
+    if (!trade) return { success: false, error: `No active trade for ${symbol}` };
+    if (!trade.pausedAt) return { success: true, data: `${symbol} is not paused` };
+
+    delete trade.pausedAt;
+    await this.saveActiveTrades();
+    logger.info(`${symbol} resumed: automatic exits active again`);
+    return { success: true, data: `Resumed ${symbol}` };
+  }
+
+  /**
+   * Change the stop-loss, trailing percentage or remaining take-profit levels of a trade
+   * Every changed field is written to the audit log with its source (api, cli)
+   */
+  async editStops(
+    symbol: MarketSymbol,
+    request: StopEditRequest,
+    source: string
+  ): Promise<Result<string, string>> {
+    const trade = this.activeTrades.get(symbol);
+    if (!trade) return { success: false, error: `No active trade for ${symbol}` };
+
+    const edits = parseStopEdits(request);
+    if (!edits.success) return edits;
+
+    const now = new Date();
+    const applied = applyStopEdits(trade, edits.data, this.config, now);
+    if (!applied.success) return applied;
+
+    const changes = applied.data;
+    if (changes.length === 0) return { success: true, data: `No changes for ${symbol}` };
+
+    await this.saveActiveTrades();
+    await appendAuditEntries(
+      changes.map((change) => ({
+        ...change,
+        time: now.toISOString(),
+        market: symbol,
+        tradeId: trade.tradeId,
+        source,
+      }))
+    );
+
+    const summary = changes.map((c) => `${c.field} ${c.from || '-'} -> ${c.to || '-'}`).join(', ');
+    logger.warn(`${symbol} stops edited (${source}): ${summary}`);
+    return { success: true, data: `Updated ${symbol}: ${summary}` };
+  }
+
   /**
    * Prepare for shutdown (preserve active trades)
    */
@@ -616,6 +1463,13 @@ export class TradeManager {
     return this.activeTrades.size;
   }
 
+  /**
+   * Snapshot of the active trades as saved to disk, including unsaved price updates
+   */
+  getActiveTrades(): SerializedTradeState[] {
+    return Array.from(this.activeTrades.values()).map((trade) => serializeTrade(trade));
+  }
+
   /**
    * Interruptible sleep
    */
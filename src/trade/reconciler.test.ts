@@ -0,0 +1,183 @@
+import Decimal from 'decimal.js';
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { clientOrderIdFor } from './client-order-id.js';
+import { reconcileTrades } from './reconciler.js';
+import { createTradeState } from './strategy.js';
+import type { ExchangeClient } from '../api/exchange-client.js';
+import type { AccountTrade, MarketSymbol, TradeState } from '../types.js';
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const NOW = new Date('2026-01-02T12:00:00Z');
+const STOPS = { stopLossPct: new Decimal(20), trailingPct: new Decimal(10) };
+
+function trade(symbol: string, quantity: string): TradeState {
+  return createTradeState(
+    symbol as MarketSymbol,
+    new Decimal(2),
+    new Decimal(quantity),
+    new Decimal(quantity).mul(2),
+    STOPS,
+    new Date('2026-01-02T10:00:00Z')
+  );
+}
+
+function accountTrade(fields: Partial<AccountTrade>): AccountTrade {
+  return {
+    symbol: 'AAAUSDT',
+    id: '1',
+    orderId: '1',
+    price: '3',
+    qty: '10',
+    quoteQty: '30',
+    commission: '0.03',
+    commissionAsset: 'USDT',
+    time: new Date('2026-01-02T11:00:00Z').getTime(),
+    isBuyer: false,
+    isMaker: false,
+    isBestMatch: true,
+    ...fields,
+  };
+}
+
+describe('reconcileTrades', () => {
+  let api: jest.Mocked<ExchangeClient>;
+
+  beforeEach(() => {
+    api = {
+      getAccount: jest.fn(),
+      getSymbolInfo: jest.fn<ExchangeClient['getSymbolInfo']>().mockResolvedValue(null),
+      getSymbolRules: jest.fn<ExchangeClient['getSymbolRules']>().mockResolvedValue(null),
+      getMyTrades: jest.fn<ExchangeClient['getMyTrades']>().mockResolvedValue([]),
+      getAllPrices: jest.fn<ExchangeClient['getAllPrices']>().mockResolvedValue([]),
+    } as unknown as jest.Mocked<ExchangeClient>;
+  });
+
+  it('should keep trades whose balance matches', async () => {
+    api.getAccount.mockResolvedValue({
+      balances: [{ asset: 'AAA', free: '9.95', locked: '0.05' }],
+    });
+
+    const result = await reconcileTrades(api, [trade('AAAUSDT', '10')], 'USDT', NOW);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.report.discrepancies).toBe(0);
+    expect(result.report.entries[0]?.status).toBe('ok');
+  });
+
+  it('should close trades sold outside the bot and record the manual exit', async () => {
+    api.getAccount.mockResolvedValue({ balances: [] });
+    api.getMyTrades.mockResolvedValue([accountTrade({})]);
+
+    const result = await reconcileTrades(api, [trade('AAAUSDT', '10')], 'USDT', NOW);
+
+    expect(result.trades).toHaveLength(0);
+    expect(result.completed).toHaveLength(1);
+    expect(result.completed[0]).toMatchObject({
+      market: 'AAAUSDT',
+      sellPrice: '3',
+      triggerReason: 'manual',
+      fees: { sell: '0.0300' },
+    });
+    expect(result.report.entries[0]).toMatchObject({
+      status: 'sold_externally',
+      action: 'closed',
+    });
+  });
+
+  it('should leave out the take-profit sells already recorded', async () => {
+    const held = trade('AAAUSDT', '10');
+    held.takeProfitLevels = [{ gainPct: new Decimal(50), sellPct: new Decimal(40) }];
+    held.takeProfitsHit = 1;
+    held.quantity = new Decimal(6);
+    const takeProfitId = clientOrderIdFor('SELL', 'AAAUSDT', held.startTime, 1);
+    api.getAccount.mockResolvedValue({ balances: [] });
+    api.getMyTrades.mockResolvedValue([
+      accountTrade({ id: '1', orderId: '1', price: '3', qty: '4', clientOrderId: takeProfitId }),
+      accountTrade({
+        id: '2',
+        orderId: '2',
+        price: '2.5',
+        qty: '5.9', // The rest is dust
+        quoteQty: '14.75',
+        time: new Date('2026-01-02T11:30:00Z').getTime(),
+      }),
+    ]);
+
+    const result = await reconcileTrades(api, [held], 'USDT', NOW);
+
+    expect(result.completed[0]).toMatchObject({ sellPrice: '2.5', triggerReason: 'manual' });
+    expect(result.completed[0]?.sellFills?.map((fill) => fill.orderId)).toEqual(['2']);
+  });
+
+  it('should count an exit the bot sent but never recorded', async () => {
+    const held = trade('AAAUSDT', '10');
+    api.getAccount.mockResolvedValue({ balances: [] });
+    api.getMyTrades.mockResolvedValue([
+      accountTrade({ clientOrderId: clientOrderIdFor('SELL', 'AAAUSDT', held.startTime) }),
+    ]);
+
+    const result = await reconcileTrades(api, [held], 'USDT', NOW);
+
+    expect(result.completed[0]).toMatchObject({ sellPrice: '3', triggerReason: 'manual' });
+  });
+
+  it('should scale partially sold trades down to the held quantity', async () => {
+    api.getAccount.mockResolvedValue({ balances: [{ asset: 'AAA', free: '4', locked: '0' }] });
+
+    const result = await reconcileTrades(api, [trade('AAAUSDT', '10')], 'USDT', NOW);
+
+    expect(result.trades[0]?.quantity.toString()).toBe('4');
+    expect(result.trades[0]?.investedQuote.toString()).toBe('8');
+    expect(result.report.entries[0]).toMatchObject({
+      status: 'partially_sold',
+      action: 'adjusted',
+    });
+  });
+
+  it('should report recently bought balances without an active trade', async () => {
+    api.getAccount.mockResolvedValue({
+      balances: [
+        { asset: 'USDT', free: '500', locked: '0' },
+        { asset: 'NEW', free: '100', locked: '0' },
+        { asset: 'OLD', free: '100', locked: '0' },
+      ],
+    });
+    api.getAllPrices.mockResolvedValue([
+      { symbol: 'NEWUSDT', price: '0.5' },
+      { symbol: 'OLDUSDT', price: '0.5' },
+    ]);
+    api.getMyTrades.mockImplementation(async (symbol) =>
+      symbol === 'NEWUSDT'
+        ? [accountTrade({ symbol, isBuyer: true })]
+        : [accountTrade({ symbol, isBuyer: true, time: NOW.getTime() - 3 * 24 * 3600 * 1000 })]
+    );
+
+    const result = await reconcileTrades(api, [], 'USDT', NOW);
+
+    expect(result.report.entries).toHaveLength(1);
+    expect(result.report.entries[0]).toMatchObject({
+      symbol: 'NEWUSDT',
+      status: 'untracked_position',
+      action: 'reported',
+      exchangeQuantity: '100',
+    });
+  });
+
+  it('should keep trades unverified when balances are unavailable', async () => {
+    api.getAccount.mockResolvedValue(null);
+
+    const result = await reconcileTrades(api, [trade('AAAUSDT', '10')], 'USDT', NOW);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.report.entries[0]?.status).toBe('check_failed');
+  });
+});
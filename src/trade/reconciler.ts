@@ -0,0 +1,309 @@
+import Decimal from 'decimal.js';
+import { ExchangeClient } from '../api/exchange-client.js';
+import { AccountInfo, CompletedTrade, TradeFill, TradeState } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { clientOrderIdFor, isBotClientOrderId } from './client-order-id.js';
+import { summarizeFills, toTradeFill } from './fills.js';
+import { buildCompletedTrade } from './strategy.js';
+
+const QUANTITY_TOLERANCE = new Decimal('0.01'); // 1% covers fee and lot-step rounding
+const UNTRACKED_LOOKBACK_MS = 24 * 60 * 60 * 1000; // Only recent buys count as the bot's
+const UNTRACKED_MIN_VALUE = new Decimal(1); // Ignore balances worth less than one quote unit
+
+/**
+ * Outcome of checking one trade (or untracked balance) against the exchange
+ */
+export type ReconciliationStatus =
+  | 'ok'
+  | 'sold_externally' // Balance gone, e.g. sold manually on the web UI
+  | 'partially_sold' // Balance below the stored quantity
+  | 'excess_balance' // Balance above the stored quantity (kept as stored)
+  | 'untracked_position' // Recently bought balance without an active trade
+  | 'check_failed'; // Exchange data unavailable, trade kept unverified
+
+/**
+ * What reconciliation did about it
+ */
+export type ReconciliationAction = 'kept' | 'adjusted' | 'closed' | 'reported';
+
+export interface ReconciliationEntry {
+  symbol: string;
+  status: ReconciliationStatus;
+  action: ReconciliationAction;
+  expectedQuantity: string | null; // Stored quantity net of base-asset fees (null if untracked)
+  exchangeQuantity: string | null; // null when the balance could not be read
+  message: string;
+}
+
+/**
+ * Startup reconciliation report (persisted for the API server)
+ */
+export interface ReconciliationReport {
+  time: string; // ISO string
+  restored: number; // Trades loaded from active_trades.json
+  discrepancies: number; // Entries with a status other than 'ok'
+  entries: ReconciliationEntry[];
+}
+
+export interface ReconciliationResult {
+  trades: TradeState[]; // Trades to keep monitoring (quantities fixed where needed)
+  completed: CompletedTrade[]; // Trades found sold outside the bot, with their sell fills
+  report: ReconciliationReport;
+}
+
+/**
+ * Compare restored trades with account balances and recent fills
+ *
+ * Trades whose balance is gone are closed (recorded as 'manual' exits when the sell
+ * fills are found), partially sold trades are scaled down to the held quantity, and
+ * recently bought balances without a trade (e.g. bought right before a crash) are
+ * reported. Nothing is bought or sold here.
+ */
+export async function reconcileTrades(
+  api: ExchangeClient,
+  trades: TradeState[],
+  quoteCurrency: string,
+  now: Date = new Date()
+): Promise<ReconciliationResult> {
+  const entries: ReconciliationEntry[] = [];
+  const kept: TradeState[] = [];
+  const completed: CompletedTrade[] = [];
+
+  const account = await api.getAccount();
+  if (!account) {
+    for (const trade of trades) {
+      entries.push({
+        symbol: trade.market,
+        status: 'check_failed',
+        action: 'kept',
+        expectedQuantity: trade.quantity.toString(),
+        exchangeQuantity: null,
+        message: 'Account balances unavailable, trade kept unverified',
+      });
+    }
+    return { trades, completed, report: buildReport(trades.length, entries, now) };
+  }
+
+  const holdings = holdingsOf(account);
+  const trackedAssets = new Set<string>();
+
+  for (const trade of trades) {
+    const rules = await api.getSymbolRules(trade.market);
+    const baseAsset = rules?.baseAsset ?? baseAssetOf(trade.market, quoteCurrency);
+    trackedAssets.add(baseAsset);
+
+    const held = holdings.get(baseAsset) ?? new Decimal(0);
+    const expected = expectedHolding(trade, baseAsset);
+    const entry = {
+      symbol: trade.market,
+      expectedQuantity: expected.toString(),
+      exchangeQuantity: held.toString(),
+    };
+
+    // Anything below the exchange minimums cannot be sold and counts as gone
+    const minNotional = rules?.minNotional ?? new Decimal(0);
+    const minQty = rules?.minQty ?? new Decimal(0);
+    if (held.lte(0) || held.lt(minQty) || held.mul(trade.currentPrice).lt(minNotional)) {
+      const exit = await findExternalExit(api, trade, expected, baseAsset, quoteCurrency);
+      if (exit) completed.push(exit);
+      entries.push({
+        ...entry,
+        status: 'sold_externally',
+        action: 'closed',
+        message: exit
+          ? `Sold outside the bot at ${exit.sellPrice}, recorded as a manual exit`
+          : 'Balance gone but no sell fills found, trade removed without a completed record',
+      });
+      continue;
+    }
+
+    if (held.lt(expected.mul(new Decimal(1).minus(QUANTITY_TOLERANCE)))) {
+      const ratio = held.div(expected);
+      trade.quantity = trade.quantity.mul(ratio);
+      trade.investedQuote = trade.investedQuote.mul(ratio);
+      trade.buyFeeQuote = trade.buyFeeQuote.mul(ratio);
+      kept.push(trade);
+      entries.push({
+        ...entry,
+        status: 'partially_sold',
+        action: 'adjusted',
+        message: `Only ${held.toString()} of ${expected.toString()} held, trade scaled down to the held quantity`,
+      });
+      continue;
+    }
+
+    kept.push(trade);
+    if (held.gt(expected.mul(new Decimal(1).plus(QUANTITY_TOLERANCE)))) {
+      entries.push({
+        ...entry,
+        status: 'excess_balance',
+        action: 'reported',
+        message: `Holding ${held.toString()} but the trade covers ${expected.toString()}; extra balance is left untouched`,
+      });
+    } else {
+      entries.push({ ...entry, status: 'ok', action: 'kept', message: 'Balance matches' });
+    }
+  }
+
+  entries.push(...(await findUntrackedPositions(api, holdings, trackedAssets, quoteCurrency, now)));
+
+  return { trades: kept, completed, report: buildReport(trades.length, entries, now) };
+}
+
+/**
+ * Log a reconciliation report, one line per discrepancy
+ */
+export function logReconciliationReport(report: ReconciliationReport): void {
+  if (report.discrepancies === 0) {
+    logger.info(`Reconciliation: ${report.restored} restored trade(s) match exchange balances`);
+    return;
+  }
+
+  logger.warn(
+    `Reconciliation: ${report.discrepancies} discrepancy(ies) across ${report.restored} restored trade(s)`
+  );
+  for (const entry of report.entries) {
+    if (entry.status === 'ok') continue;
+    logger.warn(`  ${entry.symbol}: ${entry.status} (${entry.action}) - ${entry.message}`);
+  }
+}
+
+function buildReport(
+  restored: number,
+  entries: ReconciliationEntry[],
+  now: Date
+): ReconciliationReport {
+  return {
+    time: now.toISOString(),
+    restored,
+    discrepancies: entries.filter((entry) => entry.status !== 'ok').length,
+    entries,
+  };
+}
+
+/**
+ * Free plus locked balance per asset
+ */
+function holdingsOf(account: AccountInfo): Map<string, Decimal> {
+  const holdings = new Map<string, Decimal>();
+  for (const balance of account.balances) {
+    holdings.set(balance.asset, new Decimal(balance.free).plus(balance.locked));
+  }
+  return holdings;
+}
+
+function baseAssetOf(symbol: string, quoteCurrency: string): string {
+  return symbol.endsWith(quoteCurrency) ? symbol.slice(0, -quoteCurrency.length) : symbol;
+}
+
+/**
+ * Quantity the trade should still hold: bought quantity minus buy commission taken in the base asset
+ */
+function expectedHolding(trade: TradeState, baseAsset: string): Decimal {
+  let held = trade.quantity;
+  for (const fill of trade.buyFills) {
+    if (fill.commissionAsset === baseAsset) {
+      held = held.minus(fill.commission);
+    }
+  }
+  return held;
+}
+
+/**
+ * Build the completed record for a trade sold outside the bot from its sell fills
+ *
+ * Sells the bot placed are left out (take-profit exits already recorded, surplus burst legs),
+ * except the trade's own exit orders that never got recorded, e.g. a sell sent right before a
+ * crash. The most recent fills covering the remaining quantity are used, so sells already folded
+ * into the trade by an earlier reconciliation do not count again.
+ */
+async function findExternalExit(
+  api: ExchangeClient,
+  trade: TradeState,
+  remaining: Decimal,
+  baseAsset: string,
+  quoteCurrency: string
+): Promise<CompletedTrade | null> {
+  const unrecorded = new Set([clientOrderIdFor('SELL', trade.market, trade.startTime)]);
+  for (let level = trade.takeProfitsHit + 1; level <= trade.takeProfitLevels.length; level++) {
+    unrecorded.add(clientOrderIdFor('SELL', trade.market, trade.startTime, level));
+  }
+
+  const history = await api.getMyTrades(trade.market);
+  const sells = (history ?? [])
+    .filter(
+      (fill) =>
+        !fill.isBuyer &&
+        fill.time >= trade.startTime.getTime() &&
+        (!fill.clientOrderId ||
+          !isBotClientOrderId(fill.clientOrderId) ||
+          unrecorded.has(fill.clientOrderId))
+    )
+    .sort((a, b) => b.time - a.time);
+
+  const covered = remaining.mul(new Decimal(1).minus(QUANTITY_TOLERANCE));
+  let sold = new Decimal(0);
+  const fills: TradeFill[] = [];
+  for (const sell of sells) {
+    if (sold.gte(covered)) break;
+    fills.unshift(toTradeFill(sell));
+    sold = sold.plus(sell.qty);
+  }
+  if (fills.length === 0) return null;
+
+  const summary = summarizeFills(fills, baseAsset, quoteCurrency);
+  const sellTime = new Date(Math.max(...fills.map((fill) => fill.time)));
+  return buildCompletedTrade(trade, summary.avgPrice, 'manual', sellTime, {
+    feeQuote: summary.feeQuote,
+    fills,
+  });
+}
+
+/**
+ * Report balances worth at least UNTRACKED_MIN_VALUE that were bought recently but have no trade
+ */
+async function findUntrackedPositions(
+  api: ExchangeClient,
+  holdings: Map<string, Decimal>,
+  trackedAssets: Set<string>,
+  quoteCurrency: string,
+  now: Date
+): Promise<ReconciliationEntry[]> {
+  const candidates = Array.from(holdings.entries()).filter(
+    ([asset, amount]) => asset !== quoteCurrency && !trackedAssets.has(asset) && amount.gt(0)
+  );
+  if (candidates.length === 0) return [];
+
+  const prices = await api.getAllPrices();
+  if (!prices) {
+    logger.warn('Reconciliation: prices unavailable, skipping untracked balance check');
+    return [];
+  }
+  const priceBySymbol = new Map(prices.map((ticker) => [ticker.symbol, ticker.price]));
+
+  const entries: ReconciliationEntry[] = [];
+  for (const [asset, amount] of candidates) {
+    const symbol = `${asset}${quoteCurrency}`;
+    const price = priceBySymbol.get(symbol);
+    if (!price) continue;
+
+    const value = amount.mul(price);
+    if (value.lt(UNTRACKED_MIN_VALUE)) continue;
+
+    const history = await api.getMyTrades(symbol, 50);
+    const recentBuy = (history ?? []).find(
+      (fill) => fill.isBuyer && fill.time >= now.getTime() - UNTRACKED_LOOKBACK_MS
+    );
+    if (!recentBuy) continue; // Long-held balance, not the bot's
+
+    entries.push({
+      symbol,
+      status: 'untracked_position',
+      action: 'reported',
+      expectedQuantity: null,
+      exchangeQuantity: amount.toString(),
+      message: `Holding ${amount.toString()} ${asset} (~${value.toFixed(2)} ${quoteCurrency}) bought at ${recentBuy.price} on ${new Date(recentBuy.time).toISOString()} without an active trade; sell manually or re-add it`,
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,148 @@
+import Decimal from 'decimal.js';
+import { describe, it, expect, jest } from '@jest/globals';
+import { applyStopEdits, parseStopEdits, StopEdits } from './stop-edits.js';
+import { createTradeState, StopConfig } from './strategy.js';
+import type { MarketSymbol, TradeState } from '../types.js';
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const config: StopConfig = {
+  stopLossPct: new Decimal(20),
+  trailingPct: new Decimal(10),
+  takeProfitLevels: [
+    { gainPct: new Decimal(50), sellPct: new Decimal(30) },
+    { gainPct: new Decimal(100), sellPct: new Decimal(30) },
+  ],
+};
+
+// Bought at 1, ran up to 1.6 and now trades at 1.5 with the first take-profit taken
+function liveTrade(): TradeState {
+  const trade = createTradeState(
+    'AAAUSDT' as MarketSymbol,
+    new Decimal(1),
+    new Decimal(10),
+    new Decimal(10),
+    config
+  );
+  trade.currentPrice = new Decimal(1.5);
+  trade.highestPrice = new Decimal(1.6);
+  trade.trailingStopPrice = new Decimal(1.44);
+  trade.takeProfitsHit = 1;
+  return trade;
+}
+
+function parsed(request: Parameters<typeof parseStopEdits>[0]): StopEdits {
+  const result = parseStopEdits(request);
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+describe('stop edits', () => {
+  it('should reject empty and malformed requests', () => {
+    expect(parseStopEdits({}).success).toBe(false);
+    expect(parseStopEdits({ stopLossPrice: 'abc' }).success).toBe(false);
+    expect(parseStopEdits({ takeProfitLevels: '50' }).success).toBe(false);
+    expect(parseStopEdits({ takeProfitLevels: '' })).toEqual({
+      success: true,
+      data: { takeProfitLevels: [] },
+    });
+  });
+
+  it('should move the stop-loss and record the change', () => {
+    const trade = liveTrade();
+
+    const result = applyStopEdits(trade, parsed({ stopLossPrice: '1.2' }), config);
+
+    expect(result).toEqual({
+      success: true,
+      data: [{ field: 'stopLossPrice', from: '0.8', to: '1.2' }],
+    });
+    expect(trade.stopLossPrice.toString()).toBe('1.2');
+  });
+
+  it('should reject a stop-loss at or above the current price', () => {
+    const trade = liveTrade();
+
+    expect(applyStopEdits(trade, parsed({ stopLossPrice: '1.5' }), config).success).toBe(false);
+    expect(applyStopEdits(trade, parsed({ stopLossPrice: '0' }), config).success).toBe(false);
+    expect(trade.stopLossPrice.toString()).toBe('0.8');
+  });
+
+  it('should recompute the trailing stop and switch an ATR trade to a fixed trail', () => {
+    const trade = liveTrade();
+    trade.trailingMode = 'atr';
+    trade.volatilityTrailPct = new Decimal(8);
+
+    const result = applyStopEdits(trade, parsed({ trailingPct: '12.5' }), config);
+
+    expect(result).toEqual({
+      success: true,
+      data: [{ field: 'trailingPct', from: '8', to: '12.5' }],
+    });
+    expect(trade.trailingMode).toBe('fixed');
+    expect(trade.volatilityTrailPct).toBeUndefined();
+    expect(trade.trailingStopPrice.toString()).toBe('1.4');
+  });
+
+  it('should reject a trail that would put the trailing stop above the current price', () => {
+    const trade = liveTrade();
+
+    const result = applyStopEdits(trade, parsed({ trailingPct: '5' }), config);
+
+    expect(result.success).toBe(false);
+    expect(trade.trailingPct.toString()).toBe('10');
+    expect(trade.trailingStopPrice.toString()).toBe('1.44');
+  });
+
+  it('should replace only the take-profit levels not yet hit', () => {
+    const trade = liveTrade();
+
+    const result = applyStopEdits(trade, parsed({ takeProfitLevels: '80:20,150:50' }), config);
+
+    expect(result).toEqual({
+      success: true,
+      data: [{ field: 'takeProfitLevels', from: '50:30,100:30', to: '50:30,80:20,150:50' }],
+    });
+    expect(trade.takeProfitLevels).toHaveLength(3);
+    expect(applyStopEdits(trade, parsed({ takeProfitLevels: '40:10' }), config).success).toBe(
+      false
+    );
+  });
+
+  it('should apply nothing when one of the edits is invalid', () => {
+    const trade = liveTrade();
+
+    const result = applyStopEdits(
+      trade,
+      parsed({ stopLossPrice: '1.2', takeProfitLevels: '200:80' }),
+      config
+    );
+
+    expect(result.success).toBe(false);
+    expect(trade.stopLossPrice.toString()).toBe('0.8');
+  });
+
+  it('should not record fields that keep their value', () => {
+    const trade = liveTrade();
+
+    expect(applyStopEdits(trade, parsed({ stopLossPrice: '0.8' }), config)).toEqual({
+      success: true,
+      data: [],
+    });
+  });
+
+  it('should refuse to edit a trade that is being sold', () => {
+    const trade = liveTrade();
+    trade.status = 'pending_sell';
+
+    expect(applyStopEdits(trade, parsed({ stopLossPrice: '1.2' }), config).success).toBe(false);
+  });
+});
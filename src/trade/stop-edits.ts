@@ -0,0 +1,144 @@
+import Decimal from 'decimal.js';
+import { isValidLadder, parseTakeProfitLevels, TRADING_CONFIG_RANGES } from '../config.js';
+import { Result, TakeProfitLevel, TradeState } from '../types.js';
+import { StopConfig, trailingPctFor } from './strategy.js';
+
+/**
+ * Requested stop changes for a live trade, as sent by the API server or the CLI
+ */
+export interface StopEditRequest {
+  stopLossPrice?: string;
+  trailingPct?: string;
+  takeProfitLevels?: string; // Levels not yet hit, as gain:sell pairs ("" removes them)
+}
+
+/**
+ * Parsed stop changes; missing fields are left as they are
+ */
+export interface StopEdits {
+  stopLossPrice?: Decimal;
+  trailingPct?: Decimal;
+  takeProfitLevels?: TakeProfitLevel[];
+}
+
+/**
+ * One changed field, as recorded in the audit log
+ */
+export interface StopChange {
+  field: keyof StopEdits;
+  from: string;
+  to: string;
+}
+
+/**
+ * Parse a stop edit request; at least one field must be given
+ */
+export function parseStopEdits(request: StopEditRequest): Result<StopEdits, string> {
+  const edits: StopEdits = {};
+  try {
+    if (request.stopLossPrice !== undefined) {
+      edits.stopLossPrice = new Decimal(request.stopLossPrice);
+    }
+    if (request.trailingPct !== undefined) {
+      edits.trailingPct = new Decimal(request.trailingPct);
+    }
+    if (request.takeProfitLevels !== undefined) {
+      edits.takeProfitLevels = parseTakeProfitLevels(request.takeProfitLevels);
+    }
+  } catch (error) {
+    return { success: false, error: `Invalid stop edit: ${String(error)}` };
+  }
+
+  if (Object.keys(edits).length === 0) {
+    return {
+      success: false,
+      error: 'Nothing to change: give stopLossPrice, trailingPct or takeProfitLevels',
+    };
+  }
+  return { success: true, data: edits };
+}
+
+/**
+ * Validate stop edits against the trade's current price and apply them all, or none
+ *
+ * The stop-loss and the recomputed trailing stop must stay below the current price, so an edit
+ * never sells the trade on its own. A new trailingPct switches an 'atr' trade to a fixed trail
+ * and may move the trailing stop down. New take-profit levels replace the ones not yet hit.
+ */
+export function applyStopEdits(
+  trade: TradeState,
+  edits: StopEdits,
+  config: StopConfig,
+  now: Date = new Date()
+): Result<StopChange[], string> {
+  if (trade.status !== 'open' && trade.status !== 'sell_failed') {
+    return { success: false, error: `Cannot edit ${trade.market} while it is ${trade.status}` };
+  }
+
+  const price = trade.currentPrice;
+  if (edits.stopLossPrice && (edits.stopLossPrice.lte(0) || edits.stopLossPrice.gte(price))) {
+    return {
+      success: false,
+      error: `Stop-loss must be above 0 and below the current price (${price.toString()})`,
+    };
+  }
+
+  let trailingStopPrice = trade.trailingStopPrice;
+  if (edits.trailingPct) {
+    const { min, max } = TRADING_CONFIG_RANGES.trailingPct;
+    if (edits.trailingPct.lt(min) || edits.trailingPct.gt(max)) {
+      return { success: false, error: `Trailing percentage must be between ${min} and ${max}` };
+    }
+    const fixed: TradeState = { ...trade, trailingMode: 'fixed', trailingPct: edits.trailingPct };
+    const pct = trailingPctFor(fixed, config, now);
+    trailingStopPrice = trade.highestPrice.mul(new Decimal(1).minus(pct.div(100)));
+    if (trailingStopPrice.gte(price)) {
+      return {
+        success: false,
+        error: `A ${pct.toString()}% trail puts the trailing stop at ${trailingStopPrice.toString()}, not below the current price (${price.toString()})`,
+      };
+    }
+  }
+
+  const ladder = edits.takeProfitLevels
+    ? [...trade.takeProfitLevels.slice(0, trade.takeProfitsHit), ...edits.takeProfitLevels]
+    : trade.takeProfitLevels;
+  if (!isValidLadder(ladder)) {
+    return {
+      success: false,
+      error:
+        'Take-profit gains must be positive and ascending after the levels already hit, and sell at most 100% in total',
+    };
+  }
+
+  const changes: StopChange[] = [];
+  const record = (field: keyof StopEdits, from: string, to: string): void => {
+    if (from !== to) changes.push({ field, from, to });
+  };
+
+  if (edits.stopLossPrice) {
+    record('stopLossPrice', trade.stopLossPrice.toString(), edits.stopLossPrice.toString());
+    trade.stopLossPrice = edits.stopLossPrice;
+  }
+  if (edits.trailingPct) {
+    const from = trailingPctFor(trade, config, now).toString();
+    trade.trailingMode = 'fixed';
+    delete trade.volatilityTrailPct;
+    trade.trailingPct = edits.trailingPct;
+    trade.trailingStopPrice = trailingStopPrice;
+    record('trailingPct', from, trailingPctFor(trade, config, now).toString());
+  }
+  if (edits.takeProfitLevels) {
+    record('takeProfitLevels', formatLadder(trade.takeProfitLevels), formatLadder(ladder));
+    trade.takeProfitLevels = ladder;
+  }
+
+  return { success: true, data: changes };
+}
+
+/**
+ * Format a take-profit ladder as gain:sell pairs (the TAKE_PROFIT_LEVELS syntax)
+ */
+export function formatLadder(levels: TakeProfitLevel[]): string {
+  return levels.map((level) => `${level.gainPct.toString()}:${level.sellPct.toString()}`).join(',');
+}
@@ -0,0 +1,44 @@
+import Decimal from 'decimal.js';
+import { describe, it, expect } from '@jest/globals';
+import { applyVolatilityTrail, createTradeState, trailingPctFor } from './strategy.js';
+import type { MarketSymbol } from '../types.js';
+
+describe('trailingPctFor', () => {
+  const START = new Date('2026-01-01T12:00:00Z');
+  const config = {
+    stopLossPct: new Decimal(20),
+    trailingPct: new Decimal(10),
+    trailingSchedule: [{ afterMinutes: 30, trailingPct: new Decimal(4) }],
+  };
+  const minutesIn = (minutes: number): Date => new Date(START.getTime() + minutes * 60 * 1000);
+
+  it('should cap the fixed trail once a schedule step is reached', () => {
+    const trade = createTradeState(
+      'AAAUSDT' as MarketSymbol,
+      new Decimal(1),
+      new Decimal(10),
+      new Decimal(10),
+      config,
+      START
+    );
+
+    expect(trailingPctFor(trade, config, minutesIn(10)).toString()).toBe('10');
+    expect(trailingPctFor(trade, config, minutesIn(30)).toString()).toBe('4');
+  });
+
+  it('should cap the ATR-sized trail by the schedule too', () => {
+    const atrConfig = { ...config, trailingMode: 'atr' as const };
+    const trade = createTradeState(
+      'AAAUSDT' as MarketSymbol,
+      new Decimal(1),
+      new Decimal(10),
+      new Decimal(10),
+      atrConfig,
+      START
+    );
+    applyVolatilityTrail(trade, new Decimal(12));
+
+    expect(trailingPctFor(trade, atrConfig, minutesIn(10)).toString()).toBe('12');
+    expect(trailingPctFor(trade, atrConfig, minutesIn(45)).toString()).toBe('4');
+  });
+});
@@ -0,0 +1,394 @@
+import Decimal from 'decimal.js';
+import {
+  CompletedTrade,
+  MarketSymbol,
+  SerializedTradeState,
+  TradeFill,
+  TradeState,
+  TradingConfig,
+  TriggerReason,
+} from '../types.js';
+
+/**
+ * Subset of the trading config that drives the stop-loss / trailing-stop strategy
+ * (the break-even rule, time exit and trailing schedule are off when missing)
+ */
+export type StopConfig = Pick<TradingConfig, 'stopLossPct' | 'trailingPct'> &
+  Partial<
+    Pick<
+      TradingConfig,
+      | 'breakEvenTriggerPct'
+      | 'trailingMode'
+      | 'maxHoldMinutes'
+      | 'trailingSchedule'
+      | 'takeProfitLevels'
+    >
+  >;
+
+/**
+ * Outcome of feeding one price observation into a trade
+ */
+export interface TickResult {
+  newHigh: boolean; // Price made a new high and the trailing stop was raised
+  tightened: boolean; // Trailing schedule raised the stop without a new high
+  exit: TriggerReason | null; // Exit that should be executed, if any
+  profitPct: Decimal; // Unrealised profit/loss at this price
+  breakEven: boolean; // Stop-loss was moved up to break-even on this tick
+}
+
+/**
+ * Commission paid on an order and its reconciled fills
+ */
+export interface FillCosts {
+  feeQuote: Decimal;
+  fills: TradeFill[];
+}
+
+/**
+ * Create the initial state for a freshly opened trade (buy fees are attached after reconciliation)
+ */
+export function createTradeState(
+  market: MarketSymbol,
+  buyPrice: Decimal,
+  quantity: Decimal,
+  investedQuote: Decimal,
+  config: StopConfig,
+  startTime: Date = new Date()
+): TradeState {
+  return {
+    tradeId: tradeIdFor(market, startTime),
+    market,
+    buyPrice,
+    quantity,
+    initialQuantity: quantity,
+    investedQuote,
+    currentPrice: buyPrice,
+    highestPrice: buyPrice,
+    trailingStopPrice: buyPrice.mul(new Decimal(1).minus(config.trailingPct.div(100))),
+    stopLossPrice: buyPrice.mul(new Decimal(1).minus(config.stopLossPct.div(100))),
+    startTime,
+    lastUpdate: startTime,
+    buyFeeQuote: new Decimal(0),
+    buyFills: [],
+    status: 'open',
+    statusChangedAt: startTime,
+    trailingPct: config.trailingPct,
+    takeProfitLevels: config.takeProfitLevels ?? [],
+    takeProfitsHit: 0,
+    realizedProfitLossQuote: new Decimal(0),
+    trailingMode: config.trailingMode ?? 'fixed',
+  };
+}
+
+function tradeIdFor(market: string, startTime: Date): string {
+  return `${market}-${startTime.getTime()}`;
+}
+
+/**
+ * Apply a price observation to a trade: track the high, raise the trailing stop
+ * and decide whether an exit is triggered
+ *
+ * This is the single source of truth for exit decisions, used by both
+ * TradeManager.monitorTrade and the backtester.
+ */
+export function applyPriceTick(
+  trade: TradeState,
+  price: Decimal,
+  config: StopConfig,
+  now: Date = new Date()
+): TickResult {
+  trade.currentPrice = price;
+  trade.lastUpdate = now;
+
+  // Update highest price and trailing stop
+  let newHigh = false;
+  let tightened = false;
+  const trailingFactor = new Decimal(1).minus(trailingPctFor(trade, config, now).div(100));
+  if (price.gt(trade.highestPrice)) {
+    trade.highestPrice = price;
+    trade.trailingStopPrice = price.mul(trailingFactor);
+    newHigh = true;
+  } else {
+    // A scheduled step may tighten the trail below the current high; the stop never moves down
+    const scheduledStop = trade.highestPrice.mul(trailingFactor);
+    if (scheduledStop.gt(trade.trailingStopPrice)) {
+      trade.trailingStopPrice = scheduledStop;
+      tightened = true;
+    }
+  }
+
+  // Once the trade has been up breakEvenTriggerPct, a winner may no longer exit at a loss
+  let breakEven = false;
+  if (config.breakEvenTriggerPct && !trade.breakEvenAt) {
+    const peakGainPct = trade.highestPrice.minus(trade.buyPrice).div(trade.buyPrice).mul(100);
+    if (peakGainPct.gte(config.breakEvenTriggerPct)) {
+      trade.stopLossPrice = Decimal.max(trade.stopLossPrice, breakEvenPrice(trade));
+      trade.breakEvenAt = now;
+      breakEven = true;
+    }
+  }
+
+  const profitPct = price.minus(trade.buyPrice).div(trade.buyPrice).mul(100);
+
+  // Triggered trailing stop (profit protection)
+  if (price.lt(trade.trailingStopPrice) && price.gt(trade.buyPrice)) {
+    return { newHigh, tightened, exit: 'trailing_stop', profitPct, breakEven };
+  }
+
+  // Triggered stop loss (loss protection)
+  if (price.lt(trade.stopLossPrice)) {
+    return { newHigh, tightened, exit: 'stop_loss', profitPct, breakEven };
+  }
+
+  // Held for maxHoldMinutes: exit at market whatever the price
+  const maxHoldMinutes = maxHoldMinutesFor(trade, config);
+  if (maxHoldMinutes && heldMinutes(trade, now) >= maxHoldMinutes) {
+    return { newHigh, tightened, exit: 'time_exit', profitPct, breakEven };
+  }
+
+  return { newHigh, tightened, exit: null, profitPct, breakEven };
+}
+
+function heldMinutes(trade: TradeState, now: Date): number {
+  return (now.getTime() - trade.startTime.getTime()) / 60000;
+}
+
+/**
+ * Holding time limit of a trade: its own when overridden, else the configured one
+ */
+export function maxHoldMinutesFor(trade: TradeState, config: StopConfig): number | null {
+  return trade.maxHoldMinutes !== undefined
+    ? trade.maxHoldMinutes
+    : (config.maxHoldMinutes ?? null);
+}
+
+/**
+ * Trailing distance in percent: the volatility-sized trail in 'atr' mode once known, else the
+ * trade's trailingPct, capped in either mode by the last trailing schedule step reached by `now`
+ */
+export function trailingPctFor(
+  trade: TradeState,
+  config: StopConfig,
+  now: Date = new Date()
+): Decimal {
+  const base =
+    trade.trailingMode === 'atr' && trade.volatilityTrailPct
+      ? trade.volatilityTrailPct
+      : trade.trailingPct;
+
+  const held = heldMinutes(trade, now);
+  const step = config.trailingSchedule?.filter((s) => held >= s.afterMinutes).pop();
+  return step ? Decimal.min(step.trailingPct, base) : base;
+}
+
+/**
+ * Apply a volatility-sized trail to a trade
+ *
+ * The first trail sizes the stop freely (it may be wider than trailingPct for a volatile
+ * listing); later ones only tighten it as volatility fades, so the stop never moves down.
+ */
+export function applyVolatilityTrail(trade: TradeState, pct: Decimal): void {
+  const initial = !trade.volatilityTrailPct;
+  const next = trade.volatilityTrailPct ? Decimal.min(trade.volatilityTrailPct, pct) : pct;
+  const stop = trade.highestPrice.mul(new Decimal(1).minus(next.div(100)));
+
+  trade.volatilityTrailPct = next;
+  trade.trailingStopPrice = initial ? stop : Decimal.max(trade.trailingStopPrice, stop);
+}
+
+/**
+ * Price at which selling recovers the buy price plus the buy and sell fees
+ * The sell fee is assumed to be charged at the same rate as the buy fee
+ */
+export function breakEvenPrice(trade: TradeState): Decimal {
+  const feeRate = trade.investedQuote.gt(0)
+    ? trade.buyFeeQuote.div(trade.investedQuote)
+    : new Decimal(0);
+  return trade.buyPrice.mul(new Decimal(1).plus(feeRate.mul(2)));
+}
+
+/**
+ * Index of the take-profit level of the trade's ladder its current price has reached, if any
+ * Levels are taken in order, one per call; the stops in applyPriceTick take precedence
+ */
+export function dueTakeProfit(trade: TradeState): number | null {
+  const level = trade.takeProfitLevels[trade.takeProfitsHit];
+  if (!level) return null;
+
+  const profitPct = trade.currentPrice.minus(trade.buyPrice).div(trade.buyPrice).mul(100);
+  return profitPct.gte(level.gainPct) ? trade.takeProfitsHit : null;
+}
+
+/**
+ * Quantity to sell for take-profit level `levelIndex` (a share of the initially bought quantity)
+ * Returns null when the level covers everything left, so the whole trade should be closed
+ */
+export function takeProfitQuantity(trade: TradeState, levelIndex: number): Decimal | null {
+  const level = trade.takeProfitLevels[levelIndex];
+  if (!level) return null;
+
+  const quantity = trade.initialQuantity.mul(level.sellPct).div(100);
+  return quantity.gte(trade.quantity) ? null : quantity;
+}
+
+/**
+ * Book a partial exit of `quantity` at sellPrice for take-profit level `levelIndex`
+ *
+ * The sold share of the cost basis and buy fee moves into the returned completed record
+ * (linked by tradeId); the trade keeps the rest and accumulates the realised P&L.
+ */
+export function takePartialExit(
+  trade: TradeState,
+  quantity: Decimal,
+  sellPrice: Decimal,
+  levelIndex: number,
+  sell: FillCosts,
+  sellTime: Date = new Date()
+): CompletedTrade {
+  const sold = Decimal.min(quantity, trade.quantity);
+  const share = sold.div(trade.quantity);
+  const slice: TradeState = {
+    ...trade,
+    quantity: sold,
+    investedQuote: trade.investedQuote.mul(share),
+    buyFeeQuote: trade.buyFeeQuote.mul(share),
+  };
+
+  const record = buildCompletedTrade(slice, sellPrice, 'take_profit', sellTime, sell);
+
+  trade.quantity = trade.quantity.minus(sold);
+  trade.investedQuote = trade.investedQuote.minus(slice.investedQuote);
+  trade.buyFeeQuote = trade.buyFeeQuote.minus(slice.buyFeeQuote);
+  trade.realizedProfitLossQuote = trade.realizedProfitLossQuote.plus(record.profitLossQuote);
+  trade.takeProfitsHit = levelIndex + 1;
+
+  return { ...record, partial: true, takeProfitLevel: levelIndex + 1 };
+}
+
+/**
+ * Serialize TradeState for JSON storage
+ */
+export function serializeTrade(trade: TradeState): SerializedTradeState {
+  return {
+    tradeId: trade.tradeId,
+    market: trade.market,
+    buyPrice: trade.buyPrice.toString(),
+    quantity: trade.quantity.toString(),
+    initialQuantity: trade.initialQuantity.toString(),
+    investedQuote: trade.investedQuote.toString(),
+    currentPrice: trade.currentPrice.toString(),
+    highestPrice: trade.highestPrice.toString(),
+    trailingStopPrice: trade.trailingStopPrice.toString(),
+    stopLossPrice: trade.stopLossPrice.toString(),
+    startTime: trade.startTime.toISOString(),
+    lastUpdate: trade.lastUpdate.toISOString(),
+    buyFeeQuote: trade.buyFeeQuote.toString(),
+    buyFills: trade.buyFills,
+    ...(trade.buyOrderId && { buyOrderId: trade.buyOrderId }),
+    ...(trade.buyClientOrderId && { buyClientOrderId: trade.buyClientOrderId }),
+    status: trade.status,
+    statusChangedAt: trade.statusChangedAt.toISOString(),
+    ...(trade.lastError && { lastError: trade.lastError }),
+    trailingPct: trade.trailingPct.toString(),
+    takeProfitLevels: trade.takeProfitLevels.map((level) => ({
+      gainPct: level.gainPct.toString(),
+      sellPct: level.sellPct.toString(),
+    })),
+    takeProfitsHit: trade.takeProfitsHit,
+    realizedProfitLossQuote: trade.realizedProfitLossQuote.toString(),
+    ...(trade.breakEvenAt && { breakEvenAt: trade.breakEvenAt.toISOString() }),
+    trailingMode: trade.trailingMode,
+    ...(trade.volatilityTrailPct && { volatilityTrailPct: trade.volatilityTrailPct.toString() }),
+    ...(trade.pausedAt && { pausedAt: trade.pausedAt.toISOString() }),
+    ...(trade.maxHoldMinutes !== undefined && { maxHoldMinutes: trade.maxHoldMinutes }),
+  };
+}
+
+/**
+ * Deserialize TradeState from JSON
+ * Trades saved before per-trade stops get the configured trailingPct and ladder
+ */
+export function deserializeTrade(
+  data: SerializedTradeState,
+  defaults: Pick<TradingConfig, 'trailingPct' | 'takeProfitLevels'>
+): TradeState {
+  // For backward compatibility: if investedQuote is missing, calculate from buyPrice * quantity
+  const investedQuote = data.investedQuote
+    ? new Decimal(data.investedQuote)
+    : new Decimal(data.buyPrice).mul(new Decimal(data.quantity));
+
+  const startTime = new Date(data.startTime);
+
+  return {
+    tradeId: data.tradeId ?? tradeIdFor(data.market, startTime),
+    market: data.market as MarketSymbol,
+    buyPrice: new Decimal(data.buyPrice),
+    quantity: new Decimal(data.quantity),
+    initialQuantity: new Decimal(data.initialQuantity ?? data.quantity),
+    investedQuote,
+    currentPrice: new Decimal(data.currentPrice),
+    highestPrice: new Decimal(data.highestPrice),
+    trailingStopPrice: new Decimal(data.trailingStopPrice),
+    stopLossPrice: new Decimal(data.stopLossPrice),
+    startTime,
+    lastUpdate: new Date(data.lastUpdate),
+    buyFeeQuote: new Decimal(data.buyFeeQuote ?? 0),
+    buyFills: data.buyFills ?? [],
+    ...(data.buyOrderId && { buyOrderId: data.buyOrderId }),
+    ...(data.buyClientOrderId && { buyClientOrderId: data.buyClientOrderId }),
+    status: data.status ?? 'open',
+    statusChangedAt: new Date(data.statusChangedAt ?? data.lastUpdate),
+    ...(data.lastError && { lastError: data.lastError }),
+    trailingPct: data.trailingPct ? new Decimal(data.trailingPct) : defaults.trailingPct,
+    takeProfitLevels: data.takeProfitLevels
+      ? data.takeProfitLevels.map((level) => ({
+          gainPct: new Decimal(level.gainPct),
+          sellPct: new Decimal(level.sellPct),
+        }))
+      : defaults.takeProfitLevels,
+    takeProfitsHit: data.takeProfitsHit ?? 0,
+    realizedProfitLossQuote: new Decimal(data.realizedProfitLossQuote ?? 0),
+    ...(data.breakEvenAt && { breakEvenAt: new Date(data.breakEvenAt) }),
+    trailingMode: data.trailingMode ?? 'fixed',
+    ...(data.volatilityTrailPct && { volatilityTrailPct: new Decimal(data.volatilityTrailPct) }),
+    ...(data.pausedAt && { pausedAt: new Date(data.pausedAt) }),
+    ...(data.maxHoldMinutes !== undefined && { maxHoldMinutes: data.maxHoldMinutes }),
+  };
+}
+
+/**
+ * Build the completed trade record for a trade exited at sellPrice
+ * Profit/loss is net of the buy fee stored on the trade and the sell fee in `sell`
+ */
+export function buildCompletedTrade(
+  trade: TradeState,
+  sellPrice: Decimal,
+  reason: TriggerReason,
+  sellTime: Date = new Date(),
+  sell: FillCosts = { feeQuote: new Decimal(0), fills: [] }
+): CompletedTrade {
+  const grossQuote = sellPrice.minus(trade.buyPrice).div(trade.buyPrice).mul(trade.investedQuote);
+  const feesQuote = trade.buyFeeQuote.plus(sell.feeQuote);
+  const netQuote = grossQuote.minus(feesQuote);
+  const profitPct = netQuote.div(trade.investedQuote).mul(100);
+  const duration = (sellTime.getTime() - trade.startTime.getTime()) / 3600000; // hours
+
+  return {
+    ...serializeTrade(trade),
+    status: 'closed',
+    statusChangedAt: sellTime.toISOString(),
+    sellPrice: sellPrice.toString(),
+    sellTime: sellTime.toISOString(),
+    profitLossPct: profitPct.toFixed(2),
+    profitLossQuote: netQuote.toFixed(4),
+    triggerReason: reason,
+    durationHours: duration.toFixed(1),
+    grossProfitLossQuote: grossQuote.toFixed(4),
+    fees: {
+      buy: trade.buyFeeQuote.toFixed(4),
+      sell: sell.feeQuote.toFixed(4),
+      total: feesQuote.toFixed(4),
+    },
+    sellFills: sell.fills,
+  };
+}
@@ -0,0 +1,57 @@
+import Decimal from 'decimal.js';
+import { describe, it, expect, jest } from '@jest/globals';
+import { atrTrailingPct, averageTrueRange } from './volatility.js';
+import type { Kline } from '../types.js';
+
+// Mock logger
+jest.mock('../utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function candle(high: number, low: number, close: number): Kline {
+  return {
+    openTime: 0,
+    open: new Decimal(close),
+    high: new Decimal(high),
+    low: new Decimal(low),
+    close: new Decimal(close),
+    volume: new Decimal(0),
+    closeTime: 0,
+    quoteVolume: new Decimal(0),
+  };
+}
+
+describe('averageTrueRange', () => {
+  it('should include gaps from the previous close', () => {
+    // Ranges: 2, then max(1, |12 - 10|, |11 - 10|) = 2 for the gap up, then 4
+    const klines = [candle(11, 9, 10), candle(12, 11, 12), candle(14, 10, 11)];
+
+    expect(averageTrueRange(klines, 14)?.toString()).toBe('2.6666666666666666667');
+    expect(averageTrueRange(klines, 1)?.toString()).toBe('4');
+  });
+
+  it('should return null without candles', () => {
+    expect(averageTrueRange([], 14)).toBeNull();
+  });
+});
+
+describe('atrTrailingPct', () => {
+  it('should express the ATR multiple as a percentage of the last close', () => {
+    const klines = [candle(101, 99, 100), candle(101, 99, 100)];
+
+    expect(atrTrailingPct(klines, 14, new Decimal(3))?.toString()).toBe('6');
+  });
+
+  it('should keep the trail within the valid trailing range', () => {
+    const wild = [candle(150, 50, 100)];
+    const flat = [candle(100, 100, 100)];
+
+    expect(atrTrailingPct(wild, 14, new Decimal(3))?.toString()).toBe('20');
+    expect(atrTrailingPct(flat, 14, new Decimal(3))?.toString()).toBe('0.1');
+  });
+});
@@ -0,0 +1,45 @@
+import Decimal from 'decimal.js';
+import { TRADING_CONFIG_RANGES } from '../config.js';
+import { Kline } from '../types.js';
+
+/**
+ * Average true range over the last `period` candles (fewer when a fresh listing has less history)
+ * Returns null without candles
+ */
+export function averageTrueRange(klines: Kline[], period: number): Decimal | null {
+  const ranges: Decimal[] = [];
+  for (const [index, kline] of klines.entries()) {
+    const previousClose = klines[index - 1]?.close;
+    let range = kline.high.minus(kline.low);
+    if (previousClose) {
+      range = Decimal.max(
+        range,
+        kline.high.minus(previousClose).abs(),
+        kline.low.minus(previousClose).abs()
+      );
+    }
+    ranges.push(range);
+  }
+
+  const recent = ranges.slice(-period);
+  if (recent.length === 0) return null;
+  return recent.reduce((sum, range) => sum.plus(range), new Decimal(0)).div(recent.length);
+}
+
+/**
+ * Trailing distance in percent of the last close: `multiplier` ATRs, kept within the valid
+ * TRAILING_PCT range so a quiet market cannot shrink the trail to noise
+ */
+export function atrTrailingPct(
+  klines: Kline[],
+  period: number,
+  multiplier: Decimal
+): Decimal | null {
+  const atr = averageTrueRange(klines, period);
+  const lastClose = klines[klines.length - 1]?.close;
+  if (!atr || !lastClose || lastClose.lte(0)) return null;
+
+  const { min, max } = TRADING_CONFIG_RANGES.trailingPct;
+  const pct = atr.div(lastClose).mul(100).mul(multiplier);
+  return Decimal.min(Decimal.max(pct, min), max);
+}
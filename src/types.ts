@@ -16,6 +16,58 @@ export interface TradingConfig {
   maxRetries: number; // API retry attempts
   retryDelay: number; // Delay between retries (seconds)
   quoteCurrency: string; // Quote currency filter (USDT, USDC, BTC)
+  takeProfitLevels: TakeProfitLevel[]; // Partial exits by ascending gain (empty = disabled)
+  breakEvenTriggerPct: Decimal | null; // Gain that moves the stop-loss to break-even (null = disabled)
+  trailingMode: TrailingMode; // Default trailing mode for new trades
+  atrPeriod: number; // 1m candles averaged for the ATR trail
+  atrMultiplier: Decimal; // Trail distance in ATRs
+  maxHoldMinutes: number | null; // Exit at market after this long (null = hold indefinitely)
+  trailingSchedule: TrailingStep[]; // Trail cap by time since entry (empty = no cap)
+}
+
+/**
+ * Trading config values replaced for a single trade (e.g. by a scheduled listing)
+ */
+export type TradeOverrides = Partial<
+  Pick<
+    TradingConfig,
+    | 'maxTradeAmount'
+    | 'stopLossPct'
+    | 'trailingPct'
+    | 'takeProfitLevels'
+    | 'maxHoldMinutes'
+    | 'trailingMode'
+  >
+> & {
+  maxEntryPrice?: Decimal; // Enter with IOC limit buys capped at this price instead of a market buy
+  limitWindowSeconds?: number; // Replaces LISTING_LIMIT_WINDOW_SECONDS for a capped entry
+};
+
+/**
+ * Trailing percentage that applies from `afterMinutes` since entry on
+ */
+export interface TrailingStep {
+  afterMinutes: number;
+  trailingPct: Decimal;
+}
+
+/**
+ * How the trailing stop distance is sized
+ * 'fixed' uses trailingPct; 'atr' sizes it from the average true range of recent 1m candles
+ */
+export type TrailingMode = 'fixed' | 'atr';
+
+/**
+ * One rung of the take-profit ladder
+ */
+export interface TakeProfitLevel {
+  gainPct: Decimal; // Gain over the buy price that triggers the exit
+  sellPct: Decimal; // Share of the initially bought quantity to sell
+}
+
+export interface SerializedTakeProfitLevel {
+  gainPct: string;
+  sellPct: string;
 }
 
 /**
@@ -28,28 +80,112 @@ export interface MexcConfig {
   rateLimit: number; // Requests per minute
   timeout: number; // Milliseconds
   receiveWindow: number; // Milliseconds
+  wsUrl: string; // Market data WebSocket endpoint
+  wsEnabled: boolean; // Stream prices over WebSocket (REST polling is the fallback)
+}
+
+/**
+ * Trading mode: live orders on the exchange or simulated paper trading
+ */
+export type TradingMode = 'live' | 'paper';
+
+/**
+ * Paper trading (simulated exchange) configuration
+ */
+export interface PaperConfig {
+  mode: TradingMode;
+  initialBalance: Decimal; // Starting quote currency balance
+  feePct: Decimal; // Taker fee percentage charged on each fill
+  slippagePct: Decimal; // Price slippage applied against the order side
+}
+
+/**
+ * Scheduled listing execution settings
+ */
+export interface ScheduleConfig {
+  warmUpSeconds: number; // Warm-up window before each listing time (0 = disabled)
+  burstOrders: number; // Parallel buy attempts fired around listing time (1 = one at a time)
+  burstStaggerMs: number; // Delay between consecutive burst attempts
+  limitWindowSeconds: number; // How long a capped entry keeps re-pricing its IOC buys
+}
+
+/**
+ * Entry filters run on the recent candles before a late scheduled listing buy, one starting a
+ * minute or more after the listing time (null = filter disabled)
+ */
+export interface EntryFilterConfig {
+  maxChangeFromOpenPct: Decimal | null; // Skip when the price is this far above the window open
+  minDropFromHighPct: Decimal | null; // After a run-up this large, wait for the same pullback
+  maxVolatilityPct: Decimal | null; // Skip when the window's high-low range exceeds this
+  maxVolumeSpike: Decimal | null; // Skip when the last candle's volume is this multiple of the rest
+  maxSpreadPct: Decimal | null; // Skip when the bid/ask spread is wider than this
+}
+
+/**
+ * Staggered parallel buy attempts fired at a listing open
+ */
+export interface BurstPlan {
+  orders: number;
+  staggerMs: number;
+}
+
+/**
+ * Local control channel of the bot process (used by the API server and the CLI)
+ */
+export interface ControlConfig {
+  port: number; // Loopback port of the control server
 }
 
+/**
+ * Lifecycle of a trade; allowed transitions are enforced by TradeManager (see trade/lifecycle.ts)
+ */
+export type TradeStatus =
+  | 'pending_buy' // Buy order sent, fill not yet confirmed
+  | 'open' // Position held and monitored
+  | 'pending_sell' // Sell order in flight
+  | 'sell_failed' // Last sell attempt failed; retried on the next stop trigger
+  | 'closed' // Sold (only seen in completed trades)
+  | 'orphaned'; // State unknown after a restart (e.g. interrupted buy); not monitored
+
 /**
  * Current state of a trade
  */
 export interface TradeState {
+  tradeId: string; // Links partial exits to their trade
   market: MarketSymbol;
   buyPrice: Decimal;
-  quantity: Decimal; // Actual quantity bought (base asset)
-  investedQuote: Decimal; // Actual quote currency spent on buy order (USDT/USDC/BTC/etc)
+  quantity: Decimal; // Quantity still held (base asset); reduced by take-profit exits
+  initialQuantity: Decimal; // Quantity bought
+  investedQuote: Decimal; // Quote cost of the held quantity (USDT/USDC/BTC/etc)
   currentPrice: Decimal;
   highestPrice: Decimal;
   trailingStopPrice: Decimal;
   stopLossPrice: Decimal;
   startTime: Date;
   lastUpdate: Date;
+  buyFeeQuote: Decimal; // Buy commission valued in quote currency
+  buyFills: TradeFill[]; // Individual buy executions (empty when not reconciled)
+  buyOrderId?: string; // Exchange order that opened the trade
+  buyClientOrderId?: string;
+  status: TradeStatus;
+  statusChangedAt: Date;
+  lastError?: string; // Why the trade entered sell_failed or orphaned
+  trailingPct: Decimal; // Fixed-mode trail; starts at the configured TRAILING_PCT, editable per trade
+  takeProfitLevels: TakeProfitLevel[]; // Ladder of this trade; starts as the configured one
+  takeProfitsHit: number; // Take-profit levels already executed
+  realizedProfitLossQuote: Decimal; // Net P&L of the partial exits so far
+  breakEvenAt?: Date; // When the stop-loss was moved up to break-even
+  trailingMode: TrailingMode;
+  volatilityTrailPct?: Decimal; // ATR-sized trail ('atr' mode); trailingPct applies until known
+  pausedAt?: Date; // Automatic exits suspended from the dashboard; prices are still tracked
+  maxHoldMinutes?: number | null; // Replaces the configured MAX_HOLD_MINUTES (null = hold indefinitely)
 }
 
 /**
  * Serializable version of TradeState for JSON persistence
  */
 export interface SerializedTradeState {
+  tradeId?: string; // Optional for backward compatibility with old trades
   market: string;
   buyPrice: string;
   quantity: string; // Actual quantity bought (base asset)
@@ -60,18 +196,70 @@ export interface SerializedTradeState {
   stopLossPrice: string;
   startTime: string; // ISO string
   lastUpdate: string; // ISO string
+  buyFeeQuote?: string; // Optional for backward compatibility with old trades
+  buyFills?: TradeFill[];
+  buyOrderId?: string;
+  buyClientOrderId?: string;
+  status?: TradeStatus; // Optional for backward compatibility (missing means 'open')
+  statusChangedAt?: string; // ISO string
+  lastError?: string;
+  initialQuantity?: string;
+  trailingPct?: string; // Missing on old trades (the configured TRAILING_PCT applies)
+  takeProfitLevels?: SerializedTakeProfitLevel[]; // Missing on old trades (the configured ladder applies)
+  takeProfitsHit?: number;
+  realizedProfitLossQuote?: string;
+  breakEvenAt?: string; // ISO string
+  trailingMode?: TrailingMode; // Optional for backward compatibility (missing means 'fixed')
+  volatilityTrailPct?: string;
+  pausedAt?: string; // ISO string
+  maxHoldMinutes?: number | null; // Missing unless overridden (the configured MAX_HOLD_MINUTES applies)
+}
+
+/**
+ * Single execution of an order, reconciled from the account trade history
+ */
+export interface TradeFill {
+  orderId: string;
+  price: string;
+  qty: string;
+  quoteQty: string;
+  commission: string;
+  commissionAsset: string;
+  time: number;
 }
 
+/**
+ * Commissions paid on a trade, valued in quote currency
+ * Commissions in a third asset (e.g. MX) cannot be valued and count as zero
+ */
+export interface TradeFees {
+  buy: string;
+  sell: string;
+  total: string;
+}
+
+/**
+ * Reason a trade was exited
+ * 'end_of_data' is only produced by backtests when the kline data runs out
+ */
+export type TriggerReason =
+  'stop_loss' | 'trailing_stop' | 'take_profit' | 'time_exit' | 'manual' | 'end_of_data';
+
 /**
  * Completed trade record
  */
 export interface CompletedTrade extends SerializedTradeState {
   sellPrice: string;
   sellTime: string; // ISO string
-  profitLossPct: string;
-  profitLossQuote: string; // Profit/loss in quote currency (USDT/USDC/BTC/etc)
-  triggerReason: 'stop_loss' | 'trailing_stop' | 'manual';
+  profitLossPct: string; // Net of fees
+  profitLossQuote: string; // Net profit/loss in quote currency (USDT/USDC/BTC/etc)
+  triggerReason: TriggerReason;
   durationHours: string;
+  grossProfitLossQuote?: string; // Profit/loss before fees (missing on old trades)
+  fees?: TradeFees; // Missing on trades recorded before fee tracking
+  sellFills?: TradeFill[];
+  partial?: boolean; // Take-profit exit of part of the position; shares tradeId with the rest
+  takeProfitLevel?: number; // 1-based ladder level of a partial exit
 }
 
 /**
@@ -84,6 +272,12 @@ export type OrderSide = 'BUY' | 'SELL';
  */
 export type OrderType = 'LIMIT' | 'MARKET' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'LIMIT_MAKER';
 
+/**
+ * How long a LIMIT order stays open: until cancelled, or only for what fills at once
+ * (IOC keeps partial fills, FOK fills completely or not at all)
+ */
+export type TimeInForce = 'GTC' | 'IOC' | 'FOK';
+
 /**
  * MEXC API order request
  */
@@ -94,6 +288,8 @@ export interface OrderRequest {
   quantity?: string;
   quoteOrderQty?: string; // For market buys with USDT amount
   price?: string;
+  timeInForce?: TimeInForce; // LIMIT orders only (GTC when omitted)
+  newClientOrderId?: string; // Idempotency key; retries reuse it so a lost response cannot double-fill
   recvWindow?: number;
   timestamp: number;
 }
@@ -104,6 +300,7 @@ export interface OrderRequest {
 export interface OrderResponse {
   symbol: string;
   orderId: string;
+  clientOrderId?: string;
   orderListId: number;
   price: string;
   origQty: string;
@@ -125,10 +322,20 @@ export interface TickerResponse {
   lastPrice: string;
   volume: string;
   quoteVolume: string;
+  bidPrice?: string; // Best bid and ask (not part of every ticker response)
+  askPrice?: string;
   openTime: number;
   closeTime: number;
 }
 
+/**
+ * MEXC API price ticker (latest price for one symbol)
+ */
+export interface PriceTicker {
+  symbol: string;
+  price: string;
+}
+
 /**
  * MEXC API exchange info response
  */
@@ -146,10 +353,82 @@ export interface SymbolInfo {
   status: string;
   baseAsset: string;
   quoteAsset: string;
-  baseAssetPrecision: number;
-  quotePrecision: number;
-  quoteAssetPrecision: number;
+  baseAssetPrecision: number; // Quantity decimals
+  quotePrecision: number; // Price decimals
+  quoteAssetPrecision: number; // Quote amount decimals
   isSpotTradingAllowed: boolean;
+  baseSizePrecision?: string; // Minimum order quantity
+  quoteAmountPrecision?: string; // Minimum order value (limit orders)
+  quoteAmountPrecisionMarket?: string; // Minimum order value (market orders)
+  maxQuoteAmount?: string; // Maximum order value (limit orders)
+  maxQuoteAmountMarket?: string; // Maximum order value (market orders)
+  filters?: SymbolFilter[];
+}
+
+/**
+ * Exchange filter entry (Binance-style; MEXC usually sends an empty list)
+ */
+export interface SymbolFilter {
+  filterType: string; // LOT_SIZE, MARKET_LOT_SIZE, PRICE_FILTER, MIN_NOTIONAL, NOTIONAL, ...
+  minQty?: string;
+  maxQty?: string;
+  stepSize?: string;
+  minPrice?: string;
+  maxPrice?: string;
+  tickSize?: string;
+  minNotional?: string;
+  maxNotional?: string;
+}
+
+/**
+ * Trading rules for a symbol parsed from its filters, used to build valid orders
+ */
+export interface SymbolRules {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  stepSize: Decimal; // Quantity increment
+  minQty: Decimal;
+  maxQty: Decimal | null;
+  tickSize: Decimal; // Price increment
+  quoteStep: Decimal; // quoteOrderQty increment
+  minNotional: Decimal; // Minimum order value in quote currency
+  maxNotional: Decimal | null; // Maximum market order value in quote currency
+}
+
+/**
+ * Balance entry for a single asset in the account
+ */
+export interface AccountBalance {
+  asset: string;
+  free: string;
+  locked: string;
+}
+
+/**
+ * Account information response (balances only, other fields unused)
+ */
+export interface AccountInfo {
+  balances: AccountBalance[];
+}
+
+/**
+ * Individual fill from the account trade history
+ */
+export interface AccountTrade {
+  symbol: string;
+  id: string;
+  orderId: string;
+  price: string;
+  qty: string;
+  quoteQty: string;
+  commission: string;
+  commissionAsset: string;
+  time: number;
+  isBuyer: boolean;
+  isMaker: boolean;
+  isBestMatch: boolean;
+  clientOrderId?: string; // Set when the order carried one
 }
 
 /**
@@ -181,6 +460,16 @@ export interface Kline {
   quoteVolume: Decimal;
 }
 
+/**
+ * Single price update from a market data stream
+ */
+export interface PriceTick {
+  symbol: string;
+  price: Decimal;
+  time: number; // Exchange event time (ms)
+  source: 'deal' | 'bookTicker' | 'rest'; // Last trade, best bid from the book ticker, or REST poll
+}
+
 /**
  * Result type for operations that can fail
  */
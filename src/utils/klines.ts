@@ -0,0 +1,51 @@
+import Decimal from 'decimal.js';
+import { Kline, KlineData } from '../types.js';
+
+/**
+ * Parse a raw kline array from the exchange into a Kline object
+ */
+export function parseKline(data: KlineData): Kline {
+  return {
+    openTime: data[0],
+    open: new Decimal(data[1]),
+    high: new Decimal(data[2]),
+    low: new Decimal(data[3]),
+    close: new Decimal(data[4]),
+    volume: new Decimal(data[5]),
+    closeTime: data[6],
+    quoteVolume: new Decimal(data[7]),
+  };
+}
+
+/**
+ * Parse a list of raw klines, sorted by open time ascending
+ */
+export function parseKlines(data: KlineData[]): Kline[] {
+  return data.map(parseKline).sort((a, b) => a.openTime - b.openTime);
+}
+
+/**
+ * Convert a Kline back to the raw array format returned by the exchange
+ */
+export function serializeKline(kline: Kline): KlineData {
+  return [
+    kline.openTime,
+    kline.open.toString(),
+    kline.high.toString(),
+    kline.low.toString(),
+    kline.close.toString(),
+    kline.volume.toString(),
+    kline.closeTime,
+    kline.quoteVolume.toString(),
+  ];
+}
+
+/**
+ * Expand a candle into the intra-candle price path used for replay
+ * Bullish candles are assumed to visit the low before the high, bearish the reverse
+ */
+export function klinePricePath(kline: Kline): Decimal[] {
+  return kline.close.gte(kline.open)
+    ? [kline.open, kline.low, kline.high, kline.close]
+    : [kline.open, kline.high, kline.low, kline.close];
+}
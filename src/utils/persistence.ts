@@ -13,6 +13,9 @@ const DATA_DIR = path.join(__dirname, '../../data');
  */
 const writeQueues = new Map<string, Promise<void>>();
 
+const LOCK_RETRY_MS = 25;
+const LOCK_STALE_MS = 10 * 1000; // A lock this old was left behind by a process that died
+
 /**
  * Ensure data directory exists
  */
@@ -99,3 +102,36 @@ export async function saveJson<T>(filename: string, data: T): Promise<void> {
     }
   });
 }
+
+/**
+ * Run fn while holding a lock file next to filename, so read-modify-write cycles of
+ * different processes on the same file do not overwrite each other's changes
+ */
+export async function withFileLock<T>(filename: string, fn: () => Promise<T>): Promise<T> {
+  await ensureDataDir();
+  const lockPath = path.join(DATA_DIR, `${filename}.lock`);
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      const stats = await fs.stat(lockPath).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+        logger.warn(`Removing stale lock on ${filename}`);
+        await fs.unlink(lockPath).catch(() => undefined);
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.unlink(lockPath).catch(() => undefined);
+  }
+}
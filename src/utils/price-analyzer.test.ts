@@ -0,0 +1,183 @@
+import Decimal from 'decimal.js';
+import { describe, it, expect } from '@jest/globals';
+import {
+  dropFromHighFilter,
+  entryFiltersFromConfig,
+  maxChangeFromOpenFilter,
+  PriceAnalyzer,
+  spreadFilter,
+  volatilityFilter,
+  volumeSpikeFilter,
+} from './price-analyzer.js';
+import type { EntryAnalysis, EntryFilter } from './price-analyzer.js';
+import type { EntryFilterConfig, KlineData } from '../types.js';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Synthetic 1m candle starting `minute` minutes into the window
+ */
+function candle(
+  minute: number,
+  open: number,
+  high: number,
+  low: number,
+  close: number,
+  quoteVolume = 1000
+): KlineData {
+  return [
+    minute * MINUTE,
+    String(open),
+    String(high),
+    String(low),
+    String(close),
+    '0',
+    (minute + 1) * MINUTE - 1,
+    String(quoteVolume),
+  ];
+}
+
+const DEFAULT_CONFIG: EntryFilterConfig = {
+  maxChangeFromOpenPct: new Decimal(10),
+  minDropFromHighPct: new Decimal(5),
+  maxVolatilityPct: new Decimal(50),
+  maxVolumeSpike: null,
+  maxSpreadPct: null,
+};
+
+function analyze(filter: EntryFilter, klines: KlineData[]): EntryAnalysis | null {
+  return new PriceAnalyzer([filter]).analyzeEntry(klines);
+}
+
+describe('PriceAnalyzer', () => {
+  it('should measure the window from the first open to the last close in any order', () => {
+    const analyzer = PriceAnalyzer.fromConfig(DEFAULT_CONFIG);
+    const analysis = analyzer.analyzeEntry([
+      candle(1, 102, 104.5, 101, 104),
+      candle(0, 100, 103, 99, 102),
+    ]);
+
+    expect(analysis?.openPrice.toString()).toBe('100');
+    expect(analysis?.currentPrice.toString()).toBe('104');
+    expect(analysis?.priceChangeFromOpen.toString()).toBe('4');
+    expect(analysis?.dropFromHigh.toFixed(4)).toBe('0.4785');
+    expect(analysis?.shouldTrade).toBe(true);
+    expect(analysis?.verdicts.map((verdict) => verdict.filter)).toEqual([
+      'change-from-open',
+      'drop-from-high',
+      'volatility',
+    ]);
+  });
+
+  it('should reject when any filter rejects and report only the rejections', () => {
+    const analyzer = PriceAnalyzer.fromConfig(DEFAULT_CONFIG);
+    const analysis = analyzer.analyzeEntry([
+      candle(0, 100, 110, 100, 110),
+      candle(1, 110, 120, 110, 120),
+    ]);
+
+    expect(analysis?.shouldTrade).toBe(false);
+    expect(analysis?.reason).toBe(
+      'Price is 20.00% above the open (max 10%); ' +
+        'Price is only 0.00% below a high 20.00% above the open (waiting for 5%)'
+    );
+  });
+
+  it('should return null without candles or a usable price', () => {
+    const analyzer = PriceAnalyzer.fromConfig(DEFAULT_CONFIG);
+
+    expect(analyzer.analyzeEntry([])).toBeNull();
+    expect(analyzer.analyzeEntry([candle(0, 0, 1, 0, 1)])).toBeNull();
+  });
+
+  it('should trade when no filters are enabled', () => {
+    const analysis = new PriceAnalyzer([]).analyzeEntry([candle(0, 100, 500, 100, 500)]);
+
+    expect(analysis).toMatchObject({ shouldTrade: true, reason: 'No entry filters enabled' });
+  });
+
+  it('should only ask for book prices when a filter uses them', () => {
+    expect(PriceAnalyzer.fromConfig(DEFAULT_CONFIG).needsBook).toBe(false);
+    expect(
+      PriceAnalyzer.fromConfig({ ...DEFAULT_CONFIG, maxSpreadPct: new Decimal(1) }).needsBook
+    ).toBe(true);
+  });
+});
+
+describe('entryFiltersFromConfig', () => {
+  it('should skip disabled filters', () => {
+    const filters = entryFiltersFromConfig({
+      maxChangeFromOpenPct: null,
+      minDropFromHighPct: null,
+      maxVolatilityPct: null,
+      maxVolumeSpike: new Decimal(3),
+      maxSpreadPct: new Decimal(1),
+    });
+
+    expect(filters.map((filter) => filter.name)).toEqual(['volume-spike', 'spread']);
+  });
+});
+
+describe('Entry filters', () => {
+  it('should cap the change from the open', () => {
+    const filter = maxChangeFromOpenFilter(new Decimal(10));
+
+    expect(analyze(filter, [candle(0, 100, 110, 100, 110)])?.shouldTrade).toBe(true);
+    expect(analyze(filter, [candle(0, 100, 111, 100, 111)])?.shouldTrade).toBe(false);
+  });
+
+  it('should wait for a pullback after a run-up', () => {
+    const filter = dropFromHighFilter(new Decimal(5));
+
+    // High only 4% above the open: nothing to pull back from
+    expect(analyze(filter, [candle(0, 100, 104, 100, 104)])?.reason).toBe(
+      'No run-up (high 4.00% above open)'
+    );
+    // 20% run-up, 2.5% below the high
+    expect(analyze(filter, [candle(0, 100, 120, 100, 117)])?.shouldTrade).toBe(false);
+    // 20% run-up, 7.5% below the high
+    expect(analyze(filter, [candle(0, 100, 120, 100, 111)])?.reason).toBe(
+      'Pulled back 7.50% from the high'
+    );
+  });
+
+  it('should reject a wide high-low range', () => {
+    const filter = volatilityFilter(new Decimal(50));
+
+    expect(analyze(filter, [candle(0, 100, 150, 100, 120)])?.shouldTrade).toBe(true);
+    expect(analyze(filter, [candle(0, 100, 151, 100, 120)])?.reason).toBe(
+      'Volatility 51.00% exceeds 50%'
+    );
+  });
+
+  it('should compare the last candle volume with the average before it', () => {
+    const filter = volumeSpikeFilter(new Decimal(3));
+    const quiet = [candle(0, 100, 101, 99, 100, 1000), candle(1, 100, 101, 99, 100, 3000)];
+
+    expect(analyze(filter, [...quiet, candle(2, 100, 101, 99, 100, 5000)])?.reason).toBe(
+      'volume 2.5x the average'
+    );
+    expect(analyze(filter, [...quiet, candle(2, 100, 101, 99, 100, 8001)])?.reason).toBe(
+      'Volume spike of 4.0x the average (max 3x)'
+    );
+    expect(analyze(filter, [candle(0, 100, 101, 99, 100, 9000)])?.reason).toBe(
+      'no volume baseline yet'
+    );
+  });
+
+  it('should reject a wide or crossed spread', () => {
+    const analyzer = new PriceAnalyzer([spreadFilter(new Decimal(1))]);
+    const klines = [candle(0, 100, 101, 99, 100)];
+
+    expect(analyzer.analyzeEntry(klines, { bidPrice: '99.6', askPrice: '100.4' })?.reason).toBe(
+      'spread 0.80%'
+    );
+    expect(analyzer.analyzeEntry(klines, { bidPrice: '99', askPrice: '101' })?.reason).toBe(
+      'Spread 2.00% exceeds 1%'
+    );
+    expect(analyzer.analyzeEntry(klines, { bidPrice: '101', askPrice: '99' })?.shouldTrade).toBe(
+      false
+    );
+    expect(analyzer.analyzeEntry(klines)?.reason).toBe('spread not checked (no bid/ask)');
+  });
+});
@@ -0,0 +1,260 @@
+import Decimal from 'decimal.js';
+import { EntryFilterConfig, Kline, KlineData, TickerResponse } from '../types.js';
+import { parseKlines } from './klines.js';
+
+/**
+ * Best bid and ask, as carried by the 24h ticker
+ */
+export type BookPrices = Pick<TickerResponse, 'bidPrice' | 'askPrice'>;
+
+/**
+ * Recent candles (ascending) and the figures the entry filters judge them by
+ */
+export interface EntryContext {
+  klines: Kline[];
+  openPrice: Decimal; // Open of the first candle
+  currentPrice: Decimal; // Close of the last candle
+  highPrice: Decimal;
+  lowPrice: Decimal;
+  book: BookPrices | null;
+}
+
+/**
+ * Outcome of one entry filter
+ */
+export interface FilterVerdict {
+  shouldTrade: boolean;
+  reason: string;
+}
+
+/**
+ * One check of the entry pipeline
+ */
+export interface EntryFilter {
+  name: string;
+  needsBook?: boolean; // Judges bid/ask prices, which cost an extra ticker request
+  evaluate(context: EntryContext): FilterVerdict;
+}
+
+/**
+ * Combined outcome of all entry filters; the trade goes ahead only if every filter passes
+ */
+export interface EntryAnalysis {
+  openPrice: Decimal;
+  currentPrice: Decimal;
+  priceChangeFromOpen: Decimal; // % above (negative: below) the open
+  dropFromHigh: Decimal; // % below the high
+  verdicts: (FilterVerdict & { filter: string })[];
+  shouldTrade: boolean;
+  reason: string;
+}
+
+/**
+ * Percentage `value` is above `base`
+ */
+function pctAbove(value: Decimal, base: Decimal): Decimal {
+  return value.minus(base).div(base).mul(100);
+}
+
+/**
+ * Skip when the price already ran more than maxPct above the window open
+ */
+export function maxChangeFromOpenFilter(maxPct: Decimal): EntryFilter {
+  return {
+    name: 'change-from-open',
+    evaluate({ openPrice, currentPrice }): FilterVerdict {
+      const change = pctAbove(currentPrice, openPrice);
+      return change.gt(maxPct)
+        ? {
+            shouldTrade: false,
+            reason: `Price is ${change.toFixed(2)}% above the open (max ${maxPct.toString()}%)`,
+          }
+        : { shouldTrade: true, reason: `${change.toFixed(2)}% from the open` };
+    },
+  };
+}
+
+/**
+ * After a run-up of at least minDropPct above the open, wait for a pullback of the same size from
+ * the high instead of buying the top
+ */
+export function dropFromHighFilter(minDropPct: Decimal): EntryFilter {
+  return {
+    name: 'drop-from-high',
+    evaluate({ openPrice, currentPrice, highPrice }): FilterVerdict {
+      const runUp = pctAbove(highPrice, openPrice);
+      const drop = highPrice.minus(currentPrice).div(highPrice).mul(100);
+      if (runUp.lt(minDropPct)) {
+        return { shouldTrade: true, reason: `No run-up (high ${runUp.toFixed(2)}% above open)` };
+      }
+      return drop.gte(minDropPct)
+        ? { shouldTrade: true, reason: `Pulled back ${drop.toFixed(2)}% from the high` }
+        : {
+            shouldTrade: false,
+            reason: `Price is only ${drop.toFixed(2)}% below a high ${runUp.toFixed(2)}% above the open (waiting for ${minDropPct.toString()}%)`,
+          };
+    },
+  };
+}
+
+/**
+ * Skip when the window's high-low range exceeds maxPct of the low
+ */
+export function volatilityFilter(maxPct: Decimal): EntryFilter {
+  return {
+    name: 'volatility',
+    evaluate({ highPrice, lowPrice }): FilterVerdict {
+      const range = pctAbove(highPrice, lowPrice);
+      return range.gt(maxPct)
+        ? {
+            shouldTrade: false,
+            reason: `Volatility ${range.toFixed(2)}% exceeds ${maxPct.toString()}%`,
+          }
+        : { shouldTrade: true, reason: `volatility ${range.toFixed(2)}%` };
+    },
+  };
+}
+
+/**
+ * Skip when the last candle's quote volume is more than maxMultiple times the average of the
+ * candles before it (buying into a volume spike tends to buy the peak)
+ * Passes while there is no earlier volume to compare with
+ */
+export function volumeSpikeFilter(maxMultiple: Decimal): EntryFilter {
+  return {
+    name: 'volume-spike',
+    evaluate({ klines }): FilterVerdict {
+      const last = klines[klines.length - 1];
+      const earlier = klines.slice(0, -1);
+      const baseline = earlier.length
+        ? Decimal.sum(...earlier.map((kline) => kline.quoteVolume)).div(earlier.length)
+        : new Decimal(0);
+      if (!last || baseline.lte(0)) {
+        return { shouldTrade: true, reason: 'no volume baseline yet' };
+      }
+
+      const multiple = last.quoteVolume.div(baseline);
+      return multiple.gt(maxMultiple)
+        ? {
+            shouldTrade: false,
+            reason: `Volume spike of ${multiple.toFixed(1)}x the average (max ${maxMultiple.toString()}x)`,
+          }
+        : { shouldTrade: true, reason: `volume ${multiple.toFixed(1)}x the average` };
+    },
+  };
+}
+
+/**
+ * Skip when the bid/ask spread is wider than maxPct of the mid price
+ * Passes when no book prices are available
+ */
+export function spreadFilter(maxPct: Decimal): EntryFilter {
+  return {
+    name: 'spread',
+    needsBook: true,
+    evaluate({ book }): FilterVerdict {
+      if (!book?.bidPrice || !book.askPrice) {
+        return { shouldTrade: true, reason: 'spread not checked (no bid/ask)' };
+      }
+
+      const bid = new Decimal(book.bidPrice);
+      const ask = new Decimal(book.askPrice);
+      const mid = bid.plus(ask).div(2);
+      if (bid.lte(0) || ask.lt(bid)) {
+        return {
+          shouldTrade: false,
+          reason: `No usable order book (bid ${bid.toString()}, ask ${ask.toString()})`,
+        };
+      }
+
+      const spread = ask.minus(bid).div(mid).mul(100);
+      return spread.gt(maxPct)
+        ? {
+            shouldTrade: false,
+            reason: `Spread ${spread.toFixed(2)}% exceeds ${maxPct.toString()}%`,
+          }
+        : { shouldTrade: true, reason: `spread ${spread.toFixed(2)}%` };
+    },
+  };
+}
+
+/**
+ * Filters enabled by the ENTRY_* settings, in the order they are reported
+ */
+export function entryFiltersFromConfig(config: EntryFilterConfig): EntryFilter[] {
+  const filters: EntryFilter[] = [];
+  const {
+    maxChangeFromOpenPct,
+    minDropFromHighPct,
+    maxVolatilityPct,
+    maxVolumeSpike,
+    maxSpreadPct,
+  } = config;
+  if (maxChangeFromOpenPct) filters.push(maxChangeFromOpenFilter(maxChangeFromOpenPct));
+  if (minDropFromHighPct) filters.push(dropFromHighFilter(minDropFromHighPct));
+  if (maxVolatilityPct) filters.push(volatilityFilter(maxVolatilityPct));
+  if (maxVolumeSpike) filters.push(volumeSpikeFilter(maxVolumeSpike));
+  if (maxSpreadPct) filters.push(spreadFilter(maxSpreadPct));
+  return filters;
+}
+
+/**
+ * Runs the entry filter pipeline on the candles before a listing buy to avoid buying the peak
+ */
+export class PriceAnalyzer {
+  constructor(private readonly filters: EntryFilter[]) {}
+
+  /**
+   * Analyzer with the filters enabled in the configuration
+   */
+  static fromConfig(config: EntryFilterConfig): PriceAnalyzer {
+    return new PriceAnalyzer(entryFiltersFromConfig(config));
+  }
+
+  /**
+   * Whether analyzeEntry should be given book prices
+   */
+  get needsBook(): boolean {
+    return this.filters.some((filter) => filter.needsBook);
+  }
+
+  /**
+   * Evaluate every filter on the given candles (in any order) and the optional book prices
+   * Returns null without candles or with a non-positive price, which cannot be analyzed
+   */
+  analyzeEntry(klines: KlineData[], book: BookPrices | null = null): EntryAnalysis | null {
+    const candles = parseKlines(klines);
+    const first = candles[0];
+    const last = candles[candles.length - 1];
+    if (!first || !last) return null;
+
+    const context: EntryContext = {
+      klines: candles,
+      openPrice: first.open,
+      currentPrice: last.close,
+      highPrice: Decimal.max(...candles.map((kline) => kline.high)),
+      lowPrice: Decimal.min(...candles.map((kline) => kline.low)),
+      book,
+    };
+    if (context.openPrice.lte(0) || context.lowPrice.lte(0)) return null;
+
+    const verdicts = this.filters.map((filter) => ({
+      filter: filter.name,
+      ...filter.evaluate(context),
+    }));
+    const rejected = verdicts.filter((verdict) => !verdict.shouldTrade);
+
+    return {
+      openPrice: context.openPrice,
+      currentPrice: context.currentPrice,
+      priceChangeFromOpen: pctAbove(context.currentPrice, context.openPrice),
+      dropFromHigh: context.highPrice.minus(context.currentPrice).div(context.highPrice).mul(100),
+      verdicts,
+      shouldTrade: rejected.length === 0,
+      reason:
+        verdicts.length === 0
+          ? 'No entry filters enabled'
+          : (rejected.length > 0 ? rejected : verdicts).map((verdict) => verdict.reason).join('; '),
+    };
+  }
+}
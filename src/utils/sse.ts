@@ -0,0 +1,47 @@
+import { Request, Response } from 'express';
+
+const HEARTBEAT_MS = 15000; // Comment lines that keep idle streams from being closed
+
+/**
+ * Answer a request with a Server-Sent Events stream
+ * Returns a function that sends one JSON message; the heartbeat stops when the client leaves
+ */
+export function openEventStream(req: Request, res: Response): (data: unknown) => void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => clearInterval(heartbeat));
+
+  return (data) => {
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+  };
+}
+
+/**
+ * Parse a Server-Sent Events body into the JSON data of its messages
+ * Only single-line data fields are used (as written by openEventStream)
+ */
+export async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let end = buffer.indexOf('\n\n');
+    while (end !== -1) {
+      const message = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      end = buffer.indexOf('\n\n');
+
+      for (const line of message.split('\n')) {
+        if (line.startsWith('data: ')) yield JSON.parse(line.slice(6));
+      }
+    }
+  }
+}
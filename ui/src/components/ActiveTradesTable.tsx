@@ -1,10 +1,13 @@
-import type { SerializedTradeState } from '../types';
+import type { SerializedTradeState, TradeAction, TradeStatus } from '../types';
+import { useTradeCommands } from '../hooks/useTradeCommands';
 
 interface ActiveTradesTableProps {
   trades: SerializedTradeState[];
 }
 
 export function ActiveTradesTable({ trades }: ActiveTradesTableProps) {
+  const { pendingMarkets, sendCommand } = useTradeCommands();
+
   if (trades.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 border border-gray-200 dark:border-gray-700 text-center">
@@ -18,6 +21,37 @@ export function ActiveTradesTable({ trades }: ActiveTradesTableProps) {
     return profitPct;
   };
 
+  const getStatusColor = (status: TradeStatus) => {
+    switch (status) {
+      case 'open': return 'text-green-600 dark:text-green-400';
+      case 'pending_buy':
+      case 'pending_sell': return 'text-yellow-600 dark:text-yellow-400';
+      case 'sell_failed':
+      case 'orphaned': return 'text-red-600 dark:text-red-400 font-bold';
+      default: return 'text-gray-500 dark:text-gray-400';
+    }
+  };
+
+  const handleCommand = async (trade: SerializedTradeState, action: TradeAction) => {
+    if (pendingMarkets.has(trade.market)) return;
+
+    if (action === 'sell') {
+      const confirmed = window.confirm(
+        `Sell ${trade.market} at market now?\n` +
+        `Quantity: ${trade.quantity}\n` +
+        `Current price: ${trade.currentPrice}`
+      );
+      if (!confirmed) return;
+    }
+
+    const result = await sendCommand(trade.market, action);
+    if (!result.success) {
+      alert(`Failed to ${action} ${trade.market}: ${result.error}`);
+    } else if (action === 'sell' && result.message) {
+      alert(result.message);
+    }
+  };
+
   const formatDuration = (startTime: string) => {
     const start = new Date(startTime);
     const now = new Date();
@@ -48,6 +82,9 @@ export function ActiveTradesTable({ trades }: ActiveTradesTableProps) {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                 Symbol
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Status
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                 Entry Price
               </th>
@@ -63,21 +100,42 @@ export function ActiveTradesTable({ trades }: ActiveTradesTableProps) {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                 Trailing Stop
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Stop Loss
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                 Duration
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Actions
+              </th>
             </tr>
           </thead>
           <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
             {trades.map((trade) => {
-              const profitLoss = calculateProfitLoss(trade.currentPrice, trade.buyPrice);
+              const status = trade.status ?? 'open';
+              // A pending buy has no fill price yet
+              const profitLoss = status === 'pending_buy' ? 0 : calculateProfitLoss(trade.currentPrice, trade.buyPrice);
               const isProfit = profitLoss > 0;
+              const isBusy = pendingMarkets.has(trade.market);
+              const canSell = status === 'open' || status === 'sell_failed';
 
               return (
                 <tr key={trade.market} className="hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
                     {trade.market}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm" title={trade.lastError}>
+                    <span className={getStatusColor(status)}>{status.replace('_', ' ')}</span>
+                    {trade.pausedAt && (
+                      <span
+                        className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300"
+                        title={`Automatic exits paused since ${new Date(trade.pausedAt).toLocaleString()}`}
+                      >
+                        paused
+                      </span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                     {parseFloat(trade.buyPrice).toFixed(6)}
                   </td>
@@ -88,16 +146,55 @@ export function ActiveTradesTable({ trades }: ActiveTradesTableProps) {
                     <span className={isProfit ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
                       {isProfit ? '+' : ''}{profitLoss.toFixed(2)}%
                     </span>
+                    {!!trade.takeProfitsHit && (
+                      <span className="block text-xs font-normal text-gray-400">
+                        {trade.takeProfitsHit} TP · realised {trade.realizedProfitLossQuote}
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                     {parseFloat(trade.highestPrice).toFixed(6)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                     {parseFloat(trade.trailingStopPrice).toFixed(6)}
+                    {trade.trailingMode === 'atr' && (
+                      <span className="block text-xs text-gray-400">
+                        ATR {trade.volatilityTrailPct ? `${parseFloat(trade.volatilityTrailPct).toFixed(2)}%` : 'pending'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {parseFloat(trade.stopLossPrice).toFixed(6)}
+                    {trade.breakEvenAt && (
+                      <span
+                        className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+                        title={`Moved to break-even at ${new Date(trade.breakEvenAt).toLocaleString()}`}
+                      >
+                        break-even
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                     {formatDuration(trade.startTime)}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm space-x-3">
+                    <button
+                      onClick={() => handleCommand(trade, trade.pausedAt ? 'resume' : 'pause')}
+                      disabled={isBusy}
+                      className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                      title={trade.pausedAt ? 'Re-enable automatic exits' : 'Suspend automatic exits'}
+                    >
+                      {trade.pausedAt ? 'Resume' : 'Pause'}
+                    </button>
+                    <button
+                      onClick={() => handleCommand(trade, 'sell')}
+                      disabled={isBusy || !canSell}
+                      className="px-2 py-1 rounded bg-red-600 text-white font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Sell at market now"
+                    >
+                      Sell
+                    </button>
+                  </td>
                 </tr>
               );
             })}
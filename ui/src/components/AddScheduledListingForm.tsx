@@ -1,15 +1,40 @@
 import React, { useState } from 'react';
 import { useScheduledListings } from '../hooks/useScheduledListings';
+import type { ListingOverrides } from '../types';
+
+const EMPTY_FORM = {
+  symbol: '',
+  listingTime: '',
+  quoteCurrency: 'USDT',
+  notes: '',
+  // Per-listing trade parameters; empty fields keep the .env settings
+  tradeAmount: '',
+  stopLossPct: '',
+  trailingPct: '',
+  trailingMode: '',
+  takeProfitLevels: '',
+  maxHoldMinutes: '',
+  maxEntryPrice: '',
+  referencePrice: '',
+  limitWindowSeconds: '',
+};
+
+const OVERRIDE_FIELDS: { name: keyof ListingOverrides; label: string; placeholder: string }[] = [
+  { name: 'tradeAmount', label: 'Trade Amount', placeholder: 'MAX_TRADE_AMOUNT' },
+  { name: 'stopLossPct', label: 'Stop-Loss %', placeholder: 'STOP_LOSS_PCT' },
+  { name: 'trailingPct', label: 'Trailing %', placeholder: 'TRAILING_PCT' },
+  { name: 'trailingMode', label: 'Trailing Mode (fixed/atr)', placeholder: 'TRAILING_MODE' },
+  { name: 'takeProfitLevels', label: 'Take-Profit (gain:sell,...)', placeholder: 'e.g., 20:50,50:50' },
+  { name: 'maxHoldMinutes', label: 'Max Hold (minutes, 0 = none)', placeholder: 'MAX_HOLD_MINUTES' },
+  { name: 'maxEntryPrice', label: 'Max Entry Price (or Nx)', placeholder: 'market buy, e.g., 0.05 or 3x' },
+  { name: 'referencePrice', label: 'Reference Price (for Nx)', placeholder: 'e.g., 0.01' },
+  { name: 'limitWindowSeconds', label: 'Limit Window (seconds)', placeholder: 'LISTING_LIMIT_WINDOW_SECONDS' },
+];
 
 const AddScheduledListingForm: React.FC = () => {
   const { addListing } = useScheduledListings();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [formData, setFormData] = useState({
-    symbol: '',
-    listingTime: '',
-    quoteCurrency: 'USDT',
-    notes: '',
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,6 +56,12 @@ const AddScheduledListingForm: React.FC = () => {
       return;
     }
 
+    const overrides: ListingOverrides = {};
+    for (const { name } of OVERRIDE_FIELDS) {
+      const value = formData[name].trim();
+      if (value) overrides[name] = value;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -38,17 +69,13 @@ const AddScheduledListingForm: React.FC = () => {
         formData.symbol.toUpperCase().trim(),
         formData.listingTime,
         formData.quoteCurrency,
-        formData.notes.trim() || undefined
+        formData.notes.trim() || undefined,
+        Object.keys(overrides).length > 0 ? overrides : undefined
       );
 
       if (result.success) {
         // Reset form
-        setFormData({
-          symbol: '',
-          listingTime: '',
-          quoteCurrency: 'USDT',
-          notes: '',
-        });
+        setFormData(EMPTY_FORM);
         alert(`Successfully scheduled ${formData.symbol} for ${listingDate.toLocaleString()}`);
       } else {
         alert(`Failed to add listing: ${result.error}`);
@@ -135,6 +162,30 @@ const AddScheduledListingForm: React.FC = () => {
           </p>
         </div>
 
+        <div>
+          <p className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'>
+            Trade Parameters <span className='text-xs text-gray-500 dark:text-gray-400'>(Optional, empty fields use the bot settings)</span>
+          </p>
+          <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+            {OVERRIDE_FIELDS.map(({ name, label, placeholder }) => (
+              <div key={name}>
+                <label htmlFor={name} className='block text-xs text-gray-600 dark:text-gray-400 mb-1'>
+                  {label}
+                </label>
+                <input
+                  type='text'
+                  id={name}
+                  name={name}
+                  value={formData[name]}
+                  onChange={handleInputChange}
+                  placeholder={placeholder}
+                  className='w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
         <div>
           <label htmlFor='notes' className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'>
             Notes <span className='text-xs text-gray-500 dark:text-gray-400'>(Optional)</span>
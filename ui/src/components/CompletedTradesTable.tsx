@@ -19,9 +19,12 @@ export function CompletedTradesTable({ trades }: CompletedTradesTableProps) {
   const getTriggerBadgeColor = (reason: string) => {
     switch (reason) {
       case 'trailing_stop':
+      case 'take_profit':
         return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
       case 'stop_loss':
         return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300';
+      case 'time_exit':
+        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300';
       case 'manual':
         return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300';
       default:
@@ -101,6 +104,9 @@ export function CompletedTradesTable({ trades }: CompletedTradesTableProps) {
                     <span className={isProfit ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
                       {isProfit ? '+' : ''}{trade.profitLossQuote}
                     </span>
+                    {trade.fees && (
+                      <span className="block text-xs text-gray-400">fees {trade.fees.total}</span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                     {trade.durationHours}h
@@ -109,6 +115,9 @@ export function CompletedTradesTable({ trades }: CompletedTradesTableProps) {
                     <span className={`px-2 py-1 text-xs font-medium rounded-full ${getTriggerBadgeColor(trade.triggerReason)}`}>
                       {trade.triggerReason.replace('_', ' ')}
                     </span>
+                    {trade.partial && (
+                      <span className="block text-xs text-gray-400 mt-1">partial · level {trade.takeProfitLevel}</span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-500 dark:text-gray-400">
                     {new Date(trade.sellTime).toLocaleString()}
@@ -73,7 +73,7 @@ export function Dashboard() {
           <StatsCard
             title="Total P&L"
             value={`${totalPnL > 0 ? '+' : ''}${totalPnL.toFixed(2)}%`}
-            subtitle={`${stats?.totalProfitLossUsdt || '0.00'} USDT`}
+            subtitle={`${stats?.totalProfitLossUsdt || '0.00'} USDT net · ${stats?.totalFeesUsdt || '0.00'} fees`}
             trend={totalPnL > 0 ? 'positive' : totalPnL < 0 ? 'negative' : 'neutral'}
           />
           <StatsCard
@@ -127,6 +127,24 @@ export function Dashboard() {
             )}
           </div>
         )}
+
+        {/* Exits by Reason */}
+        {stats && Object.keys(stats.exitReasons).length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 border border-gray-200 dark:border-gray-700 mt-8">
+            <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-3">Exits by Reason</h3>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {Object.entries(stats.exitReasons).map(([reason, { trades, profitLossUsdt }]) => (
+                <div key={reason}>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{reason.replace(/_/g, ' ')}</p>
+                  <p className="text-lg font-bold text-gray-900 dark:text-white">{trades}</p>
+                  <p className={`text-xs ${parseFloat(profitLossUsdt) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {parseFloat(profitLossUsdt) >= 0 ? '+' : ''}{parseFloat(profitLossUsdt).toFixed(2)} USDT
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </main>
     </div>
   );
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { TrashIcon } from '@heroicons/react/24/outline';
 import { useScheduledListings } from '../hooks/useScheduledListings';
-import type { ScheduledListing } from '../types';
+import type { ScheduledListing, ListingOverrides } from '../types';
 
 const ScheduledListingsTable: React.FC = () => {
   const { listings, loading, error, removeListing } = useScheduledListings();
@@ -52,6 +52,29 @@ const ScheduledListingsTable: React.FC = () => {
     }
   };
 
+  const formatFillDelay = (ms: number) => `filled ${ms >= 0 ? '+' : ''}${ms}ms`;
+
+  const formatOverrides = (overrides: ListingOverrides) => {
+    const parts: string[] = [];
+    if (overrides.tradeAmount) parts.push(`amount ${overrides.tradeAmount}`);
+    if (overrides.stopLossPct) parts.push(`SL ${overrides.stopLossPct}%`);
+    if (overrides.trailingPct) parts.push(`trail ${overrides.trailingPct}%`);
+    if (overrides.trailingMode) parts.push(`${overrides.trailingMode} trail`);
+    if (overrides.takeProfitLevels !== undefined) parts.push(`TP ${overrides.takeProfitLevels || 'off'}`);
+    if (overrides.maxHoldMinutes) {
+      parts.push(overrides.maxHoldMinutes === '0' ? 'no max hold' : `hold ${overrides.maxHoldMinutes}m`);
+    }
+    if (overrides.maxEntryPrice) {
+      parts.push(
+        overrides.referencePrice
+          ? `max entry ${overrides.maxEntryPrice} of ${overrides.referencePrice}`
+          : `max entry ${overrides.maxEntryPrice}`
+      );
+    }
+    if (overrides.limitWindowSeconds) parts.push(`limit window ${overrides.limitWindowSeconds}s`);
+    return parts.join(' · ');
+  };
+
   const handleRemove = async (listing: ScheduledListing) => {
     const listingId = `${listing.symbol}-${listing.listingTime}`;
     
@@ -148,10 +171,20 @@ const ScheduledListingsTable: React.FC = () => {
                       }`}>
                         {getTimeUntil(listing.listingTime)}
                       </span>
+                      {listing.fillDelayMs !== undefined && (
+                        <div className='font-mono text-xs text-green-600 dark:text-green-400'>
+                          {formatFillDelay(listing.fillDelayMs)}
+                        </div>
+                      )}
                     </td>
                     <td className='p-3 text-gray-600 dark:text-gray-400'>{listing.quoteCurrency}</td>
                     <td className='p-3 text-gray-600 dark:text-gray-400 max-w-xs truncate'>
                       {listing.notes || '-'}
+                      {listing.overrides && (
+                        <div className='font-mono text-xs text-blue-600 dark:text-blue-400 truncate'>
+                          {formatOverrides(listing.overrides)}
+                        </div>
+                      )}
                     </td>
                     <td className='p-3'>
                       <button
@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
 import type { SerializedTradeState, ApiResponse } from '../types';
+import { useBotEvents } from './useBotEvents';
 
 const API_BASE_URL = 'http://localhost:3001';
-const POLL_INTERVAL = 3000; // 3 seconds
+const POLL_INTERVAL = 3000; // 3 seconds (only while live events are unavailable)
 
 export function useActiveTrades() {
   const [trades, setTrades] = useState<SerializedTradeState[]>([]);
@@ -10,6 +11,20 @@ export function useActiveTrades() {
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
 
+  const live = useBotEvents((event) => {
+    if (event.type === 'trades') {
+      setTrades(event.trades);
+    } else if (event.type === 'trade_update') {
+      setTrades((current) =>
+        current.map((trade) => (trade.market === event.trade.market ? event.trade : trade))
+      );
+    } else {
+      return;
+    }
+    setError(null);
+    setLastUpdate(new Date());
+  });
+
   useEffect(() => {
     const fetchTrades = async () => {
       try {
@@ -30,14 +45,15 @@ export function useActiveTrades() {
       }
     };
 
-    // Initial fetch
+    // Fetch on mount and when live events start or stop (catches up on missed changes)
     fetchTrades();
 
-    // Poll for updates
+    // Poll for updates while the bot's events are not arriving
+    if (live) return;
     const interval = setInterval(fetchTrades, POLL_INTERVAL);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [live]);
 
-  return { trades, loading, error, lastUpdate };
+  return { trades, loading, error, lastUpdate, live };
 }
@@ -0,0 +1,61 @@
+import { useState, useEffect, useRef } from 'react';
+import type { BotEvent } from '../types';
+
+const API_BASE_URL = 'http://localhost:3001';
+
+type Listener = (event: BotEvent) => void;
+
+// One EventSource shared by all hooks, open while at least one of them is mounted
+const listeners = new Set<Listener>();
+const liveListeners = new Set<(live: boolean) => void>();
+let source: EventSource | null = null;
+let live = false;
+
+function setLive(value: boolean) {
+  if (live === value) return;
+  live = value;
+  liveListeners.forEach((listener) => listener(value));
+}
+
+function open() {
+  source = new EventSource(`${API_BASE_URL}/api/events`);
+  source.onmessage = (message) => {
+    const event: BotEvent = JSON.parse(message.data);
+    if (event.type === 'status') setLive(event.botOnline);
+    listeners.forEach((listener) => listener(event));
+  };
+  // EventSource reconnects by itself; hooks poll meanwhile
+  source.onerror = () => setLive(false);
+}
+
+function close() {
+  source?.close();
+  source = null;
+  setLive(false);
+}
+
+/**
+ * Follow the bot's live events
+ * Returns whether events are arriving; while not live, callers poll the REST endpoints instead
+ */
+export function useBotEvents(onEvent: Listener): boolean {
+  const [isLive, setIsLive] = useState(live);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    const listener: Listener = (event) => onEventRef.current(event);
+    listeners.add(listener);
+    liveListeners.add(setIsLive);
+    if (!source) open();
+    setIsLive(live);
+
+    return () => {
+      listeners.delete(listener);
+      liveListeners.delete(setIsLive);
+      if (listeners.size === 0) close();
+    };
+  }, []);
+
+  return isLive;
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import type { CompletedTrade, ApiResponse } from '../types';
+import { useBotEvents } from './useBotEvents';
 
 const API_BASE_URL = 'http://localhost:3001';
 const POLL_INTERVAL = 5000; // 5 seconds (completed trades change less frequently)
@@ -9,33 +10,39 @@ export function useCompletedTrades() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    const fetchTrades = async () => {
-      try {
-        const response = await fetch(`${API_BASE_URL}/api/trades/completed`);
-        const data: ApiResponse<CompletedTrade[]> = await response.json();
-
-        if (data.success && data.data) {
-          setTrades(data.data);
-          setError(null);
-        } else {
-          setError(data.error || 'Failed to fetch completed trades');
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Unknown error');
-      } finally {
-        setLoading(false);
+  const fetchTrades = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/trades/completed`);
+      const data: ApiResponse<CompletedTrade[]> = await response.json();
+
+      if (data.success && data.data) {
+        setTrades(data.data);
+        setError(null);
+      } else {
+        setError(data.error || 'Failed to fetch completed trades');
       }
-    };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
 
-    // Initial fetch
+  // Completed trades only change when a trade (or part of it) is closed
+  const live = useBotEvents((event) => {
+    if (event.type === 'trade_closed') fetchTrades();
+  });
+
+  useEffect(() => {
+    // Initial fetch (again when live events start or stop)
     fetchTrades();
 
-    // Poll for updates
+    // Poll for updates while the bot's events are not arriving
+    if (live) return;
     const interval = setInterval(fetchTrades, POLL_INTERVAL);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [fetchTrades, live]);
 
   return { trades, loading, error };
 }
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import type { ScheduledListing, ApiResponse } from '../types';
+import type { ScheduledListing, ListingOverrides, ApiResponse } from '../types';
+import { useBotEvents } from './useBotEvents';
 
 export function useScheduledListings() {
   const [listings, setListings] = useState<ScheduledListing[]>([]);
@@ -29,7 +30,8 @@ export function useScheduledListings() {
     symbol: string,
     listingTime: string,
     quoteCurrency: string = 'USDT',
-    notes?: string
+    notes?: string,
+    overrides?: ListingOverrides
   ) => {
     try {
       const response = await fetch('http://localhost:3001/api/schedule/listings', {
@@ -42,6 +44,7 @@ export function useScheduledListings() {
           listingTime,
           quoteCurrency,
           notes,
+          overrides,
         }),
       });
 
@@ -86,14 +89,19 @@ export function useScheduledListings() {
     }
   };
 
+  const live = useBotEvents((event) => {
+    if (event.type === 'scheduler') fetchListings();
+  });
+
   useEffect(() => {
     fetchListings();
     
-    // Poll for updates every 5 seconds
+    // Poll for updates every 5 seconds while the bot's events are not arriving
+    if (live) return;
     const interval = setInterval(fetchListings, 5000);
     
     return () => clearInterval(interval);
-  }, []);
+  }, [live]);
 
   return {
     listings,
@@ -129,6 +137,11 @@ export function useUpcomingListings() {
     }
   };
 
+  // Listings also enter the upcoming window as time passes, so polling continues while live
+  useBotEvents((event) => {
+    if (event.type === 'scheduler') fetchUpcoming();
+  });
+
   useEffect(() => {
     fetchUpcoming();
     
@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import type { TradingStats, ApiResponse } from '../types';
+import { useBotEvents } from './useBotEvents';
 
 const API_BASE_URL = 'http://localhost:3001';
 const POLL_INTERVAL = 5000; // 5 seconds
@@ -9,33 +10,40 @@ export function useStats() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    const fetchStats = async () => {
-      try {
-        const response = await fetch(`${API_BASE_URL}/api/stats`);
-        const data: ApiResponse<TradingStats> = await response.json();
-
-        if (data.success && data.data) {
-          setStats(data.data);
-          setError(null);
-        } else {
-          setError(data.error || 'Failed to fetch statistics');
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Unknown error');
-      } finally {
-        setLoading(false);
+  const fetchStats = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/stats`);
+      const data: ApiResponse<TradingStats> = await response.json();
+
+      if (data.success && data.data) {
+        setStats(data.data);
+        setError(null);
+      } else {
+        setError(data.error || 'Failed to fetch statistics');
       }
-    };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
 
-    // Initial fetch
+  // Statistics come from completed trades and the open positions: refetch when a trade (or part
+  // of it) closes and whenever the active trades are saved (a trade opened or partly sold)
+  const live = useBotEvents((event) => {
+    if (event.type === 'trade_closed' || event.type === 'trades') fetchStats();
+  });
+
+  useEffect(() => {
+    // Initial fetch (again when live events start or stop)
     fetchStats();
 
-    // Poll for updates
+    // Poll for updates while the bot's events are not arriving
+    if (live) return;
     const interval = setInterval(fetchStats, POLL_INTERVAL);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [fetchStats, live]);
 
   return { stats, loading, error };
 }
@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import type { ApiResponse, TradeAction } from '../types';
+
+const API_BASE_URL = 'http://localhost:3001';
+
+export function useTradeCommands() {
+  const [pendingMarkets, setPendingMarkets] = useState<Set<string>>(new Set());
+
+  const sendCommand = async (market: string, action: TradeAction) => {
+    setPendingMarkets(prev => new Set(prev).add(market));
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/trades/${market}/${action}`, {
+        method: 'POST',
+      });
+      const result: ApiResponse<unknown> & { message?: string } = await response.json();
+
+      if (result.success) {
+        return { success: true, message: result.message };
+      } else {
+        return { success: false, error: result.error };
+      }
+    } catch (err) {
+      console.error(`Error sending ${action} command:`, err);
+      return { success: false, error: 'Network error' };
+    } finally {
+      setPendingMarkets(prev => {
+        const next = new Set(prev);
+        next.delete(market);
+        return next;
+      });
+    }
+  };
+
+  return {
+    pendingMarkets,
+    sendCommand,
+  };
+}
@@ -1,5 +1,14 @@
 // Types for the trading dashboard
+export type TradeStatus =
+  | 'pending_buy'
+  | 'open'
+  | 'pending_sell'
+  | 'sell_failed'
+  | 'closed'
+  | 'orphaned';
+
 export type SerializedTradeState = {
+  tradeId?: string;
   market: string;
   buyPrice: string;
   quantity: string;
@@ -10,15 +19,39 @@ export type SerializedTradeState = {
   stopLossPrice: string;
   startTime: string;
   lastUpdate: string;
+  buyFeeQuote?: string; // Optional for backward compatibility with old trades
+  status?: TradeStatus; // Always set by /api/trades/active
+  statusChangedAt?: string;
+  lastError?: string;
+  initialQuantity?: string;
+  takeProfitLevels?: { gainPct: string; sellPct: string }[];
+  takeProfitsHit?: number;
+  realizedProfitLossQuote?: string; // Net P&L of take-profit partial exits
+  breakEvenAt?: string; // Set once the stop-loss was moved up to break-even
+  trailingMode?: 'fixed' | 'atr';
+  trailingPct?: string; // Per-trade trail, editable through PATCH /api/trades/:market/stops
+  volatilityTrailPct?: string; // ATR-sized trail in 'atr' mode
+  pausedAt?: string; // Automatic exits suspended from the dashboard
+  maxHoldMinutes?: number | null; // Set when a scheduled listing overrode MAX_HOLD_MINUTES
 }
 
+export type TradeAction = 'sell' | 'pause' | 'resume';
+
 export type CompletedTrade = SerializedTradeState & {
   sellPrice: string;
   sellTime: string;
   profitLossPct: string;
   profitLossQuote: string;
-  triggerReason: 'stop_loss' | 'trailing_stop' | 'manual';
+  triggerReason: 'stop_loss' | 'trailing_stop' | 'take_profit' | 'time_exit' | 'manual';
   durationHours: string;
+  grossProfitLossQuote?: string;
+  fees?: {
+    buy: string;
+    sell: string;
+    total: string;
+  };
+  partial?: boolean; // Take-profit exit of part of a position (same tradeId as the rest)
+  takeProfitLevel?: number;
 }
 
 export type TradingStats = {
@@ -27,6 +60,7 @@ export type TradingStats = {
   losingTrades: number;
   winRate: number;
   totalProfitLossUsdt: string;
+  totalFeesUsdt: string;
   totalProfitLossPct: string;
   avgProfitLossPct: string;
   avgDurationHours: string;
@@ -38,6 +72,10 @@ export type TradingStats = {
     symbol: string;
     lossPct: string;
   } | null;
+  exitReasons: Partial<Record<CompletedTrade['triggerReason'], {
+    trades: number;
+    profitLossUsdt: string;
+  }>>;
   activeTrades: number;
 }
 
@@ -48,12 +86,46 @@ export type ApiResponse<T> = {
   count?: number;
 }
 
+// Per-listing trade parameters replacing the .env settings (missing fields keep them)
+export interface ListingOverrides {
+  tradeAmount?: string;
+  stopLossPct?: string;
+  trailingPct?: string;
+  trailingMode?: string; // 'fixed' or 'atr'
+  takeProfitLevels?: string; // gain:sell pairs, e.g. "20:50,50:50"
+  maxHoldMinutes?: string; // "0" holds indefinitely
+  maxEntryPrice?: string; // Absolute price or a multiple of referencePrice, e.g. "3x"
+  referencePrice?: string;
+  limitWindowSeconds?: string; // How long a capped entry re-prices
+}
+
 export interface ScheduledListing {
   symbol: string;
   listingTime: string;
   quoteCurrency: string;
   notes?: string;
+  overrides?: ListingOverrides;
   status: 'pending' | 'active' | 'completed' | 'missed';
   createdAt: string;
   tradedAt?: string;
+  filledAt?: string;
+  fillDelayMs?: number; // First buy fill relative to listingTime
 }
+
+// Live events of GET /api/events (Server-Sent Events)
+export type BotEvent = { time: string } & (
+  | { type: 'status'; botOnline: boolean } // On connect and whenever the bot goes on- or offline
+  | { type: 'trades'; trades: SerializedTradeState[] }
+  | { type: 'trade_update'; trade: SerializedTradeState }
+  | { type: 'new_high'; market: string; price: string; trailingStopPrice: string }
+  | { type: 'stop_triggered'; market: string; reason: CompletedTrade['triggerReason']; price: string }
+  | { type: 'fill'; market: string; side: 'BUY' | 'SELL'; price: string; quantity: string; quoteQuantity: string }
+  | { type: 'trade_closed'; trade: CompletedTrade }
+  | {
+      type: 'scheduler';
+      event: 'added' | 'removed' | 'timer_set' | 'warm_up' | 'timer_fired' | 'traded' | 'missed';
+      symbol: string;
+      listingTime: string;
+    }
+  | { type: 'log'; level: string; message: string }
+);